@@ -9,6 +9,8 @@ const mocks = vi.hoisted(() => {
   const mockAssignTask = vi.fn();
   const mockUnassignTask = vi.fn();
   const mockGetOrCreateSession = vi.fn();
+  const mockHasSessionFile = vi.fn();
+  const mockCreateNextSession = vi.fn();
 
   class MockAgentInstanceManager {
     createAgentInstance = mockSessionCreate;
@@ -23,15 +25,19 @@ const mocks = vi.hoisted(() => {
 
   class MockSessionRepository {
     getOrCreateSession = mockGetOrCreateSession;
+    hasSessionFile = mockHasSessionFile;
+    createNextSession = mockCreateNextSession;
   }
 
   return {
+    mockHasSessionFile,
     mockSessionCreate,
     mockSessionRemove,
     mockSendMessage,
     mockAssignTask,
     mockUnassignTask,
     mockGetOrCreateSession,
+    mockCreateNextSession,
     MockAgentInstanceManager,
     MockTaskManager,
     MockSessionRepository,
@@ -40,6 +46,10 @@ const mocks = vi.hoisted(() => {
 
 vi.mock("../../templates/index.js", () => ({
   fillImplementorAgentPromptTemplate: vi.fn(() => "test prompt"),
+  fillResumePromptTemplate: vi.fn(() => "resume prompt"),
+  fillImplementorRevisionPromptTemplate: vi.fn(() => "revision prompt"),
+  fillImplementorVerificationPromptTemplate: vi.fn(() => "verification prompt"),
+  fillImplementorRejectionPromptTemplate: vi.fn(() => "rejection prompt"),
   getImplementorSystemPrompt: vi.fn(() => "implementor system prompt"),
 }));
 
@@ -50,6 +60,7 @@ describe("ImplementorAgent", () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    mocks.mockHasSessionFile.mockReturnValue(true);
     mockSessionManager = new mocks.MockAgentInstanceManager();
     mockTaskManager = new mocks.MockTaskManager();
     mockSessionRepository = new mocks.MockSessionRepository();
@@ -57,6 +68,10 @@ describe("ImplementorAgent", () => {
       filename: "implementor-1",
       filePath: "/test/.orchid/sessions/task-1/implementor-1.json",
     });
+    mocks.mockCreateNextSession.mockReturnValue({
+      filename: "implementor-2",
+      filePath: "/test/.orchid/sessions/task-1/implementor-2.json",
+    });
   });
 
   afterEach(() => {
@@ -87,6 +102,7 @@ describe("ImplementorAgent", () => {
         worktreePath: "/test/worktrees/task-1",
         agentInstanceManager: mockSessionManager,
         sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
         taskManager: mockTaskManager,
         onComplete: vi.fn(),
         onError: vi.fn(),
@@ -97,10 +113,11 @@ describe("ImplementorAgent", () => {
       expect(mocks.mockGetOrCreateSession).toHaveBeenCalledWith("task-1", AgentType.IMPLEMENTOR);
       expect(mocks.mockSessionCreate).toHaveBeenCalledWith({
         taskId: "task-1",
+        agentType: AgentType.IMPLEMENTOR,
         workingDirectory: "/test/worktrees/task-1",
         systemPrompt: "implementor system prompt",
         sessionFilePath: "/test/.orchid/sessions/task-1/implementor-1.json",
-        model: { provider: "synthetic", modelId: "kimi-2.5" },
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
       });
     });
 
@@ -127,6 +144,7 @@ describe("ImplementorAgent", () => {
         worktreePath: "/test/worktrees/task-1",
         agentInstanceManager: mockSessionManager,
         sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
         taskManager: mockTaskManager,
         onComplete: vi.fn(),
         onError: vi.fn(),
@@ -160,6 +178,7 @@ describe("ImplementorAgent", () => {
         worktreePath: "/test/worktrees/task-1",
         agentInstanceManager: mockSessionManager,
         sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
         taskManager: mockTaskManager,
         onComplete: vi.fn(),
         onError: vi.fn(),
@@ -174,6 +193,217 @@ describe("ImplementorAgent", () => {
       );
     });
 
+    it("should use the prompts it was given instead of the defaults", async () => {
+      const { fillImplementorAgentPromptTemplate } = await import("../../templates/index.js");
+      mocks.mockSessionCreate.mockResolvedValue({ instanceId: "session-1" });
+      mocks.mockAssignTask.mockResolvedValue(undefined);
+      mocks.mockSendMessage.mockResolvedValue(undefined);
+
+      const agent = createImplementorAgent({
+        taskId: "task-1",
+        dysonTask: {
+          id: "task-1",
+          frontmatter: { title: "Test Task" },
+          description: "Test description",
+          status: "open",
+        },
+        worktreePath: "/test/worktrees/task-1",
+        agentInstanceManager: mockSessionManager,
+        sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
+        taskManager: mockTaskManager,
+        onComplete: vi.fn(),
+        onError: vi.fn(),
+        prompt: "Write failing tests for {{taskTitle}}",
+        systemPrompt: "You write tests first",
+      });
+
+      await agent.start();
+
+      expect(mocks.mockSessionCreate).toHaveBeenCalledWith(
+        expect.objectContaining({ systemPrompt: "You write tests first" })
+      );
+      expect(fillImplementorAgentPromptTemplate).toHaveBeenCalledWith(
+        expect.objectContaining({ taskTitle: "Test Task" }),
+        "Write failing tests for {{taskTitle}}"
+      );
+    });
+
+    it("should send resume prompt instead of initial prompt when resuming", async () => {
+      const mockSession = {
+        instanceId: "session-1",
+        taskId: "task-1",
+        workingDirectory: "/test/worktrees/task-1",
+        createdAt: new Date(),
+        status: "running" as const,
+      };
+      mocks.mockSessionCreate.mockResolvedValue(mockSession);
+      mocks.mockAssignTask.mockResolvedValue(undefined);
+      mocks.mockSendMessage.mockResolvedValue(undefined);
+
+      const agent = createImplementorAgent({
+        taskId: "task-1",
+        dysonTask: {
+          id: "task-1",
+          frontmatter: { title: "Test Task" },
+          description: "Test description",
+          status: "open",
+        },
+        worktreePath: "/test/worktrees/task-1",
+        agentInstanceManager: mockSessionManager,
+        sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
+        taskManager: mockTaskManager,
+        onComplete: vi.fn(),
+        onError: vi.fn(),
+        resume: "restart",
+      });
+
+      await agent.start();
+
+      expect(mocks.mockSendMessage).toHaveBeenCalledWith(
+        "session-1",
+        "resume prompt",
+        "/test/worktrees/task-1"
+      );
+    });
+
+    it("should send the initial prompt when the session to resume was never written", async () => {
+      mocks.mockSessionCreate.mockResolvedValue({ instanceId: "session-1" });
+      mocks.mockAssignTask.mockResolvedValue(undefined);
+      mocks.mockSendMessage.mockResolvedValue(undefined);
+      mocks.mockHasSessionFile.mockReturnValue(false);
+
+      const agent = createImplementorAgent({
+        taskId: "task-1",
+        dysonTask: {
+          id: "task-1",
+          frontmatter: { title: "Test Task" },
+          description: "Test description",
+          status: "open",
+        },
+        worktreePath: "/test/worktrees/task-1",
+        agentInstanceManager: mockSessionManager,
+        sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
+        taskManager: mockTaskManager,
+        onComplete: vi.fn(),
+        onError: vi.fn(),
+        resume: "restart",
+      });
+
+      await agent.start();
+
+      expect(mocks.mockSendMessage).toHaveBeenCalledWith(
+        "session-1",
+        "test prompt",
+        "/test/worktrees/task-1"
+      );
+    });
+
+    it("should send review feedback in a new session when revising", async () => {
+      mocks.mockSessionCreate.mockResolvedValue({ instanceId: "session-1" });
+      mocks.mockAssignTask.mockResolvedValue(undefined);
+      mocks.mockSendMessage.mockResolvedValue(undefined);
+
+      const agent = createImplementorAgent({
+        taskId: "task-1",
+        dysonTask: {
+          id: "task-1",
+          frontmatter: { title: "Test Task" },
+          description: "Test description",
+          status: "open",
+        },
+        worktreePath: "/test/worktrees/task-1",
+        agentInstanceManager: mockSessionManager,
+        sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
+        taskManager: mockTaskManager,
+        onComplete: vi.fn(),
+        onError: vi.fn(),
+        reviewFeedback: ["Add tests"],
+      });
+
+      await agent.start();
+
+      expect(mocks.mockCreateNextSession).toHaveBeenCalledWith("task-1", AgentType.IMPLEMENTOR);
+      expect(mocks.mockSessionCreate).toHaveBeenCalledWith(
+        expect.objectContaining({ sessionFilePath: "/test/.orchid/sessions/task-1/implementor-2.json" })
+      );
+      expect(mocks.mockSendMessage).toHaveBeenCalledWith(
+        "session-1",
+        "revision prompt",
+        "/test/worktrees/task-1"
+      );
+    });
+
+    it("should send the failed verification in a new session", async () => {
+      mocks.mockSessionCreate.mockResolvedValue({ instanceId: "session-1" });
+      mocks.mockAssignTask.mockResolvedValue(undefined);
+      mocks.mockSendMessage.mockResolvedValue(undefined);
+
+      const agent = createImplementorAgent({
+        taskId: "task-1",
+        dysonTask: {
+          id: "task-1",
+          frontmatter: { title: "Test Task" },
+          description: "Test description",
+          status: "open",
+        },
+        worktreePath: "/test/worktrees/task-1",
+        agentInstanceManager: mockSessionManager,
+        sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
+        taskManager: mockTaskManager,
+        onComplete: vi.fn(),
+        onError: vi.fn(),
+        reviewFeedback: ["Add tests"],
+        verificationFailure: { passed: false, summary: "- `npm test` failed", output: "1 test failed", failures: 1 },
+      });
+
+      await agent.start();
+
+      expect(mocks.mockCreateNextSession).toHaveBeenCalledWith("task-1", AgentType.IMPLEMENTOR);
+      expect(mocks.mockSendMessage).toHaveBeenCalledWith(
+        "session-1",
+        "verification prompt",
+        "/test/worktrees/task-1"
+      );
+    });
+
+    it("should send the rejection reason in a new session", async () => {
+      mocks.mockSessionCreate.mockResolvedValue({ instanceId: "session-1" });
+      mocks.mockAssignTask.mockResolvedValue(undefined);
+      mocks.mockSendMessage.mockResolvedValue(undefined);
+
+      const agent = createImplementorAgent({
+        taskId: "task-1",
+        dysonTask: {
+          id: "task-1",
+          frontmatter: { title: "Test Task" },
+          description: "Test description",
+          status: "open",
+        },
+        worktreePath: "/test/worktrees/task-1",
+        agentInstanceManager: mockSessionManager,
+        sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
+        taskManager: mockTaskManager,
+        onComplete: vi.fn(),
+        onError: vi.fn(),
+        rejectionReason: "The endpoint must require authentication",
+      });
+
+      await agent.start();
+
+      expect(mocks.mockCreateNextSession).toHaveBeenCalledWith("task-1", AgentType.IMPLEMENTOR);
+      expect(mocks.mockSendMessage).toHaveBeenCalledWith(
+        "session-1",
+        "rejection prompt",
+        "/test/worktrees/task-1"
+      );
+    });
+
     it("should call onError if session creation fails", async () => {
       mocks.mockSessionCreate.mockRejectedValue(new Error("Session creation failed"));
       const onErrorMock = vi.fn();
@@ -189,6 +419,7 @@ describe("ImplementorAgent", () => {
         worktreePath: "/test/worktrees/task-1",
         agentInstanceManager: mockSessionManager,
         sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
         taskManager: mockTaskManager,
         onComplete: vi.fn(),
         onError: onErrorMock,
@@ -226,6 +457,7 @@ describe("ImplementorAgent", () => {
         worktreePath: "/test/worktrees/task-1",
         agentInstanceManager: mockSessionManager,
         sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
         taskManager: mockTaskManager,
         onComplete: vi.fn(),
         onError: vi.fn(),
@@ -252,6 +484,7 @@ describe("ImplementorAgent", () => {
         worktreePath: "/test/worktrees/task-1",
         agentInstanceManager: mockSessionManager,
         sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
         taskManager: mockTaskManager,
         onComplete: vi.fn(),
         onError: vi.fn(),
@@ -287,6 +520,7 @@ describe("ImplementorAgent", () => {
         worktreePath: "/test/worktrees/task-1",
         agentInstanceManager: mockSessionManager,
         sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
         taskManager: mockTaskManager,
         onComplete: onCompleteMock,
         onError: vi.fn(),
@@ -294,7 +528,7 @@ describe("ImplementorAgent", () => {
 
       await agent.start();
 
-      await (agent as any).handleAgentInstanceIdle();
+      await agent.handleAgentInstanceIdle();
 
       expect(mocks.mockSessionRemove).toHaveBeenCalledWith("task-1");
       expect(onCompleteMock).toHaveBeenCalledWith("task-1");
@@ -315,6 +549,7 @@ describe("ImplementorAgent", () => {
         worktreePath: "/test/worktrees/task-1",
         agentInstanceManager: mockSessionManager,
         sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
         taskManager: mockTaskManager,
         onComplete: vi.fn(),
         onError: vi.fn(),
@@ -346,6 +581,7 @@ describe("ImplementorAgent", () => {
         worktreePath: "/test/worktrees/task-1",
         agentInstanceManager: mockSessionManager,
         sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
         taskManager: mockTaskManager,
         onComplete: vi.fn(),
         onError: vi.fn(),
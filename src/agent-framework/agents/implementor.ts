@@ -14,8 +14,15 @@ import { type SessionRepository } from "../session-repository.js";
 import { AgentType } from "../agent-type.js";
 import { 
   fillImplementorAgentPromptTemplate, 
+  fillResumePromptTemplate,
+  type ResumeReason,
+  fillImplementorRevisionPromptTemplate,
+  fillImplementorVerificationPromptTemplate,
+  fillImplementorRejectionPromptTemplate,
   getImplementorSystemPrompt 
 } from "../../templates/index.js";
+import type { Model } from "../../models/index.js";
+import type { TaskVerification } from "../../core/tasks/index.js";
 import { log } from "../../core/logging/index.js";
 
 export interface ImplementorAgentOptions {
@@ -24,9 +31,25 @@ export interface ImplementorAgentOptions {
   worktreePath: string;
   agentInstanceManager: AgentInstanceManager;
   sessionRepository: SessionRepository;
+  /** Model the agent instance runs with */
+  model: Model;
+  /** Prompt template used instead of the default one, with the same placeholders */
+  prompt?: string;
+  /** System prompt used instead of the default one */
+  systemPrompt?: string;
   taskManager: TaskManager;
   onComplete: (taskId: string) => void;
   onError: (taskId: string, error: Error) => void;
+  /** Reattach to the latest existing session and continue instead of starting over, and why */
+  resume?: ResumeReason;
+  /** Changes requested by a reviewer - starts a new session version that addresses them */
+  reviewFeedback?: string[];
+  /** Failed verification of the previous implementation - starts a new session version that fixes it */
+  verificationFailure?: TaskVerification;
+  /** Why a person rejected the reviewed implementation before merge - starts a new session version that addresses it */
+  rejectionReason?: string;
+  /** Start a new session version instead of reusing the latest, e.g. when retrying after a failure */
+  newSession?: boolean;
 }
 
 export interface ImplementorAgent {
@@ -35,6 +58,7 @@ export interface ImplementorAgent {
   start(): Promise<void>;
   stop(): Promise<void>;
   isRunning(): boolean;
+  handleAgentInstanceIdle(): Promise<void>;
 }
 
 /**
@@ -50,9 +74,17 @@ export class ImplementorAgentImpl implements ImplementorAgent {
   private agentInstance: AgentInstance | undefined;
   private agentInstanceManager: AgentInstanceManager;
   private sessionRepository: SessionRepository;
+  private model: Model;
+  private prompt?: string;
+  private systemPrompt?: string;
   private taskManager: TaskManager;
   private onComplete: (taskId: string) => void;
   private onError: (taskId: string, error: Error) => void;
+  private resume?: ResumeReason;
+  private reviewFeedback?: string[];
+  private verificationFailure?: TaskVerification;
+  private rejectionReason?: string;
+  private newSession: boolean;
   private _isRunning = false;
 
   constructor(options: ImplementorAgentOptions) {
@@ -62,9 +94,17 @@ export class ImplementorAgentImpl implements ImplementorAgent {
     this.worktreePath = options.worktreePath;
     this.agentInstanceManager = options.agentInstanceManager;
     this.sessionRepository = options.sessionRepository;
+    this.model = options.model;
+    this.prompt = options.prompt;
+    this.systemPrompt = options.systemPrompt;
     this.taskManager = options.taskManager;
     this.onComplete = options.onComplete;
     this.onError = options.onError;
+    this.resume = options.resume;
+    this.reviewFeedback = options.reviewFeedback;
+    this.verificationFailure = options.verificationFailure;
+    this.rejectionReason = options.rejectionReason;
+    this.newSession = options.newSession ?? false;
   }
 
   /**
@@ -81,17 +121,26 @@ export class ImplementorAgentImpl implements ImplementorAgent {
     log.log(`[implementor] Starting agent ${this.agentId} for task ${this.taskId}`);
 
     try {
-      // Get or create session from repository
-      const session = this.sessionRepository.getOrCreateSession(this.taskId, AgentType.IMPLEMENTOR);
+      // Revisions and retries get a fresh session; otherwise get or create the latest one from the repository
+      const session = (this.reviewFeedback || this.verificationFailure || this.rejectionReason || this.newSession) && !this.resume
+        ? this.sessionRepository.createNextSession(this.taskId, AgentType.IMPLEMENTOR)
+        : this.sessionRepository.getOrCreateSession(this.taskId, AgentType.IMPLEMENTOR);
       log.log(`[implementor] Using session ${session.filename} for task ${this.taskId}`);
 
+      // A session whose file was never written holds no conversation to resume, so the agent starts over
+      if (this.resume && !this.sessionRepository.hasSessionFile(session)) {
+        log.log(`[implementor] Session ${session.filename} of task ${this.taskId} was never written, starting over`);
+        this.resume = undefined;
+      }
+
       // Create agent instance with implementor system prompt and session file
       this.agentInstance = await this.agentInstanceManager.createAgentInstance({
         taskId: this.taskId,
+        agentType: AgentType.IMPLEMENTOR,
         workingDirectory: this.worktreePath,
-        systemPrompt: getImplementorSystemPrompt(),
+        systemPrompt: this.systemPrompt ?? getImplementorSystemPrompt(),
         sessionFilePath: session.filePath,
-        model: { provider: "synthetic", modelId: "kimi-2.5" },
+        model: this.model,
       });
       log.log(`[implementor] Created agent instance ${this.agentInstance.instanceId} for task ${this.taskId}`);
       
@@ -182,11 +231,38 @@ export class ImplementorAgentImpl implements ImplementorAgent {
     }
     
     try {
-      const promptMessage = fillImplementorAgentPromptTemplate({
-        taskTitle: this.dysonTask.frontmatter.title || "",
-        taskDescription: this.dysonTask.description || "",
-        worktreePath: this.worktreePath,
-      });
+      let promptMessage: string;
+      if (this.resume) {
+        promptMessage = fillResumePromptTemplate({ workingDirectory: this.worktreePath, reason: this.resume });
+      } else if (this.verificationFailure) {
+        promptMessage = fillImplementorVerificationPromptTemplate({
+          taskTitle: this.dysonTask.frontmatter.title || "",
+          taskDescription: this.dysonTask.description || "",
+          worktreePath: this.worktreePath,
+          verificationSummary: this.verificationFailure.summary,
+          verificationOutput: this.verificationFailure.output ?? "",
+        });
+      } else if (this.rejectionReason) {
+        promptMessage = fillImplementorRejectionPromptTemplate({
+          taskTitle: this.dysonTask.frontmatter.title || "",
+          taskDescription: this.dysonTask.description || "",
+          worktreePath: this.worktreePath,
+          rejectionReason: this.rejectionReason,
+        });
+      } else if (this.reviewFeedback) {
+        promptMessage = fillImplementorRevisionPromptTemplate({
+          taskTitle: this.dysonTask.frontmatter.title || "",
+          taskDescription: this.dysonTask.description || "",
+          worktreePath: this.worktreePath,
+          reviewFeedback: this.reviewFeedback,
+        });
+      } else {
+        promptMessage = fillImplementorAgentPromptTemplate({
+          taskTitle: this.dysonTask.frontmatter.title || "",
+          taskDescription: this.dysonTask.description || "",
+          worktreePath: this.worktreePath,
+        }, this.prompt);
+      }
 
       await this.agentInstanceManager.sendMessage(
         this.agentInstance.instanceId,
@@ -8,8 +8,22 @@ const mockPiSession = {
 };
 const mockCreateAgentSession = vi.fn();
 const mockReload = vi.fn();
+const mockFindModel = vi.fn();
+const mockGetAllModels = vi.fn();
+const mockRegisterProvider = vi.fn();
+const mockAuthStorage = {};
+const mockPiModel = { provider: "synthetic", id: "kimi-2.5" };
 
 vi.mock("@mariozechner/pi-coding-agent", () => ({
+  AuthStorage: {
+    create: () => mockAuthStorage,
+  },
+  ModelRegistry: class {
+    authStorage = mockAuthStorage;
+    find = mockFindModel;
+    getAll = mockGetAllModels;
+    registerProvider = mockRegisterProvider;
+  },
   createAgentSession: (...args: unknown[]) => mockCreateAgentSession(...args),
   DefaultResourceLoader: class {
     reload = mockReload;
@@ -25,6 +39,7 @@ vi.mock("node:fs", () => ({
 }));
 
 import { PiSessionAdapter } from "./pi.js";
+import { AgentType } from "../../../agent-type.js";
 import { existsSync, mkdirSync } from "node:fs";
 
 describe("PiSessionAdapter", () => {
@@ -34,6 +49,8 @@ describe("PiSessionAdapter", () => {
   beforeEach(() => {
     vi.clearAllMocks();
     (existsSync as ReturnType<typeof vi.fn>).mockReturnValue(true);
+    mockFindModel.mockReturnValue(mockPiModel);
+    mockGetAllModels.mockReturnValue([mockPiModel]);
     adapter = new PiSessionAdapter({ instancesDir: testSessionsDir });
   });
 
@@ -59,6 +76,48 @@ describe("PiSessionAdapter", () => {
       expect(existsSync).toHaveBeenCalledWith(testSessionsDir);
       expect(mkdirSync).not.toHaveBeenCalled();
     });
+
+    it("should override the base URL and API key of providers Pi knows", () => {
+      new PiSessionAdapter({
+        instancesDir: testSessionsDir,
+        providers: [
+          { name: "synthetic", kind: "openai-compatible", baseUrl: "https://proxy.test/v1", apiKeyEnv: "SYNTHETIC_KEY" },
+          { name: "plain", kind: "anthropic" },
+        ],
+      });
+
+      expect(mockRegisterProvider).toHaveBeenCalledTimes(1);
+      expect(mockRegisterProvider).toHaveBeenCalledWith("synthetic", {
+        baseUrl: "https://proxy.test/v1",
+        apiKey: "SYNTHETIC_KEY",
+      });
+    });
+
+    it("should register the models of providers Pi doesn't know", () => {
+      new PiSessionAdapter({
+        instancesDir: testSessionsDir,
+        providers: [{ name: "local", kind: "openai-compatible", baseUrl: "http://localhost:11434/v1" }],
+        models: [
+          { provider: "local", modelId: "qwen3-coder" },
+          { provider: "synthetic", modelId: "kimi-2.5" },
+        ],
+      });
+
+      expect(mockRegisterProvider).toHaveBeenCalledWith("local", expect.objectContaining({
+        baseUrl: "http://localhost:11434/v1",
+        apiKey: "none",
+        api: "openai-completions",
+        models: [expect.objectContaining({ id: "qwen3-coder", name: "qwen3-coder" })],
+      }));
+    });
+
+    it("should throw if a provider Pi doesn't know has no base URL", () => {
+      expect(() => new PiSessionAdapter({
+        instancesDir: testSessionsDir,
+        providers: [{ name: "local", kind: "openai-compatible" }],
+        models: [{ provider: "local", modelId: "qwen3-coder" }],
+      })).toThrow("Provider local needs a base URL, Pi has no built-in models for it");
+    });
   });
 
   describe("createAgentInstance", () => {
@@ -70,6 +129,7 @@ describe("PiSessionAdapter", () => {
 
       const session = await adapter.createAgentInstance({
         taskId: "task-1",
+        agentType: AgentType.IMPLEMENTOR,
         workingDirectory: "/test/sessions/task-1",
         systemPrompt: "fake system prompt for test",
         model: { provider: "synthetic", modelId: "kimi-2.5" },
@@ -81,6 +141,46 @@ describe("PiSessionAdapter", () => {
       expect(session.instanceId).toMatch(/^pi-task-1-\d+$/);
     });
 
+    it("should pass the requested model to the Pi SDK", async () => {
+      mockCreateAgentSession.mockResolvedValue({
+        session: mockPiSession,
+        extensionsResult: { extensions: [] },
+      });
+
+      await adapter.createAgentInstance({
+        taskId: "task-1",
+        agentType: AgentType.IMPLEMENTOR,
+        workingDirectory: "/test/sessions/task-1",
+        systemPrompt: "fake system prompt for test",
+        model: { provider: "synthetic", modelId: "kimi-2.5" },
+      });
+
+      expect(mockFindModel).toHaveBeenCalledWith("synthetic", "kimi-2.5");
+      expect(mockCreateAgentSession).toHaveBeenCalledWith(
+        expect.objectContaining({
+          model: mockPiModel,
+          authStorage: mockAuthStorage,
+        })
+      );
+    });
+
+    it("should throw error if the model is not in the Pi model registry", async () => {
+      mockFindModel.mockReturnValue(undefined);
+
+      await expect(
+        adapter.createAgentInstance({
+          taskId: "task-1",
+          agentType: AgentType.IMPLEMENTOR,
+          workingDirectory: "/test/sessions/task-1",
+          systemPrompt: "fake system prompt for test",
+          model: { provider: "unknown", modelId: "model" },
+        })
+      ).rejects.toThrow(
+        "Failed to create Pi agent instance for task task-1: Model unknown/model not found in Pi model registry"
+      );
+      expect(mockCreateAgentSession).not.toHaveBeenCalled();
+    });
+
     it("should throw error if instance already exists", async () => {
       mockCreateAgentSession.mockResolvedValue({
         session: mockPiSession,
@@ -89,6 +189,7 @@ describe("PiSessionAdapter", () => {
 
       await adapter.createAgentInstance({
         taskId: "task-1",
+        agentType: AgentType.IMPLEMENTOR,
         workingDirectory: "/test/sessions/task-1",
         systemPrompt: "fake system prompt for test",
         model: { provider: "synthetic", modelId: "kimi-2.5" },
@@ -97,6 +198,7 @@ describe("PiSessionAdapter", () => {
       await expect(
         adapter.createAgentInstance({
           taskId: "task-1",
+          agentType: AgentType.IMPLEMENTOR,
           workingDirectory: "/test/sessions/task-1",
           systemPrompt: "fake system prompt for test",
           model: { provider: "synthetic", modelId: "kimi-2.5" },
@@ -104,6 +206,30 @@ describe("PiSessionAdapter", () => {
       ).rejects.toThrow("Agent instance for task task-1 already exists");
     });
 
+    it("should keep instances of the same task apart by instance key", async () => {
+      mockCreateAgentSession.mockResolvedValue({
+        session: mockPiSession,
+        extensionsResult: { extensions: [] },
+      });
+      const createReviewer = (instanceKey: string) =>
+        adapter.createAgentInstance({
+          taskId: "task-1",
+          instanceKey,
+          agentType: AgentType.REVIEWER,
+          workingDirectory: "/test/sessions/task-1",
+          systemPrompt: "fake system prompt for test",
+          model: { provider: "synthetic", modelId: "kimi-2.5" },
+        });
+
+      const first = await createReviewer("task-1-reviewer-1");
+      const second = await createReviewer("task-1-reviewer-2");
+
+      expect(first.instanceId).toMatch(/^pi-task-1-reviewer-1-\d+$/);
+      expect(second.taskId).toBe("task-1");
+      expect(await adapter.getAgentInstance("task-1-reviewer-2")).toEqual(second);
+      expect(await adapter.getAgentInstance("task-1")).toBeUndefined();
+    });
+
     it("should create working directory if it does not exist", async () => {
       (existsSync as ReturnType<typeof vi.fn>).mockReturnValue(false);
       mockCreateAgentSession.mockResolvedValue({
@@ -113,6 +239,7 @@ describe("PiSessionAdapter", () => {
 
       await adapter.createAgentInstance({
         taskId: "task-1",
+        agentType: AgentType.IMPLEMENTOR,
         workingDirectory: "/test/sessions/task-1",
         systemPrompt: "fake system prompt for test",
         model: { provider: "synthetic", modelId: "kimi-2.5" },
@@ -127,6 +254,7 @@ describe("PiSessionAdapter", () => {
       await expect(
         adapter.createAgentInstance({
           taskId: "task-1",
+          agentType: AgentType.IMPLEMENTOR,
           workingDirectory: "/test/sessions/task-1",
           systemPrompt: "fake system prompt for test",
           model: { provider: "synthetic", modelId: "kimi-2.5" },
@@ -142,6 +270,7 @@ describe("PiSessionAdapter", () => {
 
       await adapter.createAgentInstance({
         taskId: "task-1",
+        agentType: AgentType.IMPLEMENTOR,
         workingDirectory: "/test/sessions/task-1",
         systemPrompt: "fake system prompt for test",
         model: { provider: "synthetic", modelId: "kimi-2.5" },
@@ -160,6 +289,7 @@ describe("PiSessionAdapter", () => {
 
       const createdInstance = await adapter.createAgentInstance({
         taskId: "task-1",
+        agentType: AgentType.IMPLEMENTOR,
         workingDirectory: "/test/sessions/task-1",
         systemPrompt: "fake system prompt for test",
         model: { provider: "synthetic", modelId: "kimi-2.5" },
@@ -177,6 +307,38 @@ describe("PiSessionAdapter", () => {
     });
   });
 
+  describe("lastActivityAt", () => {
+    it("should advance whenever the session emits an event", async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+      let eventListener: ((event: { type: string }) => void) | undefined;
+      mockSubscribe.mockImplementation((listener: (event: { type: string }) => void) => {
+        eventListener = listener;
+        return vi.fn();
+      });
+      mockCreateAgentSession.mockResolvedValue({
+        session: mockPiSession,
+        extensionsResult: { extensions: [] },
+      });
+
+      const created = await adapter.createAgentInstance({
+        taskId: "task-1",
+        agentType: AgentType.IMPLEMENTOR,
+        workingDirectory: "/test/sessions/task-1",
+        systemPrompt: "fake system prompt for test",
+        model: { provider: "synthetic", modelId: "kimi-2.5" },
+      });
+      vi.setSystemTime(new Date("2025-01-01T00:05:00.000Z"));
+      eventListener?.({ type: "message_update" });
+
+      const instance = await adapter.getAgentInstance("task-1");
+      vi.useRealTimers();
+
+      expect(created.lastActivityAt).toEqual(new Date("2025-01-01T00:00:00.000Z"));
+      expect(instance?.lastActivityAt).toEqual(new Date("2025-01-01T00:05:00.000Z"));
+    });
+  });
+
   describe("sendMessage", () => {
     let createdInstanceId: string;
 
@@ -187,6 +349,7 @@ describe("PiSessionAdapter", () => {
       });
       const instance = await adapter.createAgentInstance({
         taskId: "task-1",
+        agentType: AgentType.IMPLEMENTOR,
         workingDirectory: "/test/sessions/task-1",
         systemPrompt: "fake system prompt for test",
         model: { provider: "synthetic", modelId: "kimi-2.5" },
@@ -234,23 +397,25 @@ describe("PiSessionAdapter", () => {
 
       await adapter.createAgentInstance({
         taskId: "task-1",
+        agentType: AgentType.IMPLEMENTOR,
         workingDirectory: "/test/sessions/task-1",
         systemPrompt: "fake system prompt for test",
         model: { provider: "synthetic", modelId: "kimi-2.5" },
       });
 
-      // Simulate message_end event
+      // Simulate agent_end event
       if (eventListener) {
-        eventListener({ type: "message_end" });
+        eventListener({ type: "agent_end" });
       }
 
       expect(callback).toHaveBeenCalledWith("task-1", expect.objectContaining({
         taskId: "task-1",
+        agentType: AgentType.IMPLEMENTOR,
         status: "running",
       }));
     });
 
-    it("should trigger on turn_end event", async () => {
+    it("should not trigger on intermediate message_end or turn_end events", async () => {
       const callback = vi.fn();
       adapter.onAgentInstanceIdle(callback);
 
@@ -267,17 +432,19 @@ describe("PiSessionAdapter", () => {
 
       await adapter.createAgentInstance({
         taskId: "task-1",
+        agentType: AgentType.IMPLEMENTOR,
         workingDirectory: "/test/sessions/task-1",
         systemPrompt: "fake system prompt for test",
         model: { provider: "synthetic", modelId: "kimi-2.5" },
       });
 
-      // Simulate turn_end event
+      // Simulate events emitted while the agent is still working
       if (eventListener) {
+        eventListener({ type: "message_end" });
         eventListener({ type: "turn_end" });
       }
 
-      expect(callback).toHaveBeenCalled();
+      expect(callback).not.toHaveBeenCalled();
     });
 
     it("should call all registered callbacks", async () => {
@@ -299,13 +466,14 @@ describe("PiSessionAdapter", () => {
 
       await adapter.createAgentInstance({
         taskId: "task-1",
+        agentType: AgentType.IMPLEMENTOR,
         workingDirectory: "/test/sessions/task-1",
         systemPrompt: "fake system prompt for test",
         model: { provider: "synthetic", modelId: "kimi-2.5" },
       });
 
       if (eventListener) {
-        eventListener({ type: "message_end" });
+        eventListener({ type: "agent_end" });
       }
 
       expect(callback1).toHaveBeenCalled();
@@ -333,13 +501,14 @@ describe("PiSessionAdapter", () => {
 
       await adapter.createAgentInstance({
         taskId: "task-1",
+        agentType: AgentType.IMPLEMENTOR,
         workingDirectory: "/test/sessions/task-1",
         systemPrompt: "fake system prompt for test",
         model: { provider: "synthetic", modelId: "kimi-2.5" },
       });
 
       if (eventListener) {
-        eventListener({ type: "message_end" });
+        eventListener({ type: "agent_end" });
       }
 
       expect(callback1).toHaveBeenCalled();
@@ -7,8 +7,10 @@
 import { join } from "node:path";
 import { existsSync, mkdirSync } from "node:fs";
 import {
+  AuthStorage,
   createAgentSession,
   DefaultResourceLoader,
+  ModelRegistry,
   SessionManager,
   type AgentSession,
   type CreateAgentSessionResult,
@@ -19,10 +21,28 @@ import {
   type AgentInstanceIdleCallback,
   type CreateAgentInstanceOptions,
 } from "../types.js";
+import type { AgentType } from "../../../agent-type.js";
+import type { Model, Provider, ProviderKind } from "../../../../models/index.js";
+
+type PiProviderConfig = Parameters<ModelRegistry["registerProvider"]>[1];
+
+/** Pi API each provider kind speaks */
+const PI_APIS: Record<ProviderKind, NonNullable<PiProviderConfig["api"]>> = {
+  "anthropic": "anthropic-messages",
+  "openai": "openai-responses",
+  "openai-compatible": "openai-completions",
+  "google": "google-generative-ai",
+};
 
 export interface PiSessionAdapterOptions {
   /** Base directory for all agent instances */
   instancesDir: string;
+  /** Pi model registry used to look up models. Defaults to Pi's registry with its stored credentials. */
+  modelRegistry?: ModelRegistry;
+  /** Providers from providers.json, registered with the Pi model registry */
+  providers?: Provider[];
+  /** Models from models.json, registered for providers Pi has no built-in models for */
+  models?: Model[];
 }
 
 /**
@@ -31,8 +51,11 @@ export interface PiSessionAdapterOptions {
 interface PiAgentInstanceInfo {
   instanceId: string;
   taskId: string;
+  agentType: AgentType;
   workingDirectory: string;
   createdAt: Date;
+  /** When the session last emitted an event */
+  lastActivityAt: Date;
   status: "running" | "stopping" | "stopped";
   /** Pi SDK session instance */
   piSession: AgentSession;
@@ -47,9 +70,12 @@ export class PiSessionAdapter implements AgentInstanceManager {
   private instancesDir: string;
   private instances: Map<string, PiAgentInstanceInfo> = new Map();
   private idleCallbacks: AgentInstanceIdleCallback[] = [];
+  private modelRegistry: ModelRegistry;
 
   constructor(options: PiSessionAdapterOptions) {
     this.instancesDir = options.instancesDir;
+    this.modelRegistry = options.modelRegistry ?? new ModelRegistry(AuthStorage.create());
+    this.registerProviders(options.providers ?? [], options.models ?? []);
 
     // Ensure the instances directory exists
     if (!existsSync(this.instancesDir)) {
@@ -57,13 +83,65 @@ export class PiSessionAdapter implements AgentInstanceManager {
     }
   }
 
+  /**
+   * Register the workspace's providers with the Pi model registry.
+   * Providers Pi already knows get their base URL and API key overridden; other providers
+   * are registered with the models they serve, and need a base URL.
+   * @throws Error if a provider can't be registered
+   */
+  private registerProviders(providers: Provider[], models: Model[]): void {
+    const builtInProviders = new Set(this.modelRegistry.getAll().map((model) => model.provider));
+
+    for (const provider of providers) {
+      const apiKey = provider.apiKeyEnv;
+      if (builtInProviders.has(provider.name)) {
+        if (provider.baseUrl || apiKey) {
+          this.modelRegistry.registerProvider(provider.name, {
+            ...(provider.baseUrl && { baseUrl: provider.baseUrl }),
+            ...(apiKey && { apiKey }),
+          });
+        }
+        continue;
+      }
+
+      const providerModels = models.filter((model) => model.provider === provider.name);
+      if (providerModels.length === 0) {
+        continue;
+      }
+      const api = PI_APIS[provider.kind as ProviderKind];
+      if (!api) {
+        throw new Error(`Provider ${provider.name} has unknown kind ${provider.kind}`);
+      }
+      if (!provider.baseUrl) {
+        throw new Error(`Provider ${provider.name} needs a base URL, Pi has no built-in models for it`);
+      }
+      this.modelRegistry.registerProvider(provider.name, {
+        baseUrl: provider.baseUrl,
+        // Pi requires a key to register models; local servers often accept any
+        apiKey: apiKey ?? "none",
+        api,
+        models: providerModels.map((model) => ({
+          id: model.modelId,
+          name: model.modelId,
+          reasoning: false,
+          input: ["text"],
+          cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 },
+          contextWindow: 128000,
+          maxTokens: 16384,
+        })),
+      });
+    }
+  }
+
   /**
    * Create a new agent instance.
    */
   async createAgentInstance(options: CreateAgentInstanceOptions): Promise<AgentInstance> {
+    const key = options.instanceKey ?? options.taskId;
+
     // Check if instance already exists
-    if (this.instances.has(options.taskId)) {
-      throw new Error(`Agent instance for task ${options.taskId} already exists`);
+    if (this.instances.has(key)) {
+      throw new Error(`Agent instance for task ${key} already exists`);
     }
 
     // Ensure the working directory exists
@@ -72,6 +150,11 @@ export class PiSessionAdapter implements AgentInstanceManager {
     }
 
     try {
+      const model = this.modelRegistry.find(options.model.provider, options.model.modelId);
+      if (!model) {
+        throw new Error(`Model ${options.model.provider}/${options.model.modelId} not found in Pi model registry`);
+      }
+
       const resourceLoader = new DefaultResourceLoader({
         systemPromptOverride: () => options.systemPrompt,
         appendSystemPromptOverride: () => [],
@@ -87,44 +170,60 @@ export class PiSessionAdapter implements AgentInstanceManager {
         cwd: options.workingDirectory,
         resourceLoader,
         sessionManager,
+        model,
+        modelRegistry: this.modelRegistry,
+        authStorage: this.modelRegistry.authStorage,
       });
 
-      const instanceId = `pi-${options.taskId}-${Date.now()}`;
+      const instanceId = `pi-${key}-${Date.now()}`;
 
-      // Subscribe to events to detect when session becomes idle
+      // Subscribe to events to track activity and detect when session becomes idle
       const unsubscribe = result.session.subscribe((event) => {
-        // Check for events that indicate the agent has finished processing
-        if (event.type === "message_end" || event.type === "turn_end") {
-          const instanceInfo = this.instances.get(options.taskId);
+        const activeInstance = this.instances.get(key);
+        if (activeInstance) {
+          activeInstance.lastActivityAt = new Date();
+        }
+
+        // agent_end is emitted once the agent has finished all of its turns for a prompt;
+        // message_end and turn_end also fire mid-run and would complete the agent too early
+        if (event.type === "agent_end") {
+          const instanceInfo = this.instances.get(key);
           if (instanceInfo) {
             this.triggerAgentInstanceIdle(options.taskId, {
               instanceId: instanceInfo.instanceId,
               taskId: instanceInfo.taskId,
+              agentType: instanceInfo.agentType,
               workingDirectory: instanceInfo.workingDirectory,
               createdAt: instanceInfo.createdAt,
+              lastActivityAt: instanceInfo.lastActivityAt,
               status: "running",
             });
           }
         }
       });
 
+      const createdAt = new Date();
       const instanceInfo: PiAgentInstanceInfo = {
         instanceId,
         taskId: options.taskId,
+        agentType: options.agentType,
         workingDirectory: options.workingDirectory,
-        createdAt: new Date(),
+        createdAt,
+        lastActivityAt: createdAt,
         status: "running",
         piSession: result.session,
         unsubscribe,
       };
 
-      this.instances.set(options.taskId, instanceInfo);
+      this.instances.set(key, instanceInfo);
 
       return {
         instanceId,
         taskId: options.taskId,
+        agentType: options.agentType,
         workingDirectory: options.workingDirectory,
         createdAt: instanceInfo.createdAt,
+        lastActivityAt: instanceInfo.lastActivityAt,
         status: "running",
       };
     } catch (error) {
@@ -146,8 +245,10 @@ export class PiSessionAdapter implements AgentInstanceManager {
     return {
       instanceId: instanceInfo.instanceId,
       taskId: instanceInfo.taskId,
+      agentType: instanceInfo.agentType,
       workingDirectory: instanceInfo.workingDirectory,
       createdAt: instanceInfo.createdAt,
+      lastActivityAt: instanceInfo.lastActivityAt,
       status: instanceInfo.status,
     };
   }
@@ -214,7 +315,7 @@ export class PiSessionAdapter implements AgentInstanceManager {
 
   /**
    * Register a callback for agent instance idle events.
-   * For Pi, this is triggered when the agent finishes processing (message_end event).
+   * For Pi, this is triggered when the agent finishes processing (agent_end event).
    */
   onAgentInstanceIdle(callback: AgentInstanceIdleCallback): void {
     this.idleCallbacks.push(callback);
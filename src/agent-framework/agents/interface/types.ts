@@ -5,6 +5,8 @@
  * YAGNI - only includes methods and types currently used by agents.
  */
 
+import type { AgentType } from "../../agent-type.js";
+
 /**
  * Represents an agent instance
  */
@@ -13,10 +15,14 @@ export interface AgentInstance {
   instanceId: string;
   /** The task/agent this instance belongs to */
   taskId: string;
+  /** The type of agent driving this instance */
+  agentType: AgentType;
   /** Path to the instance's working directory */
   workingDirectory: string;
   /** When the instance was created */
   createdAt: Date;
+  /** When the instance last reported activity, used to detect stalled agents */
+  lastActivityAt: Date;
   /** Instance status */
   status: "running" | "stopping" | "stopped";
 }
@@ -30,8 +36,12 @@ export type AgentInstanceIdleCallback = (taskId: string, instance: AgentInstance
  * Options for creating an agent instance
  */
 export interface CreateAgentInstanceOptions {
-  /** The task ID (used as the instance identifier) */
+  /** The task ID (used as the instance identifier unless instanceKey is given) */
   taskId: string;
+  /** Identifies the instance instead of the task ID, for tasks running several instances at once */
+  instanceKey?: string;
+  /** The type of agent driving this instance, reported back in idle events */
+  agentType: AgentType;
   /** Path to the working directory */
   workingDirectory: string;
   /** System prompt to override the default */
@@ -62,7 +72,7 @@ export interface AgentInstanceManager {
   /**
    * Get an agent instance by task ID.
    *
-   * @param taskId - The task identifier
+   * @param taskId - The task identifier, or the instance key the instance was created with
    * @returns The agent instance or undefined if not found
    */
   getAgentInstance(taskId: string): Promise<AgentInstance | undefined>;
@@ -84,7 +94,7 @@ export interface AgentInstanceManager {
   /**
    * Remove an agent instance.
    *
-   * @param taskId - The task identifier
+   * @param taskId - The task identifier, or the instance key the instance was created with
    * @throws Error if instance doesn't exist
    */
   removeAgentInstance(taskId: string): Promise<void>;
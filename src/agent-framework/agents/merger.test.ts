@@ -7,6 +7,8 @@ const mocks = vi.hoisted(() => {
   const mockAgentInstanceRemove = vi.fn();
   const mockSendMessage = vi.fn();
   const mockGetOrCreateSession = vi.fn();
+  const mockHasSessionFile = vi.fn();
+  const mockCreateNextSession = vi.fn();
 
   class MockAgentInstanceManager {
     createAgentInstance = mockAgentInstanceCreate;
@@ -16,13 +18,17 @@ const mocks = vi.hoisted(() => {
 
   class MockSessionRepository {
     getOrCreateSession = mockGetOrCreateSession;
+    hasSessionFile = mockHasSessionFile;
+    createNextSession = mockCreateNextSession;
   }
 
   return {
+    mockHasSessionFile,
     mockAgentInstanceCreate,
     mockAgentInstanceRemove,
     mockSendMessage,
     mockGetOrCreateSession,
+    mockCreateNextSession,
     MockAgentInstanceManager,
     MockSessionRepository,
   };
@@ -39,12 +45,17 @@ describe("MergerAgent", () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    mocks.mockHasSessionFile.mockReturnValue(true);
     mockAgentInstanceManager = new mocks.MockAgentInstanceManager();
     mockSessionRepository = new mocks.MockSessionRepository();
     mocks.mockGetOrCreateSession.mockReturnValue({
       filename: "merger-1",
       filePath: "/test/.orchid/sessions/task-1/merger-1.json",
     });
+    mocks.mockCreateNextSession.mockReturnValue({
+      filename: "merger-2",
+      filePath: "/test/.orchid/sessions/task-1/merger-2.json",
+    });
   });
 
   afterEach(() => {
@@ -66,8 +77,10 @@ describe("MergerAgent", () => {
       const agent = createMergerAgent({
         taskId: "task-1",
         worktreePath: "/test/worktrees/task-1",
+        branch: "orchid/task-1",
         agentInstanceManager: mockAgentInstanceManager,
         sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
         onComplete: vi.fn(),
         onError: vi.fn(),
       });
@@ -77,10 +90,11 @@ describe("MergerAgent", () => {
       expect(mocks.mockGetOrCreateSession).toHaveBeenCalledWith("task-1", AgentType.MERGER);
       expect(mocks.mockAgentInstanceCreate).toHaveBeenCalledWith({
         taskId: "task-1",
+        agentType: AgentType.MERGER,
         workingDirectory: "/test/worktrees/task-1",
         systemPrompt: "merger system prompt",
         sessionFilePath: "/test/.orchid/sessions/task-1/merger-1.json",
-        model: { provider: "synthetic", modelId: "kimi-2.5" },
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
       });
     });
 
@@ -98,8 +112,10 @@ describe("MergerAgent", () => {
       const agent = createMergerAgent({
         taskId: "task-1",
         worktreePath: "/test/worktrees/task-1",
+        branch: "orchid/task-1",
         agentInstanceManager: mockAgentInstanceManager,
         sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
         onComplete: vi.fn(),
         onError: vi.fn(),
       });
@@ -113,6 +129,81 @@ describe("MergerAgent", () => {
       );
     });
 
+    it("should fill the merge prompt with the task branch", async () => {
+      const { fillMergerPromptTemplate } = await import("../../templates/index.js");
+      mocks.mockAgentInstanceCreate.mockResolvedValue({ instanceId: "session-1" });
+      mocks.mockSendMessage.mockResolvedValue(undefined);
+
+      const agent = createMergerAgent({
+        taskId: "task-1",
+        worktreePath: "/test/worktrees/task-1",
+        branch: "orchid/task-1",
+        agentInstanceManager: mockAgentInstanceManager,
+        sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
+        onComplete: vi.fn(),
+        onError: vi.fn(),
+      });
+
+      await agent.start();
+
+      expect(fillMergerPromptTemplate).toHaveBeenCalledWith({
+        taskId: "task-1",
+        worktreePath: "/test/worktrees/task-1",
+        branch: "orchid/task-1",
+        mergeContext: undefined,
+      }, undefined);
+    });
+
+    it("should pass the merge context to the merge prompt", async () => {
+      const { fillMergerPromptTemplate } = await import("../../templates/index.js");
+      mocks.mockAgentInstanceCreate.mockResolvedValue({ instanceId: "session-1" });
+      mocks.mockSendMessage.mockResolvedValue(undefined);
+
+      const agent = createMergerAgent({
+        taskId: "task-1",
+        worktreePath: "/test/worktrees/task-1",
+        branch: "orchid/task-1",
+        agentInstanceManager: mockAgentInstanceManager,
+        sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
+        onComplete: vi.fn(),
+        onError: vi.fn(),
+        mergeContext: "Conflicts in: src/a.ts",
+      });
+
+      await agent.start();
+
+      expect(fillMergerPromptTemplate).toHaveBeenCalledWith(
+        expect.objectContaining({ mergeContext: "Conflicts in: src/a.ts" }),
+        undefined
+      );
+    });
+
+    it("should start a new session when retrying", async () => {
+      mocks.mockAgentInstanceCreate.mockResolvedValue({ instanceId: "session-1" });
+      mocks.mockSendMessage.mockResolvedValue(undefined);
+
+      const agent = createMergerAgent({
+        taskId: "task-1",
+        worktreePath: "/test/worktrees/task-1",
+        branch: "orchid/task-1",
+        agentInstanceManager: mockAgentInstanceManager,
+        sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
+        onComplete: vi.fn(),
+        onError: vi.fn(),
+        newSession: true,
+      });
+
+      await agent.start();
+
+      expect(mocks.mockCreateNextSession).toHaveBeenCalledWith("task-1", AgentType.MERGER);
+      expect(mocks.mockAgentInstanceCreate).toHaveBeenCalledWith(
+        expect.objectContaining({ sessionFilePath: "/test/.orchid/sessions/task-1/merger-2.json" })
+      );
+    });
+
     it("should call onError if session creation fails", async () => {
       mocks.mockAgentInstanceCreate.mockRejectedValue(new Error("Session creation failed"));
       const onErrorMock = vi.fn();
@@ -120,8 +211,10 @@ describe("MergerAgent", () => {
       const agent = createMergerAgent({
         taskId: "task-1",
         worktreePath: "/test/worktrees/task-1",
+        branch: "orchid/task-1",
         agentInstanceManager: mockAgentInstanceManager,
         sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
         onComplete: vi.fn(),
         onError: onErrorMock,
       });
@@ -149,8 +242,10 @@ describe("MergerAgent", () => {
       const agent = createMergerAgent({
         taskId: "task-1",
         worktreePath: "/test/worktrees/task-1",
+        branch: "orchid/task-1",
         agentInstanceManager: mockAgentInstanceManager,
         sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
         onComplete: vi.fn(),
         onError: vi.fn(),
       });
@@ -168,8 +263,10 @@ describe("MergerAgent", () => {
       const agent = createMergerAgent({
         taskId: "task-1",
         worktreePath: "/test/worktrees/task-1",
+        branch: "orchid/task-1",
         agentInstanceManager: mockAgentInstanceManager,
         sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
         onComplete: vi.fn(),
         onError: vi.fn(),
       });
@@ -195,15 +292,17 @@ describe("MergerAgent", () => {
       const agent = createMergerAgent({
         taskId: "task-1",
         worktreePath: "/test/worktrees/task-1",
+        branch: "orchid/task-1",
         agentInstanceManager: mockAgentInstanceManager,
         sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
         onComplete: onCompleteMock,
         onError: vi.fn(),
       });
 
       await agent.start();
 
-      await (agent as any).handleAgentInstanceIdle();
+      await agent.handleAgentInstanceIdle();
 
       expect(mocks.mockAgentInstanceRemove).toHaveBeenCalledWith("task-1");
       expect(onCompleteMock).toHaveBeenCalledWith("task-1");
@@ -216,8 +315,10 @@ describe("MergerAgent", () => {
       const agent = createMergerAgent({
         taskId: "task-1",
         worktreePath: "/test/worktrees/task-1",
+        branch: "orchid/task-1",
         agentInstanceManager: mockAgentInstanceManager,
         sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
         onComplete: vi.fn(),
         onError: vi.fn(),
       });
@@ -239,8 +340,10 @@ describe("MergerAgent", () => {
       const agent = createMergerAgent({
         taskId: "task-1",
         worktreePath: "/test/worktrees/task-1",
+        branch: "orchid/task-1",
         agentInstanceManager: mockAgentInstanceManager,
         sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
         onComplete: vi.fn(),
         onError: vi.fn(),
       });
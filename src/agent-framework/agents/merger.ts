@@ -12,17 +12,34 @@ import { type SessionRepository } from "../session-repository.js";
 import { AgentType } from "../agent-type.js";
 import { 
   fillMergerPromptTemplate,
+  fillResumePromptTemplate,
+  type ResumeReason,
   getMergerSystemPrompt 
 } from "../../templates/index.js";
+import type { Model } from "../../models/index.js";
 import { log } from "../../core/logging/index.js";
 
 export interface MergerAgentOptions {
   taskId: string;
   worktreePath: string;
+  /** Task branch to merge into mainline */
+  branch: string;
   agentInstanceManager: AgentInstanceManager;
   sessionRepository: SessionRepository;
+  /** Model the agent instance runs with */
+  model: Model;
+  /** Prompt template used instead of the default one, with the same placeholders */
+  prompt?: string;
+  /** System prompt used instead of the default one */
+  systemPrompt?: string;
   onComplete: (taskId: string) => void;
   onError: (taskId: string, error: Error) => void;
+  /** Reattach to the latest existing session and continue instead of starting over, and why */
+  resume?: ResumeReason;
+  /** Start a new session version instead of reusing the latest, e.g. when retrying after a failure */
+  newSession?: boolean;
+  /** Why the orchestrator's git merge needs the agent, such as conflicted files or failed check output */
+  mergeContext?: string;
 }
 
 export interface MergerAgent {
@@ -31,27 +48,42 @@ export interface MergerAgent {
   start(): Promise<void>;
   stop(): Promise<void>;
   isRunning(): boolean;
+  handleAgentInstanceIdle(): Promise<void>;
 }
 
 export class MergerAgentImpl implements MergerAgent {
   readonly agentId: string;
   readonly taskId: string;
   private worktreePath: string;
+  private branch: string;
   private agentInstance: AgentInstance | undefined;
   private agentInstanceManager: AgentInstanceManager;
   private sessionRepository: SessionRepository;
+  private model: Model;
+  private prompt?: string;
+  private systemPrompt?: string;
   private onComplete: (taskId: string) => void;
   private onError: (taskId: string, error: Error) => void;
+  private resume?: ResumeReason;
+  private newSession: boolean;
+  private mergeContext?: string;
   private _isRunning = false;
 
   constructor(options: MergerAgentOptions) {
     this.taskId = options.taskId;
     this.agentId = `${options.taskId}-merger`;
     this.worktreePath = options.worktreePath;
+    this.branch = options.branch;
     this.agentInstanceManager = options.agentInstanceManager;
     this.sessionRepository = options.sessionRepository;
+    this.model = options.model;
+    this.prompt = options.prompt;
+    this.systemPrompt = options.systemPrompt;
     this.onComplete = options.onComplete;
     this.onError = options.onError;
+    this.resume = options.resume;
+    this.newSession = options.newSession ?? false;
+    this.mergeContext = options.mergeContext;
   }
 
   async start(): Promise<void> {
@@ -64,15 +96,24 @@ export class MergerAgentImpl implements MergerAgent {
     log.log(`[merger] Starting agent ${this.agentId} for task ${this.taskId}`);
 
     try {
-      const session = this.sessionRepository.getOrCreateSession(this.taskId, AgentType.MERGER);
+      const session = this.newSession && !this.resume
+        ? this.sessionRepository.createNextSession(this.taskId, AgentType.MERGER)
+        : this.sessionRepository.getOrCreateSession(this.taskId, AgentType.MERGER);
       log.log(`[merger] Using session ${session.filename} for task ${this.taskId}`);
 
+      // Without a written session there is nothing to resume, so the merger gets its instructions again
+      if (this.resume && !this.sessionRepository.hasSessionFile(session)) {
+        log.log(`[merger] Session ${session.filename} of task ${this.taskId} was never written, starting over`);
+        this.resume = undefined;
+      }
+
       this.agentInstance = await this.agentInstanceManager.createAgentInstance({
         taskId: this.taskId,
+        agentType: AgentType.MERGER,
         workingDirectory: this.worktreePath,
-        systemPrompt: getMergerSystemPrompt(),
+        systemPrompt: this.systemPrompt ?? getMergerSystemPrompt(),
         sessionFilePath: session.filePath,
-        model: { provider: "synthetic", modelId: "kimi-2.5" },
+        model: this.model,
       });
       log.log(`[merger] Created agent instance ${this.agentInstance.instanceId} for task ${this.taskId}`);
 
@@ -142,10 +183,14 @@ export class MergerAgentImpl implements MergerAgent {
     }
     
     try {
-      const promptMessage = fillMergerPromptTemplate({
-        taskId: this.taskId,
-        worktreePath: this.worktreePath,
-      });
+      const promptMessage = this.resume
+        ? fillResumePromptTemplate({ workingDirectory: this.worktreePath, reason: this.resume })
+        : fillMergerPromptTemplate({
+            taskId: this.taskId,
+            worktreePath: this.worktreePath,
+            branch: this.branch,
+            mergeContext: this.mergeContext,
+          }, this.prompt);
 
       await this.agentInstanceManager.sendMessage(
         this.agentInstance.instanceId,
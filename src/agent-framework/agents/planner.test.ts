@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createPlannerAgent, type PlannerAgentOptions } from "./planner.js";
+import { AgentType } from "../agent-type.js";
+import { fillPlannerPromptTemplate } from "../../templates/index.js";
+
+const mocks = vi.hoisted(() => {
+  const mockAgentInstanceCreate = vi.fn();
+  const mockAgentInstanceRemove = vi.fn();
+  const mockSendMessage = vi.fn();
+  const mockGetOrCreateSession = vi.fn();
+  const mockHasSessionFile = vi.fn();
+  const mockCreateNextSession = vi.fn();
+  const mockReadTaskPlan = vi.fn();
+
+  class MockAgentInstanceManager {
+    createAgentInstance = mockAgentInstanceCreate;
+    removeAgentInstance = mockAgentInstanceRemove;
+    sendMessage = mockSendMessage;
+  }
+
+  class MockSessionRepository {
+    getOrCreateSession = mockGetOrCreateSession;
+    hasSessionFile = mockHasSessionFile;
+    createNextSession = mockCreateNextSession;
+  }
+
+  return {
+    mockHasSessionFile,
+    mockAgentInstanceCreate,
+    mockAgentInstanceRemove,
+    mockSendMessage,
+    mockGetOrCreateSession,
+    mockCreateNextSession,
+    mockReadTaskPlan,
+    MockAgentInstanceManager,
+    MockSessionRepository,
+  };
+});
+
+vi.mock("../../templates/index.js", () => ({
+  fillPlannerPromptTemplate: vi.fn(() => "test plan prompt"),
+  fillResumePromptTemplate: vi.fn(() => "test resume prompt"),
+  getPlannerSystemPrompt: vi.fn(() => "planner system prompt"),
+}));
+
+vi.mock("./task-plan.js", () => ({
+  getPlanFilePath: (sessionFilePath: string) => sessionFilePath.replace(/\.json$/, ".plan.json"),
+  readTaskPlan: mocks.mockReadTaskPlan,
+}));
+
+const PLAN = {
+  tasks: [
+    { id: "schema", title: "Add the sessions table", description: "", dependsOn: [] },
+    { id: "api", title: "Move the login endpoint", description: "", dependsOn: ["schema"] },
+  ],
+};
+
+describe("PlannerAgent", () => {
+  let mockAgentInstanceManager: any;
+  let mockSessionRepository: any;
+
+  const createAgent = (overrides: Partial<PlannerAgentOptions> = {}) =>
+    createPlannerAgent({
+      taskId: "task-1",
+      dysonTask: {
+        id: "task-1",
+        frontmatter: { title: "Migrate the auth module" },
+        description: "Move authentication to the new session store",
+        status: "open",
+      },
+      repositoryPath: "/test/.orchid/main",
+      agentInstanceManager: mockAgentInstanceManager,
+      sessionRepository: mockSessionRepository,
+      model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
+      onComplete: vi.fn(),
+      onError: vi.fn(),
+      ...overrides,
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.mockHasSessionFile.mockReturnValue(true);
+    mockAgentInstanceManager = new mocks.MockAgentInstanceManager();
+    mockSessionRepository = new mocks.MockSessionRepository();
+    mocks.mockGetOrCreateSession.mockReturnValue({
+      filename: "planner-1",
+      filePath: "/test/.orchid/sessions/task-1/planner-1.json",
+    });
+    mocks.mockCreateNextSession.mockReturnValue({
+      filename: "planner-2",
+      filePath: "/test/.orchid/sessions/task-1/planner-2.json",
+    });
+    mocks.mockAgentInstanceCreate.mockResolvedValue({ instanceId: "instance-1", taskId: "task-1" });
+    mocks.mockAgentInstanceRemove.mockResolvedValue(undefined);
+    mocks.mockSendMessage.mockResolvedValue(undefined);
+    mocks.mockReadTaskPlan.mockReturnValue(PLAN);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("start", () => {
+    it("should create an instance in the repository with the planner system prompt", async () => {
+      const agent = createAgent();
+
+      await agent.start();
+
+      expect(agent.agentId).toBe("task-1-planner");
+      expect(mocks.mockGetOrCreateSession).toHaveBeenCalledWith("task-1", AgentType.PLANNER);
+      expect(mocks.mockAgentInstanceCreate).toHaveBeenCalledWith({
+        taskId: "task-1",
+        agentType: AgentType.PLANNER,
+        workingDirectory: "/test/.orchid/main",
+        systemPrompt: "planner system prompt",
+        sessionFilePath: "/test/.orchid/sessions/task-1/planner-1.json",
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
+      });
+      expect(agent.isRunning()).toBe(true);
+    });
+
+    it("should ask for the plan next to the session file", async () => {
+      await createAgent({ prompt: "custom prompt" }).start();
+
+      expect(fillPlannerPromptTemplate).toHaveBeenCalledWith({
+        taskTitle: "Migrate the auth module",
+        taskDescription: "Move authentication to the new session store",
+        repositoryPath: "/test/.orchid/main",
+        planPath: "/test/.orchid/sessions/task-1/planner-1.plan.json",
+      }, "custom prompt");
+      expect(mocks.mockSendMessage).toHaveBeenCalledWith("instance-1", "test plan prompt", "/test/.orchid/main");
+    });
+
+    it("should start a new session when retrying", async () => {
+      await createAgent({ newSession: true }).start();
+
+      expect(mocks.mockCreateNextSession).toHaveBeenCalledWith("task-1", AgentType.PLANNER);
+      expect(fillPlannerPromptTemplate).toHaveBeenCalledWith(
+        expect.objectContaining({ planPath: "/test/.orchid/sessions/task-1/planner-2.plan.json" }),
+        undefined
+      );
+    });
+
+    it("should call onError if instance creation fails", async () => {
+      const onError = vi.fn();
+      mocks.mockAgentInstanceCreate.mockRejectedValue(new Error("Instance creation failed"));
+      const agent = createAgent({ onError });
+
+      await agent.start();
+
+      expect(onError).toHaveBeenCalledWith("task-1", expect.objectContaining({ message: "Instance creation failed" }));
+      expect(agent.isRunning()).toBe(false);
+    });
+  });
+
+  describe("stop", () => {
+    it("should remove the instance when stopped", async () => {
+      const agent = createAgent();
+      await agent.start();
+
+      await agent.stop();
+
+      expect(mocks.mockAgentInstanceRemove).toHaveBeenCalledWith("task-1");
+      expect(agent.isRunning()).toBe(false);
+    });
+  });
+
+  describe("handleAgentInstanceIdle", () => {
+    it("should remove the instance and report the plan", async () => {
+      const onComplete = vi.fn();
+      const agent = createAgent({ onComplete });
+      await agent.start();
+
+      await agent.handleAgentInstanceIdle();
+
+      expect(mocks.mockAgentInstanceRemove).toHaveBeenCalledWith("task-1");
+      expect(mocks.mockReadTaskPlan).toHaveBeenCalledWith("/test/.orchid/sessions/task-1/planner-1.plan.json");
+      expect(onComplete).toHaveBeenCalledWith("task-1", PLAN);
+    });
+
+    it("should call onError when the plan cannot be read", async () => {
+      const onComplete = vi.fn();
+      const onError = vi.fn();
+      mocks.mockReadTaskPlan.mockImplementation(() => {
+        throw new Error("Planner did not write a plan");
+      });
+      const agent = createAgent({ onComplete, onError });
+      await agent.start();
+
+      await agent.handleAgentInstanceIdle();
+
+      expect(onComplete).not.toHaveBeenCalled();
+      expect(onError).toHaveBeenCalledWith("task-1", expect.objectContaining({ message: "Planner did not write a plan" }));
+    });
+  });
+});
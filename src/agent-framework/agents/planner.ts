@@ -0,0 +1,218 @@
+/**
+ * Planner Agent
+ *
+ * Handles the plan phase of an epic.
+ * Creates and manages its own agent instance with the planner system prompt.
+ * Reports the plan back to the orchestrator, which creates the subtasks.
+ * Works in a throwaway worktree of the mainline, since epics get no branch of their own.
+ */
+
+import { type Task as DysonTask } from "dyson-swarm";
+import type { AgentInstance, AgentInstanceManager } from "./interface/index.js";
+import { type SessionRepository } from "../session-repository.js";
+import { AgentType } from "../agent-type.js";
+import {
+  fillPlannerPromptTemplate,
+  fillResumePromptTemplate,
+  type ResumeReason,
+  getPlannerSystemPrompt
+} from "../../templates/index.js";
+import type { Model } from "../../models/index.js";
+import { log } from "../../core/logging/index.js";
+import { getPlanFilePath, readTaskPlan, type TaskPlan } from "./task-plan.js";
+
+export interface PlannerAgentOptions {
+  taskId: string;
+  dysonTask: DysonTask;
+  /** Checkout of the repository the planner explores */
+  repositoryPath: string;
+  agentInstanceManager: AgentInstanceManager;
+  sessionRepository: SessionRepository;
+  /** Model the agent instance runs with */
+  model: Model;
+  /** Prompt template used instead of the default one, with the same placeholders */
+  prompt?: string;
+  /** System prompt used instead of the default one */
+  systemPrompt?: string;
+  onComplete: (taskId: string, plan: TaskPlan) => void;
+  onError: (taskId: string, error: Error) => void;
+  /** Reattach to the latest existing session and continue instead of starting over, and why */
+  resume?: ResumeReason;
+  /** Start a new session version instead of reusing the latest, e.g. when retrying after a failure */
+  newSession?: boolean;
+}
+
+export interface PlannerAgent {
+  readonly agentId: string;
+  readonly taskId: string;
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  isRunning(): boolean;
+  handleAgentInstanceIdle(): Promise<void>;
+}
+
+export class PlannerAgentImpl implements PlannerAgent {
+  readonly agentId: string;
+  readonly taskId: string;
+  private dysonTask: DysonTask;
+  private repositoryPath: string;
+  private agentInstance: AgentInstance | undefined;
+  private agentInstanceManager: AgentInstanceManager;
+  private sessionRepository: SessionRepository;
+  private model: Model;
+  private prompt?: string;
+  private systemPrompt?: string;
+  private onComplete: (taskId: string, plan: TaskPlan) => void;
+  private onError: (taskId: string, error: Error) => void;
+  private resume?: ResumeReason;
+  private newSession: boolean;
+  private planFilePath: string | undefined;
+  private _isRunning = false;
+
+  constructor(options: PlannerAgentOptions) {
+    this.taskId = options.taskId;
+    this.agentId = `${options.taskId}-planner`;
+    this.dysonTask = options.dysonTask;
+    this.repositoryPath = options.repositoryPath;
+    this.agentInstanceManager = options.agentInstanceManager;
+    this.sessionRepository = options.sessionRepository;
+    this.model = options.model;
+    this.prompt = options.prompt;
+    this.systemPrompt = options.systemPrompt;
+    this.onComplete = options.onComplete;
+    this.onError = options.onError;
+    this.resume = options.resume;
+    this.newSession = options.newSession ?? false;
+  }
+
+  async start(): Promise<void> {
+    if (this._isRunning) {
+      log.log(`[planner] Agent ${this.agentId} already running`);
+      return;
+    }
+
+    this._isRunning = true;
+    log.log(`[planner] Starting agent ${this.agentId} for task ${this.taskId}`);
+
+    try {
+      const session = this.newSession && !this.resume
+        ? this.sessionRepository.createNextSession(this.taskId, AgentType.PLANNER)
+        : this.sessionRepository.getOrCreateSession(this.taskId, AgentType.PLANNER);
+      this.planFilePath = getPlanFilePath(session.filePath);
+      log.log(`[planner] Using session ${session.filename} for task ${this.taskId}`);
+
+      // Plan from scratch if the session to resume was never written
+      if (this.resume && !this.sessionRepository.hasSessionFile(session)) {
+        log.log(`[planner] Session ${session.filename} of task ${this.taskId} was never written, starting over`);
+        this.resume = undefined;
+      }
+
+      this.agentInstance = await this.agentInstanceManager.createAgentInstance({
+        taskId: this.taskId,
+        agentType: AgentType.PLANNER,
+        workingDirectory: this.repositoryPath,
+        systemPrompt: this.systemPrompt ?? getPlannerSystemPrompt(),
+        sessionFilePath: session.filePath,
+        model: this.model,
+      });
+      log.log(`[planner] Created agent instance ${this.agentInstance.instanceId} for task ${this.taskId}`);
+
+      await this.sendInitialPrompt();
+
+      log.log(`[planner] Agent ${this.agentId} started successfully`);
+    } catch (error) {
+      log.error(`[planner] Failed to start agent ${this.agentId}:`, error);
+      this._isRunning = false;
+      this.onError(this.taskId, error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (!this._isRunning) {
+      return;
+    }
+
+    log.log(`[planner] Stopping agent ${this.agentId}`);
+    this._isRunning = false;
+
+    if (this.agentInstance) {
+      try {
+        await this.agentInstanceManager.removeAgentInstance(this.taskId);
+        log.log(`[planner] Removed agent instance for task ${this.taskId}`);
+      } catch (error) {
+        log.error(`[planner] Failed to remove agent instance for task ${this.taskId}:`, error);
+      }
+      this.agentInstance = undefined;
+    }
+
+    log.log(`[planner] Agent ${this.agentId} stopped`);
+  }
+
+  isRunning(): boolean {
+    return this._isRunning;
+  }
+
+  async handleAgentInstanceIdle(): Promise<void> {
+    if (!this.agentInstance) {
+      log.error(`[planner] No agent instance available for task ${this.taskId}`);
+      return;
+    }
+
+    log.log(`[planner] Agent instance ${this.agentInstance.instanceId} became idle for task ${this.taskId}`);
+
+    this._isRunning = false;
+
+    try {
+      await this.agentInstanceManager.removeAgentInstance(this.taskId);
+      log.log(`[planner] Removed agent instance for task ${this.taskId}`);
+    } catch (error) {
+      log.error(`[planner] Failed to remove agent instance for task ${this.taskId}:`, error);
+    }
+    this.agentInstance = undefined;
+
+    // Read the plan the planner wrote before going idle
+    let plan: TaskPlan;
+    try {
+      plan = readTaskPlan(this.planFilePath ?? "");
+    } catch (error) {
+      log.error(`[planner] Failed to read plan for task ${this.taskId}:`, error);
+      this.onError(this.taskId, error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+
+    log.log(`[planner] Planned ${plan.tasks.length} subtask(s) for task ${this.taskId}`);
+    this.onComplete(this.taskId, plan);
+  }
+
+  private async sendInitialPrompt(): Promise<void> {
+    if (!this.agentInstance) {
+      throw new Error("Agent instance not available");
+    }
+
+    try {
+      const promptMessage = this.resume
+        ? fillResumePromptTemplate({ workingDirectory: this.repositoryPath, reason: this.resume })
+        : fillPlannerPromptTemplate({
+            taskTitle: this.dysonTask.frontmatter.title || "",
+            taskDescription: this.dysonTask.description || "",
+            repositoryPath: this.repositoryPath,
+            planPath: this.planFilePath ?? "",
+          }, this.prompt);
+
+      await this.agentInstanceManager.sendMessage(
+        this.agentInstance.instanceId,
+        promptMessage,
+        this.repositoryPath
+      );
+      log.log(`[planner] Sent initial prompt`);
+    } catch (error) {
+      throw new Error(
+        `Failed to send initial prompt: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
+
+export function createPlannerAgent(options: PlannerAgentOptions): PlannerAgent {
+  return new PlannerAgentImpl(options);
+}
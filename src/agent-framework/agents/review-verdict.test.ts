@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { existsSync, readFileSync } from "node:fs";
+import { getVerdictFilePath, readReviewVerdict } from "./review-verdict.js";
+
+// Mock the fs module
+vi.mock("node:fs", () => ({
+  existsSync: vi.fn(),
+  readFileSync: vi.fn(),
+}));
+
+const VERDICT_PATH = "/test/.orchid/sessions/task-1/reviewer-1.verdict.json";
+
+describe("review-verdict", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(existsSync).mockReturnValue(true);
+  });
+
+  describe("getVerdictFilePath", () => {
+    it("should place the verdict next to the session file", () => {
+      expect(getVerdictFilePath("/test/.orchid/sessions/task-1/reviewer-1.json")).toBe(VERDICT_PATH);
+    });
+  });
+
+  describe("readReviewVerdict", () => {
+    it("should read an approved verdict", () => {
+      vi.mocked(readFileSync).mockReturnValue('{"verdict": "approved"}');
+
+      expect(readReviewVerdict(VERDICT_PATH)).toEqual({ verdict: "approved" });
+    });
+
+    it("should read a changes requested verdict with reasons", () => {
+      vi.mocked(readFileSync).mockReturnValue(
+        JSON.stringify({ verdict: "changes_requested", reasons: ["Missing tests", ""] })
+      );
+
+      expect(readReviewVerdict(VERDICT_PATH)).toEqual({
+        verdict: "changes_requested",
+        reasons: ["Missing tests"],
+      });
+    });
+
+    it("should throw if the verdict file is missing", () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+
+      expect(() => readReviewVerdict(VERDICT_PATH)).toThrow("Reviewer did not write a verdict");
+    });
+
+    it("should throw if the verdict file is not valid JSON", () => {
+      vi.mocked(readFileSync).mockReturnValue("not json");
+
+      expect(() => readReviewVerdict(VERDICT_PATH)).toThrow("Invalid review verdict");
+    });
+
+    it("should throw if changes are requested without reasons", () => {
+      vi.mocked(readFileSync).mockReturnValue('{"verdict": "changes_requested", "reasons": []}');
+
+      expect(() => readReviewVerdict(VERDICT_PATH)).toThrow("without giving reasons");
+    });
+
+    it("should throw on an unknown verdict", () => {
+      vi.mocked(readFileSync).mockReturnValue('{"verdict": "maybe"}');
+
+      expect(() => readReviewVerdict(VERDICT_PATH)).toThrow('unknown verdict "maybe"');
+    });
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Review Verdict
+ *
+ * Structured result of a review. The reviewer agent writes its verdict as JSON
+ * next to its session file, and the reviewer reads it back once the agent is idle.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+
+/**
+ * Verdict reported by a reviewer agent
+ */
+export type ReviewVerdict =
+  | { verdict: "approved" }
+  | { verdict: "changes_requested"; reasons: string[] };
+
+/**
+ * Get the verdict file path for a reviewer session file
+ * (e.g., reviewer-1.json -> reviewer-1.verdict.json)
+ */
+export function getVerdictFilePath(sessionFilePath: string): string {
+  return sessionFilePath.replace(/\.json$/, ".verdict.json");
+}
+
+/**
+ * Read and validate a verdict file
+ * @param verdictFilePath - Path to the verdict file
+ * @returns The verdict
+ * @throws Error if the file is missing or does not contain a valid verdict
+ */
+export function readReviewVerdict(verdictFilePath: string): ReviewVerdict {
+  if (!existsSync(verdictFilePath)) {
+    throw new Error(`Reviewer did not write a verdict to ${verdictFilePath}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(verdictFilePath, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      `Invalid review verdict in ${verdictFilePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const data = parsed as { verdict?: unknown; reasons?: unknown };
+  if (data?.verdict === "approved") {
+    return { verdict: "approved" };
+  }
+
+  if (data?.verdict === "changes_requested") {
+    const reasons = Array.isArray(data.reasons)
+      ? data.reasons.filter((reason): reason is string => typeof reason === "string" && reason.trim() !== "")
+      : [];
+    if (reasons.length === 0) {
+      throw new Error(`Review verdict in ${verdictFilePath} requests changes without giving reasons`);
+    }
+    return { verdict: "changes_requested", reasons };
+  }
+
+  throw new Error(`Invalid review verdict in ${verdictFilePath}: unknown verdict "${String(data?.verdict)}"`);
+}
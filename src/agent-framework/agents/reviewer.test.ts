@@ -7,6 +7,10 @@ const mocks = vi.hoisted(() => {
   const mockSessionRemove = vi.fn();
   const mockSendMessage = vi.fn();
   const mockGetOrCreateSession = vi.fn();
+  const mockHasSessionFile = vi.fn();
+  const mockCreateNextSession = vi.fn();
+  const mockGetSession = vi.fn();
+  const mockReadReviewVerdict = vi.fn();
 
   class MockAgentInstanceManager {
     createAgentInstance = mockSessionCreate;
@@ -16,13 +20,20 @@ const mocks = vi.hoisted(() => {
 
   class MockSessionRepository {
     getOrCreateSession = mockGetOrCreateSession;
+    hasSessionFile = mockHasSessionFile;
+    createNextSession = mockCreateNextSession;
+    getSession = mockGetSession;
   }
 
   return {
+    mockHasSessionFile,
     mockSessionCreate,
     mockSessionRemove,
     mockSendMessage,
     mockGetOrCreateSession,
+    mockCreateNextSession,
+    mockGetSession,
+    mockReadReviewVerdict,
     MockAgentInstanceManager,
     MockSessionRepository,
   };
@@ -33,18 +44,29 @@ vi.mock("../../templates/index.js", () => ({
   getReviewerSystemPrompt: vi.fn(() => "reviewer system prompt"),
 }));
 
+vi.mock("./review-verdict.js", () => ({
+  getVerdictFilePath: vi.fn((sessionFilePath: string) => sessionFilePath.replace(/\.json$/, ".verdict.json")),
+  readReviewVerdict: mocks.mockReadReviewVerdict,
+}));
+
 describe("ReviewerAgent", () => {
   let mockSessionManager: any;
   let mockSessionRepository: any;
 
   beforeEach(() => {
     vi.clearAllMocks();
+    mocks.mockHasSessionFile.mockReturnValue(true);
     mockSessionManager = new mocks.MockAgentInstanceManager();
     mockSessionRepository = new mocks.MockSessionRepository();
     mocks.mockGetOrCreateSession.mockReturnValue({
       filename: "reviewer-1",
       filePath: "/test/.orchid/sessions/task-1/reviewer-1.json",
     });
+    mocks.mockCreateNextSession.mockReturnValue({
+      filename: "reviewer-2",
+      filePath: "/test/.orchid/sessions/task-1/reviewer-2.json",
+    });
+    mocks.mockReadReviewVerdict.mockReturnValue({ verdict: "approved" });
   });
 
   afterEach(() => {
@@ -74,6 +96,7 @@ describe("ReviewerAgent", () => {
         worktreePath: "/test/worktrees/task-1",
         agentInstanceManager: mockSessionManager,
         sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
         onComplete: vi.fn(),
         onError: vi.fn(),
       });
@@ -83,10 +106,12 @@ describe("ReviewerAgent", () => {
       expect(mocks.mockGetOrCreateSession).toHaveBeenCalledWith("task-1", AgentType.REVIEWER);
       expect(mocks.mockSessionCreate).toHaveBeenCalledWith({
         taskId: "task-1",
+        instanceKey: "task-1",
+        agentType: AgentType.REVIEWER,
         workingDirectory: "/test/worktrees/task-1",
         systemPrompt: "reviewer system prompt",
         sessionFilePath: "/test/.orchid/sessions/task-1/reviewer-1.json",
-        model: { provider: "synthetic", modelId: "kimi-2.5" },
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
       });
     });
 
@@ -112,6 +137,7 @@ describe("ReviewerAgent", () => {
         worktreePath: "/test/worktrees/task-1",
         agentInstanceManager: mockSessionManager,
         sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
         onComplete: vi.fn(),
         onError: vi.fn(),
       });
@@ -125,6 +151,77 @@ describe("ReviewerAgent", () => {
       );
     });
 
+    it("should start a new session for a follow-up review round", async () => {
+      mocks.mockSessionCreate.mockResolvedValue({ instanceId: "session-1" });
+      mocks.mockSendMessage.mockResolvedValue(undefined);
+
+      const agent = createReviewerAgent({
+        taskId: "task-1",
+        dysonTask: {
+          id: "task-1",
+          frontmatter: { title: "Test Task" },
+          description: "Test description",
+          status: "open",
+        },
+        worktreePath: "/test/worktrees/task-1",
+        agentInstanceManager: mockSessionManager,
+        sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
+        onComplete: vi.fn(),
+        onError: vi.fn(),
+        newSession: true,
+      });
+
+      await agent.start();
+
+      expect(mocks.mockCreateNextSession).toHaveBeenCalledWith("task-1", AgentType.REVIEWER);
+      expect(mocks.mockGetOrCreateSession).not.toHaveBeenCalled();
+      expect(mocks.mockSessionCreate).toHaveBeenCalledWith(
+        expect.objectContaining({ sessionFilePath: "/test/.orchid/sessions/task-1/reviewer-2.json" })
+      );
+    });
+
+    it("should run a panel reviewer in its own instance and session version", async () => {
+      mocks.mockSessionCreate.mockResolvedValue({ instanceId: "session-1", taskId: "task-1" });
+      mocks.mockGetSession.mockReturnValue({
+        filename: "reviewer-3",
+        filePath: "/test/.orchid/sessions/task-1/reviewer-3.json",
+      });
+
+      const agent = createReviewerAgent({
+        taskId: "task-1",
+        dysonTask: {
+          id: "task-1",
+          frontmatter: { title: "Test Task" },
+          description: "Test description",
+          status: "open",
+        },
+        worktreePath: "/test/worktrees/task-1",
+        agentInstanceManager: mockSessionManager,
+        sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
+        onComplete: vi.fn(),
+        onError: vi.fn(),
+        reviewer: 2,
+        sessionVersion: 3,
+      });
+
+      await agent.start();
+      await agent.stop();
+
+      expect(agent.agentId).toBe("task-1-reviewer-2");
+      expect(mocks.mockGetSession).toHaveBeenCalledWith("task-1", AgentType.REVIEWER, 3);
+      expect(mocks.mockGetOrCreateSession).not.toHaveBeenCalled();
+      expect(mocks.mockSessionCreate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          taskId: "task-1",
+          instanceKey: "task-1-reviewer-2",
+          sessionFilePath: "/test/.orchid/sessions/task-1/reviewer-3.json",
+        })
+      );
+      expect(mocks.mockSessionRemove).toHaveBeenCalledWith("task-1-reviewer-2");
+    });
+
     it("should call onError if session creation fails", async () => {
       mocks.mockSessionCreate.mockRejectedValue(new Error("Session creation failed"));
       const onErrorMock = vi.fn();
@@ -140,6 +237,7 @@ describe("ReviewerAgent", () => {
         worktreePath: "/test/worktrees/task-1",
         agentInstanceManager: mockSessionManager,
         sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
         onComplete: vi.fn(),
         onError: onErrorMock,
       });
@@ -175,6 +273,7 @@ describe("ReviewerAgent", () => {
         worktreePath: "/test/worktrees/task-1",
         agentInstanceManager: mockSessionManager,
         sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
         onComplete: vi.fn(),
         onError: vi.fn(),
       });
@@ -200,6 +299,7 @@ describe("ReviewerAgent", () => {
         worktreePath: "/test/worktrees/task-1",
         agentInstanceManager: mockSessionManager,
         sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
         onComplete: vi.fn(),
         onError: vi.fn(),
       });
@@ -233,16 +333,84 @@ describe("ReviewerAgent", () => {
         worktreePath: "/test/worktrees/task-1",
         agentInstanceManager: mockSessionManager,
         sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
         onComplete: onCompleteMock,
         onError: vi.fn(),
       });
 
       await agent.start();
 
-      await (agent as any).handleAgentInstanceIdle();
+      await agent.handleAgentInstanceIdle();
 
       expect(mocks.mockSessionRemove).toHaveBeenCalledWith("task-1");
-      expect(onCompleteMock).toHaveBeenCalledWith("task-1");
+      expect(mocks.mockReadReviewVerdict).toHaveBeenCalledWith("/test/.orchid/sessions/task-1/reviewer-1.verdict.json");
+      expect(onCompleteMock).toHaveBeenCalledWith("task-1", { verdict: "approved" });
+      expect(agent.isRunning()).toBe(false);
+    });
+
+    it("should pass requested changes to onComplete", async () => {
+      mocks.mockSessionCreate.mockResolvedValue({ instanceId: "session-1" });
+      mocks.mockSendMessage.mockResolvedValue(undefined);
+      mocks.mockSessionRemove.mockResolvedValue(undefined);
+      mocks.mockReadReviewVerdict.mockReturnValue({ verdict: "changes_requested", reasons: ["Add tests"] });
+      const onCompleteMock = vi.fn();
+
+      const agent = createReviewerAgent({
+        taskId: "task-1",
+        dysonTask: {
+          id: "task-1",
+          frontmatter: { title: "Test Task" },
+          description: "Test description",
+          status: "open",
+        },
+        worktreePath: "/test/worktrees/task-1",
+        agentInstanceManager: mockSessionManager,
+        sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
+        onComplete: onCompleteMock,
+        onError: vi.fn(),
+      });
+
+      await agent.start();
+      await agent.handleAgentInstanceIdle();
+
+      expect(onCompleteMock).toHaveBeenCalledWith("task-1", {
+        verdict: "changes_requested",
+        reasons: ["Add tests"],
+      });
+    });
+
+    it("should call onError when the verdict cannot be read", async () => {
+      mocks.mockSessionCreate.mockResolvedValue({ instanceId: "session-1" });
+      mocks.mockSendMessage.mockResolvedValue(undefined);
+      mocks.mockSessionRemove.mockResolvedValue(undefined);
+      mocks.mockReadReviewVerdict.mockImplementation(() => {
+        throw new Error("Reviewer did not write a verdict");
+      });
+      const onCompleteMock = vi.fn();
+      const onErrorMock = vi.fn();
+
+      const agent = createReviewerAgent({
+        taskId: "task-1",
+        dysonTask: {
+          id: "task-1",
+          frontmatter: { title: "Test Task" },
+          description: "Test description",
+          status: "open",
+        },
+        worktreePath: "/test/worktrees/task-1",
+        agentInstanceManager: mockSessionManager,
+        sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
+        onComplete: onCompleteMock,
+        onError: onErrorMock,
+      });
+
+      await agent.start();
+      await agent.handleAgentInstanceIdle();
+
+      expect(onCompleteMock).not.toHaveBeenCalled();
+      expect(onErrorMock).toHaveBeenCalledWith("task-1", expect.any(Error));
       expect(agent.isRunning()).toBe(false);
     });
   });
@@ -260,6 +428,7 @@ describe("ReviewerAgent", () => {
         worktreePath: "/test/worktrees/task-1",
         agentInstanceManager: mockSessionManager,
         sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
         onComplete: vi.fn(),
         onError: vi.fn(),
       });
@@ -289,6 +458,7 @@ describe("ReviewerAgent", () => {
         worktreePath: "/test/worktrees/task-1",
         agentInstanceManager: mockSessionManager,
         sessionRepository: mockSessionRepository,
+        model: { provider: "anthropic", modelId: "claude-sonnet-4-5" },
         onComplete: vi.fn(),
         onError: vi.fn(),
       });
@@ -10,13 +10,17 @@
 import { type Task as DysonTask } from "dyson-swarm";
 import { type AgentInstance } from "./interface/types.js";
 import type { AgentInstanceManager } from "./interface/index.js";
-import { type SessionRepository } from "../session-repository.js";
+import { type Session, type SessionRepository } from "../session-repository.js";
 import { AgentType } from "../agent-type.js";
 import { 
   fillReviewerPromptTemplate,
+  fillResumePromptTemplate,
+  type ResumeReason,
   getReviewerSystemPrompt 
 } from "../../templates/index.js";
+import type { Model } from "../../models/index.js";
 import { log } from "../../core/logging/index.js";
+import { getVerdictFilePath, readReviewVerdict, type ReviewVerdict } from "./review-verdict.js";
 
 export interface ReviewerAgentOptions {
   taskId: string;
@@ -24,39 +28,84 @@ export interface ReviewerAgentOptions {
   worktreePath: string;
   agentInstanceManager: AgentInstanceManager;
   sessionRepository: SessionRepository;
-  onComplete: (taskId: string) => void;
+  /** Model the agent instance runs with */
+  model: Model;
+  /** Prompt template used instead of the default one, with the same placeholders */
+  prompt?: string;
+  /** System prompt used instead of the default one */
+  systemPrompt?: string;
+  onComplete: (taskId: string, verdict: ReviewVerdict) => void;
   onError: (taskId: string, error: Error) => void;
+  /** Reattach to the latest existing session and continue instead of starting over, and why */
+  resume?: ResumeReason;
+  /** Start a new session version instead of reusing the latest, e.g. for a follow-up review round or a retry */
+  newSession?: boolean;
+  /** Summary of the verification commands the implementation passed */
+  verificationSummary?: string;
+  /** Position on a review panel, starting at 1; panel reviewers get their own agent ID and agent instance */
+  reviewer?: number;
+  /** Session version to use instead of picking one, for panel reviewers that start at the same time */
+  sessionVersion?: number;
+}
+
+/**
+ * Get the agent ID of a task's reviewer
+ * @param reviewer - Position on a review panel, or undefined for a task reviewed by a single reviewer
+ */
+export function getReviewerAgentId(taskId: string, reviewer?: number): string {
+  return reviewer === undefined ? `${taskId}-reviewer` : `${taskId}-reviewer-${reviewer}`;
 }
 
 export interface ReviewerAgent {
   readonly agentId: string;
   readonly taskId: string;
+  /** Key of the reviewer's agent instance in the agent instance manager */
+  readonly instanceKey: string;
   start(): Promise<void>;
   stop(): Promise<void>;
   isRunning(): boolean;
+  getAgentInstance(): AgentInstance | undefined;
+  handleAgentInstanceIdle(): Promise<void>;
 }
 
 export class ReviewerAgentImpl implements ReviewerAgent {
   readonly agentId: string;
   readonly taskId: string;
+  readonly instanceKey: string;
   private dysonTask: DysonTask;
   private worktreePath: string;
   private agentInstance: AgentInstance | undefined;
   private agentInstanceManager: AgentInstanceManager;
   private sessionRepository: SessionRepository;
-  private onComplete: (taskId: string) => void;
+  private model: Model;
+  private prompt?: string;
+  private systemPrompt?: string;
+  private onComplete: (taskId: string, verdict: ReviewVerdict) => void;
   private onError: (taskId: string, error: Error) => void;
+  private resume?: ResumeReason;
+  private newSession: boolean;
+  private verificationSummary?: string;
+  private sessionVersion?: number;
+  private verdictFilePath: string | undefined;
   private _isRunning = false;
 
   constructor(options: ReviewerAgentOptions) {
     this.taskId = options.taskId;
-    this.agentId = `${options.taskId}-reviewer`;
+    this.agentId = getReviewerAgentId(options.taskId, options.reviewer);
+    this.instanceKey = options.reviewer === undefined ? options.taskId : this.agentId;
     this.dysonTask = options.dysonTask;
     this.worktreePath = options.worktreePath;
     this.agentInstanceManager = options.agentInstanceManager;
     this.sessionRepository = options.sessionRepository;
+    this.model = options.model;
+    this.prompt = options.prompt;
+    this.systemPrompt = options.systemPrompt;
     this.onComplete = options.onComplete;
     this.onError = options.onError;
+    this.resume = options.resume;
+    this.newSession = options.newSession ?? false;
+    this.verificationSummary = options.verificationSummary;
+    this.sessionVersion = options.sessionVersion;
   }
 
   async start(): Promise<void> {
@@ -69,15 +118,24 @@ export class ReviewerAgentImpl implements ReviewerAgent {
     log.log(`[reviewer] Starting agent ${this.agentId} for task ${this.taskId}`);
 
     try {
-      const session = this.sessionRepository.getOrCreateSession(this.taskId, AgentType.REVIEWER);
+      const session = this.getSession();
+      this.verdictFilePath = getVerdictFilePath(session.filePath);
       log.log(`[reviewer] Using session ${session.filename} for task ${this.taskId}`);
 
+      // Nothing to resume if the session was never written, so the review starts from the beginning
+      if (this.resume && !this.sessionRepository.hasSessionFile(session)) {
+        log.log(`[reviewer] Session ${session.filename} of task ${this.taskId} was never written, starting over`);
+        this.resume = undefined;
+      }
+
       this.agentInstance = await this.agentInstanceManager.createAgentInstance({
         taskId: this.taskId,
+        instanceKey: this.instanceKey,
+        agentType: AgentType.REVIEWER,
         workingDirectory: this.worktreePath,
-        systemPrompt: getReviewerSystemPrompt(),
+        systemPrompt: this.systemPrompt ?? getReviewerSystemPrompt(),
         sessionFilePath: session.filePath,
-        model: { provider: "synthetic", modelId: "kimi-2.5" },
+        model: this.model,
       });
       log.log(`[reviewer] Created agent instance ${this.agentInstance.instanceId} for task ${this.taskId}`);
       
@@ -101,7 +159,7 @@ export class ReviewerAgentImpl implements ReviewerAgent {
     
     if (this.agentInstance) {
       try {
-        await this.agentInstanceManager.removeAgentInstance(this.taskId);
+        await this.agentInstanceManager.removeAgentInstance(this.instanceKey);
         log.log(`[reviewer] Removed agent instance for task ${this.taskId}`);
       } catch (error) {
         log.error(`[reviewer] Failed to remove agent instance for task ${this.taskId}:`, error);
@@ -131,14 +189,38 @@ export class ReviewerAgentImpl implements ReviewerAgent {
     this._isRunning = false;
     
     try {
-      await this.agentInstanceManager.removeAgentInstance(this.taskId);
+      await this.agentInstanceManager.removeAgentInstance(this.instanceKey);
       log.log(`[reviewer] Removed agent instance for task ${this.taskId}`);
     } catch (error) {
       log.error(`[reviewer] Failed to remove agent instance for task ${this.taskId}:`, error);
     }
     this.agentInstance = undefined;
-    
-    this.onComplete(this.taskId);
+
+    // Read the structured verdict the reviewer wrote before going idle
+    let verdict: ReviewVerdict;
+    try {
+      verdict = readReviewVerdict(this.verdictFilePath ?? "");
+    } catch (error) {
+      log.error(`[reviewer] Failed to read verdict for task ${this.taskId}:`, error);
+      this.onError(this.taskId, error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+
+    log.log(`[reviewer] Review verdict for task ${this.taskId}: ${verdict.verdict}`);
+    this.onComplete(this.taskId, verdict);
+  }
+
+  /**
+   * Get the session to run in: the requested version, the latest one when resuming
+   * or reusing it, or a new version
+   */
+  private getSession(): Session {
+    if (this.sessionVersion !== undefined) {
+      return this.sessionRepository.getSession(this.taskId, AgentType.REVIEWER, this.sessionVersion);
+    }
+    return this.newSession && !this.resume
+      ? this.sessionRepository.createNextSession(this.taskId, AgentType.REVIEWER)
+      : this.sessionRepository.getOrCreateSession(this.taskId, AgentType.REVIEWER);
   }
 
   private async sendInitialPrompt(): Promise<void> {
@@ -147,11 +229,15 @@ export class ReviewerAgentImpl implements ReviewerAgent {
     }
     
     try {
-      const promptMessage = fillReviewerPromptTemplate({
-        taskTitle: this.dysonTask.frontmatter.title || "",
-        taskDescription: this.dysonTask.description || "",
-        worktreePath: this.worktreePath,
-      });
+      const promptMessage = this.resume
+        ? fillResumePromptTemplate({ workingDirectory: this.worktreePath, reason: this.resume })
+        : fillReviewerPromptTemplate({
+            taskTitle: this.dysonTask.frontmatter.title || "",
+            taskDescription: this.dysonTask.description || "",
+            worktreePath: this.worktreePath,
+            verdictPath: this.verdictFilePath ?? "",
+            verificationSummary: this.verificationSummary,
+          }, this.prompt);
 
       await this.agentInstanceManager.sendMessage(
         this.agentInstance.instanceId,
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { existsSync, readFileSync } from "node:fs";
+import { getPlanFilePath, readTaskPlan } from "./task-plan.js";
+
+// Mock the fs module
+vi.mock("node:fs", () => ({
+  existsSync: vi.fn(),
+  readFileSync: vi.fn(),
+}));
+
+const PLAN_PATH = "/test/.orchid/sessions/task-1/planner-1.plan.json";
+
+describe("task-plan", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(existsSync).mockReturnValue(true);
+  });
+
+  const plan = (tasks: unknown) => vi.mocked(readFileSync).mockReturnValue(JSON.stringify({ tasks }));
+
+  describe("getPlanFilePath", () => {
+    it("should place the plan next to the session file", () => {
+      expect(getPlanFilePath("/test/.orchid/sessions/task-1/planner-1.json")).toBe(PLAN_PATH);
+    });
+  });
+
+  describe("readTaskPlan", () => {
+    it("should read the planned tasks in order", () => {
+      plan([
+        { id: "schema", title: "Add the sessions table", description: "Create the migration" },
+        { id: "api", title: " Move the login endpoint ", dependsOn: ["schema", "schema"] },
+      ]);
+
+      expect(readTaskPlan(PLAN_PATH)).toEqual({
+        tasks: [
+          { id: "schema", title: "Add the sessions table", description: "Create the migration", dependsOn: [] },
+          { id: "api", title: "Move the login endpoint", description: "", dependsOn: ["schema"] },
+        ],
+      });
+    });
+
+    it("should throw if the plan file is missing", () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+
+      expect(() => readTaskPlan(PLAN_PATH)).toThrow("Planner did not write a plan");
+    });
+
+    it("should throw if the plan file is not valid JSON", () => {
+      vi.mocked(readFileSync).mockReturnValue("not json");
+
+      expect(() => readTaskPlan(PLAN_PATH)).toThrow("Invalid task plan");
+    });
+
+    it("should throw if the plan lists no tasks", () => {
+      plan([]);
+
+      expect(() => readTaskPlan(PLAN_PATH)).toThrow(`Task plan in ${PLAN_PATH} lists no tasks`);
+    });
+
+    it("should throw if a task has no id or title", () => {
+      plan([{ title: "Add the sessions table" }]);
+      expect(() => readTaskPlan(PLAN_PATH)).toThrow(`Task 1 of the plan in ${PLAN_PATH} has no id`);
+
+      plan([{ id: "schema", title: " " }]);
+      expect(() => readTaskPlan(PLAN_PATH)).toThrow(`Task schema of the plan in ${PLAN_PATH} has no title`);
+    });
+
+    it("should throw if two tasks share an id", () => {
+      plan([
+        { id: "schema", title: "Add the sessions table" },
+        { id: "schema", title: "Add the tokens table" },
+      ]);
+
+      expect(() => readTaskPlan(PLAN_PATH)).toThrow(`Task plan in ${PLAN_PATH} lists more than one task with id schema`);
+    });
+
+    it("should throw if a task depends on a task that does not come before it", () => {
+      plan([
+        { id: "api", title: "Move the login endpoint", dependsOn: ["schema"] },
+        { id: "schema", title: "Add the sessions table" },
+      ]);
+
+      expect(() => readTaskPlan(PLAN_PATH)).toThrow(
+        `Task api of the plan in ${PLAN_PATH} depends on schema, which is not an earlier task`
+      );
+    });
+  });
+});
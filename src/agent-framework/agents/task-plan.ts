@@ -0,0 +1,96 @@
+/**
+ * Task Plan
+ *
+ * Structured result of planning an epic. The planner agent writes the subtasks it broke
+ * the epic down into as JSON next to its session file, and the planner reads them back
+ * once the agent is idle.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+
+/**
+ * A subtask in a plan
+ */
+export interface PlannedTask {
+  /** ID of the subtask within the plan, used by other subtasks to depend on it */
+  id: string;
+  title: string;
+  description: string;
+  /** IDs of the earlier subtasks in the plan that must complete first */
+  dependsOn: string[];
+}
+
+/**
+ * Plan reported by a planner agent
+ */
+export interface TaskPlan {
+  /** Subtasks in the order they are created; subtasks only depend on earlier ones */
+  tasks: PlannedTask[];
+}
+
+/**
+ * Get the plan file path for a planner session file
+ * (e.g., planner-1.json -> planner-1.plan.json)
+ */
+export function getPlanFilePath(sessionFilePath: string): string {
+  return sessionFilePath.replace(/\.json$/, ".plan.json");
+}
+
+/**
+ * Read and validate a plan file
+ * @param planFilePath - Path to the plan file
+ * @returns The plan
+ * @throws Error if the file is missing or does not contain a valid plan
+ */
+export function readTaskPlan(planFilePath: string): TaskPlan {
+  if (!existsSync(planFilePath)) {
+    throw new Error(`Planner did not write a plan to ${planFilePath}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(planFilePath, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      `Invalid task plan in ${planFilePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const entries = (parsed as { tasks?: unknown })?.tasks;
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error(`Task plan in ${planFilePath} lists no tasks`);
+  }
+
+  const tasks: PlannedTask[] = [];
+  entries.forEach((entry, index) => {
+    const data = entry as { id?: unknown; title?: unknown; description?: unknown; dependsOn?: unknown };
+    const id = typeof data?.id === "string" ? data.id.trim() : "";
+    if (!id) {
+      throw new Error(`Task ${index + 1} of the plan in ${planFilePath} has no id`);
+    }
+    if (tasks.some((task) => task.id === id)) {
+      throw new Error(`Task plan in ${planFilePath} lists more than one task with id ${id}`);
+    }
+    const title = typeof data.title === "string" ? data.title.trim() : "";
+    if (!title) {
+      throw new Error(`Task ${id} of the plan in ${planFilePath} has no title`);
+    }
+
+    const dependsOn = Array.isArray(data.dependsOn)
+      ? data.dependsOn.filter((dependency): dependency is string => typeof dependency === "string")
+      : [];
+    const unknown = dependsOn.find((dependency) => !tasks.some((task) => task.id === dependency));
+    if (unknown !== undefined) {
+      throw new Error(`Task ${id} of the plan in ${planFilePath} depends on ${unknown}, which is not an earlier task`);
+    }
+
+    tasks.push({
+      id,
+      title,
+      description: typeof data.description === "string" ? data.description : "",
+      dependsOn: [...new Set(dependsOn)],
+    });
+  });
+
+  return { tasks };
+}
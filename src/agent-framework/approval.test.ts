@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import type { Task as DysonTask } from "dyson-swarm";
+import { requiresApproval } from "./approval.js";
+import { Task } from "../core/tasks/index.js";
+
+const createTask = (labels?: unknown) =>
+  new Task({
+    taskId: "task-1",
+    dysonTask: { id: "task-1", frontmatter: { title: "Test", labels }, description: "", status: "open" } as DysonTask,
+  });
+
+describe("approval", () => {
+  describe("requiresApproval", () => {
+    it("should not require approval by default", () => {
+      expect(requiresApproval(createTask(["security"]), { required: false, labels: [] })).toBe(false);
+    });
+
+    it("should require approval for every task when the workspace requires it", () => {
+      expect(requiresApproval(createTask(), { required: true, labels: [] })).toBe(true);
+    });
+
+    it("should require approval for tasks with a configured label", () => {
+      const config = { required: false, labels: ["needs-approval"] };
+
+      expect(requiresApproval(createTask(["docs", "needs-approval"]), config)).toBe(true);
+      expect(requiresApproval(createTask("docs, needs-approval"), config)).toBe(true);
+      expect(requiresApproval(createTask(["docs"]), config)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,16 @@
+/**
+ * Approval
+ *
+ * Helpers for deciding which tasks need a person's approval before they are merged.
+ */
+
+import type { ApprovalConfig } from "../config/orchid-config.js";
+import type { Task } from "../core/tasks/index.js";
+
+/**
+ * Check whether a task must be approved by a person before it is merged.
+ * Approval is required for every task when the workspace requires it, otherwise for tasks with a configured label.
+ */
+export function requiresApproval(task: Task, config: ApprovalConfig): boolean {
+  return config.required || task.labels.some((label) => config.labels.includes(label));
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { combineVerdicts, validateReviewConfig } from "./consensus.js";
+import type { ReviewVerdict } from "./agents/review-verdict.js";
+
+const approved: ReviewVerdict = { verdict: "approved" };
+const changes = (...reasons: string[]): ReviewVerdict => ({ verdict: "changes_requested", reasons });
+
+describe("consensus", () => {
+  describe("validateReviewConfig", () => {
+    it("should accept the default panel", () => {
+      expect(() => validateReviewConfig({ maxRounds: 3, reviewers: [{}], consensus: "unanimous" })).not.toThrow();
+    });
+
+    it("should reject a panel without reviewers", () => {
+      expect(() => validateReviewConfig({ maxRounds: 3, reviewers: [], consensus: "unanimous" })).toThrow(
+        "review.reviewers must list at least one reviewer"
+      );
+    });
+
+    it("should reject unknown consensus rules", () => {
+      expect(() => validateReviewConfig({ maxRounds: 3, reviewers: [{}], consensus: "most" as "majority" })).toThrow(
+        "Unknown review.consensus rule most, expected one of: unanimous, majority, any-blocks"
+      );
+    });
+  });
+
+  describe("combineVerdicts", () => {
+    it("should pass a single reviewer's verdict through under every rule", () => {
+      for (const rule of ["unanimous", "majority", "any-blocks"] as const) {
+        expect(combineVerdicts(rule, [approved])).toEqual(approved);
+        expect(combineVerdicts(rule, [changes("Add tests")])).toEqual(changes("Add tests"));
+        expect(combineVerdicts(rule, [undefined])).toBeUndefined();
+      }
+    });
+
+    describe("unanimous", () => {
+      it("should approve only when every reviewer approves", () => {
+        expect(combineVerdicts("unanimous", [approved, approved])).toEqual(approved);
+        expect(combineVerdicts("unanimous", [approved, undefined])).toBeUndefined();
+      });
+
+      it("should wait for every reviewer and collect all their reasons", () => {
+        expect(combineVerdicts("unanimous", [changes("Add tests"), undefined])).toBeUndefined();
+        expect(combineVerdicts("unanimous", [changes("Add tests"), approved, changes("Fix lint")])).toEqual(
+          changes("Add tests", "Fix lint")
+        );
+      });
+    });
+
+    describe("majority", () => {
+      it("should approve once more than half of the reviewers approve", () => {
+        expect(combineVerdicts("majority", [approved, approved, undefined])).toEqual(approved);
+        expect(combineVerdicts("majority", [approved, undefined, undefined])).toBeUndefined();
+      });
+
+      it("should request changes once a majority of approvals is out of reach", () => {
+        expect(combineVerdicts("majority", [changes("Add tests"), changes("Fix lint"), undefined])).toEqual(
+          changes("Add tests", "Fix lint")
+        );
+        expect(combineVerdicts("majority", [changes("Add tests"), approved, undefined])).toBeUndefined();
+      });
+
+      it("should request changes on a tie", () => {
+        expect(combineVerdicts("majority", [approved, changes("Add tests")])).toEqual(changes("Add tests"));
+      });
+    });
+
+    describe("any-blocks", () => {
+      it("should request changes as soon as one reviewer requests them", () => {
+        expect(combineVerdicts("any-blocks", [undefined, changes("Add tests"), undefined])).toEqual(changes("Add tests"));
+      });
+
+      it("should approve only when every reviewer approves", () => {
+        expect(combineVerdicts("any-blocks", [approved, undefined])).toBeUndefined();
+        expect(combineVerdicts("any-blocks", [approved, approved])).toEqual(approved);
+      });
+    });
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Review Consensus
+ *
+ * Combines the verdicts of a review panel, where several reviewers review the same worktree in parallel.
+ */
+
+import type { ReviewVerdict } from "./agents/review-verdict.js";
+import type { ReviewConfig } from "../config/orchid-config.js";
+
+/**
+ * How a review panel's verdicts are combined
+ * - unanimous: approved only if every reviewer approves; waits for every verdict, so all feedback is collected
+ * - majority: approved if more than half of the reviewers approve; a tie requests changes
+ * - any-blocks: approved only if every reviewer approves, but decided as soon as one reviewer requests changes
+ */
+export type ConsensusRule = "unanimous" | "majority" | "any-blocks";
+
+/** Every consensus rule, for validating configuration */
+export const CONSENSUS_RULES: ConsensusRule[] = ["unanimous", "majority", "any-blocks"];
+
+/**
+ * Check that the workspace's review panel can run
+ * @throws Error describing the first problem found
+ */
+export function validateReviewConfig(review: ReviewConfig): void {
+  if (!Array.isArray(review.reviewers) || review.reviewers.length === 0) {
+    throw new Error("review.reviewers must list at least one reviewer");
+  }
+  if (!CONSENSUS_RULES.includes(review.consensus)) {
+    throw new Error(`Unknown review.consensus rule ${review.consensus}, expected one of: ${CONSENSUS_RULES.join(", ")}`);
+  }
+}
+
+/**
+ * Combine a panel's verdicts
+ * @param verdicts - One entry per reviewer; undefined for reviewers that have not finished yet
+ * @returns The panel's verdict, or undefined while the outstanding reviewers could still change it.
+ * Requested changes carry the reasons of every reviewer that requested them so far.
+ */
+export function combineVerdicts(rule: ConsensusRule, verdicts: (ReviewVerdict | undefined)[]): ReviewVerdict | undefined {
+  const finished = verdicts.filter((verdict): verdict is ReviewVerdict => verdict !== undefined);
+  const approvals = finished.filter((verdict) => verdict.verdict === "approved").length;
+  const rejections = finished.length - approvals;
+  const pending = verdicts.length - finished.length;
+
+  let approved: boolean;
+  switch (rule) {
+    case "unanimous":
+    case "any-blocks":
+      if (rejections > 0 && (rule === "any-blocks" || pending === 0)) {
+        approved = false;
+      } else if (pending === 0) {
+        approved = true;
+      } else {
+        return undefined;
+      }
+      break;
+    case "majority":
+      if (approvals * 2 > verdicts.length) {
+        approved = true;
+      } else if ((approvals + pending) * 2 <= verdicts.length) {
+        approved = false;
+      } else {
+        return undefined;
+      }
+      break;
+  }
+
+  if (approved) {
+    return { verdict: "approved" };
+  }
+  const reasons = finished.flatMap((verdict) => (verdict.verdict === "changes_requested" ? verdict.reasons : []));
+  return { verdict: "changes_requested", reasons };
+}
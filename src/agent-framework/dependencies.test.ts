@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { findDependencyCycle, getDependencyStatus } from "./dependencies.js";
+import { Task, TaskState } from "../core/tasks/index.js";
+import type { Task as DysonTask } from "dyson-swarm";
+
+function createTask(taskId: string, dependsOn: string[] = [], state = TaskState.PENDING_IMPLEMENTATION): Task {
+  const task = new Task({ taskId, dysonTask: { id: taskId, frontmatter: { title: taskId, dependsOn } } as unknown as DysonTask });
+  return Task.fromJSON({ ...task.toJSON(), state });
+}
+
+function trackTasks(...tasks: Task[]): Map<string, Task> {
+  return new Map(tasks.map((task) => [task.taskId, task]));
+}
+
+describe("dependencies", () => {
+  describe("findDependencyCycle", () => {
+    it("should return undefined when there is no cycle", () => {
+      const tasks = trackTasks(createTask("a", ["b"]), createTask("b", ["c"]), createTask("c"));
+
+      expect(findDependencyCycle("a", tasks)).toBeUndefined();
+    });
+
+    it("should return the path around the cycle", () => {
+      const tasks = trackTasks(createTask("a", ["b"]), createTask("b", ["c"]), createTask("c", ["a"]));
+
+      expect(findDependencyCycle("a", tasks)).toEqual(["a", "b", "c", "a"]);
+    });
+
+    it("should detect a task depending on itself", () => {
+      const tasks = trackTasks(createTask("a", ["a"]));
+
+      expect(findDependencyCycle("a", tasks)).toEqual(["a", "a"]);
+    });
+
+    it("should not report cycles the task is not part of", () => {
+      const tasks = trackTasks(createTask("a", ["b"]), createTask("b", ["c"]), createTask("c", ["b"]));
+
+      expect(findDependencyCycle("a", tasks)).toBeUndefined();
+    });
+  });
+
+  describe("getDependencyStatus", () => {
+    it("should be ready without dependencies", () => {
+      const task = createTask("a");
+
+      expect(getDependencyStatus(task, trackTasks(task))).toEqual({ status: "ready" });
+    });
+
+    it("should be blocked while prerequisites are not completed", () => {
+      const task = createTask("a", ["b", "c"]);
+      const tasks = trackTasks(task, createTask("b", [], TaskState.REVIEWING), createTask("c", [], TaskState.COMPLETED));
+
+      expect(getDependencyStatus(task, tasks)).toEqual({ status: "blocked", waitingFor: ["b"] });
+    });
+
+    it("should be ready once prerequisites are completed or no longer tracked", () => {
+      const task = createTask("a", ["b", "c"]);
+      const tasks = trackTasks(task, createTask("b", [], TaskState.COMPLETED));
+
+      expect(getDependencyStatus(task, tasks)).toEqual({ status: "ready" });
+    });
+
+    it("should fail when a prerequisite failed", () => {
+      const task = createTask("a", ["b"]);
+      const tasks = trackTasks(task, createTask("b", [], TaskState.FAILED));
+
+      expect(getDependencyStatus(task, tasks)).toEqual({ status: "failed", reason: "Prerequisite task b failed" });
+    });
+
+    it("should fail when a prerequisite was cancelled", () => {
+      const task = createTask("a", ["b"]);
+      const tasks = trackTasks(task, createTask("b", [], TaskState.CANCELLED));
+
+      expect(getDependencyStatus(task, tasks)).toEqual({ status: "failed", reason: "Prerequisite task b was cancelled" });
+    });
+
+    it("should fail when the task is part of a cycle", () => {
+      const task = createTask("a", ["b"]);
+      const tasks = trackTasks(task, createTask("b", ["a"]));
+
+      expect(getDependencyStatus(task, tasks)).toEqual({ status: "failed", reason: "Dependency cycle: a -> b -> a" });
+    });
+  });
+});
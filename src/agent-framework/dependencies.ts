@@ -0,0 +1,72 @@
+/**
+ * Task Dependencies
+ *
+ * Helpers for deciding whether a task's prerequisites allow it to start.
+ */
+
+import { Task, TaskState } from "../core/tasks/index.js";
+
+/**
+ * Whether a task may start, is waiting for prerequisites, or can never start
+ */
+export type DependencyStatus =
+  | { status: "ready" }
+  | { status: "blocked"; waitingFor: string[] }
+  | { status: "failed"; reason: string };
+
+/**
+ * Find a dependency cycle through the given task
+ * @param tasks - All tracked tasks by ID
+ * @returns The task IDs along the cycle, starting and ending with taskId, or undefined if there is none
+ */
+export function findDependencyCycle(taskId: string, tasks: Map<string, Task>): string[] | undefined {
+  const visited = new Set<string>();
+
+  const visit = (currentId: string, path: string[]): string[] | undefined => {
+    for (const dependencyId of tasks.get(currentId)?.dependsOn ?? []) {
+      if (dependencyId === taskId) {
+        return [...path, dependencyId];
+      }
+      if (visited.has(dependencyId)) {
+        continue;
+      }
+      visited.add(dependencyId);
+      const cycle = visit(dependencyId, [...path, dependencyId]);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    return undefined;
+  };
+
+  return visit(taskId, [taskId]);
+}
+
+/**
+ * Check the prerequisites of a task.
+ * Prerequisites that are no longer tracked were closed in dyson-swarm and count as done.
+ * @param tasks - All tracked tasks by ID
+ */
+export function getDependencyStatus(task: Task, tasks: Map<string, Task>): DependencyStatus {
+  const cycle = findDependencyCycle(task.taskId, tasks);
+  if (cycle) {
+    return { status: "failed", reason: `Dependency cycle: ${cycle.join(" -> ")}` };
+  }
+
+  const waitingFor: string[] = [];
+  for (const dependencyId of task.dependsOn) {
+    const dependency = tasks.get(dependencyId);
+    if (!dependency || dependency.state === TaskState.COMPLETED) {
+      continue;
+    }
+    if (dependency.state === TaskState.FAILED) {
+      return { status: "failed", reason: `Prerequisite task ${dependencyId} failed` };
+    }
+    if (dependency.state === TaskState.CANCELLED) {
+      return { status: "failed", reason: `Prerequisite task ${dependencyId} was cancelled` };
+    }
+    waitingFor.push(dependencyId);
+  }
+
+  return waitingFor.length > 0 ? { status: "blocked", waitingFor } : { status: "ready" };
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { existsSync, renameSync, statSync } from "node:fs";
+import { createEventLog, parseEventLines, DEFAULT_MAX_EVENT_LOG_BYTES } from "./event-log.js";
+import type { OrchestratorEvent } from "./events.js";
+import { mockLog } from "../test-utils/mock-log.js";
+import { Task, TaskState } from "../core/tasks/index.js";
+import type { Task as DysonTask } from "dyson-swarm";
+
+// Mock the fs module
+vi.mock("node:fs", () => ({
+  existsSync: vi.fn(),
+  statSync: vi.fn(),
+  openSync: vi.fn(),
+  readSync: vi.fn(),
+  closeSync: vi.fn(),
+  renameSync: vi.fn(),
+  appendFileSync: vi.fn(),
+  mkdirSync: vi.fn(),
+}));
+
+const TEST_EVENTS_PATH = "/test/.orchid/events.jsonl";
+
+const createEvent = (taskId: string): OrchestratorEvent => {
+  const task = new Task({ taskId, dysonTask: { id: taskId } as DysonTask });
+  task.assignImplementor(`${taskId}-implementor`);
+  task.recordFailedAttempt("Network error");
+  return {
+    type: "task_transition",
+    timestamp: new Date("2025-01-01T00:00:00.000Z"),
+    taskId,
+    task: task.toJSON(),
+    from: TaskState.PENDING_IMPLEMENTATION,
+    to: TaskState.IMPLEMENTING,
+  };
+};
+
+const line = (event: OrchestratorEvent) => `${JSON.stringify(event)}\n`;
+
+describe("EventLog", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(existsSync).mockReturnValue(true);
+    mockLog("");
+  });
+
+  describe("append", () => {
+    it("should rotate the log at 10 MB by default", () => {
+      vi.mocked(statSync).mockReturnValue({ size: DEFAULT_MAX_EVENT_LOG_BYTES } as ReturnType<typeof statSync>);
+
+      createEventLog({ eventsFilePath: TEST_EVENTS_PATH }).append(createEvent("task-1"));
+
+      expect(renameSync).toHaveBeenCalledWith(TEST_EVENTS_PATH, `${TEST_EVENTS_PATH}.1`);
+    });
+  });
+
+  describe("readAll", () => {
+    it("should restore events with their dates", () => {
+      const event = createEvent("task-1");
+      mockLog(line(event));
+
+      const [read] = createEventLog({ eventsFilePath: TEST_EVENTS_PATH }).readAll();
+
+      expect(read).toEqual(event);
+      expect(read.task.attempts[0].failedAt).toBeInstanceOf(Date);
+    });
+  });
+
+  describe("parseEventLines", () => {
+    it("should restore events with their dates", () => {
+      const event = createEvent("task-1");
+
+      expect(parseEventLines(line(event))).toEqual([event]);
+    });
+  });
+});
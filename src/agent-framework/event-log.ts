@@ -0,0 +1,94 @@
+/**
+ * Event Log
+ *
+ * Appends orchestrator events to .orchid/events.jsonl, one JSON object per line,
+ * so the CLI, dashboards and hooks outside the daemon can follow them.
+ * Once the log grows past its size limit it is rotated to events.jsonl.1.
+ */
+
+import { createJsonlLog, parseJsonLines, type JsonlLog } from "./jsonl-log.js";
+import type { OrchestratorEvent } from "./events.js";
+
+/** Size past which the log is rotated */
+export const DEFAULT_MAX_EVENT_LOG_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Options for creating an EventLog
+ */
+export interface EventLogOptions {
+  /** Path to events.jsonl file */
+  eventsFilePath: string;
+  /** Size in bytes past which the log is rotated, defaults to 10 MB */
+  maxBytes?: number;
+}
+
+/**
+ * Append-only log of orchestrator events
+ */
+export class EventLog {
+  private lines: JsonlLog<OrchestratorEvent>;
+
+  constructor(options: EventLogOptions) {
+    this.lines = createJsonlLog({
+      filePath: options.eventsFilePath,
+      revive: reviveEvent,
+      maxBytes: options.maxBytes ?? DEFAULT_MAX_EVENT_LOG_BYTES,
+    });
+  }
+
+  /**
+   * Append an event to the log, first rotating the log if it is full
+   */
+  append(event: OrchestratorEvent): void {
+    this.lines.append(event);
+  }
+
+  /**
+   * Read all logged events, oldest first
+   */
+  readAll(): OrchestratorEvent[] {
+    return this.readFrom(0).events;
+  }
+
+  /**
+   * Read the events logged after a byte offset returned by an earlier read.
+   * If the log was truncated or rotated since, it is read from the start again.
+   * @returns The events and the offset to continue reading from
+   */
+  readFrom(offset: number): { events: OrchestratorEvent[]; offset: number } {
+    const { entries, offset: next } = this.lines.readFrom(offset);
+    return { events: entries, offset: next };
+  }
+}
+
+/**
+ * Restore the dates of a parsed event
+ */
+function reviveEvent(event: OrchestratorEvent): OrchestratorEvent {
+  return {
+    ...event,
+    timestamp: new Date(event.timestamp),
+    task: {
+      ...event.task,
+      attempts: (event.task.attempts ?? []).map((attempt) => ({ ...attempt, failedAt: new Date(attempt.failedAt) })),
+      stateEnteredAt: event.task.stateEnteredAt && new Date(event.task.stateEnteredAt),
+      createdAt: new Date(event.task.createdAt),
+      updatedAt: new Date(event.task.updatedAt),
+    },
+  };
+}
+
+/**
+ * Parse events.jsonl content, restoring dates.
+ * Lines that are not valid JSON are skipped.
+ */
+export function parseEventLines(content: string): OrchestratorEvent[] {
+  return parseJsonLines(content, reviveEvent);
+}
+
+/**
+ * Factory function to create an EventLog
+ */
+export function createEventLog(options: EventLogOptions): EventLog {
+  return new EventLog(options);
+}
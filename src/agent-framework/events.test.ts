@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createOrchestratorEventBus, type OrchestratorEvent } from "./events.js";
+import { Task, TaskState } from "../core/tasks/index.js";
+import type { Task as DysonTask } from "dyson-swarm";
+
+vi.mock("../core/logging/index.js", () => ({
+  log: { log: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+const task = new Task({ taskId: "task-1", dysonTask: { id: "task-1" } as DysonTask }).toJSON();
+
+const discovered: OrchestratorEvent = { type: "task_discovered", timestamp: new Date(0), taskId: "task-1", task };
+const transition: OrchestratorEvent = {
+  type: "task_transition",
+  timestamp: new Date(0),
+  taskId: "task-1",
+  task,
+  from: TaskState.PENDING_IMPLEMENTATION,
+  to: TaskState.IMPLEMENTING,
+};
+
+describe("OrchestratorEventBus", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should deliver every event to subscribers", () => {
+    const bus = createOrchestratorEventBus();
+    const listener = vi.fn();
+    bus.subscribe(listener);
+
+    bus.emit(discovered);
+    bus.emit(transition);
+
+    expect(listener.mock.calls).toEqual([[discovered], [transition]]);
+  });
+
+  it("should deliver only events of the requested type", () => {
+    const bus = createOrchestratorEventBus();
+    const listener = vi.fn();
+    bus.on("task_transition", listener);
+
+    bus.emit(discovered);
+    bus.emit(transition);
+
+    expect(listener.mock.calls).toEqual([[transition]]);
+  });
+
+  it("should stop delivering once unsubscribed", () => {
+    const bus = createOrchestratorEventBus();
+    const listener = vi.fn();
+    const unsubscribe = bus.subscribe(listener);
+
+    unsubscribe();
+    bus.emit(discovered);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("should keep delivering when a listener throws", () => {
+    const bus = createOrchestratorEventBus();
+    const listener = vi.fn();
+    bus.subscribe(() => {
+      throw new Error("listener failed");
+    });
+    bus.subscribe(listener);
+
+    bus.emit(discovered);
+
+    expect(listener).toHaveBeenCalledWith(discovered);
+  });
+});
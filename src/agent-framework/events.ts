@@ -0,0 +1,148 @@
+/**
+ * Orchestrator Events
+ *
+ * Typed events for the task and agent lifecycle, published by the orchestrator
+ * so other code can follow what it does without parsing its log.
+ */
+
+import type { TaskState, TaskStateData } from "../core/tasks/index.js";
+import type { AgentType } from "./agent-type.js";
+import { log } from "../core/logging/index.js";
+
+/**
+ * Fields shared by every orchestrator event
+ */
+interface OrchestratorEventBase {
+  /** When the event happened */
+  timestamp: Date;
+  taskId: string;
+  /** State of the task when the event happened */
+  task: TaskStateData;
+}
+
+/**
+ * Fields shared by agent lifecycle events
+ */
+interface AgentEventBase extends OrchestratorEventBase {
+  agentType: AgentType;
+  agentId: string;
+}
+
+/**
+ * A new open task was picked up from dyson-swarm
+ */
+export interface TaskDiscoveredEvent extends OrchestratorEventBase {
+  type: "task_discovered";
+}
+
+/**
+ * A task moved from one state to another
+ */
+export interface TaskTransitionEvent extends OrchestratorEventBase {
+  type: "task_transition";
+  from: TaskState;
+  to: TaskState;
+}
+
+/**
+ * An agent started working on a task
+ */
+export interface AgentStartedEvent extends AgentEventBase {
+  type: "agent_started";
+}
+
+/**
+ * An agent was stopped after finishing, or because the task or orchestrator stopped
+ */
+export interface AgentStoppedEvent extends AgentEventBase {
+  type: "agent_stopped";
+}
+
+/**
+ * An agent failed; the phase is retried or the task fails
+ */
+export interface AgentErroredEvent extends AgentEventBase {
+  type: "agent_errored";
+  error: string;
+}
+
+/**
+ * A task is no longer tracked because it is no longer open in dyson-swarm
+ */
+export interface TaskRemovedEvent extends OrchestratorEventBase {
+  type: "task_removed";
+}
+
+export type OrchestratorEvent =
+  | TaskDiscoveredEvent
+  | TaskTransitionEvent
+  | AgentStartedEvent
+  | AgentStoppedEvent
+  | AgentErroredEvent
+  | TaskRemovedEvent;
+
+export type OrchestratorEventType = OrchestratorEvent["type"];
+
+/**
+ * An event without the fields the publisher fills in for every event
+ */
+export type OrchestratorEventDetails = OmitEventBase<OrchestratorEvent>;
+
+type OmitEventBase<Event> = Event extends OrchestratorEvent ? Omit<Event, keyof OrchestratorEventBase> : never;
+
+export type OrchestratorEventListener<Event extends OrchestratorEvent = OrchestratorEvent> = (event: Event) => void;
+
+/**
+ * In-process publish/subscribe bus for orchestrator events.
+ * Listeners are called synchronously in the order they subscribed.
+ */
+export class OrchestratorEventBus {
+  private listeners: Set<OrchestratorEventListener> = new Set();
+
+  /**
+   * Listen to every event
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: OrchestratorEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Listen to events of one type
+   * @returns Function that removes the listener
+   */
+  on<Type extends OrchestratorEventType>(
+    type: Type,
+    listener: OrchestratorEventListener<Extract<OrchestratorEvent, { type: Type }>>
+  ): () => void {
+    return this.subscribe((event) => {
+      if (event.type === type) {
+        listener(event as Extract<OrchestratorEvent, { type: Type }>);
+      }
+    });
+  }
+
+  /**
+   * Publish an event to all listeners.
+   * A failing listener is logged and does not stop the others.
+   */
+  emit(event: OrchestratorEvent): void {
+    for (const listener of [...this.listeners]) {
+      try {
+        listener(event);
+      } catch (error) {
+        log.error(`[events] Listener failed for ${event.type} event of task ${event.taskId}:`, error);
+      }
+    }
+  }
+}
+
+/**
+ * Factory function to create an OrchestratorEventBus
+ */
+export function createOrchestratorEventBus(): OrchestratorEventBus {
+  return new OrchestratorEventBus();
+}
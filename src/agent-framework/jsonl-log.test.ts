@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { appendFileSync, existsSync, mkdirSync, openSync, readSync, renameSync, statSync } from "node:fs";
+import { createJsonlLog, parseJsonLines } from "./jsonl-log.js";
+import { mockLog } from "../test-utils/mock-log.js";
+
+// Mock the fs module
+vi.mock("node:fs", () => ({
+  existsSync: vi.fn(),
+  statSync: vi.fn(),
+  openSync: vi.fn(),
+  readSync: vi.fn(),
+  closeSync: vi.fn(),
+  renameSync: vi.fn(),
+  appendFileSync: vi.fn(),
+  mkdirSync: vi.fn(),
+}));
+
+const TEST_LOG_PATH = "/test/.orchid/entries.jsonl";
+
+interface Entry {
+  id: string;
+  note?: string;
+}
+
+const line = (entry: Entry) => `${JSON.stringify(entry)}\n`;
+
+const createLog = (maxBytes?: number) =>
+  createJsonlLog<Entry>({ filePath: TEST_LOG_PATH, revive: (entry) => entry, maxBytes });
+
+describe("JsonlLog", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(existsSync).mockReturnValue(true);
+    mockLog("");
+  });
+
+  describe("append", () => {
+    it("should append the entry as a JSON line", () => {
+      createLog().append({ id: "a" });
+
+      expect(appendFileSync).toHaveBeenCalledWith(TEST_LOG_PATH, line({ id: "a" }));
+    });
+
+    it("should create the directory if needed", () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+
+      createLog().append({ id: "a" });
+
+      expect(mkdirSync).toHaveBeenCalledWith("/test/.orchid", { recursive: true });
+    });
+
+    it("should rotate the log once it is full", () => {
+      vi.mocked(statSync).mockReturnValue({ size: 1024 } as ReturnType<typeof statSync>);
+
+      createLog(1024).append({ id: "a" });
+
+      expect(renameSync).toHaveBeenCalledWith(TEST_LOG_PATH, `${TEST_LOG_PATH}.1`);
+      expect(vi.mocked(renameSync).mock.invocationCallOrder[0])
+        .toBeLessThan(vi.mocked(appendFileSync).mock.invocationCallOrder[0]);
+    });
+
+    it("should not rotate the log before it is full", () => {
+      vi.mocked(statSync).mockReturnValue({ size: 1023 } as ReturnType<typeof statSync>);
+
+      createLog(1024).append({ id: "a" });
+
+      expect(renameSync).not.toHaveBeenCalled();
+    });
+
+    it("should never rotate the log without a size limit", () => {
+      vi.mocked(statSync).mockReturnValue({ size: 100 * 1024 * 1024 } as ReturnType<typeof statSync>);
+
+      createLog().append({ id: "a" });
+
+      expect(renameSync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("readFrom", () => {
+    it("should return nothing when the log is missing", () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+
+      expect(createLog().readFrom(0)).toEqual({ entries: [], offset: 0 });
+    });
+
+    it("should revive each entry", () => {
+      mockLog(line({ id: "a" }));
+      const log = createJsonlLog<Entry>({ filePath: TEST_LOG_PATH, revive: (entry) => ({ ...entry, note: "revived" }) });
+
+      expect(log.readFrom(0).entries).toEqual([{ id: "a", note: "revived" }]);
+    });
+
+    it("should continue from the returned offset and leave partial lines for later", () => {
+      const log = createLog();
+      const first = line({ id: "a" });
+      const second = line({ id: "b" });
+      mockLog(first + second.slice(0, 5));
+
+      const firstRead = log.readFrom(0);
+      mockLog(first + second);
+      const secondRead = log.readFrom(firstRead.offset);
+
+      expect(firstRead).toEqual({ entries: [{ id: "a" }], offset: first.length });
+      expect(secondRead).toEqual({ entries: [{ id: "b" }], offset: first.length + second.length });
+    });
+
+    it("should only read the bytes after the offset, counting multi-byte characters", () => {
+      const log = createLog();
+      const first = line({ id: "a", note: "Überprüfung fehlgeschlagen ✗" });
+      expect(Buffer.byteLength(first)).toBeGreaterThan(first.length);
+      mockLog(first);
+      const firstRead = log.readFrom(0);
+
+      mockLog(first + line({ id: "b" }));
+      const secondRead = log.readFrom(firstRead.offset);
+
+      expect(firstRead.offset).toBe(Buffer.byteLength(first));
+      expect(readSync).toHaveBeenLastCalledWith(3, expect.any(Buffer), 0, expect.any(Number), Buffer.byteLength(first));
+      expect(secondRead.entries).toEqual([{ id: "b" }]);
+    });
+
+    it("should start over when the log was truncated", () => {
+      mockLog(line({ id: "c" }));
+
+      expect(createLog().readFrom(100_000).entries).toEqual([{ id: "c" }]);
+    });
+  });
+
+  describe("getEndOffset", () => {
+    it("should point past the last complete entry", () => {
+      const first = line({ id: "a" });
+      mockLog(`${first}{"id":`);
+
+      expect(createLog().getEndOffset()).toBe(first.length);
+    });
+  });
+
+  describe("parseJsonLines", () => {
+    it("should skip lines that are not valid JSON or can't be revived", () => {
+      const revive = (entry: Entry) => {
+        if (!entry.id) {
+          throw new Error("missing id");
+        }
+        return entry;
+      };
+
+      expect(parseJsonLines(`not json\n{}\n${line({ id: "a" })}`, revive)).toEqual([{ id: "a" }]);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * JSONL Log
+ *
+ * Append-only log of JSON values, one per line, that other processes follow by byte offset.
+ * The event log and the task command log are built on it.
+ */
+
+import { appendFileSync, closeSync, existsSync, mkdirSync, openSync, readSync, renameSync, statSync } from "node:fs";
+import { dirname } from "node:path";
+
+/**
+ * Options for creating a JsonlLog
+ */
+export interface JsonlLogOptions<T> {
+  /** Path to the .jsonl file */
+  filePath: string;
+  /** Restore what JSON can't hold, such as dates, in a parsed entry */
+  revive: (entry: T) => T;
+  /** Size in bytes past which the log is rotated to <filePath>.1, never rotated if unset */
+  maxBytes?: number;
+}
+
+/**
+ * Append-only log of JSON lines
+ */
+export class JsonlLog<T> {
+  private filePath: string;
+  private revive: (entry: T) => T;
+  private maxBytes: number | undefined;
+
+  constructor(options: JsonlLogOptions<T>) {
+    this.filePath = options.filePath;
+    this.revive = options.revive;
+    this.maxBytes = options.maxBytes;
+  }
+
+  /**
+   * Append an entry to the log, first rotating the log if it is full
+   */
+  append(entry: T): void {
+    const dir = dirname(this.filePath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+    if (this.maxBytes !== undefined && existsSync(this.filePath) && statSync(this.filePath).size >= this.maxBytes) {
+      // Replaces the previous rotation; readers see the log shrink and start over
+      renameSync(this.filePath, `${this.filePath}.1`);
+    }
+    appendFileSync(this.filePath, `${JSON.stringify(entry)}\n`);
+  }
+
+  /**
+   * Read the entries logged after a byte offset returned by an earlier read.
+   * Only the bytes after the offset are read. A partially written last line is left
+   * for the next read. If the log was truncated or rotated since, it is read from the start again.
+   * @returns The entries and the offset to continue reading from
+   */
+  readFrom(offset: number): { entries: T[]; offset: number } {
+    if (!existsSync(this.filePath)) {
+      return { entries: [], offset: 0 };
+    }
+
+    const fd = openSync(this.filePath, "r");
+    try {
+      const size = statSync(this.filePath).size;
+      const start = offset <= size ? offset : 0;
+      const buffer = Buffer.alloc(size - start);
+      const bytesRead = readSync(fd, buffer, 0, buffer.length, start);
+      const complete = buffer.subarray(0, buffer.lastIndexOf(0x0a, bytesRead - 1) + 1);
+      return { entries: parseJsonLines(complete.toString("utf-8"), this.revive), offset: start + complete.length };
+    } finally {
+      closeSync(fd);
+    }
+  }
+
+  /**
+   * Get the offset of the end of the log, to only read entries appended from now on
+   */
+  getEndOffset(): number {
+    return this.readFrom(0).offset;
+  }
+}
+
+/**
+ * Parse JSONL content, reviving each entry.
+ * Lines that are not valid JSON are skipped.
+ */
+export function parseJsonLines<T>(content: string, revive: (entry: T) => T): T[] {
+  const entries: T[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      entries.push(revive(JSON.parse(line) as T));
+    } catch {
+      // Skip lines that are not complete entries
+    }
+  }
+  return entries;
+}
+
+/**
+ * Factory function to create a JsonlLog
+ */
+export function createJsonlLog<T>(options: JsonlLogOptions<T>): JsonlLog<T> {
+  return new JsonlLog(options);
+}
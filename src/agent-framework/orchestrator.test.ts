@@ -1,12 +1,17 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { AgentOrchestrator } from "./orchestrator.js";
-import { Task, TaskState } from "../core/tasks/index.js";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Task, TaskState, type TaskMerge } from "../core/tasks/index.js";
 
 const mocks = vi.hoisted(() => {
   const mockListTaskStream = vi.fn();
   const mockListTasks = vi.fn();
   const mockAssignTask = vi.fn();
   const mockUnassignTask = vi.fn();
+  const mockUpdateTask = vi.fn();
+  const mockChangeTaskStatus = vi.fn();
   const mockWorktreeCreate = vi.fn();
   const mockWorktreeRemove = vi.fn();
   const mockSessionCreate = vi.fn();
@@ -15,12 +20,24 @@ const mocks = vi.hoisted(() => {
   const mockSendMessage = vi.fn();
   const mockGetSession = vi.fn();
   const mockGlobalEvent = vi.fn();
+  const mockReadReviewVerdict = vi.fn();
+  const mockBranchMerge = vi.fn();
+  const mockBranchUpdate = vi.fn();
+  const mockGetHead = vi.fn();
+  const mockResetTo = vi.fn();
+  const mockUndoInterruptedMerge = vi.fn();
+  const mockRunChecks = vi.fn();
+  const mockCreateTask = vi.fn();
+  const mockReadTaskPlan = vi.fn();
   
   class MockTaskManager {
     listTaskStream = mockListTaskStream;
     listTasks = mockListTasks;
     assignTask = mockAssignTask;
     unassignTask = mockUnassignTask;
+    updateTask = mockUpdateTask;
+    changeTaskStatus = mockChangeTaskStatus;
+    createTask = mockCreateTask;
   }
   
   class MockAgentInstanceManager {
@@ -37,6 +54,8 @@ const mocks = vi.hoisted(() => {
     mockListTasks,
     mockAssignTask,
     mockUnassignTask,
+    mockUpdateTask,
+    mockChangeTaskStatus,
     mockWorktreeCreate,
     mockWorktreeRemove,
     mockSessionCreate,
@@ -45,6 +64,15 @@ const mocks = vi.hoisted(() => {
     mockSendMessage,
     mockGetSession,
     mockGlobalEvent,
+    mockReadReviewVerdict,
+    mockBranchMerge,
+    mockBranchUpdate,
+    mockGetHead,
+    mockResetTo,
+    mockUndoInterruptedMerge,
+    mockRunChecks,
+    mockCreateTask,
+    mockReadTaskPlan,
     MockTaskManager,
     MockAgentInstanceManager,
   };
@@ -62,12 +90,33 @@ vi.mock("../core/git/worktrees/index.js", () => ({
     prune = vi.fn();
     getWorktreePath = vi.fn();
     isWorktree = vi.fn();
+    branchExists = vi.fn();
+    isBranchMerged = vi.fn();
+    deleteBranch = vi.fn();
+    archive = vi.fn();
   },
 }));
 
+vi.mock("../core/git/merge/index.js", () => ({
+  BranchMerger: class MockBranchMerger {
+    repoPath = "/test/.orchid/main";
+    merge = mocks.mockBranchMerge;
+    update = mocks.mockBranchUpdate;
+    getHead = mocks.mockGetHead;
+    resetTo = mocks.mockResetTo;
+    undoInterruptedMerge = mocks.mockUndoInterruptedMerge;
+  },
+}));
+
+vi.mock("../core/checks/index.js", () => ({
+  runChecks: mocks.mockRunChecks,
+}));
+
 vi.mock("../config/paths.js", () => ({
   getWorktreesDir: () => "/test/worktrees",
+  getMainRepoDir: () => "/test/.orchid/main",
   getOrchidDir: () => "/test/.orchid",
+  getTasksFile: () => "/test/.orchid/tasks.json",
 }));
 
 vi.mock("./session-repository.js", () => ({
@@ -75,19 +124,45 @@ vi.mock("./session-repository.js", () => ({
     IMPLEMENTOR: "implementor",
     REVIEWER: "reviewer",
     MERGER: "merger",
+    PLANNER: "planner",
   },
   createSessionRepository: () => ({
     getOrCreateSession: vi.fn((taskId: string, agentType: string) => ({
       filename: `${agentType}-1`,
       filePath: `/test/.orchid/sessions/${taskId}/${agentType}-1.json`,
+      version: 1,
+    })),
+    createNextSession: vi.fn((taskId: string, agentType: string) => ({
+      filename: `${agentType}-2`,
+      filePath: `/test/.orchid/sessions/${taskId}/${agentType}-2.json`,
+      version: 2,
     })),
+    getSession: vi.fn((taskId: string, agentType: string, version: number) => ({
+      filename: `${agentType}-${version}`,
+      filePath: `/test/.orchid/sessions/${taskId}/${agentType}-${version}.json`,
+      version,
+    })),
+    listSessions: vi.fn(() => ["implementor-1", "reviewer-1", "merger-1"]),
+    hasSessionFile: vi.fn(() => true),
   }),
 }));
 
+vi.mock("./agents/review-verdict.js", () => ({
+  getVerdictFilePath: (sessionFilePath: string) => sessionFilePath.replace(/\.json$/, ".verdict.json"),
+  readReviewVerdict: mocks.mockReadReviewVerdict,
+}));
+
+vi.mock("./agents/task-plan.js", () => ({
+  getPlanFilePath: (sessionFilePath: string) => sessionFilePath.replace(/\.json$/, ".plan.json"),
+  readTaskPlan: mocks.mockReadTaskPlan,
+}));
+
 describe("AgentOrchestrator", () => {
   let orchestrator: AgentOrchestrator;
   let mockWorktreeManager: any;
   let mockAgentInstanceManager: any;
+  let mockTaskStore: any;
+  let mockModelRepository: any;
 
   beforeEach(() => {
     vi.clearAllMocks();
@@ -95,10 +170,15 @@ describe("AgentOrchestrator", () => {
     mockWorktreeManager = {
       create: mocks.mockWorktreeCreate,
       remove: mocks.mockWorktreeRemove,
-      list: vi.fn(),
+      list: vi.fn().mockResolvedValue([]),
       prune: vi.fn(),
       getWorktreePath: vi.fn(),
       isWorktree: vi.fn(),
+      branchExists: vi.fn(),
+      isBranchMerged: vi.fn().mockResolvedValue(true),
+      deleteBranch: vi.fn(),
+      archive: vi.fn().mockResolvedValue([]),
+      pull: vi.fn(),
     };
     mockAgentInstanceManager = {
       createAgentInstance: mocks.mockSessionCreate,
@@ -108,14 +188,30 @@ describe("AgentOrchestrator", () => {
       getAgentInstance: mocks.mockGetSession,
       onAgentInstanceIdle: vi.fn(),
     };
+    mockTaskStore = {
+      loadAll: vi.fn(() => []),
+      save: vi.fn(),
+      remove: vi.fn(),
+    };
+    mockModelRepository = {
+      resolveModelForAgent: vi.fn((agentType: string) => ({ provider: "anthropic", modelId: `${agentType}-model` })),
+    };
     mocks.mockListTasks.mockResolvedValue([]);
     mocks.mockSendMessage.mockResolvedValue(undefined);
     mocks.mockAssignTask.mockResolvedValue(undefined);
     mocks.mockUnassignTask.mockResolvedValue(undefined);
+    mocks.mockUpdateTask.mockResolvedValue(undefined);
+    mocks.mockChangeTaskStatus.mockResolvedValue(undefined);
+    mocks.mockReadReviewVerdict.mockReturnValue({ verdict: "approved" });
+    mocks.mockGetHead.mockResolvedValue("main-head");
+    mocks.mockBranchUpdate.mockResolvedValue({ status: "up_to_date" });
+    mocks.mockRunChecks.mockResolvedValue([]);
     
     orchestrator = new AgentOrchestrator({ 
       worktreeManager: mockWorktreeManager,
       agentInstanceManager: mockAgentInstanceManager,
+      taskStore: mockTaskStore,
+      modelRepository: mockModelRepository,
     });
   });
 
@@ -152,6 +248,15 @@ describe("AgentOrchestrator", () => {
 
       expect(mocks.mockListTaskStream).toHaveBeenCalledTimes(1);
     });
+
+    it("should reject if the task monitor fails", async () => {
+      mocks.mockListTaskStream.mockReturnValue((async function* () {
+        yield [];
+        throw new Error("dyson-swarm unavailable");
+      })());
+
+      await expect(orchestrator.start()).rejects.toThrow("dyson-swarm unavailable");
+    });
   });
 
   describe("stop", () => {
@@ -200,6 +305,50 @@ describe("AgentOrchestrator", () => {
       });
     });
 
+    it("should create the task worktree on its own branch from the configured base ref", async () => {
+      orchestrator = new AgentOrchestrator({
+        worktreeManager: mockWorktreeManager,
+        agentInstanceManager: mockAgentInstanceManager,
+        taskStore: mockTaskStore,
+        modelRepository: mockModelRepository,
+        config: { git: { baseRef: "origin/develop" } },
+      });
+      mocks.mockSessionCreate.mockResolvedValue({ instanceId: "session-1" });
+      mocks.mockWorktreeCreate.mockResolvedValue(true);
+      mockWorktreeManager.branchExists.mockResolvedValue(false);
+
+      const streamIterator = (async function* () {
+        yield [{ id: "task-1", frontmatter: { title: "Test" }, description: "", status: "open" }];
+      })();
+      mocks.mockListTaskStream.mockReturnValue(streamIterator);
+
+      orchestrator.start();
+      await vi.runAllTimersAsync();
+
+      expect(mocks.mockWorktreeCreate).toHaveBeenCalledWith(
+        "/test/worktrees/task-1",
+        "origin/develop",
+        { branch: "orchid/task-1" }
+      );
+      expect(orchestrator.getRunningAgents()[0].branch).toBe("orchid/task-1");
+    });
+
+    it("should check out the existing task branch if it was already created", async () => {
+      mocks.mockSessionCreate.mockResolvedValue({ instanceId: "session-1" });
+      mocks.mockWorktreeCreate.mockResolvedValue(true);
+      mockWorktreeManager.branchExists.mockResolvedValue(true);
+
+      const streamIterator = (async function* () {
+        yield [{ id: "task-1", frontmatter: { title: "Test" }, description: "", status: "open" }];
+      })();
+      mocks.mockListTaskStream.mockReturnValue(streamIterator);
+
+      orchestrator.start();
+      await vi.runAllTimersAsync();
+
+      expect(mocks.mockWorktreeCreate).toHaveBeenCalledWith("/test/worktrees/task-1", "orchid/task-1");
+    });
+
     it("should not start duplicate implementors for the same task", async () => {
       const mockSession = {
         sessionId: "session-1",
@@ -250,6 +399,2237 @@ describe("AgentOrchestrator", () => {
     });
   });
 
+  describe("constructor", () => {
+    it("should fail when an agent type has no model configured", () => {
+      mockModelRepository.resolveModelForAgent.mockImplementation((agentType: string) =>
+        agentType === "implementor" ? { provider: "anthropic", modelId: "claude-3" } : undefined
+      );
+
+      expect(() => new AgentOrchestrator({
+        worktreeManager: mockWorktreeManager,
+        agentInstanceManager: mockAgentInstanceManager,
+        taskStore: mockTaskStore,
+        modelRepository: mockModelRepository,
+      })).toThrow("No model configured for agent type(s): reviewer, merger");
+    });
+
+    it("should not require a planner model until an epic is planned", () => {
+      mockModelRepository.resolveModelForAgent.mockImplementation((agentType: string) =>
+        agentType === "planner" ? undefined : { provider: "anthropic", modelId: `${agentType}-model` }
+      );
+
+      expect(() => new AgentOrchestrator({
+        worktreeManager: mockWorktreeManager,
+        agentInstanceManager: mockAgentInstanceManager,
+        taskStore: mockTaskStore,
+        modelRepository: mockModelRepository,
+      })).not.toThrow();
+    });
+
+    it("should start agents with the model resolved for their agent type", async () => {
+      mocks.mockSessionCreate.mockResolvedValue({
+        instanceId: "session-1",
+        taskId: "task-1",
+        workingDirectory: "/test/worktrees/task-1",
+        createdAt: new Date(),
+        status: "running" as const,
+      });
+      mocks.mockWorktreeCreate.mockResolvedValue(true);
+
+      const streamIterator = (async function* () {
+        yield [{ id: "task-1", frontmatter: { title: "Test" }, description: "", status: "open" }];
+      })();
+      mocks.mockListTaskStream.mockReturnValue(streamIterator);
+
+      orchestrator.start();
+      await vi.runAllTimersAsync();
+
+      expect(mockModelRepository.resolveModelForAgent).toHaveBeenCalledWith("implementor");
+      expect(mocks.mockSessionCreate).toHaveBeenCalledWith(
+        expect.objectContaining({ model: { provider: "anthropic", modelId: "implementor-model" } })
+      );
+    });
+
+    it("should use the provided session repository", async () => {
+      const getOrCreateSession = vi.fn((taskId: string, agentType: string) => ({
+        filename: `${agentType}-1`,
+        filePath: `/custom/sessions/${taskId}/${agentType}-1.json`,
+      }));
+      mocks.mockSessionCreate.mockResolvedValue({
+        instanceId: "session-1",
+        taskId: "task-1",
+        workingDirectory: "/test/worktrees/task-1",
+        createdAt: new Date(),
+        status: "running" as const,
+      });
+      mocks.mockWorktreeCreate.mockResolvedValue(true);
+
+      const streamIterator = (async function* () {
+        yield [{ id: "task-1", frontmatter: { title: "Test" }, description: "", status: "open" }];
+      })();
+      mocks.mockListTaskStream.mockReturnValue(streamIterator);
+
+      orchestrator = new AgentOrchestrator({
+        worktreeManager: mockWorktreeManager,
+        agentInstanceManager: mockAgentInstanceManager,
+        sessionRepository: { getOrCreateSession } as any,
+        taskStore: mockTaskStore,
+        modelRepository: mockModelRepository,
+      });
+
+      orchestrator.start();
+      await vi.runAllTimersAsync();
+
+      expect(getOrCreateSession).toHaveBeenCalledWith("task-1", "implementor");
+      expect(mocks.mockSessionCreate).toHaveBeenCalledWith(
+        expect.objectContaining({ sessionFilePath: "/custom/sessions/task-1/implementor-1.json" })
+      );
+    });
+  });
+
+  describe("agent instance idle routing", () => {
+    const startWithTask = async () => {
+      mocks.mockSessionCreate.mockImplementation(async (options: any) => ({
+        instanceId: `instance-${options.agentType}`,
+        taskId: options.taskId,
+        agentType: options.agentType,
+        workingDirectory: options.workingDirectory,
+        createdAt: new Date(),
+        status: "running" as const,
+      }));
+      mocks.mockSessionRemove.mockResolvedValue(undefined);
+      mocks.mockWorktreeCreate.mockResolvedValue(true);
+
+      const streamIterator = (async function* () {
+        yield [{ id: "task-1", frontmatter: { title: "Test" }, description: "", status: "open" }];
+      })();
+      mocks.mockListTaskStream.mockReturnValue(streamIterator);
+
+      orchestrator.start();
+      await vi.runAllTimersAsync();
+
+      expect(mockAgentInstanceManager.onAgentInstanceIdle).toHaveBeenCalledTimes(1);
+      return mockAgentInstanceManager.onAgentInstanceIdle.mock.calls[0][0];
+    };
+
+    const idleInstance = (agentType: string) => ({
+      instanceId: `instance-${agentType}`,
+      taskId: "task-1",
+      agentType,
+      workingDirectory: "/test/worktrees/task-1",
+      createdAt: new Date(),
+      status: "running" as const,
+    });
+
+    it("should move the task to review when the implementor becomes idle", async () => {
+      const idleCallback = await startWithTask();
+
+      idleCallback("task-1", idleInstance("implementor"));
+      await vi.runAllTimersAsync();
+
+      const agents = orchestrator.getRunningAgents();
+      expect(agents[0].state).toBe(TaskState.REVIEWING);
+      expect(agents.map((a) => a.agentId)).toContain("task-1-reviewer");
+    });
+
+    it("should advance the task through review and merge to completion", async () => {
+      const idleCallback = await startWithTask();
+
+      idleCallback("task-1", idleInstance("implementor"));
+      await vi.runAllTimersAsync();
+      idleCallback("task-1", idleInstance("reviewer"));
+      await vi.runAllTimersAsync();
+
+      expect(orchestrator.getRunningAgents()[0].state).toBe(TaskState.MERGING);
+
+      idleCallback("task-1", idleInstance("merger"));
+      await vi.runAllTimersAsync();
+
+      expect(orchestrator.getRunningAgents()).toHaveLength(0);
+    });
+
+    it("should merge the task branch and clean it up once the merge completes", async () => {
+      const idleCallback = await startWithTask();
+      mockWorktreeManager.isWorktree.mockResolvedValue(true);
+      mockWorktreeManager.branchExists.mockResolvedValue(true);
+
+      idleCallback("task-1", idleInstance("implementor"));
+      await vi.runAllTimersAsync();
+      idleCallback("task-1", idleInstance("reviewer"));
+      await vi.runAllTimersAsync();
+
+      const mergePrompt = mocks.mockSendMessage.mock.calls.at(-1)?.[1];
+      expect(mergePrompt).toContain("Merge the task branch `orchid/task-1` into mainline");
+
+      idleCallback("task-1", idleInstance("merger"));
+      await vi.runAllTimersAsync();
+
+      expect(mocks.mockWorktreeRemove).toHaveBeenCalledWith("/test/worktrees/task-1", { force: true });
+      expect(mockWorktreeManager.deleteBranch).toHaveBeenCalledWith("orchid/task-1", { force: false });
+    });
+
+    it("should archive a completed task's branch instead of deleting it if it was never merged", async () => {
+      const idleCallback = await startWithTask();
+      mockWorktreeManager.isWorktree.mockResolvedValue(true);
+      mockWorktreeManager.branchExists.mockResolvedValue(true);
+      mockWorktreeManager.isBranchMerged.mockResolvedValue(false);
+
+      for (const agentType of ["implementor", "reviewer", "merger"]) {
+        idleCallback("task-1", idleInstance(agentType));
+        await vi.runAllTimersAsync();
+      }
+
+      expect(mockWorktreeManager.archive).toHaveBeenCalledWith(
+        "/test/worktrees/task-1",
+        "/test/.orchid/archive/task-1",
+        "HEAD"
+      );
+      expect(mockWorktreeManager.archive.mock.invocationCallOrder[0])
+        .toBeLessThan(mockWorktreeManager.deleteBranch.mock.invocationCallOrder[0]);
+      expect(mockWorktreeManager.deleteBranch).toHaveBeenCalledWith("orchid/task-1", { force: true });
+    });
+
+    it("should keep an unmerged branch whose worktree is gone", async () => {
+      const idleCallback = await startWithTask();
+      mockWorktreeManager.isWorktree.mockResolvedValue(false);
+      mockWorktreeManager.branchExists.mockResolvedValue(true);
+      mockWorktreeManager.isBranchMerged.mockResolvedValue(false);
+
+      for (const agentType of ["implementor", "reviewer", "merger"]) {
+        idleCallback("task-1", idleInstance(agentType));
+        await vi.runAllTimersAsync();
+      }
+
+      expect(mockWorktreeManager.archive).not.toHaveBeenCalled();
+      expect(mockWorktreeManager.deleteBranch).not.toHaveBeenCalled();
+    });
+
+    it("should send the task back to the implementor when review requests changes", async () => {
+      const idleCallback = await startWithTask();
+      mocks.mockReadReviewVerdict.mockReturnValue({ verdict: "changes_requested", reasons: ["Add tests"] });
+
+      idleCallback("task-1", idleInstance("implementor"));
+      await vi.runAllTimersAsync();
+      mocks.mockSessionCreate.mockClear();
+      idleCallback("task-1", idleInstance("reviewer"));
+      await vi.runAllTimersAsync();
+
+      const agents = orchestrator.getRunningAgents();
+      expect(agents[0].state).toBe(TaskState.IMPLEMENTING);
+      expect(mocks.mockWorktreeCreate).toHaveBeenCalledTimes(1);
+      expect(mocks.mockSessionCreate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          agentType: "implementor",
+          sessionFilePath: "/test/.orchid/sessions/task-1/implementor-2.json",
+        })
+      );
+      const revisionPrompt = mocks.mockSendMessage.mock.calls.at(-1)?.[1];
+      expect(revisionPrompt).toContain("# Review Feedback");
+      expect(revisionPrompt).toContain("- Add tests");
+    });
+
+    it("should start a new reviewer session for the next review round", async () => {
+      const idleCallback = await startWithTask();
+      mocks.mockReadReviewVerdict.mockReturnValueOnce({ verdict: "changes_requested", reasons: ["Add tests"] });
+
+      idleCallback("task-1", idleInstance("implementor"));
+      await vi.runAllTimersAsync();
+      idleCallback("task-1", idleInstance("reviewer"));
+      await vi.runAllTimersAsync();
+      mocks.mockSessionCreate.mockClear();
+      idleCallback("task-1", idleInstance("implementor"));
+      await vi.runAllTimersAsync();
+
+      expect(orchestrator.getRunningAgents()[0].state).toBe(TaskState.REVIEWING);
+      expect(mocks.mockSessionCreate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          agentType: "reviewer",
+          sessionFilePath: "/test/.orchid/sessions/task-1/reviewer-2.json",
+        })
+      );
+    });
+
+    it("should fail the task once the review round limit is reached", async () => {
+      orchestrator = new AgentOrchestrator({
+        worktreeManager: mockWorktreeManager,
+        agentInstanceManager: mockAgentInstanceManager,
+        taskStore: mockTaskStore,
+        modelRepository: mockModelRepository,
+        config: { review: { maxRounds: 1 } },
+      });
+      const idleCallback = await startWithTask();
+      mocks.mockReadReviewVerdict.mockReturnValue({ verdict: "changes_requested", reasons: ["Add tests"] });
+
+      idleCallback("task-1", idleInstance("implementor"));
+      await vi.runAllTimersAsync();
+      idleCallback("task-1", idleInstance("reviewer"));
+      await vi.runAllTimersAsync();
+
+      expect(orchestrator.getRunningAgents()[0].state).toBe(TaskState.FAILED);
+    });
+
+    it("should ignore idle events for agents it does not own", async () => {
+      const idleCallback = await startWithTask();
+
+      idleCallback("task-1", idleInstance("reviewer"));
+      idleCallback("unknown-task", idleInstance("implementor"));
+      await vi.runAllTimersAsync();
+
+      expect(orchestrator.getRunningAgents()[0].state).toBe(TaskState.IMPLEMENTING);
+    });
+  });
+
+  describe("retry policy", () => {
+    const mockInstance = {
+      instanceId: "session-1",
+      taskId: "task-1",
+      workingDirectory: "/test/worktrees/task-1",
+      createdAt: new Date(),
+      status: "running" as const,
+    };
+
+    const startWithRetryConfig = async (retry: Record<string, unknown>) => {
+      orchestrator = new AgentOrchestrator({
+        worktreeManager: mockWorktreeManager,
+        agentInstanceManager: mockAgentInstanceManager,
+        taskStore: mockTaskStore,
+        modelRepository: mockModelRepository,
+        config: { retry: { implementor: { initialDelayMs: 1000, ...retry } } },
+      });
+      mocks.mockWorktreeCreate.mockResolvedValue(true);
+
+      const streamIterator = (async function* () {
+        yield [{ id: "task-1", frontmatter: { title: "Test" }, description: "", status: "open" }];
+      })();
+      mocks.mockListTaskStream.mockReturnValue(streamIterator);
+
+      orchestrator.start();
+    };
+
+    it("should retry a failed phase with a new session after backing off", async () => {
+      mocks.mockSessionCreate
+        .mockRejectedValueOnce(new Error("Network error"))
+        .mockResolvedValue(mockInstance);
+
+      await startWithRetryConfig({});
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(mocks.mockSessionCreate).toHaveBeenCalledTimes(1);
+      expect(orchestrator.getRunningAgents()[0].state).toBe(TaskState.IMPLEMENTING);
+
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(mocks.mockSessionCreate).toHaveBeenCalledTimes(2);
+      expect(mocks.mockSessionCreate).toHaveBeenLastCalledWith(
+        expect.objectContaining({ sessionFilePath: "/test/.orchid/sessions/task-1/implementor-2.json" })
+      );
+      expect(orchestrator.getRunningAgents()[0].state).toBe(TaskState.IMPLEMENTING);
+
+      const savedTask: Task = mockTaskStore.save.mock.calls.at(-1)[0];
+      expect(savedTask.attempts).toHaveLength(1);
+      expect(savedTask.attempts[0]).toMatchObject({
+        phase: TaskState.IMPLEMENTING,
+        attempt: 1,
+        error: "Network error",
+      });
+    });
+
+    it("should fail the task once retries run out", async () => {
+      mocks.mockSessionCreate.mockRejectedValue(new Error("Network error"));
+
+      await startWithRetryConfig({ maxAttempts: 2 });
+      await vi.runAllTimersAsync();
+
+      expect(mocks.mockSessionCreate).toHaveBeenCalledTimes(2);
+      expect(orchestrator.getRunningAgents()[0]).toMatchObject({
+        state: TaskState.FAILED,
+        failureReason: "implementor failed after 2 attempts: Network error",
+      });
+    });
+
+    it("should fail the task immediately on a non-retryable error", async () => {
+      mocks.mockSessionCreate.mockRejectedValue(new Error("Invalid API key"));
+
+      await startWithRetryConfig({ retryableErrors: ["network"] });
+      await vi.runAllTimersAsync();
+
+      expect(mocks.mockSessionCreate).toHaveBeenCalledTimes(1);
+      expect(orchestrator.getRunningAgents()[0].state).toBe(TaskState.FAILED);
+    });
+
+    it("should cancel pending retries when stopped", async () => {
+      mocks.mockSessionCreate.mockRejectedValue(new Error("Network error"));
+
+      await startWithRetryConfig({});
+      await vi.advanceTimersByTimeAsync(0);
+      await orchestrator.stop();
+      await vi.runAllTimersAsync();
+
+      expect(mocks.mockSessionCreate).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("task persistence", () => {
+    const mockInstance = {
+      instanceId: "session-1",
+      taskId: "task-1",
+      workingDirectory: "/test/worktrees/task-1",
+      createdAt: new Date(),
+      status: "running" as const,
+    };
+
+    it("should persist task state on every transition", async () => {
+      const savedStates: TaskState[] = [];
+      mockTaskStore.save.mockImplementation((task: Task) => savedStates.push(task.state));
+      mocks.mockSessionCreate.mockResolvedValue(mockInstance);
+      mocks.mockWorktreeCreate.mockResolvedValue(true);
+
+      const streamIterator = (async function* () {
+        yield [{ id: "task-1", frontmatter: { title: "Test" }, description: "", status: "open" }];
+      })();
+      mocks.mockListTaskStream.mockReturnValue(streamIterator);
+
+      orchestrator.start();
+      await vi.runAllTimersAsync();
+
+      expect(savedStates).toEqual([TaskState.PENDING_IMPLEMENTATION, TaskState.IMPLEMENTING]);
+    });
+
+    it("should remove persisted state when a task is no longer open", async () => {
+      mocks.mockSessionCreate.mockResolvedValue(mockInstance);
+      mocks.mockWorktreeCreate.mockResolvedValue(true);
+
+      const streamIterator = (async function* () {
+        yield [{ id: "task-1", frontmatter: { title: "Test" }, description: "", status: "open" }];
+        yield [];
+      })();
+      mocks.mockListTaskStream.mockReturnValue(streamIterator);
+
+      orchestrator.start();
+      await vi.runAllTimersAsync();
+
+      expect(mockTaskStore.remove).toHaveBeenCalledWith("task-1");
+    });
+
+    it("should resume a restored task with its latest session instead of starting over", async () => {
+      const dysonTask = { id: "task-1", frontmatter: { title: "Test" }, description: "", status: "open" };
+      const restored = new Task({ taskId: "task-1", dysonTask, worktreePath: "/test/worktrees/task-1" });
+      restored.assignImplementor("task-1-implementor");
+      restored.markImplementationComplete();
+      restored.assignReviewer("task-1-reviewer");
+      mockTaskStore.loadAll.mockReturnValue([restored.toJSON()]);
+      mocks.mockSessionCreate.mockResolvedValue(mockInstance);
+
+      const streamIterator = (async function* () {
+        yield [dysonTask];
+      })();
+      mocks.mockListTaskStream.mockReturnValue(streamIterator);
+
+      orchestrator.start();
+      await vi.runAllTimersAsync();
+
+      expect(mocks.mockWorktreeCreate).not.toHaveBeenCalled();
+      expect(mocks.mockSessionCreate).toHaveBeenCalledTimes(1);
+      expect(mocks.mockSessionCreate).toHaveBeenCalledWith(expect.objectContaining({
+        agentType: "reviewer",
+        sessionFilePath: "/test/.orchid/sessions/task-1/reviewer-1.json",
+      }));
+      expect(mocks.mockSendMessage).toHaveBeenCalledWith(
+        "session-1",
+        expect.stringContaining("The orchid daemon was restarted"),
+        "/test/worktrees/task-1"
+      );
+      expect(orchestrator.getRunningAgents()[0].state).toBe(TaskState.REVIEWING);
+    });
+
+    it("should not resume restored tasks that are no longer open", async () => {
+      const dysonTask = { id: "task-1", frontmatter: { title: "Test" }, description: "", status: "open" };
+      const restored = new Task({ taskId: "task-1", dysonTask, worktreePath: "/test/worktrees/task-1" });
+      restored.assignImplementor("task-1-implementor");
+      mockTaskStore.loadAll.mockReturnValue([restored.toJSON()]);
+
+      const streamIterator = (async function* () {
+        yield [];
+      })();
+      mocks.mockListTaskStream.mockReturnValue(streamIterator);
+
+      orchestrator.start();
+      await vi.runAllTimersAsync();
+
+      expect(mocks.mockSessionCreate).not.toHaveBeenCalled();
+      expect(mockTaskStore.remove).toHaveBeenCalledWith("task-1");
+    });
+  });
+
+  describe("worktree cleanup", () => {
+    const openTask = { id: "task-1", frontmatter: { title: "Test" }, description: "", status: "open" };
+
+    const createOrchestrator = (cleanup: Record<string, string>) => {
+      orchestrator = new AgentOrchestrator({
+        worktreeManager: mockWorktreeManager,
+        agentInstanceManager: mockAgentInstanceManager,
+        taskStore: mockTaskStore,
+        modelRepository: mockModelRepository,
+        config: { worktrees: { cleanup }, retry: { implementor: { retryableErrors: ["network"] } } },
+      });
+    };
+
+    beforeEach(() => {
+      mocks.mockWorktreeCreate.mockResolvedValue(true);
+      mockWorktreeManager.isWorktree.mockResolvedValue(true);
+      mockWorktreeManager.branchExists.mockImplementation(async (branch: string) => branch === "orchid/task-1");
+    });
+
+    it("should keep the worktree of a failed task by default", async () => {
+      mocks.mockSessionCreate.mockRejectedValue(new Error("Invalid API key"));
+      createOrchestrator({});
+      mocks.mockListTaskStream.mockReturnValue((async function* () {
+        yield [openTask];
+      })());
+
+      orchestrator.start();
+      await vi.runAllTimersAsync();
+
+      expect(orchestrator.getRunningAgents()[0].state).toBe(TaskState.FAILED);
+      expect(mocks.mockWorktreeRemove).not.toHaveBeenCalled();
+      expect(mockWorktreeManager.deleteBranch).not.toHaveBeenCalled();
+    });
+
+    it("should archive a failed task before removing its worktree and branch", async () => {
+      mocks.mockSessionCreate.mockRejectedValue(new Error("Invalid API key"));
+      createOrchestrator({ failed: "archive" });
+      mocks.mockListTaskStream.mockReturnValue((async function* () {
+        yield [openTask];
+      })());
+
+      orchestrator.start();
+      await vi.runAllTimersAsync();
+
+      expect(mockWorktreeManager.archive).toHaveBeenCalledWith(
+        "/test/worktrees/task-1",
+        "/test/.orchid/archive/task-1",
+        "HEAD"
+      );
+      expect(mocks.mockWorktreeRemove).toHaveBeenCalledWith("/test/worktrees/task-1", { force: true });
+      expect(mockWorktreeManager.deleteBranch).toHaveBeenCalledWith("orchid/task-1", { force: true });
+      expect(mockWorktreeManager.archive.mock.invocationCallOrder[0])
+        .toBeLessThan(mocks.mockWorktreeRemove.mock.invocationCallOrder[0]);
+    });
+
+    it("should not remove the worktree if archiving fails", async () => {
+      mocks.mockSessionCreate.mockResolvedValue({ instanceId: "session-1" });
+      mockWorktreeManager.archive.mockRejectedValue(new Error("disk full"));
+      createOrchestrator({});
+      mocks.mockListTaskStream.mockReturnValue((async function* () {
+        yield [openTask];
+        yield [];
+      })());
+
+      orchestrator.start();
+      await vi.runAllTimersAsync();
+
+      expect(mockWorktreeManager.archive).toHaveBeenCalled();
+      expect(mocks.mockWorktreeRemove).not.toHaveBeenCalled();
+      expect(mockTaskStore.remove).toHaveBeenCalledWith("task-1");
+    });
+
+    it("should archive the worktree of a task that is no longer open", async () => {
+      mocks.mockSessionCreate.mockResolvedValue({ instanceId: "session-1" });
+      createOrchestrator({});
+      mocks.mockListTaskStream.mockReturnValue((async function* () {
+        yield [openTask];
+        yield [];
+      })());
+
+      orchestrator.start();
+      await vi.runAllTimersAsync();
+
+      expect(mockWorktreeManager.archive).toHaveBeenCalledWith(
+        "/test/worktrees/task-1",
+        "/test/.orchid/archive/task-1",
+        "HEAD"
+      );
+      expect(mocks.mockWorktreeRemove).toHaveBeenCalledWith("/test/worktrees/task-1", { force: true });
+      expect(mockWorktreeManager.deleteBranch).toHaveBeenCalledWith("orchid/task-1", { force: true });
+    });
+
+    it("should delete the worktree of a cancelled task without archiving when configured", async () => {
+      mocks.mockSessionCreate.mockResolvedValue({ instanceId: "session-1" });
+      createOrchestrator({ cancelled: "delete" });
+      mocks.mockListTaskStream.mockReturnValue((async function* () {
+        yield [openTask];
+        yield [];
+      })());
+
+      orchestrator.start();
+      await vi.runAllTimersAsync();
+
+      expect(mockWorktreeManager.archive).not.toHaveBeenCalled();
+      expect(mocks.mockWorktreeRemove).toHaveBeenCalledWith("/test/worktrees/task-1", { force: true });
+    });
+
+    it("should archive and remove worktrees no known task owns at startup", async () => {
+      const restored = new Task({
+        taskId: "task-1",
+        dysonTask: openTask as any,
+        worktreePath: "/test/worktrees/task-1",
+        branch: "orchid/task-1",
+      });
+      mockTaskStore.loadAll.mockReturnValue([restored.toJSON()]);
+      mockWorktreeManager.list.mockResolvedValue([
+        { path: "/test/.orchid/main", branch: "main", commit: "abc123", dirty: false },
+        { path: "/test/worktrees/task-1", branch: "orchid/task-1", commit: "def456", dirty: false },
+        { path: "/test/worktrees/orphan", branch: "orchid/orphan", commit: "123abc", dirty: true },
+      ]);
+      mockWorktreeManager.branchExists.mockResolvedValue(true);
+      mocks.mockListTaskStream.mockReturnValue((async function* () {})());
+
+      orchestrator.start();
+      await vi.runAllTimersAsync();
+
+      expect(mockWorktreeManager.archive).toHaveBeenCalledTimes(1);
+      expect(mockWorktreeManager.archive).toHaveBeenCalledWith(
+        "/test/worktrees/orphan",
+        "/test/.orchid/archive/orphan",
+        "HEAD"
+      );
+      expect(mocks.mockWorktreeRemove).toHaveBeenCalledTimes(1);
+      expect(mocks.mockWorktreeRemove).toHaveBeenCalledWith("/test/worktrees/orphan", { force: true });
+      expect(mockWorktreeManager.deleteBranch).toHaveBeenCalledWith("orchid/orphan", { force: true });
+      expect(mockWorktreeManager.prune).toHaveBeenCalled();
+    });
+  });
+
+  describe("concurrency limits", () => {
+    const dysonTask = (id: string, priority?: string) => ({
+      id,
+      frontmatter: { title: id, priority },
+      description: "",
+      status: "open",
+    });
+
+    const startWithTasks = async (
+      concurrency: Record<string, unknown>,
+      ...taskLists: (string | ReturnType<typeof dysonTask>)[][]
+    ) => {
+      orchestrator = new AgentOrchestrator({
+        worktreeManager: mockWorktreeManager,
+        agentInstanceManager: mockAgentInstanceManager,
+        taskStore: mockTaskStore,
+        modelRepository: mockModelRepository,
+        config: { concurrency },
+      });
+      mocks.mockSessionCreate.mockImplementation(async (options: any) => ({
+        instanceId: `instance-${options.taskId}-${options.agentType}`,
+        taskId: options.taskId,
+        agentType: options.agentType,
+      }));
+      mocks.mockWorktreeCreate.mockResolvedValue(true);
+      mocks.mockListTaskStream.mockReturnValue((async function* () {
+        for (const tasks of taskLists) {
+          yield tasks.map((task) => (typeof task === "string" ? dysonTask(task) : task));
+        }
+      })());
+
+      orchestrator.start();
+      await vi.runAllTimersAsync();
+      return mockAgentInstanceManager.onAgentInstanceIdle.mock.calls[0][0];
+    };
+
+    const stateOf = (taskId: string) =>
+      orchestrator.getRunningAgents().find((agent) => agent.taskId === taskId);
+
+    it("should queue tasks over the total agent limit", async () => {
+      await startWithTasks({ maxAgents: 2 }, ["task-1", "task-2", "task-3", "task-4"]);
+
+      expect(mocks.mockWorktreeCreate).toHaveBeenCalledTimes(2);
+      expect(stateOf("task-1")).toMatchObject({ state: TaskState.IMPLEMENTING, queuePosition: undefined });
+      expect(stateOf("task-2")).toMatchObject({ state: TaskState.IMPLEMENTING, queuePosition: undefined });
+      expect(stateOf("task-3")).toMatchObject({
+        agentId: "task-3-implementor",
+        state: TaskState.PENDING_IMPLEMENTATION,
+        queuePosition: 1,
+      });
+      expect(stateOf("task-4")).toMatchObject({ state: TaskState.PENDING_IMPLEMENTATION, queuePosition: 2 });
+    });
+
+    it("should start the longest waiting task when a slot frees up", async () => {
+      const idleCallback = await startWithTasks({ maxAgents: 2 }, ["task-1", "task-2", "task-3"]);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      idleCallback("task-1", { instanceId: "instance-task-1-implementor", agentType: "implementor" });
+      await vi.runAllTimersAsync();
+
+      expect(stateOf("task-3")?.state).toBe(TaskState.IMPLEMENTING);
+      expect(stateOf("task-1")).toMatchObject({ state: TaskState.AWAITING_REVIEW, queuePosition: 1 });
+    });
+
+    it("should apply per agent type limits", async () => {
+      const idleCallback = await startWithTasks(
+        { maxAgents: 10, perAgentType: { implementor: 1 } },
+        ["task-1", "task-2"]
+      );
+
+      expect(stateOf("task-1")?.state).toBe(TaskState.IMPLEMENTING);
+      expect(stateOf("task-2")).toMatchObject({ state: TaskState.PENDING_IMPLEMENTATION, queuePosition: 1 });
+
+      idleCallback("task-1", { instanceId: "instance-task-1-implementor", agentType: "implementor" });
+      await vi.runAllTimersAsync();
+
+      expect(stateOf("task-1")?.state).toBe(TaskState.REVIEWING);
+      expect(stateOf("task-2")?.state).toBe(TaskState.IMPLEMENTING);
+    });
+
+    it("should start higher priority tasks first", async () => {
+      await startWithTasks({ maxAgents: 2 }, [
+        dysonTask("task-1", "low"),
+        dysonTask("task-2"),
+        dysonTask("task-3", "high"),
+      ]);
+
+      expect(stateOf("task-3")?.state).toBe(TaskState.IMPLEMENTING);
+      expect(stateOf("task-2")?.state).toBe(TaskState.IMPLEMENTING);
+      expect(stateOf("task-1")).toMatchObject({ state: TaskState.PENDING_IMPLEMENTATION, queuePosition: 1, priority: -1 });
+    });
+
+    it("should follow priority edits while a task is queued", async () => {
+      const idleCallback = await startWithTasks(
+        { maxAgents: 1 },
+        ["task-1", "task-2", "task-3"],
+        ["task-1", "task-2", dysonTask("task-3", "high")]
+      );
+
+      expect(stateOf("task-3")).toMatchObject({ queuePosition: 1, priority: 1 });
+      expect(stateOf("task-2")).toMatchObject({ queuePosition: 2, priority: 0 });
+
+      idleCallback("task-1", { instanceId: "instance-task-1-implementor", agentType: "implementor" });
+      await vi.runAllTimersAsync();
+
+      expect(stateOf("task-3")?.state).toBe(TaskState.IMPLEMENTING);
+      expect(stateOf("task-2")?.state).toBe(TaskState.PENDING_IMPLEMENTATION);
+    });
+  });
+
+  describe("task dependencies", () => {
+    const dysonTask = (id: string, dependsOn?: string[]) => ({
+      id,
+      frontmatter: { title: id, dependsOn },
+      description: "",
+      status: "open",
+    });
+
+    const startWithTasks = async (tasks: ReturnType<typeof dysonTask>[]) => {
+      mocks.mockSessionCreate.mockImplementation(async (options: any) => ({
+        instanceId: `instance-${options.taskId}-${options.agentType}`,
+        taskId: options.taskId,
+        agentType: options.agentType,
+      }));
+      mocks.mockWorktreeCreate.mockResolvedValue(true);
+      mocks.mockListTaskStream.mockReturnValue((async function* () {
+        yield tasks;
+      })());
+
+      orchestrator.start();
+      await vi.runAllTimersAsync();
+      return mockAgentInstanceManager.onAgentInstanceIdle.mock.calls[0][0];
+    };
+
+    const stateOf = (taskId: string) =>
+      orchestrator.getRunningAgents().find((agent) => agent.taskId === taskId);
+
+    const savedTask = (taskId: string) =>
+      mockTaskStore.save.mock.calls.map(([task]: any[]) => task).filter((task: any) => task.taskId === taskId).pop();
+
+    const completeTask = async (idleCallback: any, taskId: string) => {
+      for (const agentType of ["implementor", "reviewer", "merger"]) {
+        idleCallback(taskId, { instanceId: `instance-${taskId}-${agentType}`, agentType });
+        await vi.runAllTimersAsync();
+      }
+    };
+
+    it("should hold a task until its prerequisites complete", async () => {
+      const idleCallback = await startWithTasks([dysonTask("task-1"), dysonTask("task-2", ["task-1"])]);
+
+      expect(mocks.mockWorktreeCreate).toHaveBeenCalledTimes(1);
+      expect(stateOf("task-2")).toMatchObject({
+        agentId: "task-2-implementor",
+        state: TaskState.PENDING_IMPLEMENTATION,
+        blockedBy: ["task-1"],
+        queuePosition: undefined,
+      });
+
+      await completeTask(idleCallback, "task-1");
+
+      expect(stateOf("task-1")).toBeUndefined();
+      expect(stateOf("task-2")).toMatchObject({ state: TaskState.IMPLEMENTING, blockedBy: undefined });
+    });
+
+    it("should update the mainline before creating a dependent task's worktree", async () => {
+      const idleCallback = await startWithTasks([dysonTask("task-1"), dysonTask("task-2", ["task-1"])]);
+      expect(mockWorktreeManager.pull).not.toHaveBeenCalled();
+
+      await completeTask(idleCallback, "task-1");
+
+      expect(mockWorktreeManager.pull).toHaveBeenCalledTimes(1);
+      expect(mockWorktreeManager.pull.mock.invocationCallOrder[0]).toBeLessThan(
+        mocks.mockWorktreeCreate.mock.invocationCallOrder[1]
+      );
+    });
+
+    it("should still start a dependent task if the mainline can't be updated", async () => {
+      mockWorktreeManager.pull.mockRejectedValue(new Error("no upstream"));
+      const idleCallback = await startWithTasks([dysonTask("task-1"), dysonTask("task-2", ["task-1"])]);
+
+      await completeTask(idleCallback, "task-1");
+
+      expect(stateOf("task-2")?.state).toBe(TaskState.IMPLEMENTING);
+    });
+
+    it("should start tasks whose prerequisites are no longer open", async () => {
+      await startWithTasks([dysonTask("task-2", ["task-1"])]);
+
+      expect(stateOf("task-2")?.state).toBe(TaskState.IMPLEMENTING);
+    });
+
+    it("should fail a task whose prerequisite failed", async () => {
+      orchestrator = new AgentOrchestrator({
+        worktreeManager: mockWorktreeManager,
+        agentInstanceManager: mockAgentInstanceManager,
+        taskStore: mockTaskStore,
+        modelRepository: mockModelRepository,
+        config: { review: { maxRounds: 1 } },
+      });
+      mocks.mockReadReviewVerdict.mockReturnValue({ verdict: "changes_requested", reasons: ["Add tests"] });
+      const idleCallback = await startWithTasks([dysonTask("task-1"), dysonTask("task-2", ["task-1"])]);
+
+      await completeTask(idleCallback, "task-1");
+
+      expect(stateOf("task-1")?.state).toBe(TaskState.FAILED);
+      expect(savedTask("task-2")).toMatchObject({
+        state: TaskState.FAILED,
+        failureReason: "Prerequisite task task-1 failed",
+      });
+      expect(mocks.mockWorktreeCreate).toHaveBeenCalledTimes(1);
+    });
+
+    it("should fail tasks that depend on each other", async () => {
+      await startWithTasks([dysonTask("task-1", ["task-2"]), dysonTask("task-2", ["task-1"]), dysonTask("task-3")]);
+
+      expect(savedTask("task-1")).toMatchObject({
+        state: TaskState.FAILED,
+        failureReason: "Dependency cycle: task-1 -> task-2 -> task-1",
+      });
+      expect(savedTask("task-2")).toMatchObject({
+        state: TaskState.FAILED,
+        failureReason: "Dependency cycle: task-2 -> task-1 -> task-2",
+      });
+      expect(stateOf("task-3")?.state).toBe(TaskState.IMPLEMENTING);
+    });
+  });
+
+  describe("epics", () => {
+    const epic = {
+      id: "task-1",
+      frontmatter: { title: "Migrate the auth module", epic: true, priority: "high" },
+      description: "Move authentication to the new session store",
+      status: "open",
+    };
+
+    const plan = {
+      tasks: [
+        { id: "schema", title: "Add the sessions table", description: "Create the migration", dependsOn: [] },
+        { id: "api", title: "Move the login endpoint", description: "", dependsOn: ["schema"] },
+      ],
+    };
+
+    const child = (id: string, frontmatter: Record<string, unknown> = {}) => ({
+      id,
+      frontmatter: { title: id, parent: "task-1", ...frontmatter },
+      description: "",
+      status: "open",
+    });
+
+    // Yields each list of open tasks passed to push, like a dyson-swarm stream
+    const startWithStream = async () => {
+      let push: (tasks: any[]) => void = () => {};
+      mocks.mockListTaskStream.mockReturnValue((async function* () {
+        while (true) {
+          yield await new Promise<any[]>((resolve) => { push = resolve; });
+        }
+      })());
+
+      orchestrator.start();
+      await vi.runAllTimersAsync();
+      const idleCallback = mockAgentInstanceManager.onAgentInstanceIdle.mock.calls[0][0];
+      return {
+        idleCallback,
+        push: async (tasks: any[]) => {
+          push(tasks);
+          await vi.runAllTimersAsync();
+        },
+      };
+    };
+
+    const stateOf = (taskId: string) =>
+      orchestrator.getRunningAgents().find((agent) => agent.taskId === taskId)?.state;
+
+    const planEpic = async () => {
+      const stream = await startWithStream();
+      await stream.push([epic]);
+      stream.idleCallback("task-1", { instanceId: "instance-task-1-planner", agentType: "planner" });
+      await vi.runAllTimersAsync();
+      return stream;
+    };
+
+    beforeEach(() => {
+      mocks.mockSessionCreate.mockImplementation(async (options: any) => ({
+        instanceId: `instance-${options.taskId}-${options.agentType}`,
+        taskId: options.taskId,
+        agentType: options.agentType,
+      }));
+      mocks.mockWorktreeCreate.mockResolvedValue(true);
+      mocks.mockReadTaskPlan.mockReturnValue(plan);
+      let nextId = 2;
+      mocks.mockCreateTask.mockImplementation(async () => ({ id: `task-${nextId++}` }));
+    });
+
+    it("should plan an epic in a detached worktree instead of the main repository", async () => {
+      const { push } = await startWithStream();
+
+      await push([epic]);
+
+      expect(stateOf("task-1")).toBe(TaskState.PLANNING);
+      expect(mocks.mockWorktreeCreate).toHaveBeenCalledWith("/test/worktrees/task-1", "HEAD", { detach: true });
+      expect(mocks.mockSessionCreate).toHaveBeenCalledWith(expect.objectContaining({
+        taskId: "task-1",
+        agentType: "planner",
+        workingDirectory: "/test/worktrees/task-1",
+        model: { provider: "anthropic", modelId: "planner-model" },
+      }));
+    });
+
+    it("should remove the planning worktree once the epic is planned", async () => {
+      const { push } = await startWithStream();
+      await push([epic]);
+      mockWorktreeManager.isWorktree.mockResolvedValue(true);
+
+      mockAgentInstanceManager.onAgentInstanceIdle.mock.calls[0][0]("task-1", {
+        instanceId: "instance-task-1-planner",
+        agentType: "planner",
+      });
+      await vi.runAllTimersAsync();
+
+      expect(mocks.mockWorktreeRemove).toHaveBeenCalledWith("/test/worktrees/task-1", { force: true });
+      expect(stateOf("task-1")).toBe(TaskState.AWAITING_SUBTASKS);
+    });
+
+    it("should fail the epic when no planner model is configured", async () => {
+      mockModelRepository.resolveModelForAgent.mockImplementation((agentType: string) =>
+        agentType === "planner" ? undefined : { provider: "anthropic", modelId: `${agentType}-model` }
+      );
+      const { push } = await startWithStream();
+
+      await push([epic]);
+
+      expect(mocks.mockSessionCreate).not.toHaveBeenCalled();
+      expect(mockTaskStore.save.mock.calls.at(-1)?.[0].toJSON()).toMatchObject({
+        taskId: "task-1",
+        state: TaskState.FAILED,
+        failureReason: expect.stringContaining("No model configured for agent type planner"),
+      });
+    });
+
+    it("should create the planned subtasks in dyson-swarm", async () => {
+      await planEpic();
+
+      expect(mocks.mockReadTaskPlan).toHaveBeenCalledWith("/test/.orchid/sessions/task-1/planner-1.plan.json");
+      expect(mocks.mockCreateTask).toHaveBeenNthCalledWith(1, {
+        frontmatter: { title: "Add the sessions table", parent: "task-1", priority: "high" },
+        description: "Create the migration",
+      });
+      expect(mocks.mockCreateTask).toHaveBeenNthCalledWith(2, {
+        frontmatter: { title: "Move the login endpoint", parent: "task-1", dependsOn: ["task-2"], priority: "high" },
+        description: "",
+      });
+      expect(stateOf("task-1")).toBe(TaskState.AWAITING_SUBTASKS);
+    });
+
+    it("should create the remaining subtasks on the next pass if creating one fails", async () => {
+      mocks.mockCreateTask
+        .mockResolvedValueOnce({ id: "task-2" })
+        .mockRejectedValueOnce(new Error("dyson unavailable"))
+        .mockResolvedValueOnce({ id: "task-3" });
+      const { push } = await planEpic();
+      expect(mocks.mockCreateTask).toHaveBeenCalledTimes(2);
+
+      await push([epic]);
+
+      expect(mocks.mockCreateTask).toHaveBeenCalledTimes(3);
+      expect(mocks.mockCreateTask).toHaveBeenLastCalledWith(expect.objectContaining({
+        frontmatter: expect.objectContaining({ title: "Move the login endpoint", dependsOn: ["task-2"] }),
+      }));
+    });
+
+    it("should retry planning when the plan cannot be read", async () => {
+      mocks.mockReadTaskPlan.mockImplementation(() => {
+        throw new Error("Planner did not write a plan");
+      });
+
+      await planEpic();
+
+      expect(mocks.mockCreateTask).not.toHaveBeenCalled();
+      expect(mocks.mockWorktreeCreate).toHaveBeenCalledTimes(2);
+      expect(mocks.mockSessionCreate).toHaveBeenLastCalledWith(expect.objectContaining({
+        agentType: "planner",
+        sessionFilePath: "/test/.orchid/sessions/task-1/planner-2.json",
+      }));
+      expect(stateOf("task-1")).toBe(TaskState.PLANNING);
+    });
+
+    it("should complete the epic once its subtasks completed", async () => {
+      const { push } = await planEpic();
+      await push([epic, child("task-2"), child("task-3", { dependsOn: ["task-2"] })]);
+      expect(stateOf("task-2")).toBe(TaskState.IMPLEMENTING);
+
+      await push([epic, child("task-3", { dependsOn: ["task-2"] })]);
+      expect(stateOf("task-1")).toBe(TaskState.AWAITING_SUBTASKS);
+
+      await push([epic]);
+
+      expect(mocks.mockChangeTaskStatus).toHaveBeenCalledWith("task-1", "closed");
+      expect(mockTaskStore.save).toHaveBeenLastCalledWith(expect.objectContaining({
+        taskId: "task-1",
+        state: TaskState.COMPLETED,
+      }));
+    });
+
+    it("should fail the epic when a subtask fails", async () => {
+      const { push } = await planEpic();
+
+      await push([epic, child("task-2", { pipeline: "missing" }), child("task-3", { dependsOn: ["task-2"] })]);
+
+      expect(stateOf("task-1")).toBe(TaskState.FAILED);
+      expect(mocks.mockUpdateTask).toHaveBeenCalledWith("task-1", expect.objectContaining({
+        frontmatter: expect.objectContaining({ orchidStatus: TaskState.FAILED, failureReason: "Subtask task-2 failed" }),
+      }));
+    });
+  });
+
+  describe("git merge strategy", () => {
+    const startWithMergeConfig = async (merge: Record<string, unknown>) => {
+      orchestrator = new AgentOrchestrator({
+        worktreeManager: mockWorktreeManager,
+        agentInstanceManager: mockAgentInstanceManager,
+        taskStore: mockTaskStore,
+        modelRepository: mockModelRepository,
+        config: { merge },
+      });
+      mocks.mockSessionCreate.mockImplementation(async (options: any) => ({
+        instanceId: `instance-${options.agentType}`,
+        taskId: options.taskId,
+        agentType: options.agentType,
+      }));
+      mocks.mockSessionRemove.mockResolvedValue(undefined);
+      mocks.mockWorktreeCreate.mockResolvedValue(true);
+      mocks.mockListTaskStream.mockReturnValue((async function* () {
+        yield [{ id: "task-1", frontmatter: { title: "Test" }, description: "", status: "open" }];
+      })());
+
+      orchestrator.start();
+      await vi.runAllTimersAsync();
+
+      const idleCallback = mockAgentInstanceManager.onAgentInstanceIdle.mock.calls[0][0];
+      const idle = async (agentType: string) => {
+        idleCallback("task-1", { instanceId: `instance-${agentType}`, taskId: "task-1", agentType });
+        await vi.runAllTimersAsync();
+      };
+      await idle("implementor");
+      await idle("reviewer");
+      return idle;
+    };
+
+    const lastSaved = () => mockTaskStore.save.mock.calls.at(-1)?.[0].toJSON();
+
+    it("should merge with git without starting a merger agent", async () => {
+      mocks.mockBranchMerge.mockResolvedValue({ status: "merged", commit: "merge-commit" });
+
+      await startWithMergeConfig({ strategy: "squash" });
+
+      expect(mocks.mockBranchMerge).toHaveBeenCalledWith("orchid/task-1", {
+        strategy: "squash",
+        message: "Merge task task-1: Test",
+        worktreePath: "/test/worktrees/task-1",
+      });
+      expect(mocks.mockSessionCreate).not.toHaveBeenCalledWith(expect.objectContaining({ agentType: "merger" }));
+      expect(lastSaved()).toMatchObject({
+        state: TaskState.COMPLETED,
+        merge: { path: "git", strategy: "squash", commit: "merge-commit" },
+      });
+    });
+
+    it("should hand conflicts to a merger agent", async () => {
+      mocks.mockBranchMerge.mockResolvedValue({ status: "conflict", conflicts: ["src/a.ts"] });
+
+      const idle = await startWithMergeConfig({ strategy: "merge" });
+
+      expect(orchestrator.getRunningAgents()[0].state).toBe(TaskState.MERGING);
+      expect(mocks.mockSessionCreate).toHaveBeenCalledWith(expect.objectContaining({ agentType: "merger" }));
+      const mergePrompt = mocks.mockSendMessage.mock.calls.at(-1)?.[1];
+      expect(mergePrompt).toContain("Merging orchid/task-1 with the merge strategy conflicts in: src/a.ts");
+
+      mocks.mockGetHead.mockResolvedValue("agent-commit");
+      await idle("merger");
+
+      expect(lastSaved()).toMatchObject({
+        state: TaskState.COMPLETED,
+        merge: {
+          path: "agent",
+          strategy: "merge",
+          commit: "agent-commit",
+          reason: "Merging orchid/task-1 with the merge strategy conflicts in: src/a.ts",
+        },
+      });
+    });
+
+    it("should undo the merge and hand it to a merger agent when a check fails", async () => {
+      mocks.mockGetHead.mockResolvedValue("before-merge");
+      mocks.mockBranchMerge.mockResolvedValue({ status: "merged", commit: "merge-commit" });
+      mocks.mockRunChecks.mockResolvedValue([
+        { command: "npm test", passed: false, exitCode: 1, timedOut: false, output: "1 test failed", durationMs: 10 },
+      ]);
+
+      await startWithMergeConfig({ strategy: "rebase", checks: ["npm test"], checkTimeoutMs: 1_000 });
+
+      expect(mocks.mockRunChecks).toHaveBeenCalledWith(["npm test"], { cwd: "/test/.orchid/main", timeoutMs: 1_000 });
+      expect(mocks.mockResetTo).toHaveBeenCalledWith("before-merge");
+      expect(mocks.mockSessionCreate).toHaveBeenCalledWith(expect.objectContaining({ agentType: "merger" }));
+      const mergePrompt = mocks.mockSendMessage.mock.calls.at(-1)?.[1];
+      expect(mergePrompt).toContain("Post-merge check `npm test` failed with exit code 1");
+      expect(mergePrompt).toContain("1 test failed");
+    });
+
+    it("should keep syncing tasks while a git merge runs its checks", async () => {
+      const taskOne = { id: "task-1", frontmatter: { title: "Test" }, description: "", status: "open" };
+      const taskTwo = { id: "task-2", frontmatter: { title: "Other" }, description: "", status: "open" };
+      const restored = new Task({
+        taskId: "task-1",
+        dysonTask: taskOne,
+        worktreePath: "/test/worktrees/task-1",
+        branch: "orchid/task-1",
+      });
+      restored.assignImplementor("task-1-implementor");
+      restored.markImplementationComplete();
+      restored.assignReviewer("task-1-reviewer");
+      restored.markReviewComplete();
+      mockTaskStore.loadAll.mockReturnValue([restored.toJSON()]);
+      orchestrator = new AgentOrchestrator({
+        worktreeManager: mockWorktreeManager,
+        agentInstanceManager: mockAgentInstanceManager,
+        taskStore: mockTaskStore,
+        modelRepository: mockModelRepository,
+        config: { merge: { strategy: "squash", checks: ["npm test"] } },
+      });
+      mocks.mockSessionCreate.mockImplementation(async (options: any) => ({
+        instanceId: `instance-${options.agentType}-${options.taskId}`,
+        taskId: options.taskId,
+        agentType: options.agentType,
+      }));
+      mocks.mockWorktreeCreate.mockResolvedValue(true);
+      mocks.mockBranchMerge.mockResolvedValue({ status: "merged", commit: "merge-commit" });
+      let finishChecks: (results: unknown[]) => void = () => {};
+      mocks.mockRunChecks.mockReturnValue(new Promise((resolve) => {
+        finishChecks = resolve;
+      }));
+      mocks.mockListTaskStream.mockReturnValue((async function* () {
+        yield [taskOne];
+        yield [taskOne, taskTwo];
+      })());
+
+      orchestrator.start();
+      await vi.runAllTimersAsync();
+
+      expect(mocks.mockRunChecks).toHaveBeenCalledTimes(1);
+      expect(mocks.mockSessionCreate).toHaveBeenCalledWith(expect.objectContaining({
+        agentType: "implementor",
+        taskId: "task-2",
+      }));
+      expect(orchestrator.getRunningAgents().find((agent) => agent.taskId === "task-1")?.state).toBe(TaskState.MERGING);
+
+      finishChecks([{ command: "npm test", passed: true, exitCode: 0, timedOut: false, output: "", durationMs: 10 }]);
+      await vi.runAllTimersAsync();
+
+      expect(mockTaskStore.save.mock.calls.filter(([task]: [Task]) => task.taskId === "task-1").at(-1)?.[0].toJSON()).toMatchObject({
+        state: TaskState.COMPLETED,
+        merge: { path: "git", strategy: "squash", commit: "merge-commit" },
+      });
+    });
+
+    it("should refuse to pause or cancel a task while it is merged with git", async () => {
+      mocks.mockBranchMerge.mockResolvedValue({ status: "merged", commit: "merge-commit" });
+      let finishChecks: (results: unknown[]) => void = () => {};
+      mocks.mockRunChecks.mockReturnValue(new Promise((resolve) => {
+        finishChecks = resolve;
+      }));
+
+      await startWithMergeConfig({ strategy: "squash", checks: ["npm test"] });
+
+      await expect(orchestrator.pauseTask("task-1")).rejects.toThrow(
+        "Task task-1 is being merged with git and can't be paused until the merge finishes"
+      );
+      await expect(orchestrator.cancelTask("task-1")).rejects.toThrow(
+        "Task task-1 is being merged with git and can't be cancelled until the merge finishes"
+      );
+      expect(mocks.mockWorktreeRemove).not.toHaveBeenCalled();
+
+      finishChecks([{ command: "npm test", passed: true, exitCode: 0, timedOut: false, output: "", durationMs: 10 }]);
+      await vi.runAllTimersAsync();
+
+      expect(lastSaved()).toMatchObject({ state: TaskState.COMPLETED, merge: { path: "git", commit: "merge-commit" } });
+    });
+
+    describe("after a restart", () => {
+      const dysonTask = { id: "task-1", frontmatter: { title: "Test" }, description: "", status: "open" };
+
+      const restartMerging = async (merge?: TaskMerge) => {
+        const restored = new Task({
+          taskId: "task-1",
+          dysonTask,
+          worktreePath: "/test/worktrees/task-1",
+          branch: "orchid/task-1",
+        });
+        restored.assignImplementor("task-1-implementor");
+        restored.markImplementationComplete();
+        restored.assignReviewer("task-1-reviewer");
+        restored.markReviewComplete();
+        restored.assignMerger("task-1-merger");
+        if (merge) {
+          restored.recordMerge(merge);
+        }
+        mockTaskStore.loadAll.mockReturnValue([restored.toJSON()]);
+        mocks.mockSessionCreate.mockImplementation(async (options: any) => ({
+          instanceId: `instance-${options.agentType}`,
+          taskId: options.taskId,
+          agentType: options.agentType,
+        }));
+        mocks.mockBranchMerge.mockResolvedValue({ status: "merged", commit: "merge-commit" });
+        mocks.mockListTaskStream.mockReturnValue((async function* () {
+          yield [dysonTask];
+        })());
+        orchestrator = new AgentOrchestrator({
+          worktreeManager: mockWorktreeManager,
+          agentInstanceManager: mockAgentInstanceManager,
+          taskStore: mockTaskStore,
+          modelRepository: mockModelRepository,
+          config: { merge: { strategy: "squash" } },
+        });
+
+        orchestrator.start();
+        await vi.runAllTimersAsync();
+      };
+
+      it("should undo a git merge interrupted partway and merge again", async () => {
+        await restartMerging({ path: "git", strategy: "squash", previousHead: "before-merge" });
+
+        expect(mocks.mockUndoInterruptedMerge).toHaveBeenCalledWith("before-merge", "/test/worktrees/task-1");
+        expect(mocks.mockUndoInterruptedMerge.mock.invocationCallOrder[0])
+          .toBeLessThan(mocks.mockBranchMerge.mock.invocationCallOrder[0]);
+        expect(mocks.mockSessionCreate).not.toHaveBeenCalled();
+        expect(lastSaved()).toMatchObject({
+          state: TaskState.COMPLETED,
+          merge: { path: "git", strategy: "squash", commit: "merge-commit" },
+        });
+      });
+
+      it("should merge with git when the merge had not started", async () => {
+        await restartMerging();
+
+        expect(mocks.mockUndoInterruptedMerge).not.toHaveBeenCalled();
+        expect(mocks.mockBranchMerge).toHaveBeenCalledTimes(1);
+        expect(mocks.mockSessionCreate).not.toHaveBeenCalled();
+        expect(lastSaved()).toMatchObject({ state: TaskState.COMPLETED, merge: { path: "git", commit: "merge-commit" } });
+      });
+
+      it("should complete the task without merging again when the git merge was done", async () => {
+        await restartMerging({ path: "git", strategy: "squash", previousHead: "before-merge", commit: "merge-commit" });
+
+        expect(mocks.mockBranchMerge).not.toHaveBeenCalled();
+        expect(mocks.mockUndoInterruptedMerge).not.toHaveBeenCalled();
+        expect(mocks.mockSessionCreate).not.toHaveBeenCalled();
+        expect(lastSaved()).toMatchObject({ state: TaskState.COMPLETED, merge: { commit: "merge-commit" } });
+      });
+
+      it("should resume the merger agent a merge was handed to", async () => {
+        await restartMerging({ path: "agent", strategy: "squash", reason: "conflicts in: src/a.ts" });
+
+        expect(mocks.mockBranchMerge).not.toHaveBeenCalled();
+        expect(mocks.mockSessionCreate).toHaveBeenCalledWith(expect.objectContaining({ agentType: "merger" }));
+        expect(orchestrator.getRunningAgents()[0].state).toBe(TaskState.MERGING);
+      });
+    });
+
+    it("should always use a merger agent with the agent strategy", async () => {
+      await startWithMergeConfig({});
+
+      expect(mocks.mockBranchMerge).not.toHaveBeenCalled();
+      expect(mocks.mockSessionCreate).toHaveBeenCalledWith(expect.objectContaining({ agentType: "merger" }));
+      expect(lastSaved().merge).toEqual({ path: "agent", strategy: "agent" });
+    });
+  });
+
+  describe("merge queue", () => {
+    const startWithApprovedTasks = async () => {
+      mocks.mockSessionCreate.mockImplementation(async (options: any) => ({
+        instanceId: `instance-${options.agentType}-${options.taskId}`,
+        taskId: options.taskId,
+        agentType: options.agentType,
+      }));
+      mocks.mockSessionRemove.mockResolvedValue(undefined);
+      mocks.mockWorktreeCreate.mockResolvedValue(true);
+      mocks.mockListTaskStream.mockReturnValue((async function* () {
+        yield [
+          { id: "task-1", frontmatter: { title: "One" }, description: "", status: "open" },
+          { id: "task-2", frontmatter: { title: "Two" }, description: "", status: "open" },
+        ];
+      })());
+
+      orchestrator.start();
+      await vi.runAllTimersAsync();
+
+      const idleCallback = mockAgentInstanceManager.onAgentInstanceIdle.mock.calls[0][0];
+      const idle = async (taskId: string, agentType: string) => {
+        idleCallback(taskId, { instanceId: `instance-${agentType}-${taskId}`, taskId, agentType });
+        await vi.runAllTimersAsync();
+      };
+      for (const agentType of ["implementor", "reviewer"]) {
+        await idle("task-1", agentType);
+        await idle("task-2", agentType);
+      }
+      return idle;
+    };
+
+    const stateOf = (taskId: string) =>
+      orchestrator.getRunningAgents().find((agent) => agent.taskId === taskId);
+
+    it("should merge one task at a time in the order they were approved", async () => {
+      const idle = await startWithApprovedTasks();
+
+      expect(stateOf("task-1")).toMatchObject({ state: TaskState.MERGING, mergeQueuePosition: 1 });
+      expect(stateOf("task-2")).toMatchObject({ state: TaskState.AWAITING_MERGE, mergeQueuePosition: 2 });
+      const mergers = () => mocks.mockSessionCreate.mock.calls.filter(([options]) => options.agentType === "merger");
+      expect(mergers()).toHaveLength(1);
+
+      await idle("task-1", "merger");
+
+      expect(stateOf("task-1")).toBeUndefined();
+      expect(stateOf("task-2")).toMatchObject({ state: TaskState.MERGING, mergeQueuePosition: 1 });
+      expect(mergers()).toHaveLength(2);
+    });
+
+    it("should rebase each task's branch onto the mainline before its turn", async () => {
+      const idle = await startWithApprovedTasks();
+
+      expect(mocks.mockBranchUpdate).toHaveBeenCalledTimes(1);
+      expect(mocks.mockBranchUpdate).toHaveBeenCalledWith("orchid/task-1", "/test/worktrees/task-1");
+
+      await idle("task-1", "merger");
+
+      expect(mocks.mockBranchUpdate).toHaveBeenLastCalledWith("orchid/task-2", "/test/worktrees/task-2");
+    });
+
+    it("should still merge a branch that could not be updated", async () => {
+      mocks.mockBranchUpdate.mockRejectedValue(new Error("You have unstaged changes"));
+
+      await startWithApprovedTasks();
+
+      expect(stateOf("task-1")?.state).toBe(TaskState.MERGING);
+      expect(mocks.mockSessionCreate).toHaveBeenCalledWith(
+        expect.objectContaining({ taskId: "task-1", agentType: "merger" })
+      );
+    });
+  });
+
+  describe("verification", () => {
+    const startWithVerification = async (verification: Record<string, unknown>) => {
+      orchestrator = new AgentOrchestrator({
+        worktreeManager: mockWorktreeManager,
+        agentInstanceManager: mockAgentInstanceManager,
+        taskStore: mockTaskStore,
+        modelRepository: mockModelRepository,
+        config: { verification },
+      });
+      mocks.mockSessionCreate.mockImplementation(async (options: any) => ({
+        instanceId: `instance-${options.agentType}`,
+        taskId: options.taskId,
+        agentType: options.agentType,
+      }));
+      mocks.mockSessionRemove.mockResolvedValue(undefined);
+      mocks.mockWorktreeCreate.mockResolvedValue(true);
+      mocks.mockListTaskStream.mockReturnValue((async function* () {
+        yield [{ id: "task-1", frontmatter: { title: "Test" }, description: "", status: "open" }];
+      })());
+
+      orchestrator.start();
+      await vi.runAllTimersAsync();
+
+      const idleCallback = mockAgentInstanceManager.onAgentInstanceIdle.mock.calls[0][0];
+      return async (agentType: string) => {
+        idleCallback("task-1", { instanceId: `instance-${agentType}`, taskId: "task-1", agentType });
+        await vi.runAllTimersAsync();
+      };
+    };
+
+    const failedCheck = {
+      command: "npm test",
+      passed: false,
+      exitCode: 1,
+      timedOut: false,
+      output: "1 test failed",
+      durationMs: 2_000,
+    };
+
+    it("should run the commands in the worktree and tell the reviewer they passed", async () => {
+      mocks.mockRunChecks.mockResolvedValue([
+        { command: "npm test", passed: true, exitCode: 0, timedOut: false, output: "", durationMs: 2_000 },
+      ]);
+      const idle = await startWithVerification({ commands: ["npm test"], timeoutMs: 1_000 });
+
+      await idle("implementor");
+
+      expect(mocks.mockRunChecks).toHaveBeenCalledWith(["npm test"], { cwd: "/test/worktrees/task-1", timeoutMs: 1_000 });
+      expect(orchestrator.getRunningAgents()[0].state).toBe(TaskState.REVIEWING);
+      const reviewPrompt = mocks.mockSendMessage.mock.calls.at(-1)?.[1];
+      expect(reviewPrompt).toContain("## Verification");
+      expect(reviewPrompt).toContain("- `npm test` passed in 2s");
+    });
+
+    it("should send a failed verification back to the implementor with the output", async () => {
+      mocks.mockRunChecks.mockResolvedValue([failedCheck]);
+      const idle = await startWithVerification({ commands: ["npm test"] });
+
+      await idle("implementor");
+
+      expect(orchestrator.getRunningAgents()[0].state).toBe(TaskState.IMPLEMENTING);
+      expect(mocks.mockWorktreeCreate).toHaveBeenCalledTimes(1);
+      expect(mocks.mockSessionCreate).not.toHaveBeenCalledWith(expect.objectContaining({ agentType: "reviewer" }));
+      const fixPrompt = mocks.mockSendMessage.mock.calls.at(-1)?.[1];
+      expect(fixPrompt).toContain("# Verification Failed");
+      expect(fixPrompt).toContain("1 test failed");
+    });
+
+    it("should fail the task once verification fails too many times in a row", async () => {
+      mocks.mockRunChecks.mockResolvedValue([failedCheck]);
+      const idle = await startWithVerification({ commands: ["npm test"], maxFailures: 2 });
+
+      await idle("implementor");
+      await idle("implementor");
+
+      expect(mockTaskStore.save.mock.calls.at(-1)?.[0].toJSON()).toMatchObject({
+        state: TaskState.FAILED,
+        failureReason: "Verification failed 2 times in a row, last at `npm test`",
+      });
+    });
+
+    it("should not verify without commands", async () => {
+      const idle = await startWithVerification({});
+
+      await idle("implementor");
+
+      expect(mocks.mockRunChecks).not.toHaveBeenCalled();
+      expect(orchestrator.getRunningAgents()[0].state).toBe(TaskState.REVIEWING);
+    });
+  });
+
+  describe("human approval", () => {
+    const startWithApproval = async (approval: Record<string, unknown>, frontmatter: Record<string, unknown> = {}) => {
+      orchestrator = new AgentOrchestrator({
+        worktreeManager: mockWorktreeManager,
+        agentInstanceManager: mockAgentInstanceManager,
+        taskStore: mockTaskStore,
+        modelRepository: mockModelRepository,
+        config: { approval },
+      });
+      mocks.mockSessionCreate.mockImplementation(async (options: any) => ({
+        instanceId: `instance-${options.agentType}`,
+        taskId: options.taskId,
+        agentType: options.agentType,
+      }));
+      mocks.mockSessionRemove.mockResolvedValue(undefined);
+      mocks.mockWorktreeCreate.mockResolvedValue(true);
+      mocks.mockListTaskStream.mockReturnValue((async function* () {
+        yield [{ id: "task-1", frontmatter: { title: "Test", ...frontmatter }, description: "", status: "open" }];
+      })());
+
+      orchestrator.start();
+      await vi.runAllTimersAsync();
+
+      const idleCallback = mockAgentInstanceManager.onAgentInstanceIdle.mock.calls[0][0];
+      return async (agentType: string) => {
+        idleCallback("task-1", { instanceId: `instance-${agentType}`, taskId: "task-1", agentType });
+        await vi.runAllTimersAsync();
+      };
+    };
+
+    it("should wait for approval after review and merge once approved", async () => {
+      const idle = await startWithApproval({ required: true });
+
+      await idle("implementor");
+      await idle("reviewer");
+
+      expect(orchestrator.getRunningAgents()[0].state).toBe(TaskState.AWAITING_HUMAN_APPROVAL);
+      expect(mocks.mockSessionCreate).not.toHaveBeenCalledWith(expect.objectContaining({ agentType: "merger" }));
+
+      await orchestrator.handleTaskCommand({ type: "approve", taskId: "task-1", issuedAt: new Date() });
+
+      expect(mocks.mockSessionCreate).toHaveBeenCalledWith(expect.objectContaining({ agentType: "merger" }));
+      expect(orchestrator.getRunningAgents()[0].state).toBe(TaskState.MERGING);
+    });
+
+    it("should only wait for approval for tasks with a configured label", async () => {
+      const idle = await startWithApproval({ labels: ["needs-approval"] }, { labels: ["docs"] });
+
+      await idle("implementor");
+      await idle("reviewer");
+
+      expect(orchestrator.getRunningAgents()[0].state).toBe(TaskState.MERGING);
+    });
+
+    it("should send a rejected task back to the implementor with the reason", async () => {
+      const idle = await startWithApproval({ labels: ["needs-approval"] }, { labels: ["needs-approval"] });
+      await idle("implementor");
+      await idle("reviewer");
+
+      await orchestrator.handleTaskCommand({
+        type: "reject",
+        taskId: "task-1",
+        reason: "The endpoint must require authentication",
+        issuedAt: new Date(),
+      });
+
+      expect(mocks.mockSessionCreate).toHaveBeenLastCalledWith(expect.objectContaining({
+        agentType: "implementor",
+        sessionFilePath: "/test/.orchid/sessions/task-1/implementor-2.json",
+      }));
+      expect(mocks.mockSendMessage).toHaveBeenLastCalledWith(
+        "instance-implementor",
+        expect.stringContaining("The endpoint must require authentication"),
+        "/test/worktrees/task-1"
+      );
+      expect(orchestrator.getRunningAgents()[0].state).toBe(TaskState.IMPLEMENTING);
+    });
+
+    it("should reject approving a task that is not waiting for approval", async () => {
+      await startWithApproval({ required: true });
+
+      await expect(orchestrator.approveTask("task-1")).rejects.toThrow(
+        "Cannot approve: task is in implementing state, expected AWAITING_HUMAN_APPROVAL"
+      );
+    });
+  });
+
+  describe("pause, resume and cancel", () => {
+    const startTask = async () => {
+      mocks.mockSessionCreate.mockImplementation(async (options: any) => ({
+        instanceId: `instance-${options.agentType}`,
+        taskId: options.taskId,
+        agentType: options.agentType,
+      }));
+      mocks.mockSessionRemove.mockResolvedValue(undefined);
+      mocks.mockWorktreeCreate.mockResolvedValue(true);
+      mockWorktreeManager.isWorktree.mockResolvedValue(true);
+      mocks.mockListTaskStream.mockReturnValue((async function* () {
+        yield [{ id: "task-1", frontmatter: { title: "Test" }, description: "", status: "open" }];
+      })());
+
+      orchestrator.start();
+      await vi.runAllTimersAsync();
+    };
+
+    it("should stop a paused task's agent but keep its worktree", async () => {
+      await startTask();
+
+      await orchestrator.pauseTask("task-1");
+
+      expect(mocks.mockSessionRemove).toHaveBeenCalledWith("task-1");
+      expect(mocks.mockWorktreeRemove).not.toHaveBeenCalled();
+      expect(orchestrator.getRunningAgents()[0].state).toBe(TaskState.PAUSED);
+      expect(mockTaskStore.save.mock.calls.at(-1)?.[0].toJSON()).toMatchObject({
+        state: TaskState.PAUSED,
+        pausedFrom: TaskState.IMPLEMENTING,
+      });
+    });
+
+    it("should resume a paused task in its latest session", async () => {
+      await startTask();
+      await orchestrator.pauseTask("task-1");
+      mocks.mockSessionCreate.mockClear();
+
+      await orchestrator.resumeTask("task-1");
+
+      expect(mocks.mockSessionCreate).toHaveBeenCalledTimes(1);
+      expect(mocks.mockSessionCreate).toHaveBeenCalledWith(expect.objectContaining({
+        agentType: "implementor",
+        sessionFilePath: "/test/.orchid/sessions/task-1/implementor-1.json",
+      }));
+      expect(mocks.mockSendMessage).toHaveBeenLastCalledWith(
+        "instance-implementor",
+        expect.stringContaining("This task was paused by a person"),
+        "/test/worktrees/task-1"
+      );
+      expect(orchestrator.getRunningAgents()[0].state).toBe(TaskState.IMPLEMENTING);
+    });
+
+    it("should let queued tasks use a paused task's slot", async () => {
+      orchestrator = new AgentOrchestrator({
+        worktreeManager: mockWorktreeManager,
+        agentInstanceManager: mockAgentInstanceManager,
+        taskStore: mockTaskStore,
+        modelRepository: mockModelRepository,
+        config: { concurrency: { maxAgents: 1, perAgentType: {} } },
+      });
+      mocks.mockSessionCreate.mockImplementation(async (options: any) => ({
+        instanceId: `instance-${options.taskId}`,
+        taskId: options.taskId,
+        agentType: options.agentType,
+      }));
+      mocks.mockSessionRemove.mockResolvedValue(undefined);
+      mocks.mockWorktreeCreate.mockResolvedValue(true);
+      mocks.mockListTaskStream.mockReturnValue((async function* () {
+        yield [
+          { id: "task-1", frontmatter: { title: "First" }, description: "", status: "open" },
+          { id: "task-2", frontmatter: { title: "Second" }, description: "", status: "open" },
+        ];
+      })());
+      orchestrator.start();
+      await vi.runAllTimersAsync();
+      expect(mocks.mockSessionCreate).toHaveBeenCalledTimes(1);
+
+      await orchestrator.pauseTask("task-1");
+
+      expect(mocks.mockSessionCreate).toHaveBeenCalledTimes(2);
+      expect(mocks.mockSessionCreate).toHaveBeenLastCalledWith(expect.objectContaining({ taskId: "task-2" }));
+    });
+
+    it("should cancel a task, clean up its worktree and report it", async () => {
+      await startTask();
+
+      await orchestrator.handleTaskCommand({ type: "cancel", taskId: "task-1", issuedAt: new Date() });
+
+      expect(mocks.mockSessionRemove).toHaveBeenCalledWith("task-1");
+      expect(mocks.mockWorktreeRemove).toHaveBeenCalledWith("/test/worktrees/task-1", { force: true });
+      expect(mocks.mockUpdateTask).toHaveBeenCalledWith("task-1", {
+        frontmatter: { title: "Test", orchidStatus: TaskState.CANCELLED },
+        description: expect.stringContaining("- Outcome: cancelled"),
+      });
+      expect(mocks.mockChangeTaskStatus).not.toHaveBeenCalled();
+    });
+
+    it("should reject commands for unknown tasks or invalid transitions", async () => {
+      await startTask();
+
+      await expect(orchestrator.pauseTask("task-2")).rejects.toThrow("Task task-2 not found");
+      await expect(orchestrator.resumeTask("task-1")).rejects.toThrow("Cannot resume: task is in implementing state");
+    });
+  });
+
+  describe("task outcomes", () => {
+    const startTask = async () => {
+      mocks.mockSessionCreate.mockImplementation(async (options: any) => ({
+        instanceId: `instance-${options.agentType}`,
+        taskId: options.taskId,
+        agentType: options.agentType,
+      }));
+      mocks.mockSessionRemove.mockResolvedValue(undefined);
+      mocks.mockWorktreeCreate.mockResolvedValue(true);
+      mocks.mockListTaskStream.mockReturnValue((async function* () {
+        yield [{ id: "task-1", frontmatter: { title: "Test" }, description: "Do the thing", status: "open" }];
+      })());
+
+      orchestrator.start();
+      await vi.runAllTimersAsync();
+
+      const idleCallback = mockAgentInstanceManager.onAgentInstanceIdle.mock.calls[0][0];
+      return async (agentType: string) => {
+        idleCallback("task-1", { instanceId: `instance-${agentType}`, taskId: "task-1", agentType });
+        await vi.runAllTimersAsync();
+      };
+    };
+
+    it("should close a completed task with a result summary", async () => {
+      mocks.mockGetHead.mockResolvedValue("merge-commit");
+      const idle = await startTask();
+
+      await idle("implementor");
+      await idle("reviewer");
+      await idle("merger");
+
+      expect(mocks.mockUpdateTask).toHaveBeenCalledWith("task-1", {
+        frontmatter: { title: "Test", orchidStatus: TaskState.COMPLETED },
+        description: expect.stringContaining("Do the thing\n\n## Orchid Result\n\n- Outcome: completed"),
+      });
+      const description = mocks.mockUpdateTask.mock.calls[0][1].description;
+      expect(description).toContain("- Merge commit: merge-commit (merged by the merger agent)");
+      expect(description).toContain("- Sessions: implementor-1, reviewer-1, merger-1");
+      expect(description).toContain("  - implement: ");
+      expect(mocks.mockUnassignTask).toHaveBeenCalledWith("task-1");
+      expect(mocks.mockChangeTaskStatus).toHaveBeenCalledWith("task-1", "closed");
+      expect(mockTaskStore.save.mock.calls.at(-1)?.[0].outcomeReported).toBe(true);
+    });
+
+    it("should mark a failed task with the failure reason and leave it open", async () => {
+      mocks.mockListTaskStream.mockReturnValue((async function* () {
+        yield [{ id: "task-1", frontmatter: { title: "Test", pipeline: "missing" }, description: "", status: "open" }];
+      })());
+
+      orchestrator.start();
+      await vi.runAllTimersAsync();
+
+      expect(mocks.mockUpdateTask).toHaveBeenCalledWith("task-1", {
+        frontmatter: { title: "Test", pipeline: "missing", orchidStatus: TaskState.FAILED, failureReason: "Unknown pipeline missing" },
+        description: expect.stringContaining("- Outcome: failed: Unknown pipeline missing"),
+      });
+      expect(mocks.mockUnassignTask).toHaveBeenCalledWith("task-1");
+      expect(mocks.mockChangeTaskStatus).not.toHaveBeenCalled();
+    });
+
+    it("should retry reporting an outcome that could not be written", async () => {
+      mocks.mockUpdateTask.mockRejectedValueOnce(new Error("disk full"));
+      const dysonTask = { id: "task-1", frontmatter: { title: "Test", pipeline: "missing" }, description: "", status: "open" };
+      mocks.mockListTaskStream.mockReturnValue((async function* () {
+        yield [dysonTask];
+        yield [dysonTask];
+      })());
+
+      orchestrator.start();
+      await vi.runAllTimersAsync();
+
+      expect(mocks.mockUpdateTask).toHaveBeenCalledTimes(2);
+      expect(mocks.mockUnassignTask).toHaveBeenCalledTimes(1);
+      expect(mockTaskStore.save.mock.calls.at(-1)?.[0].outcomeReported).toBe(true);
+    });
+  });
+
+  describe("pipelines", () => {
+    const startWithPipelines = async (pipelines: Record<string, unknown>, frontmatter: Record<string, unknown>) => {
+      orchestrator = new AgentOrchestrator({
+        worktreeManager: mockWorktreeManager,
+        agentInstanceManager: mockAgentInstanceManager,
+        taskStore: mockTaskStore,
+        modelRepository: mockModelRepository,
+        config: { pipelines } as any,
+      });
+      mocks.mockSessionCreate.mockImplementation(async (options: any) => ({
+        instanceId: `instance-${options.agentType}`,
+        taskId: options.taskId,
+        agentType: options.agentType,
+      }));
+      mocks.mockSessionRemove.mockResolvedValue(undefined);
+      mocks.mockWorktreeCreate.mockResolvedValue(true);
+      mocks.mockListTaskStream.mockReturnValue((async function* () {
+        yield [{ id: "task-1", frontmatter: { title: "Test", ...frontmatter }, description: "", status: "open" }];
+      })());
+
+      orchestrator.start();
+      await vi.runAllTimersAsync();
+
+      const idleCallback = mockAgentInstanceManager.onAgentInstanceIdle.mock.calls[0][0];
+      return async (agentType: string) => {
+        idleCallback("task-1", { instanceId: `instance-${agentType}`, taskId: "task-1", agentType });
+        await vi.runAllTimersAsync();
+      };
+    };
+
+    const lastSaved = () => mockTaskStore.save.mock.calls.at(-1)?.[0].toJSON();
+
+    it("should run a task through the pipeline its frontmatter picks", async () => {
+      const idle = await startWithPipelines(
+        {
+          docs: {
+            phases: [
+              { name: "write", agentType: "implementor" },
+              { name: "merge", agentType: "merger" },
+            ],
+          },
+        },
+        { pipeline: "docs" }
+      );
+
+      await idle("implementor");
+
+      expect(mocks.mockSessionCreate).not.toHaveBeenCalledWith(expect.objectContaining({ agentType: "reviewer" }));
+      expect(orchestrator.getRunningAgents()[0]).toMatchObject({ state: TaskState.MERGING, pipeline: "docs", phase: "merge" });
+    });
+
+    it("should complete a task once the last phase of its pipeline is done", async () => {
+      const idle = await startWithPipelines(
+        { docs: { phases: [{ name: "write", agentType: "implementor" }] } },
+        { pipeline: "docs" }
+      );
+      mockWorktreeManager.isWorktree.mockResolvedValue(true);
+
+      await idle("implementor");
+
+      expect(lastSaved()).toMatchObject({ state: TaskState.COMPLETED, pipeline: "docs" });
+      expect(mocks.mockWorktreeRemove).toHaveBeenCalledWith("/test/worktrees/task-1", { force: true });
+    });
+
+    it("should run extra implementor phases in the task's worktree with a new session", async () => {
+      const idle = await startWithPipelines(
+        {
+          "tests-first": {
+            phases: [
+              { name: "tests", agentType: "implementor" },
+              { name: "implement", agentType: "implementor" },
+            ],
+          },
+        },
+        { pipeline: "tests-first" }
+      );
+
+      await idle("implementor");
+
+      expect(mocks.mockWorktreeCreate).toHaveBeenCalledTimes(1);
+      expect(mocks.mockSessionCreate).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          agentType: "implementor",
+          sessionFilePath: "/test/.orchid/sessions/task-1/implementor-2.json",
+        })
+      );
+      expect(orchestrator.getRunningAgents()[0]).toMatchObject({ state: TaskState.IMPLEMENTING, phase: "implement" });
+    });
+
+    it("should use the prompts and model a phase configures", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "orchid-pipeline-"));
+      try {
+        writeFileSync(join(dir, "system.md"), "You write documentation.");
+        await startWithPipelines(
+          {
+            docs: {
+              phases: [
+                {
+                  name: "write",
+                  agentType: "implementor",
+                  systemPrompt: join(dir, "system.md"),
+                  model: { provider: "anthropic", modelId: "docs-model" },
+                },
+              ],
+            },
+          },
+          { pipeline: "docs" }
+        );
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+
+      expect(mocks.mockSessionCreate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          systemPrompt: "You write documentation.",
+          model: { provider: "anthropic", modelId: "docs-model" },
+        })
+      );
+    });
+
+    it("should fail a task that picks an unknown pipeline", async () => {
+      await startWithPipelines({}, { pipeline: "missing" });
+
+      expect(mocks.mockSessionCreate).not.toHaveBeenCalled();
+      expect(lastSaved()).toMatchObject({ state: TaskState.FAILED, failureReason: "Unknown pipeline missing" });
+    });
+
+    it("should refuse pipelines that can't run", () => {
+      expect(
+        () =>
+          new AgentOrchestrator({
+            worktreeManager: mockWorktreeManager,
+            agentInstanceManager: mockAgentInstanceManager,
+            taskStore: mockTaskStore,
+            modelRepository: mockModelRepository,
+            config: { pipelines: { broken: { phases: [] } } },
+          })
+      ).toThrow("Pipeline broken has no phases");
+    });
+  });
+
+  describe("review panels", () => {
+    const opus = { provider: "anthropic", modelId: "claude-opus-4-1" };
+
+    const startWithPanel = async (config: Record<string, unknown>) => {
+      orchestrator = new AgentOrchestrator({
+        worktreeManager: mockWorktreeManager,
+        agentInstanceManager: mockAgentInstanceManager,
+        taskStore: mockTaskStore,
+        modelRepository: mockModelRepository,
+        config,
+      });
+      mocks.mockSessionCreate.mockImplementation(async (options: any) => ({
+        instanceId: `instance-${options.instanceKey ?? options.agentType}`,
+        taskId: options.taskId,
+        agentType: options.agentType,
+      }));
+      mocks.mockSessionRemove.mockResolvedValue(undefined);
+      mocks.mockWorktreeCreate.mockResolvedValue(true);
+      mockWorktreeManager.isWorktree.mockResolvedValue(true);
+      mocks.mockListTaskStream.mockReturnValue((async function* () {
+        yield [{ id: "task-1", frontmatter: { title: "Test" }, description: "", status: "open" }];
+      })());
+
+      orchestrator.start();
+      await vi.runAllTimersAsync();
+
+      const idleCallback = mockAgentInstanceManager.onAgentInstanceIdle.mock.calls[0][0];
+      return async (instance: string, agentType = "reviewer") => {
+        idleCallback("task-1", { instanceId: `instance-${instance}`, taskId: "task-1", agentType });
+        await vi.runAllTimersAsync();
+      };
+    };
+
+    // Verdicts by session version, e.g. { 2: approved } for reviewer-2.json
+    const verdicts = (bySession: Record<number, unknown>) => {
+      mocks.mockReadReviewVerdict.mockImplementation((path: string) => bySession[Number(path.match(/reviewer-(\d+)/)?.[1])]);
+    };
+    const approved = { verdict: "approved" };
+    const changes = (reason: string) => ({ verdict: "changes_requested", reasons: [reason] });
+
+    it("should start every reviewer in its own instance and session", async () => {
+      const idle = await startWithPanel({ review: { reviewers: [{}, { model: opus }] } });
+      mocks.mockSessionCreate.mockClear();
+
+      await idle("implementor", "implementor");
+
+      expect(mocks.mockSessionCreate).toHaveBeenCalledTimes(2);
+      expect(mocks.mockSessionCreate).toHaveBeenCalledWith(expect.objectContaining({
+        instanceKey: "task-1-reviewer-1",
+        sessionFilePath: "/test/.orchid/sessions/task-1/reviewer-2.json",
+        model: { provider: "anthropic", modelId: "reviewer-model" },
+      }));
+      expect(mocks.mockSessionCreate).toHaveBeenCalledWith(expect.objectContaining({
+        instanceKey: "task-1-reviewer-2",
+        sessionFilePath: "/test/.orchid/sessions/task-1/reviewer-3.json",
+        model: opus,
+      }));
+      expect(orchestrator.getRunningAgents().map((agent) => agent.agentId)).toEqual([
+        "task-1-implementor",
+        "task-1-reviewer",
+        "task-1-reviewer-1",
+        "task-1-reviewer-2",
+      ]);
+    });
+
+    it("should wait for every reviewer before approving unanimously", async () => {
+      const idle = await startWithPanel({ review: { reviewers: [{}, {}] } });
+      verdicts({ 2: approved, 3: approved });
+      await idle("implementor", "implementor");
+
+      await idle("task-1-reviewer-1");
+      expect(orchestrator.getRunningAgents()[0].state).toBe(TaskState.REVIEWING);
+
+      await idle("task-1-reviewer-2");
+      expect(orchestrator.getRunningAgents()[0].state).toBe(TaskState.MERGING);
+    });
+
+    it("should collect every reviewer's feedback when a unanimous panel requests changes", async () => {
+      const idle = await startWithPanel({ review: { reviewers: [{}, {}] } });
+      verdicts({ 2: changes("Add tests"), 3: changes("Fix lint") });
+      await idle("implementor", "implementor");
+
+      await idle("task-1-reviewer-1");
+      await idle("task-1-reviewer-2");
+
+      expect(orchestrator.getRunningAgents()[0].state).toBe(TaskState.IMPLEMENTING);
+      const revisionPrompt = mocks.mockSendMessage.mock.calls.at(-1)?.[1];
+      expect(revisionPrompt).toContain("- Add tests");
+      expect(revisionPrompt).toContain("- Fix lint");
+    });
+
+    it("should stop the other reviewers as soon as one blocks", async () => {
+      const idle = await startWithPanel({ review: { reviewers: [{}, {}, {}], consensus: "any-blocks" } });
+      verdicts({ 3: changes("Add tests") });
+      await idle("implementor", "implementor");
+
+      await idle("task-1-reviewer-2");
+
+      expect(mocks.mockSessionRemove).toHaveBeenCalledWith("task-1-reviewer-1");
+      expect(mocks.mockSessionRemove).toHaveBeenCalledWith("task-1-reviewer-3");
+      expect(orchestrator.getRunningAgents()[0]).toMatchObject({ state: TaskState.IMPLEMENTING });
+      expect(mockTaskStore.save.mock.calls.at(-1)?.[0].toJSON()).toMatchObject({
+        reviewFeedback: ["Add tests"],
+        reviews: [],
+      });
+    });
+
+    it("should approve once a majority approves", async () => {
+      const idle = await startWithPanel({ review: { reviewers: [{}, {}, {}], consensus: "majority" } });
+      verdicts({ 2: approved, 3: changes("Add tests"), 4: approved });
+      await idle("implementor", "implementor");
+
+      await idle("task-1-reviewer-1");
+      await idle("task-1-reviewer-2");
+      expect(orchestrator.getRunningAgents()[0].state).toBe(TaskState.REVIEWING);
+
+      await idle("task-1-reviewer-3");
+      expect(orchestrator.getRunningAgents()[0].state).toBe(TaskState.MERGING);
+    });
+
+    it("should use the panel a review phase configures", async () => {
+      const idle = await startWithPanel({
+        review: { reviewers: [{}, {}, {}] },
+        pipelines: {
+          default: {
+            phases: [
+              { name: "implement", agentType: "implementor" },
+              { name: "review", agentType: "reviewer", reviewers: [{ model: opus }] },
+              { name: "merge", agentType: "merger" },
+            ],
+          },
+        },
+      });
+      mocks.mockSessionCreate.mockClear();
+
+      await idle("implementor", "implementor");
+
+      expect(mocks.mockSessionCreate).toHaveBeenCalledTimes(1);
+      expect(mocks.mockSessionCreate).toHaveBeenCalledWith(expect.objectContaining({
+        instanceKey: "task-1",
+        model: opus,
+      }));
+    });
+
+    it("should retry only the reviewers without a verdict after one fails", async () => {
+      const idle = await startWithPanel({ review: { reviewers: [{}, {}, {}] } });
+      verdicts({ 2: approved, 5: approved, 6: approved });
+      await idle("implementor", "implementor");
+      await idle("task-1-reviewer-1");
+      mocks.mockReadReviewVerdict.mockImplementationOnce(() => {
+        throw new Error("Reviewer did not write a verdict");
+      });
+      mocks.mockSessionCreate.mockClear();
+
+      await idle("task-1-reviewer-2");
+
+      expect(mocks.mockSessionRemove).toHaveBeenCalledWith("task-1-reviewer-3");
+      expect(mocks.mockSessionCreate).toHaveBeenCalledTimes(2);
+      expect(mocks.mockSessionCreate).toHaveBeenCalledWith(expect.objectContaining({
+        instanceKey: "task-1-reviewer-2",
+        sessionFilePath: "/test/.orchid/sessions/task-1/reviewer-5.json",
+      }));
+      expect(mocks.mockSessionCreate).toHaveBeenCalledWith(expect.objectContaining({
+        instanceKey: "task-1-reviewer-3",
+        sessionFilePath: "/test/.orchid/sessions/task-1/reviewer-6.json",
+      }));
+
+      await idle("task-1-reviewer-2");
+      await idle("task-1-reviewer-3");
+      expect(orchestrator.getRunningAgents()[0].state).toBe(TaskState.MERGING);
+    });
+
+    it("should publish the error of a panel reviewer with its own agent ID", async () => {
+      const idle = await startWithPanel({ review: { reviewers: [{}, {}] } });
+      const events: any[] = [];
+      orchestrator.events.on("agent_errored", (event) => events.push(event));
+      await idle("implementor", "implementor");
+      mocks.mockReadReviewVerdict.mockImplementationOnce(() => {
+        throw new Error("Reviewer did not write a verdict");
+      });
+
+      await idle("task-1-reviewer-2");
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ agentType: "reviewer", agentId: "task-1-reviewer-2" });
+    });
+
+    it("should resume each reviewer in its own session", async () => {
+      const idle = await startWithPanel({ review: { reviewers: [{}, {}] } });
+      verdicts({ 2: approved });
+      await idle("implementor", "implementor");
+      await idle("task-1-reviewer-1");
+      await orchestrator.pauseTask("task-1");
+      mocks.mockSessionCreate.mockClear();
+
+      await orchestrator.resumeTask("task-1");
+
+      expect(mocks.mockSessionCreate).toHaveBeenCalledTimes(1);
+      expect(mocks.mockSessionCreate).toHaveBeenCalledWith(expect.objectContaining({
+        instanceKey: "task-1-reviewer-2",
+        sessionFilePath: "/test/.orchid/sessions/task-1/reviewer-3.json",
+      }));
+      expect(mocks.mockSendMessage).toHaveBeenLastCalledWith(
+        "instance-task-1-reviewer-2",
+        expect.stringContaining("# Resume Work"),
+        "/test/worktrees/task-1"
+      );
+    });
+
+    it("should reject a workspace panel without reviewers", () => {
+      expect(() => new AgentOrchestrator({
+        worktreeManager: mockWorktreeManager,
+        agentInstanceManager: mockAgentInstanceManager,
+        taskStore: mockTaskStore,
+        modelRepository: mockModelRepository,
+        config: { review: { reviewers: [] } },
+      })).toThrow("review.reviewers must list at least one reviewer");
+    });
+  });
+
+  describe("watchdog", () => {
+    const startWithTimeouts = async (config: Record<string, unknown>) => {
+      orchestrator = new AgentOrchestrator({
+        worktreeManager: mockWorktreeManager,
+        agentInstanceManager: mockAgentInstanceManager,
+        taskStore: mockTaskStore,
+        modelRepository: mockModelRepository,
+        config,
+      });
+      mocks.mockSessionCreate.mockImplementation(async (options: any) => ({
+        instanceId: `instance-${options.agentType}`,
+        taskId: options.taskId,
+        agentType: options.agentType,
+      }));
+      mocks.mockSessionRemove.mockResolvedValue(undefined);
+      mocks.mockWorktreeCreate.mockResolvedValue(true);
+      mocks.mockGetSession.mockResolvedValue(undefined);
+      mocks.mockListTaskStream.mockReturnValue((async function* () {
+        yield [{ id: "task-1", frontmatter: { title: "Test" }, description: "", status: "open" }];
+      })());
+
+      orchestrator.start();
+      await vi.advanceTimersByTimeAsync(0);
+    };
+
+    it("should stop an agent that runs past its max runtime and retry the phase", async () => {
+      await startWithTimeouts({ timeouts: { implementor: { maxRuntimeMs: 60_000 } } });
+      expect(mocks.mockSessionRemove).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(60_000);
+
+      expect(mocks.mockSessionRemove).toHaveBeenCalledWith("task-1");
+      expect(orchestrator.getRunningAgents()[0]).toMatchObject({
+        state: TaskState.IMPLEMENTING,
+        lastError: "implementor timed out after running for 1m",
+      });
+
+      // The retry starts a new implementor after the retry delay
+      await vi.advanceTimersByTimeAsync(5_000);
+      expect(mocks.mockSessionCreate).toHaveBeenCalledTimes(2);
+    });
+
+    it("should stop an agent without activity for the inactivity timeout", async () => {
+      await startWithTimeouts({ timeouts: { implementor: { inactivityTimeoutMs: 60_000 } } });
+
+      await vi.advanceTimersByTimeAsync(30_000);
+      mocks.mockGetSession.mockResolvedValue({ instanceId: "instance-implementor", lastActivityAt: new Date() });
+      await vi.advanceTimersByTimeAsync(30_000);
+
+      expect(mocks.mockSessionRemove).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(30_000);
+
+      expect(mocks.mockSessionRemove).toHaveBeenCalledWith("task-1");
+      expect(orchestrator.getRunningAgents()[0].lastError).toBe("implementor stalled with no activity for 1m");
+    });
+
+    it("should fail the task once timeouts use up its attempts", async () => {
+      await startWithTimeouts({
+        timeouts: { implementor: { maxRuntimeMs: 60_000 } },
+        retry: { implementor: { maxAttempts: 1 } },
+      });
+
+      await vi.advanceTimersByTimeAsync(60_000);
+
+      expect(orchestrator.getRunningAgents()[0]).toMatchObject({
+        state: TaskState.FAILED,
+        failureReason: "implementor failed after 1 attempts: implementor timed out after running for 1m",
+      });
+    });
+
+    it("should not watch agent types without timeouts", async () => {
+      await startWithTimeouts({});
+
+      await vi.advanceTimersByTimeAsync(24 * 60 * 60 * 1000);
+
+      expect(mocks.mockSessionRemove).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("lifecycle events", () => {
+    const dysonTask = { id: "task-1", frontmatter: { title: "Test" }, description: "", status: "open" };
+
+    const startWithStream = async (...taskLists: unknown[][]) => {
+      const events: any[] = [];
+      orchestrator.events.subscribe((event) => events.push(event));
+      mocks.mockSessionCreate.mockImplementation(async (options: any) => ({
+        instanceId: `instance-${options.agentType}`,
+        taskId: options.taskId,
+        agentType: options.agentType,
+      }));
+      mocks.mockWorktreeCreate.mockResolvedValue(true);
+      mocks.mockListTaskStream.mockReturnValue((async function* () {
+        for (const tasks of taskLists) {
+          yield tasks;
+        }
+      })());
+
+      orchestrator.start();
+      await vi.runAllTimersAsync();
+      return { events, idleCallback: mockAgentInstanceManager.onAgentInstanceIdle.mock.calls[0][0] };
+    };
+
+    it("should publish discovery, transitions and agent starts with task snapshots", async () => {
+      const { events } = await startWithStream([dysonTask]);
+
+      expect(events.map((event) => event.type)).toEqual(["task_discovered", "task_transition", "agent_started"]);
+      expect(events[0]).toMatchObject({ taskId: "task-1", task: { state: TaskState.PENDING_IMPLEMENTATION } });
+      expect(events[0].timestamp).toBeInstanceOf(Date);
+      expect(events[1]).toMatchObject({
+        from: TaskState.PENDING_IMPLEMENTATION,
+        to: TaskState.IMPLEMENTING,
+        task: { state: TaskState.IMPLEMENTING, implementorAgentId: "task-1-implementor" },
+      });
+      expect(events[2]).toMatchObject({ agentType: "implementor", agentId: "task-1-implementor" });
+    });
+
+    it("should publish agent stops when a phase completes", async () => {
+      const { events, idleCallback } = await startWithStream([dysonTask]);
+      events.length = 0;
+
+      idleCallback("task-1", { instanceId: "instance-implementor", agentType: "implementor" });
+      await vi.runAllTimersAsync();
+
+      expect(events.map((event) => [event.type, event.to ?? event.agentType])).toEqual([
+        ["agent_stopped", "implementor"],
+        ["task_transition", TaskState.AWAITING_REVIEW],
+        ["task_transition", TaskState.REVIEWING],
+        ["agent_started", "reviewer"],
+      ]);
+    });
+
+    it("should publish agent errors", async () => {
+      mocks.mockSessionCreate.mockRejectedValue(new Error("Network error"));
+      const events: any[] = [];
+      orchestrator.events.on("agent_errored", (event) => events.push(event));
+      mocks.mockWorktreeCreate.mockResolvedValue(true);
+      mocks.mockListTaskStream.mockReturnValue((async function* () {
+        yield [dysonTask];
+      })());
+
+      orchestrator.start();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(events[0]).toMatchObject({
+        type: "agent_errored",
+        agentType: "implementor",
+        agentId: "task-1-implementor",
+        error: "Network error",
+      });
+      expect(events[0].task).toMatchObject({ taskId: "task-1", dysonTask });
+    });
+
+    it("should publish when a task is removed", async () => {
+      const { events } = await startWithStream([dysonTask], []);
+
+      expect(events.map((event) => event.type)).toContain("task_removed");
+      expect(events.at(-1)).toMatchObject({ type: "task_removed", taskId: "task-1" });
+    });
+  });
+
   describe("getRunningAgents", () => {
     it("should return empty array when no agents running", () => {
       expect(orchestrator.getRunningAgents()).toEqual([]);
@@ -4,7 +4,7 @@
  * Monitors tasks and orchestrates agent lifecycles.
  * Uses Task state machine and separate agent implementations.
  * Responsibilities:
- * - Detect when new implementors/reviewers are needed
+ * - Detect when new planners/implementors/reviewers are needed
  * - Create and attach agents
  * - Handle agent lifecycle events
  * - Move tasks through the state machine
@@ -12,47 +12,132 @@
 
 import { TaskManager, type Task as DysonTask } from "dyson-swarm";
 import { WorktreeManager } from "../core/git/worktrees/index.js";
-import { getWorktreesDir, getOrchidDir } from "../config/paths.js";
-import type { AgentInstanceManager } from "./agents/interface/index.js";
-import { SessionRepository, createSessionRepository } from "./session-repository.js";
-import { Task, TaskState, createTaskFromDyson } from "../core/tasks/index.js";
-import { join } from "node:path";
+import { BranchMerger, type MergeStrategy } from "../core/git/merge/index.js";
+import { runChecks } from "../core/checks/index.js";
+import { getWorktreesDir, getOrchidDir, getTasksFile, getMainRepoDir } from "../config/paths.js";
+import {
+  resolveOrchidConfig,
+  type OrchidConfig,
+  type OrchidConfigOverrides,
+  type PipelinePhaseConfig,
+  type ReviewerConfig,
+  type TaskOutcome,
+} from "../config/orchid-config.js";
+import type { AgentInstance, AgentInstanceManager } from "./agents/interface/index.js";
+import { SessionRepository, createSessionRepository, AgentType } from "./session-repository.js";
+import { ModelRepository, createModelRepository, type Model } from "../models/index.js";
+import {
+  Task,
+  TaskState,
+  TaskStateStore,
+  createTaskFromDyson,
+  createTaskStateStore,
+  getTaskBranchName,
+} from "../core/tasks/index.js";
+import { basename, dirname, join, resolve } from "node:path";
 import { createImplementorAgent, type ImplementorAgent } from "./agents/implementor.js";
-import { createReviewerAgent, type ReviewerAgent } from "./agents/reviewer.js";
+import { createReviewerAgent, getReviewerAgentId, type ReviewerAgent } from "./agents/reviewer.js";
 import { createMergerAgent, type MergerAgent } from "./agents/merger.js";
+import { createPlannerAgent, type PlannerAgent } from "./agents/planner.js";
+import type { ReviewVerdict } from "./agents/review-verdict.js";
+import type { TaskPlan } from "./agents/task-plan.js";
+import { isRetryableError, getRetryDelay } from "./retry-policy.js";
+import { getMergeQueue, getQueue, getWaitingAgentType, hasCapacity } from "./scheduler.js";
+import { getDependencyStatus, type DependencyStatus } from "./dependencies.js";
+import { getNextCheckDelay, getTimeoutReason } from "./watchdog.js";
+import { shouldVerify, summarizeChecks } from "./verification.js";
+import { requiresApproval } from "./approval.js";
+import { combineVerdicts, validateReviewConfig, type ConsensusRule } from "./consensus.js";
+import { appendTaskResult, formatTaskResult } from "./outcomes.js";
+import { getRequestedPipeline, getTaskPhases, loadPhasePrompts, validatePipeline, type PhasePrompts } from "./pipeline.js";
+import { createOrchestratorEventBus, type OrchestratorEventBus, type OrchestratorEventDetails } from "./events.js";
+import type { TaskCommand } from "./task-commands.js";
+import type { ResumeReason } from "../templates/index.js";
 import { log } from "../core/logging/index.js";
 
+/** How to fix a missing model, appended to the error */
+const ASSIGN_MODEL_HINT =
+  "Assign one with `orchid models assign <agent-type> <provider> <model-id>` " +
+  "or set a default with `orchid models assign default <provider> <model-id>`";
+
 export interface AgentInfo {
   taskId: string;
   agentId: string;
   startedAt: Date;
   state: TaskState;
+  /** Pipeline the task runs through */
+  pipeline: string;
+  /** Pipeline phase the task is in or waiting for */
+  phase: string;
   worktreePath: string;
+  branch?: string;
+  /** Position in the scheduling queue, starting at 1, while the task waits for an agent slot */
+  queuePosition?: number;
+  /** Position in the merge queue, starting at 1 for the task merging or next to merge */
+  mergeQueuePosition?: number;
+  /** Scheduling priority from the task's frontmatter, before aging */
+  priority: number;
+  /** Prerequisite task IDs the task is waiting for before it can be queued */
+  blockedBy?: string[];
+  /** Why the task failed, once it is in the FAILED state */
+  failureReason?: string;
+  /** Error of the last failed attempt at the current phase, such as a watchdog timeout */
+  lastError?: string;
 }
 
 export interface AgentOrchestratorOptions {
   cwdProvider?: () => string;
   worktreeManager?: WorktreeManager;
+  branchMerger?: BranchMerger;
   agentInstanceManager?: AgentInstanceManager;
+  sessionRepository?: SessionRepository;
+  modelRepository?: ModelRepository;
+  taskStore?: TaskStateStore;
+  config?: OrchidConfigOverrides;
+  eventBus?: OrchestratorEventBus;
 }
 
 export class AgentOrchestrator {
+  /** Task and agent lifecycle events */
+  readonly events: OrchestratorEventBus;
   private taskManager: TaskManager;
   private tasks: Map<string, Task> = new Map();
+  /** Last published state of each task, to detect transitions */
+  private taskStates: Map<string, TaskState> = new Map();
+  private tasksToResume: Set<string> = new Set();
   private implementors: Map<string, ImplementorAgent> = new Map();
-  private reviewers: Map<string, ReviewerAgent> = new Map();
+  /** Reviewers of each task's review panel that have not given their verdict yet */
+  private reviewers: Map<string, ReviewerAgent[]> = new Map();
   private mergers: Map<string, MergerAgent> = new Map();
+  private planners: Map<string, PlannerAgent> = new Map();
+  /** Tasks whose branch the orchestrator is merging with git */
+  private gitMerges: Set<string> = new Set();
+  private retryTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private watchdogTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
   private abortController: AbortController | null = null;
+  private idleListenerRegistered = false;
   private worktreeManager: WorktreeManager;
+  private branchMerger: BranchMerger;
   private agentInstanceManager: AgentInstanceManager;
   private sessionRepository: SessionRepository;
+  private modelRepository: ModelRepository;
+  private taskStore: TaskStateStore;
+  private config: OrchidConfig;
   private cwdProvider: () => string;
   private worktreesDir: string;
+  private archiveDir: string;
 
   constructor(options: AgentOrchestratorOptions) {
     this.cwdProvider = options.cwdProvider ?? (() => process.cwd());
+    this.config = resolveOrchidConfig(options.config);
+    validateReviewConfig(this.config.review);
+    for (const [name, pipeline] of Object.entries(this.config.pipelines)) {
+      validatePipeline(name, pipeline);
+    }
+    this.events = options.eventBus ?? createOrchestratorEventBus();
     this.taskManager = new TaskManager({ cwdProvider: this.cwdProvider });
     this.worktreeManager = options.worktreeManager ?? new WorktreeManager(this.cwdProvider());
+    this.branchMerger = options.branchMerger ?? new BranchMerger(getMainRepoDir(this.cwdProvider));
     
     // Initialize agent instance manager
     this.worktreesDir = getWorktreesDir(this.cwdProvider);
@@ -63,38 +148,68 @@ export class AgentOrchestrator {
     
     // Initialize session repository
     const orchidDir = getOrchidDir(this.cwdProvider);
-    const sessionsDir = join(orchidDir, "sessions");
-    this.sessionRepository = createSessionRepository({ sessionsDir });
+    this.archiveDir = join(orchidDir, "archive");
+    if (options.sessionRepository) {
+      this.sessionRepository = options.sessionRepository;
+    } else {
+      const sessionsDir = join(orchidDir, "sessions");
+      this.sessionRepository = createSessionRepository({ sessionsDir });
+    }
+
+    // Initialize model repository and make sure every agent type has a model to run with
+    this.modelRepository = options.modelRepository ?? createModelRepository({
+      modelsJsonPath: join(orchidDir, "models.json"),
+    });
+    this.assertModelsConfigured();
+
+    // Initialize task state store
+    this.taskStore = options.taskStore ?? createTaskStateStore({
+      tasksJsonPath: getTasksFile(this.cwdProvider),
+    });
   }
 
+  /**
+   * Start monitoring dyson-swarm tasks.
+   * Resolves once the orchestrator is stopped, and rejects if the task monitor fails.
+   */
   async start(): Promise<void> {
     if (this.abortController) {
       log.log("[orchestrator] Already running");
       return;
     }
 
-    this.abortController = new AbortController();
+    const abortController = new AbortController();
+    this.abortController = abortController;
     log.log("[orchestrator] Starting task monitor...");
 
-    // TODO: Implement generic event listener via AgentInstanceManager
-    // This will be added in a future PR
-    log.log("[orchestrator] Note: Event listener will be implemented in future PR");
+    this.restoreTasks();
+    await this.pruneOrphanWorktrees();
+
+    // Route idle events to the owning agent. The manager has no way to unsubscribe,
+    // so register only once even if the orchestrator is restarted.
+    if (!this.idleListenerRegistered) {
+      this.agentInstanceManager.onAgentInstanceIdle((taskId, instance) => {
+        this.handleAgentInstanceIdle(taskId, instance);
+      });
+      this.idleListenerRegistered = true;
+    }
 
     try {
       const stream = this.taskManager.listTaskStream({ status: "open" });
 
       for await (const dysonTasks of stream) {
-        if (this.abortController.signal.aborted) {
+        if (abortController.signal.aborted) {
           break;
         }
         await this.syncTasks(dysonTasks);
       }
     } catch (error) {
-      if ((error as Error).name === "AbortError") {
+      if ((error as Error).name === "AbortError" || abortController.signal.aborted) {
         log.log("[orchestrator] Task monitor aborted");
-      } else {
-        log.error("[orchestrator] Error in task monitor:", error);
+        return;
       }
+      log.error("[orchestrator] Error in task monitor:", error);
+      throw error instanceof Error ? error : new Error(String(error));
     }
   }
 
@@ -112,6 +227,7 @@ export class AgentOrchestrator {
     for (const [taskId, implementor] of this.implementors) {
       try {
         await implementor.stop();
+        this.emitAgentStopped(taskId, AgentType.IMPLEMENTOR, implementor.agentId);
         log.log(`[orchestrator] Stopped implementor for task ${taskId}`);
       } catch (error) {
         log.error(`[orchestrator] Error stopping implementor for task ${taskId}:`, error);
@@ -121,12 +237,15 @@ export class AgentOrchestrator {
 
     // Stop all reviewer agents
     log.log("[orchestrator] Stopping all reviewer agents...");
-    for (const [taskId, reviewer] of this.reviewers) {
-      try {
-        await reviewer.stop();
-        log.log(`[orchestrator] Stopped reviewer for task ${taskId}`);
-      } catch (error) {
-        log.error(`[orchestrator] Error stopping reviewer for task ${taskId}:`, error);
+    for (const [taskId, reviewers] of this.reviewers) {
+      for (const reviewer of reviewers) {
+        try {
+          await reviewer.stop();
+          this.emitAgentStopped(taskId, AgentType.REVIEWER, reviewer.agentId);
+          log.log(`[orchestrator] Stopped reviewer ${reviewer.agentId} for task ${taskId}`);
+        } catch (error) {
+          log.error(`[orchestrator] Error stopping reviewer ${reviewer.agentId} for task ${taskId}:`, error);
+        }
       }
     }
     this.reviewers.clear();
@@ -136,6 +255,7 @@ export class AgentOrchestrator {
     for (const [taskId, merger] of this.mergers) {
       try {
         await merger.stop();
+        this.emitAgentStopped(taskId, AgentType.MERGER, merger.agentId);
         log.log(`[orchestrator] Stopped merger for task ${taskId}`);
       } catch (error) {
         log.error(`[orchestrator] Error stopping merger for task ${taskId}:`, error);
@@ -143,320 +263,1530 @@ export class AgentOrchestrator {
     }
     this.mergers.clear();
 
-    // Clear tasks
+    // Stop all planner agents
+    log.log("[orchestrator] Stopping all planner agents...");
+    for (const [taskId, planner] of this.planners) {
+      try {
+        await planner.stop();
+        this.emitAgentStopped(taskId, AgentType.PLANNER, planner.agentId);
+        log.log(`[orchestrator] Stopped planner for task ${taskId}`);
+      } catch (error) {
+        log.error(`[orchestrator] Error stopping planner for task ${taskId}:`, error);
+      }
+    }
+    this.planners.clear();
+
+    // Cancel pending retries - the tasks resume their phase on the next start
+    for (const timer of this.retryTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.retryTimers.clear();
+
+    for (const timer of this.watchdogTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.watchdogTimers.clear();
+
+    // Clear tasks - their state stays persisted so they resume on the next start
     this.tasks.clear();
+    this.taskStates.clear();
+    this.tasksToResume.clear();
     
     log.log("[orchestrator] Stopped");
   }
 
   /**
-   * Sync tasks with dyson-swarm.
-   * Creates tasks for new open tasks, removes tasks that are no longer open.
+   * Ensure every agent type but the planner resolves to a model.
+   * The planner's model is only resolved once an epic is planned, so workspaces without epics need none.
+   * @throws Error listing the agent types without a model
    */
-  private async syncTasks(dysonTasks: DysonTask[]): Promise<void> {
-    const openTaskIds = new Set(dysonTasks.map((t) => t.id));
+  private assertModelsConfigured(): void {
+    const missing = Object.values(AgentType).filter(
+      (agentType) => agentType !== AgentType.PLANNER && !this.modelRepository.resolveModelForAgent(agentType)
+    );
 
-    // Create tasks for new open tasks
-    for (const dysonTask of dysonTasks) {
-      if (!this.tasks.has(dysonTask.id)) {
-        const task = createTaskFromDyson(dysonTask, this.worktreesDir);
-        this.tasks.set(task.taskId, task);
-        log.log(`[orchestrator] Created task ${task.taskId}`);
-      }
+    if (missing.length > 0) {
+      throw new Error(`No model configured for agent type(s): ${missing.join(", ")}. ${ASSIGN_MODEL_HINT}`);
     }
+  }
 
-    // Remove tasks that are no longer open
-    for (const [taskId, task] of this.tasks) {
-      if (!openTaskIds.has(taskId)) {
-        // Task is no longer open
-        log.log(`[orchestrator] Task ${taskId} no longer open, cleaning up`);
-        
-        // Stop implementor if running
-        const implementor = this.implementors.get(taskId);
-        if (implementor) {
-          await implementor.stop();
-          this.implementors.delete(taskId);
-        }
-        
-        // Stop reviewer if running
-        const reviewer = this.reviewers.get(taskId);
-        if (reviewer) {
-          await reviewer.stop();
-          this.reviewers.delete(taskId);
-        }
-        
-        // Stop merger if running
-        const merger = this.mergers.get(taskId);
-        if (merger) {
-          await merger.stop();
-          this.mergers.delete(taskId);
-        }
-        
-        this.tasks.delete(taskId);
-      }
+  /**
+   * Get the configuration of the pipeline phase a task is in, if its pipeline is still configured
+   */
+  private getPhaseConfig(task: Task): PipelinePhaseConfig | undefined {
+    if (!Object.hasOwn(this.config.pipelines, task.pipeline)) {
+      return undefined;
     }
+    return this.config.pipelines[task.pipeline].phases.find((phase) => phase.name === task.phase.name);
+  }
 
-    // Process tasks - assign implementors where needed
-    await this.processTasks();
+  /**
+   * Get the model the agent working on a task's current phase runs with
+   */
+  private getPhaseModel(task: Task, agentType: AgentType): Model {
+    return this.getPhaseConfig(task)?.model ?? this.getModel(agentType);
   }
 
   /**
-   * Process tasks in the state machine.
-   * Assigns agents based on task state.
+   * Get the reviewers on the panel reviewing a task's current phase
    */
-  private async processTasks(): Promise<void> {
-    for (const task of this.tasks.values()) {
-      // Check if task needs an implementor
-      if (task.canAssignImplementor() && !this.implementors.has(task.taskId)) {
-        await this.createImplementor(task);
-      }
+  private getPhaseReviewers(task: Task): ReviewerConfig[] {
+    return this.getPhaseConfig(task)?.reviewers ?? this.config.review.reviewers;
+  }
 
-      // Check if task needs a reviewer
-      if (task.canAssignReviewer() && !this.reviewers.has(task.taskId)) {
-        await this.createReviewer(task);
-      }
+  /**
+   * Get the rule combining the verdicts of the panel reviewing a task's current phase
+   */
+  private getPhaseConsensus(task: Task): ConsensusRule {
+    return this.getPhaseConfig(task)?.consensus ?? this.config.review.consensus;
+  }
 
-      // Check if task needs a merger
-      if (task.canAssignMerger() && !this.mergers.has(task.taskId)) {
-        await this.createMerger(task);
-      }
+  /**
+   * Read the prompts a task's current phase replaces its agent type's defaults with
+   */
+  private getPhasePrompts(task: Task): PhasePrompts {
+    const phase = this.getPhaseConfig(task);
+    return phase ? loadPhasePrompts(phase, this.cwdProvider()) : {};
+  }
+
+  /**
+   * Get the model an agent type runs with
+   * @throws Error if no model is configured for the agent type
+   */
+  private getModel(agentType: AgentType): Model {
+    const model = this.modelRepository.resolveModelForAgent(agentType);
+    if (!model) {
+      throw new Error(`No model configured for agent type ${agentType}`);
     }
+    return model;
   }
 
   /**
-   * Create an implementor agent for a task.
-   * Creates worktree, then creates the implementor agent.
+   * Restore tasks persisted by a previous run.
+   * Tasks that had an active agent are queued to be reattached to their latest session.
    */
-  private async createImplementor(task: Task): Promise<void> {
-    const agentId = `${task.taskId}-implementor`;
-    log.log(`[orchestrator] Creating implementor ${agentId} for task ${task.taskId}`);
+  private restoreTasks(): void {
+    for (const data of this.taskStore.loadAll()) {
+      if (this.tasks.has(data.taskId)) {
+        continue;
+      }
 
-    try {
-      // Transition task state first to mark it as taken
-      task.assignImplementor(agentId);
+      const task = Task.fromJSON(data, (changed) => this.handleTaskChange(changed));
+      this.tasks.set(task.taskId, task);
+      this.taskStates.set(task.taskId, task.state);
+
+      if (
+        task.state === TaskState.PLANNING ||
+        task.state === TaskState.IMPLEMENTING ||
+        task.state === TaskState.VERIFYING ||
+        task.state === TaskState.REVIEWING ||
+        task.state === TaskState.MERGING
+      ) {
+        this.tasksToResume.add(task.taskId);
+      }
 
-      // Create worktree
-      const worktreePath = `${this.worktreesDir}/${task.taskId}`;
-      await this.worktreeManager.create(worktreePath, "HEAD", { detach: true });
-      log.log(`[orchestrator] Created worktree at ${worktreePath} for task ${task.taskId}`);
+      log.log(`[orchestrator] Restored task ${task.taskId} in ${task.state} state`);
+    }
+  }
 
-      const implementor = createImplementorAgent({
-        taskId: task.taskId,
-        dysonTask: task.dysonTask,
-        worktreePath: worktreePath,
-        agentInstanceManager: this.agentInstanceManager,
-        sessionRepository: this.sessionRepository,
-        taskManager: this.taskManager,
-        onComplete: (taskId: string) => {
-          this.handleImplementationComplete(taskId);
-        },
-        onError: (taskId: string, error: Error) => {
-          this.handleImplementationError(taskId, error);
-        },
-      });
+  /**
+   * Persist a changed task and publish its state transition, if it made one
+   */
+  private handleTaskChange(task: Task): void {
+    this.persistTask(task);
 
-      this.implementors.set(task.taskId, implementor);
+    const from = this.taskStates.get(task.taskId);
+    this.taskStates.set(task.taskId, task.state);
+    if (from !== undefined && from !== task.state) {
+      this.emitEvent(task, { type: "task_transition", from, to: task.state });
+    }
+  }
 
-      // Start the implementor - this creates its session
-      await implementor.start();
+  /**
+   * Publish an event for a task, stamped with the current time and the task's state
+   */
+  private emitEvent(task: Task, details: OrchestratorEventDetails): void {
+    this.events.emit({
+      ...details,
+      timestamp: new Date(),
+      taskId: task.taskId,
+      task: task.toJSON(),
+    });
+  }
 
-      log.log(`[orchestrator] Implementor ${agentId} started for task ${task.taskId}`);
-    } catch (error) {
-      log.error(`[orchestrator] Failed to create implementor for task ${task.taskId}:`, error);
-      await this.handleImplementationError(task.taskId, error instanceof Error ? error : new Error(String(error)));
+  /**
+   * Publish that a task's agent was stopped
+   */
+  private emitAgentStopped(taskId: string, agentType: AgentType, agentId: string): void {
+    const task = this.tasks.get(taskId);
+    if (task) {
+      this.emitEvent(task, { type: "agent_stopped", agentType, agentId });
     }
   }
 
   /**
-   * Create a reviewer agent for a task.
-   * Uses existing worktree, agent creates its own session.
+   * Publish that a task's agent failed
    */
-  private async createReviewer(task: Task): Promise<void> {
-    const agentId = `${task.taskId}-reviewer`;
-    log.log(`[orchestrator] Creating reviewer ${agentId} for task ${task.taskId}`);
+  private emitAgentErrored(task: Task, agentType: AgentType, agentId: string, error: Error): void {
+    this.emitEvent(task, { type: "agent_errored", agentType, agentId, error: error.message });
+  }
 
+  /**
+   * Persist a task's current state.
+   * Failures are logged but never interrupt the state machine.
+   */
+  private persistTask(task: Task): void {
     try {
-      // Transition task state
-      task.assignReviewer(agentId);
-
-      // Get existing worktree from the task
-      const worktreePath = task.worktreePath;
-      
-      if (!worktreePath) {
-        throw new Error(`Task ${task.taskId} missing worktree for review`);
-      }
-
-      log.log(`[orchestrator] Using existing worktree at ${worktreePath}`);
-
-      // Create reviewer agent - agent manages its own session
-      const reviewer = createReviewerAgent({
-        taskId: task.taskId,
-        dysonTask: task.dysonTask,
-        worktreePath: worktreePath,
-        agentInstanceManager: this.agentInstanceManager,
-        sessionRepository: this.sessionRepository,
-        onComplete: (taskId: string) => {
-          this.handleReviewComplete(taskId);
-        },
-        onError: (taskId: string, error: Error) => {
-          this.handleReviewError(taskId, error);
-        },
-      });
-
-      this.reviewers.set(task.taskId, reviewer);
-
-      // Start the reviewer - this creates its session
-      await reviewer.start();
-
-      log.log(`[orchestrator] Reviewer ${agentId} started for task ${task.taskId}`);
+      this.taskStore.save(task);
     } catch (error) {
-      log.error(`[orchestrator] Failed to create reviewer for task ${task.taskId}:`, error);
-      await this.handleReviewError(task.taskId, error instanceof Error ? error : new Error(String(error)));
+      log.error(`[orchestrator] Failed to persist task ${task.taskId}:`, error);
     }
   }
 
   /**
-   * Create a merger agent for a task.
-   * Uses existing worktree, agent creates its own session.
+   * Stop tracking a task, cancel any pending retry and drop its persisted state.
    */
-  private async createMerger(task: Task): Promise<void> {
-    const agentId = `${task.taskId}-merger`;
-    log.log(`[orchestrator] Creating merger ${agentId} for task ${task.taskId}`);
-
+  private forgetTask(taskId: string): void {
+    this.tasks.delete(taskId);
+    this.taskStates.delete(taskId);
+    this.clearWatchdog(taskId);
+    this.tasksToResume.delete(taskId);
+    const retryTimer = this.retryTimers.get(taskId);
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      this.retryTimers.delete(taskId);
+    }
     try {
-      // Transition task state
-      task.assignMerger(agentId);
-
-      // Get existing worktree from the task
-      const worktreePath = task.worktreePath;
-      
-      if (!worktreePath) {
-        throw new Error(`Task ${task.taskId} missing worktree for merge`);
-      }
+      this.taskStore.remove(taskId);
+    } catch (error) {
+      log.error(`[orchestrator] Failed to remove persisted task ${taskId}:`, error);
+    }
+  }
 
-      log.log(`[orchestrator] Using existing worktree at ${worktreePath}`);
+  /**
+   * Sync tasks with dyson-swarm.
+   * Creates tasks for new open tasks, picks up edits to queued tasks,
+   * removes tasks that are no longer open.
+   */
+  private async syncTasks(dysonTasks: DysonTask[]): Promise<void> {
+    const openTaskIds = new Set(dysonTasks.map((t) => t.id));
 
-      // Create merger agent - agent manages its own session
-      const merger = createMergerAgent({
-        taskId: task.taskId,
-        worktreePath: worktreePath,
-        agentInstanceManager: this.agentInstanceManager,
-        sessionRepository: this.sessionRepository,
-        onComplete: (taskId: string) => {
-          this.handleMergeComplete(taskId);
-        },
-        onError: (taskId: string, error: Error) => {
-          this.handleMergeError(taskId, error);
-        },
-      });
+    // Create tasks for new open tasks
+    for (const dysonTask of dysonTasks) {
+      if (!this.tasks.has(dysonTask.id)) {
+        const pipelineName = getRequestedPipeline(dysonTask);
+        const pipeline = Object.hasOwn(this.config.pipelines, pipelineName)
+          ? { name: pipelineName, phases: getTaskPhases(this.config.pipelines[pipelineName]) }
+          : undefined;
+        const task = createTaskFromDyson(dysonTask, this.worktreesDir, (changed) => this.handleTaskChange(changed), pipeline);
+        this.tasks.set(task.taskId, task);
+        this.taskStates.set(task.taskId, task.state);
+        this.persistTask(task);
+        log.log(`[orchestrator] Created task ${task.taskId} with pipeline ${task.pipeline}`);
+        this.emitEvent(task, { type: "task_discovered" });
+
+        // Nothing has started yet, so there is no worktree to clean up
+        if (!pipeline) {
+          task.markFailed(`Unknown pipeline ${pipelineName}`);
+          log.log(`[orchestrator] Task ${task.taskId} moved to FAILED state: Unknown pipeline ${pipelineName}`);
+        }
+      }
+    }
 
-      this.mergers.set(task.taskId, merger);
+    // Queued tasks follow edits to their frontmatter, such as a new priority
+    for (const dysonTask of dysonTasks) {
+      const task = this.tasks.get(dysonTask.id);
+      if (!task || !getWaitingAgentType(task.state) || JSON.stringify(task.dysonTask) === JSON.stringify(dysonTask)) {
+        continue;
+      }
+      const previousPriority = task.priority;
+      task.updateDysonTask(dysonTask);
+      if (task.priority !== previousPriority) {
+        log.log(`[orchestrator] Task ${task.taskId} priority changed from ${previousPriority} to ${task.priority}`);
+      }
+    }
 
-      // Start the merger - this creates its session
-      await merger.start();
+    // Remove tasks that are no longer open
+    for (const [taskId, task] of this.tasks) {
+      if (!openTaskIds.has(taskId)) {
+        // Task is no longer open
+        log.log(`[orchestrator] Task ${taskId} no longer open, cleaning up`);
+        await this.stopTaskAgents(taskId);
 
-      log.log(`[orchestrator] Merger ${agentId} started for task ${task.taskId}`);
-    } catch (error) {
-      log.error(`[orchestrator] Failed to create merger for task ${task.taskId}:`, error);
-      await this.handleMergeError(task.taskId, error instanceof Error ? error : new Error(String(error)));
+        // Completed, failed and cancelled tasks were already cleaned up when they finished
+        if (!task.isInTerminalState()) {
+          await this.cleanupTaskWorktree(task, "cancelled");
+        }
+        
+        this.recordSubtaskOutcome(task);
+        this.emitEvent(task, { type: "task_removed" });
+        this.forgetTask(taskId);
+      }
     }
+
+    // Process tasks - assign implementors where needed
+    await this.processTasks();
   }
 
   /**
-   * Handle implementation completion.
-   * Called when an implementor agent finishes.
-   * Creates a reviewer agent for the task.
+   * Stop a task's running agents and cancel its pending retry and watchdog
    */
-  private async handleImplementationComplete(taskId: string): Promise<void> {
-    const task = this.tasks.get(taskId);
-    if (!task) {
-      log.error(`[orchestrator] Task ${taskId} not found for completion`);
-      return;
+  private async stopTaskAgents(taskId: string): Promise<void> {
+    this.clearWatchdog(taskId);
+    const retryTimer = this.retryTimers.get(taskId);
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      this.retryTimers.delete(taskId);
     }
 
-    log.log(`[orchestrator] Task ${taskId} implementation complete`);
-
-    // Remove the implementor agent
+    // Stop implementor if running
     const implementor = this.implementors.get(taskId);
     if (implementor) {
       await implementor.stop();
       this.implementors.delete(taskId);
+      this.emitAgentStopped(taskId, AgentType.IMPLEMENTOR, implementor.agentId);
     }
 
-    // Transition task state
-    try {
-      task.markImplementationComplete();
-      log.log(`[orchestrator] Task ${taskId} moved to AWAITING_REVIEW state`);
-      
-      // Create reviewer agent
-      await this.createReviewer(task);
-    } catch (error) {
-      log.error(`[orchestrator] Failed to transition task ${taskId}:`, error);
+    // Stop reviewers if running
+    await this.stopReviewers(taskId);
+
+    // Stop merger if running
+    const merger = this.mergers.get(taskId);
+    if (merger) {
+      await merger.stop();
+      this.mergers.delete(taskId);
+      this.emitAgentStopped(taskId, AgentType.MERGER, merger.agentId);
+    }
+
+    // Stop planner if running
+    const planner = this.planners.get(taskId);
+    if (planner) {
+      await planner.stop();
+      this.planners.delete(taskId);
+      this.emitAgentStopped(taskId, AgentType.PLANNER, planner.agentId);
     }
   }
 
   /**
-   * Handle review completion.
-   * Called when a reviewer agent finishes.
-   * Creates a merger agent for the task.
+   * Write a finished task's outcome back to its dyson-swarm task.
+   * Appends a result summary and records the outcome in the frontmatter. Completed tasks are closed;
+   * failed and cancelled tasks stay open, so tasks depending on them still see the outcome.
+   * Failures are logged and the report is retried on the next pass.
    */
-  private async handleReviewComplete(taskId: string): Promise<void> {
-    const task = this.tasks.get(taskId);
-    if (!task) {
-      log.error(`[orchestrator] Task ${taskId} not found for review completion`);
-      return;
-    }
-
-    log.log(`[orchestrator] Task ${taskId} review complete`);
-
-    // Remove the reviewer agent
-    const reviewer = this.reviewers.get(taskId);
-    if (reviewer) {
-      await reviewer.stop();
-      this.reviewers.delete(taskId);
-    }
+  private async reportOutcome(task: Task): Promise<void> {
+    const completed = task.state === TaskState.COMPLETED;
+    const failed = task.state === TaskState.FAILED;
+    const result = formatTaskResult(task, this.sessionRepository.listSessions(task.taskId));
 
-    // Transition task state
     try {
-      task.markReviewComplete();
-      log.log(`[orchestrator] Task ${taskId} moved to AWAITING_MERGE state`);
-      
-      // Create merger agent
-      await this.createMerger(task);
+      await this.taskManager.updateTask(task.taskId, {
+        frontmatter: {
+          ...task.dysonTask.frontmatter,
+          orchidStatus: task.state,
+          ...(failed ? { failureReason: task.failureReason } : {}),
+        } as DysonTask["frontmatter"],
+        description: appendTaskResult(task.dysonTask.description, result),
+      });
+      await this.taskManager.unassignTask(task.taskId);
+      if (completed) {
+        await this.taskManager.changeTaskStatus(task.taskId, "closed");
+      }
+      task.markOutcomeReported();
+      log.log(`[orchestrator] Reported ${task.state} outcome of task ${task.taskId} to dyson-swarm`);
     } catch (error) {
-      log.error(`[orchestrator] Failed to transition task ${taskId} after review:`, error);
+      log.warn(`[orchestrator] Failed to report outcome of task ${task.taskId} to dyson-swarm:`, error);
     }
   }
 
   /**
-   * Handle merge completion.
-   * Called when a merger agent finishes.
-   * Cleans up resources and marks task as complete.
+   * Create the subtasks of a planned epic, then complete the epic once they all completed,
+   * or fail it as soon as one of them failed or was cancelled.
    */
-  private async handleMergeComplete(taskId: string): Promise<void> {
-    const task = this.tasks.get(taskId);
-    if (!task) {
-      log.error(`[orchestrator] Task ${taskId} not found for merge completion`);
+  private async trackSubtasks(epic: Task): Promise<void> {
+    if (!(await this.createSubtasks(epic))) {
       return;
     }
 
-    log.log(`[orchestrator] Task ${taskId} merge complete`);
+    for (const subtask of epic.subtasks) {
+      const child = subtask.taskId === undefined ? undefined : this.tasks.get(subtask.taskId);
+      if (child?.isInTerminalState()) {
+        this.recordSubtaskOutcome(child);
+      }
+    }
 
-    // Remove the merger agent
-    const merger = this.mergers.get(taskId);
-    if (merger) {
-      await merger.stop();
-      this.mergers.delete(taskId);
+    const unsuccessful = epic.subtasks.find((subtask) => subtask.outcome === "failed" || subtask.outcome === "cancelled");
+    if (unsuccessful) {
+      await this.failTask(epic, `Subtask ${unsuccessful.taskId} ${unsuccessful.outcome === "failed" ? "failed" : "was cancelled"}`);
+      return;
     }
 
-    // Transition task state
-    try {
-      task.markMergeComplete();
-      log.log(`[orchestrator] Task ${taskId} moved to COMPLETED state`);
+    if (epic.subtasks.every((subtask) => subtask.outcome === "completed")) {
+      try {
+        epic.markSubtasksComplete();
+        log.log(`[orchestrator] All ${epic.subtasks.length} subtasks of task ${epic.taskId} completed, moved to ${epic.state} state`);
+      } catch (error) {
+        log.error(`[orchestrator] Failed to transition task ${epic.taskId} after its subtasks:`, error);
+      }
+    }
+  }
+
+  /**
+   * Create the dyson-swarm tasks for the subtasks of an epic's plan that do not exist yet.
+   * Subtasks are created in plan order, so the tasks they depend on always exist first,
+   * and inherit the epic's priority and labels.
+   * Failures are logged and the rest is created on the next pass.
+   * @returns Whether every subtask exists
+   */
+  private async createSubtasks(epic: Task): Promise<boolean> {
+    const frontmatter = epic.dysonTask.frontmatter as Record<string, unknown>;
+    for (const subtask of epic.subtasks) {
+      if (subtask.taskId !== undefined) {
+        continue;
+      }
+
+      const dependsOn = subtask.dependsOn
+        .map((key) => epic.subtasks.find((other) => other.key === key)?.taskId)
+        .filter((taskId): taskId is string => taskId !== undefined);
+      try {
+        const created = await this.taskManager.createTask({
+          frontmatter: {
+            title: subtask.title,
+            parent: epic.taskId,
+            ...(dependsOn.length > 0 ? { dependsOn } : {}),
+            ...(frontmatter.priority !== undefined ? { priority: frontmatter.priority } : {}),
+            ...(frontmatter.labels !== undefined ? { labels: frontmatter.labels } : {}),
+          } as DysonTask["frontmatter"],
+          description: subtask.description,
+        });
+        epic.recordSubtaskCreated(subtask.key, created.id);
+        log.log(`[orchestrator] Created subtask ${created.id} (${subtask.key}) of task ${epic.taskId}`);
+      } catch (error) {
+        log.warn(`[orchestrator] Failed to create subtask ${subtask.key} of task ${epic.taskId}:`, error);
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Record how a finished or closed task went on the epic it is a subtask of, if any.
+   * A subtask closed in dyson-swarm before it finished counts as completed, as prerequisites do.
+   */
+  private recordSubtaskOutcome(child: Task): void {
+    const epic = [...this.tasks.values()].find((task) =>
+      task.subtasks.some((subtask) => subtask.taskId === child.taskId && subtask.outcome === undefined)
+    );
+    if (!epic) {
+      return;
+    }
+
+    const outcome: TaskOutcome =
+      child.state === TaskState.FAILED ? "failed" : child.state === TaskState.CANCELLED ? "cancelled" : "completed";
+    epic.recordSubtaskOutcome(child.taskId, outcome);
+    const done = epic.subtasks.filter((subtask) => subtask.outcome !== undefined).length;
+    log.log(`[orchestrator] Subtask ${child.taskId} of task ${epic.taskId} ${outcome} (${done}/${epic.subtasks.length} done)`);
+  }
+
+  /**
+   * Process tasks in the state machine.
+   * Reattaches resumed agents, creates and tracks the subtasks of planned epics,
+   * fails tasks whose prerequisites can never complete, then starts agents for
+   * queued tasks in queue order as long as the concurrency limits allow.
+   */
+  private async processTasks(): Promise<void> {
+    if (!this.abortController) {
+      return;
+    }
+
+    // Reattach agents that were running before a restart
+    for (const task of [...this.tasks.values()]) {
+      if (this.tasksToResume.has(task.taskId)) {
+        this.tasksToResume.delete(task.taskId);
+        await this.reattachTask(task, "restart");
+      }
+    }
+
+    // Epics finish once their subtasks do, so this comes before their outcome is reported
+    for (const task of [...this.tasks.values()]) {
+      if (task.state === TaskState.AWAITING_SUBTASKS) {
+        await this.trackSubtasks(task);
+      }
+    }
+
+    // Write the outcomes of finished tasks back to dyson-swarm, retrying any that failed before
+    for (const task of [...this.tasks.values()]) {
+      if (task.isInTerminalState() && !task.outcomeReported) {
+        await this.reportOutcome(task);
+      }
+    }
+
+    for (const task of [...this.tasks.values()]) {
+      const dependencies = this.checkDependencies(task);
+      if (dependencies.status === "failed") {
+        await this.failTask(task, dependencies.reason);
+      }
+    }
+
+    for (const task of this.getSchedulingQueue()) {
+      // Earlier iterations may have moved or dropped the task
+      const agentType = getWaitingAgentType(task.state);
+      if (!agentType || this.tasks.get(task.taskId) !== task) {
+        continue;
+      }
+
+      if (!hasCapacity(this.config.concurrency, this.tasks.values(), agentType)) {
+        continue;
+      }
+
+      switch (agentType) {
+        case AgentType.PLANNER:
+          if (!this.planners.has(task.taskId)) {
+            await this.createPlanner(task);
+          }
+          break;
+        case AgentType.IMPLEMENTOR:
+          if (!this.implementors.has(task.taskId)) {
+            await this.createImplementor(task);
+          }
+          break;
+        case AgentType.REVIEWER:
+          if (!this.reviewers.has(task.taskId)) {
+            await this.createReviewer(task);
+          }
+          break;
+        case AgentType.MERGER:
+          // Only the head of the merge queue merges, one task at a time
+          if (!this.mergers.has(task.taskId) && getMergeQueue(this.tasks.values())[0] === task) {
+            await this.createMerger(task);
+          }
+          break;
+      }
+    }
+  }
+
+  /**
+   * Check the prerequisites of a task that has not started yet.
+   * Tasks that already started, or went back for revision, are never held back again.
+   */
+  private checkDependencies(task: Task): DependencyStatus {
+    const notStarted =
+      (task.state === TaskState.PENDING_IMPLEMENTATION && task.implementorAgentId === undefined) ||
+      (task.state === TaskState.PENDING_PLANNING && task.plannerAgentId === undefined);
+    if (!notStarted || task.dependsOn.length === 0) {
+      return { status: "ready" };
+    }
+    return getDependencyStatus(task, this.tasks);
+  }
+
+  /**
+   * Get the queued tasks whose prerequisites are done, in scheduling order
+   */
+  private getSchedulingQueue(): Task[] {
+    return getQueue(
+      [...this.tasks.values()].filter((task) => this.checkDependencies(task).status === "ready"),
+      this.config.scheduling.agingIntervalMs
+    );
+  }
+
+  /**
+   * Create a planner agent for an epic.
+   * Epics have no branch; the planner explores a throwaway worktree of the mainline.
+   */
+  private async createPlanner(task: Task): Promise<void> {
+    const agentId = `${task.taskId}-planner`;
+    log.log(`[orchestrator] Creating planner ${agentId} for task ${task.taskId}`);
+
+    // Retrying can't help until a model is assigned, so fail the epic right away
+    if (!this.getPhaseConfig(task)?.model && !this.modelRepository.resolveModelForAgent(AgentType.PLANNER)) {
+      await this.failTask(task, `No model configured for agent type planner. ${ASSIGN_MODEL_HINT}`);
+      return;
+    }
+
+    try {
+      // Transition task state
+      task.assignPlanner(agentId);
+
+      await this.startPlanner(task, undefined);
+    } catch (error) {
+      log.error(`[orchestrator] Failed to create planner for task ${task.taskId}:`, error);
+      await this.handlePlanError(task.taskId, error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * Start a planner agent in the epic's planning worktree, creating it if needed.
+   * When resuming, the agent reattaches to its latest session; retries start a new session.
+   */
+  private async startPlanner(task: Task, resume: ResumeReason | undefined, newSession = false): Promise<void> {
+    const worktreePath = await this.createPlannerWorktree(task);
+    const planner = createPlannerAgent({
+      taskId: task.taskId,
+      dysonTask: task.dysonTask,
+      repositoryPath: worktreePath,
+      agentInstanceManager: this.agentInstanceManager,
+      sessionRepository: this.sessionRepository,
+      model: this.getPhaseModel(task, AgentType.PLANNER),
+      ...this.getPhasePrompts(task),
+      onComplete: (taskId: string, plan: TaskPlan) => {
+        this.handlePlanComplete(taskId, plan);
+      },
+      onError: (taskId: string, error: Error) => {
+        this.handlePlanError(taskId, error);
+      },
+      resume,
+      newSession,
+    });
+
+    this.planners.set(task.taskId, planner);
+
+    // Start the planner - this creates its session
+    await planner.start();
+    if (planner.isRunning()) {
+      this.emitEvent(task, { type: "agent_started", agentType: AgentType.PLANNER, agentId: planner.agentId });
+      this.startWatchdog(task.taskId, AgentType.PLANNER, planner.agentId);
+    }
+
+    log.log(`[orchestrator] Planner ${planner.agentId} started for task ${task.taskId}`);
+  }
+
+  /**
+   * Create the worktree a planner explores, detached at the base ref so the planner
+   * never works in the main repository that merges happen in.
+   * A planner resumed after a restart or pause keeps the worktree it was exploring.
+   */
+  private async createPlannerWorktree(task: Task): Promise<string> {
+    const worktreePath = task.worktreePath ?? `${this.worktreesDir}/${task.taskId}`;
+    if (!(await this.worktreeManager.isWorktree(worktreePath))) {
+      await this.worktreeManager.create(worktreePath, this.config.git.baseRef, { detach: true });
+      log.log(`[orchestrator] Created planning worktree at ${worktreePath} for task ${task.taskId}`);
+    }
+    return worktreePath;
+  }
+
+  /**
+   * Remove the worktree a planner explored once its attempt is over.
+   * Failures are logged but never interrupt the state machine.
+   */
+  private async removePlannerWorktree(task: Task): Promise<void> {
+    const worktreePath = task.worktreePath ?? `${this.worktreesDir}/${task.taskId}`;
+    try {
+      if (await this.worktreeManager.isWorktree(worktreePath)) {
+        await this.worktreeManager.remove(worktreePath, { force: true });
+        log.log(`[orchestrator] Removed planning worktree at ${worktreePath} for task ${task.taskId}`);
+      }
+    } catch (error) {
+      log.error(`[orchestrator] Failed to remove planning worktree for task ${task.taskId}:`, error);
+    }
+  }
+
+  /**
+   * Create an implementor agent for a task.
+   * Creates worktree, then creates the implementor agent.
+   */
+  private async createImplementor(task: Task): Promise<void> {
+    const agentId = `${task.taskId}-implementor`;
+    log.log(`[orchestrator] Creating implementor ${agentId} for task ${task.taskId}`);
+
+    try {
+      // A task sent back by review or verification, or in a later phase of its pipeline, continues in its existing worktree
+      const isRevision =
+        task.reviewFeedback !== undefined || task.verification?.passed === false || task.rejectionReason !== undefined;
+      const hasWorktree = isRevision || task.phaseIndex > 0;
+
+      // Transition task state first to mark it as taken
+      task.assignImplementor(agentId);
+
+      const worktreePath = `${this.worktreesDir}/${task.taskId}`;
+      if (hasWorktree) {
+        log.log(`[orchestrator] Continuing task ${task.taskId} in existing worktree at ${worktreePath}`);
+      } else {
+        await this.createTaskWorktree(task, worktreePath);
+      }
+
+      await this.startImplementor(task, worktreePath, undefined);
+    } catch (error) {
+      log.error(`[orchestrator] Failed to create implementor for task ${task.taskId}:`, error);
+      await this.handleImplementationError(task.taskId, error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * Create the task's worktree on its own branch.
+   * The branch is created from the configured base ref, or checked out again
+   * if an earlier attempt already created it. Tasks with prerequisites update
+   * the mainline first so they start from their prerequisites' merged work.
+   */
+  private async createTaskWorktree(task: Task, worktreePath: string): Promise<void> {
+    const branch = task.branch;
+    if (!branch) {
+      throw new Error(`Task ${task.taskId} missing branch for implementation`);
+    }
+
+    if (await this.worktreeManager.branchExists(branch)) {
+      await this.worktreeManager.create(worktreePath, branch);
+    } else {
+      if (task.dependsOn.length > 0) {
+        await this.updateMainline(task);
+      }
+      await this.worktreeManager.create(worktreePath, this.config.git.baseRef, { branch });
+    }
+    log.log(`[orchestrator] Created worktree at ${worktreePath} on branch ${branch} for task ${task.taskId}`);
+  }
+
+  /**
+   * Pull the latest mainline into the main repository.
+   * Failures are logged and the worktree is created from the local mainline.
+   */
+  private async updateMainline(task: Task): Promise<void> {
+    try {
+      await this.worktreeManager.pull();
+      log.log(`[orchestrator] Updated mainline before creating worktree for task ${task.taskId}`);
+    } catch (error) {
+      log.warn(`[orchestrator] Failed to update mainline for task ${task.taskId}, using local mainline:`, error);
+    }
+  }
+
+  /**
+   * Apply the configured cleanup policy to a finished task's worktree and branch.
+   * Failures are logged but never interrupt the state machine.
+   */
+  private async cleanupTaskWorktree(task: Task, outcome: TaskOutcome): Promise<void> {
+    const policy = this.config.worktrees.cleanup[outcome];
+    if (policy === "keep") {
+      log.log(`[orchestrator] Keeping worktree for ${outcome} task ${task.taskId}`);
+      return;
+    }
+
+    try {
+      await this.removeWorktree(task.taskId, task.worktreePath, task.branch, policy === "archive");
+    } catch (error) {
+      log.error(`[orchestrator] Failed to clean up worktree for task ${task.taskId}:`, error);
+    }
+  }
+
+  /**
+   * Remove a worktree and delete its branch, optionally archiving its work first.
+   * A branch that never made it into the mainline is archived even when not asked to,
+   * and kept if there is no worktree to archive it from. Nothing is removed if archiving fails.
+   */
+  private async removeWorktree(taskId: string, worktreePath: string | undefined, branch: string | undefined, archive: boolean): Promise<void> {
+    const existingBranch = branch && (await this.worktreeManager.branchExists(branch)) ? branch : undefined;
+    const unmerged = existingBranch !== undefined && !(await this.worktreeManager.isBranchMerged(existingBranch));
+
+    let archived = false;
+    if (worktreePath && (await this.worktreeManager.isWorktree(worktreePath))) {
+      if (archive || unmerged) {
+        const archiveDir = join(this.archiveDir, taskId);
+        const files = await this.worktreeManager.archive(worktreePath, archiveDir, this.config.git.baseRef);
+        archived = true;
+        if (archive) {
+          log.log(`[orchestrator] Archived ${files.length} file(s) for task ${taskId} to ${archiveDir}`);
+        } else {
+          log.warn(`[orchestrator] Branch ${existingBranch} of task ${taskId} was never merged, archived ${files.length} file(s) to ${archiveDir}`);
+        }
+      }
+      await this.worktreeManager.remove(worktreePath, { force: true });
+      log.log(`[orchestrator] Removed worktree at ${worktreePath} for task ${taskId}`);
+    }
+
+    if (existingBranch) {
+      if (unmerged && !archived) {
+        log.warn(`[orchestrator] Keeping branch ${existingBranch} of task ${taskId}, it was never merged`);
+        return;
+      }
+      // Only archived work may be force deleted; git refuses to drop anything else that isn't merged
+      await this.worktreeManager.deleteBranch(existingBranch, { force: archived });
+      log.log(`[orchestrator] Deleted branch ${existingBranch} for task ${taskId}`);
+    }
+  }
+
+  /**
+   * Archive and remove worktrees in the worktrees directory that no known task owns,
+   * e.g. left behind by tasks dropped while the daemon was down.
+   * Failures are logged but never prevent the orchestrator from starting.
+   */
+  private async pruneOrphanWorktrees(): Promise<void> {
+    try {
+      const ownedPaths = new Set(
+        [...this.tasks.values()]
+          .map((task) => task.worktreePath)
+          .filter((path): path is string => path !== undefined)
+          .map((path) => resolve(path))
+      );
+      const worktreesDir = resolve(this.worktreesDir);
+
+      for (const worktree of await this.worktreeManager.list()) {
+        const path = resolve(worktree.path);
+        if (dirname(path) !== worktreesDir || ownedPaths.has(path)) {
+          continue;
+        }
+
+        const taskId = basename(path);
+        log.log(`[orchestrator] Pruning orphan worktree at ${path}`);
+        try {
+          const branch = worktree.branch === getTaskBranchName(taskId) ? worktree.branch : undefined;
+          await this.removeWorktree(taskId, path, branch, true);
+        } catch (error) {
+          log.error(`[orchestrator] Failed to prune orphan worktree at ${path}:`, error);
+        }
+      }
+
+      await this.worktreeManager.prune();
+    } catch (error) {
+      log.error("[orchestrator] Failed to prune orphan worktrees:", error);
+    }
+  }
+
+  /**
+   * Start an implementor agent in an existing worktree.
+   * When resuming, the agent reattaches to its latest session.
+   * Otherwise any pending review feedback is handed to a new implementor session,
+   * and retries and later implementor phases always start a new session.
+   */
+  private async startImplementor(
+    task: Task,
+    worktreePath: string,
+    resume: ResumeReason | undefined,
+    newSession = false
+  ): Promise<void> {
+    const laterPhase = task.phases.slice(0, task.phaseIndex).some((phase) => phase.agentType === AgentType.IMPLEMENTOR);
+    const implementor = createImplementorAgent({
+      taskId: task.taskId,
+      dysonTask: task.dysonTask,
+      worktreePath: worktreePath,
+      agentInstanceManager: this.agentInstanceManager,
+      sessionRepository: this.sessionRepository,
+      model: this.getPhaseModel(task, AgentType.IMPLEMENTOR),
+      ...this.getPhasePrompts(task),
+      taskManager: this.taskManager,
+      onComplete: (taskId: string) => {
+        this.handleImplementationComplete(taskId);
+      },
+      onError: (taskId: string, error: Error) => {
+        this.handleImplementationError(taskId, error);
+      },
+      resume,
+      // Only used if there is no session to resume
+      reviewFeedback: task.reviewFeedback,
+      verificationFailure: task.verification?.passed !== false ? undefined : task.verification,
+      rejectionReason: task.rejectionReason,
+      newSession: newSession || laterPhase,
+    });
+
+    this.implementors.set(task.taskId, implementor);
+
+    // Start the implementor - this creates its session
+    await implementor.start();
+    if (implementor.isRunning()) {
+      this.emitEvent(task, { type: "agent_started", agentType: AgentType.IMPLEMENTOR, agentId: implementor.agentId });
+      this.startWatchdog(task.taskId, AgentType.IMPLEMENTOR, implementor.agentId);
+    }
+
+    log.log(`[orchestrator] Implementor ${implementor.agentId} started for task ${task.taskId}`);
+  }
+
+  /**
+   * Create the reviewer agents for a task.
+   * Uses existing worktree, agents create their own sessions.
+   */
+  private async createReviewer(task: Task): Promise<void> {
+    const agentId = getReviewerAgentId(task.taskId);
+    log.log(`[orchestrator] Creating reviewer ${agentId} for task ${task.taskId}`);
+
+    try {
+      // Transition task state
+      task.assignReviewer(agentId);
+
+      // Get existing worktree from the task
+      const worktreePath = task.worktreePath;
+      
+      if (!worktreePath) {
+        throw new Error(`Task ${task.taskId} missing worktree for review`);
+      }
+
+      log.log(`[orchestrator] Using existing worktree at ${worktreePath}`);
+
+      await this.startReviewers(task, worktreePath, undefined);
+    } catch (error) {
+      log.error(`[orchestrator] Failed to create reviewer for task ${task.taskId}:`, error);
+      await this.handleReviewError(task.taskId, error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * Start the reviewers of a task's review panel in an existing worktree.
+   * A single reviewer reattaches to its latest session when resuming, and starts a new session
+   * for follow-up review rounds and retries. Panel reviewers each run in a session version recorded
+   * on the task, which they reattach to when resuming; reviewers that already gave their verdict
+   * in this round are not started again.
+   */
+  private async startReviewers(
+    task: Task,
+    worktreePath: string,
+    resume: ResumeReason | undefined,
+    newSession = false
+  ): Promise<void> {
+    const panel = this.getPhaseReviewers(task);
+    const prompts = this.getPhasePrompts(task);
+    const phaseModel = this.getPhaseModel(task, AgentType.REVIEWER);
+    const reviewers: ReviewerAgent[] = [];
+    let nextSessionVersion = panel.length > 1 ? this.getNextReviewSessionVersion(task) : 0;
+
+    panel.forEach((reviewerConfig, index) => {
+      const position = panel.length > 1 ? index + 1 : undefined;
+      const review = task.reviews.find((entry) => entry.agentId === getReviewerAgentId(task.taskId, position));
+      if (review?.verdict) {
+        return;
+      }
+
+      // Panel reviewers run side by side, so each gets its own session version up front
+      const reattach = position === undefined || review !== undefined ? resume : undefined;
+      let sessionVersion: number | undefined;
+      if (position !== undefined) {
+        sessionVersion = reattach && review ? review.sessionVersion : nextSessionVersion++;
+        task.recordReviewSession(getReviewerAgentId(task.taskId, position), sessionVersion);
+      }
+
+      const reviewer: ReviewerAgent = createReviewerAgent({
+        taskId: task.taskId,
+        dysonTask: task.dysonTask,
+        worktreePath: worktreePath,
+        agentInstanceManager: this.agentInstanceManager,
+        sessionRepository: this.sessionRepository,
+        model: reviewerConfig.model ?? phaseModel,
+        ...prompts,
+        onComplete: (taskId: string, verdict: ReviewVerdict) => {
+          this.handleReviewerVerdict(taskId, reviewer, verdict);
+        },
+        onError: (taskId: string, error: Error) => {
+          this.handleReviewError(taskId, error, reviewer);
+        },
+        resume: reattach,
+        newSession: newSession || task.reviewRounds > 0,
+        verificationSummary: task.verification?.passed ? task.verification.summary : undefined,
+        reviewer: position,
+        sessionVersion,
+      });
+      reviewers.push(reviewer);
+    });
+
+    this.reviewers.set(task.taskId, reviewers);
+
+    // Start the reviewers - each creates its session
+    for (const reviewer of reviewers) {
+      await reviewer.start();
+      // A reviewer failing to start stops the whole panel, and an early verdict may already have decided the review
+      if (this.reviewers.get(task.taskId) !== reviewers) {
+        return;
+      }
+      if (reviewer.isRunning()) {
+        this.emitEvent(task, { type: "agent_started", agentType: AgentType.REVIEWER, agentId: reviewer.agentId });
+      }
+      log.log(`[orchestrator] Reviewer ${reviewer.agentId} started for task ${task.taskId}`);
+    }
+
+    if (reviewers.some((reviewer) => reviewer.isRunning())) {
+      this.startWatchdog(task.taskId, AgentType.REVIEWER, getReviewerAgentId(task.taskId));
+    }
+  }
+
+  /**
+   * Get the first session version free for a new review panel round or retry.
+   * Versions recorded on the task count too, since a session's file may not exist yet.
+   */
+  private getNextReviewSessionVersion(task: Task): number {
+    const next = this.sessionRepository.createNextSession(task.taskId, AgentType.REVIEWER).version;
+    return Math.max(next, ...task.reviews.map((review) => review.sessionVersion + 1));
+  }
+
+  /**
+   * Stop the reviewers of a task's review panel that are still working
+   */
+  private async stopReviewers(taskId: string): Promise<void> {
+    const reviewers = this.reviewers.get(taskId) ?? [];
+    this.reviewers.delete(taskId);
+    for (const reviewer of reviewers) {
+      await reviewer.stop();
+      this.emitAgentStopped(taskId, AgentType.REVIEWER, reviewer.agentId);
+    }
+  }
+
+  /**
+   * Create a merger agent for a task.
+   * Uses existing worktree, agent creates its own session.
+   */
+  private async createMerger(task: Task): Promise<void> {
+    const agentId = `${task.taskId}-merger`;
+    log.log(`[orchestrator] Creating merger ${agentId} for task ${task.taskId}`);
+
+    try {
+      // Transition task state
+      task.assignMerger(agentId);
+
+      // Get existing worktree from the task
+      const worktreePath = task.worktreePath;
       
-      // Remove task from tracking
-      this.tasks.delete(taskId);
+      if (!worktreePath) {
+        throw new Error(`Task ${task.taskId} missing worktree for merge`);
+      }
+
+      log.log(`[orchestrator] Using existing worktree at ${worktreePath}`);
+
+      await this.updateTaskBranch(task, worktreePath);
+      await this.runMerge(task, worktreePath, false);
+    } catch (error) {
+      log.error(`[orchestrator] Failed to create merger for task ${task.taskId}:`, error);
+      await this.handleMergeError(task.taskId, error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * Rebase a task's branch onto the mainline head before its merge turn,
+   * so it is merged and checked against everything merged ahead of it.
+   * Conflicts are left for the merge to resolve.
+   */
+  private async updateTaskBranch(task: Task, worktreePath: string): Promise<void> {
+    const branch = task.branch;
+    if (!branch) {
+      return;
+    }
+
+    try {
+      const result = await this.branchMerger.update(branch, worktreePath);
+      switch (result.status) {
+        case "rebased":
+          log.log(`[orchestrator] Rebased ${branch} onto the mainline at ${result.commit}`);
+          break;
+        case "conflict":
+          log.log(`[orchestrator] ${branch} conflicts with the mainline in: ${result.conflicts.join(", ")}`);
+          break;
+      }
+    } catch (error) {
+      log.warn(`[orchestrator] Failed to update ${branch} before merging, merging it as it is:`, error);
+    }
+  }
+
+  /**
+   * Merge a task's branch into the mainline.
+   * With a git merge strategy the orchestrator merges itself and only starts a merger agent
+   * for conflicts or failed checks; the "agent" strategy always starts one.
+   * A git merge and its checks can take minutes, so they run outside the scheduling pass
+   * and report back the way merger agents do.
+   */
+  private async runMerge(task: Task, worktreePath: string, newSession: boolean): Promise<void> {
+    const strategy = this.config.merge.strategy;
+    if (strategy === "agent") {
+      task.recordMerge({ path: "agent", strategy });
+      await this.startMerger(task, worktreePath, undefined, newSession);
+      return;
+    }
+
+    if (this.gitMerges.has(task.taskId)) {
+      log.log(`[orchestrator] Task ${task.taskId} is already being merged`);
+      return;
+    }
+
+    // A git merge recorded without its commit was interrupted, e.g. by a restart or a failure partway
+    const interruptedAt = task.merge?.path === "git" && !task.merge.commit ? task.merge.previousHead : undefined;
+
+    // Recorded up front, so a restart before the merge finishes merges with git again
+    this.gitMerges.add(task.taskId);
+    task.recordMerge({ path: "git", strategy });
+    this.mergeWithGit(task, worktreePath, strategy, interruptedAt).then(
+      (reason) => {
+        this.gitMerges.delete(task.taskId);
+        return this.handleGitMergeResult(task.taskId, worktreePath, strategy, newSession, reason);
+      },
+      (error) => {
+        this.gitMerges.delete(task.taskId);
+        return this.handleMergeError(task.taskId, error instanceof Error ? error : new Error(String(error)));
+      }
+    );
+  }
+
+  /**
+   * Handle the result of a git merge.
+   * Completes the task, or hands the merge to a merger agent when it conflicted or a check failed.
+   * @param reason - Why the merge needs a merger agent, or undefined if it is done
+   */
+  private async handleGitMergeResult(
+    taskId: string,
+    worktreePath: string,
+    strategy: MergeStrategy,
+    newSession: boolean,
+    reason: string | undefined
+  ): Promise<void> {
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      log.error(`[orchestrator] Task ${taskId} not found for git merge result`);
+      return;
+    }
+
+    if (reason === undefined) {
+      await this.handleMergeComplete(taskId);
+      return;
+    }
+
+    log.log(`[orchestrator] Handing merge of task ${taskId} to a merger agent: ${reason}`);
+    try {
+      task.recordMerge({ path: "agent", strategy, reason });
+      await this.startMerger(task, worktreePath, undefined, newSession, reason);
+    } catch (error) {
+      log.error(`[orchestrator] Failed to create merger for task ${taskId}:`, error);
+      await this.handleMergeError(taskId, error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * Merge a task's branch with git and run the post-merge checks.
+   * A merge whose checks fail is undone.
+   * @param interruptedAt - Mainline commit before an interrupted earlier attempt, undone before merging again
+   * @returns Why the merge needs a merger agent, or undefined if it is done
+   */
+  private async mergeWithGit(
+    task: Task,
+    worktreePath: string,
+    strategy: MergeStrategy,
+    interruptedAt?: string
+  ): Promise<string | undefined> {
+    const branch = task.branch;
+    if (!branch) {
+      throw new Error(`Task ${task.taskId} missing branch for merge`);
+    }
+
+    if (interruptedAt) {
+      log.log(`[orchestrator] Undoing the interrupted merge of task ${task.taskId} before merging again`);
+      await this.branchMerger.undoInterruptedMerge(interruptedAt, worktreePath);
+    }
+
+    const previousHead = await this.branchMerger.getHead();
+    task.recordMerge({ path: "git", strategy, previousHead });
+    const result = await this.branchMerger.merge(branch, {
+      strategy,
+      message: task.dysonTask.frontmatter.title
+        ? `Merge task ${task.taskId}: ${task.dysonTask.frontmatter.title}`
+        : `Merge task ${task.taskId}`,
+      worktreePath,
+    });
+    if (result.status === "conflict") {
+      return `Merging ${branch} with the ${strategy} strategy conflicts in: ${result.conflicts.join(", ")}`;
+    }
+
+    const checks = await runChecks(this.config.merge.checks, {
+      cwd: this.branchMerger.repoPath,
+      timeoutMs: this.config.merge.checkTimeoutMs,
+    });
+    const failed = checks.find((check) => !check.passed);
+    if (failed) {
+      await this.branchMerger.resetTo(previousHead);
+      const outcome = failed.timedOut ? "timed out" : `failed with exit code ${failed.exitCode}`;
+      return `Post-merge check \`${failed.command}\` ${outcome} after merging ${branch} with the ${strategy} strategy:\n\n${failed.output}`;
+    }
+
+    task.recordMerge({ path: "git", strategy, commit: result.commit });
+    log.log(`[orchestrator] Merged task ${task.taskId} with the ${strategy} strategy at ${result.commit}`);
+    return undefined;
+  }
+
+  /**
+   * Start a merger agent in an existing worktree.
+   * When resuming, the agent reattaches to its latest session; retries start a new session.
+   * @param mergeContext - Why the orchestrator's own git merge failed, passed to the agent
+   */
+  private async startMerger(
+    task: Task,
+    worktreePath: string,
+    resume: ResumeReason | undefined,
+    newSession = false,
+    mergeContext?: string
+  ): Promise<void> {
+    const branch = task.branch;
+    if (!branch) {
+      throw new Error(`Task ${task.taskId} missing branch for merge`);
+    }
+
+    // Create merger agent - agent manages its own session
+    const merger = createMergerAgent({
+      taskId: task.taskId,
+      worktreePath: worktreePath,
+      branch,
+      agentInstanceManager: this.agentInstanceManager,
+      sessionRepository: this.sessionRepository,
+      model: this.getPhaseModel(task, AgentType.MERGER),
+      ...this.getPhasePrompts(task),
+      onComplete: (taskId: string) => {
+        this.handleMergeComplete(taskId);
+      },
+      onError: (taskId: string, error: Error) => {
+        this.handleMergeError(taskId, error);
+      },
+      resume,
+      newSession,
+      mergeContext,
+    });
+
+    this.mergers.set(task.taskId, merger);
+
+    // Start the merger - this creates its session
+    await merger.start();
+    if (merger.isRunning()) {
+      this.emitEvent(task, { type: "agent_started", agentType: AgentType.MERGER, agentId: merger.agentId });
+      this.startWatchdog(task.taskId, AgentType.MERGER, merger.agentId);
+    }
+
+    log.log(`[orchestrator] Merger ${merger.agentId} started for task ${task.taskId}`);
+  }
+
+  /**
+   * Resume a task whose agent was running when the daemon stopped or the task was paused.
+   * Reattaches the matching agent to its latest session in the existing worktree.
+   * @param reason - Why the agent stopped, so it is told why it is resumed
+   */
+  private async reattachTask(task: Task, reason: ResumeReason): Promise<void> {
+    const worktreePath = task.worktreePath;
+    log.log(`[orchestrator] Reattaching task ${task.taskId} in ${task.state} state`);
+
+    switch (task.state) {
+      case TaskState.PLANNING:
+        try {
+          await this.startPlanner(task, reason);
+        } catch (error) {
+          log.error(`[orchestrator] Failed to resume planner for task ${task.taskId}:`, error);
+          await this.handlePlanError(task.taskId, error instanceof Error ? error : new Error(String(error)));
+        }
+        break;
+      case TaskState.IMPLEMENTING:
+        try {
+          if (!worktreePath) {
+            throw new Error(`Task ${task.taskId} missing worktree for implementation`);
+          }
+          await this.startImplementor(task, worktreePath, reason);
+        } catch (error) {
+          log.error(`[orchestrator] Failed to resume implementor for task ${task.taskId}:`, error);
+          await this.handleImplementationError(task.taskId, error instanceof Error ? error : new Error(String(error)));
+        }
+        break;
+      case TaskState.VERIFYING:
+        // Interrupted verification is simply run again
+        await this.verifyTask(task);
+        break;
+      case TaskState.REVIEWING:
+        try {
+          if (!worktreePath) {
+            throw new Error(`Task ${task.taskId} missing worktree for review`);
+          }
+          await this.startReviewers(task, worktreePath, reason);
+        } catch (error) {
+          log.error(`[orchestrator] Failed to resume reviewer for task ${task.taskId}:`, error);
+          await this.handleReviewError(task.taskId, error instanceof Error ? error : new Error(String(error)));
+        }
+        break;
+      case TaskState.MERGING:
+        try {
+          if (!worktreePath) {
+            throw new Error(`Task ${task.taskId} missing worktree for merge`);
+          }
+          if (task.merge?.path === "agent") {
+            await this.startMerger(task, worktreePath, reason);
+          } else if (task.merge?.commit) {
+            // The git merge and its checks were done, only completing the task was interrupted
+            await this.handleMergeComplete(task.taskId);
+          } else {
+            // The git merge was interrupted or never started, so it is undone and run again
+            await this.runMerge(task, worktreePath, false);
+          }
+        } catch (error) {
+          log.error(`[orchestrator] Failed to resume merger for task ${task.taskId}:`, error);
+          await this.handleMergeError(task.taskId, error instanceof Error ? error : new Error(String(error)));
+        }
+        break;
+    }
+  }
+
+  /**
+   * Handle plan completion.
+   * Called when a planner agent finishes. The epic then waits for the planned subtasks,
+   * which are created on the next pass.
+   */
+  private async handlePlanComplete(taskId: string, plan: TaskPlan): Promise<void> {
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      log.error(`[orchestrator] Task ${taskId} not found for plan completion`);
+      return;
+    }
+
+    log.log(`[orchestrator] Task ${taskId} planned with ${plan.tasks.length} subtask(s)`);
+
+    // Remove the planner agent
+    this.clearWatchdog(taskId);
+    const planner = this.planners.get(taskId);
+    if (planner) {
+      await planner.stop();
+      this.planners.delete(taskId);
+      this.emitAgentStopped(taskId, AgentType.PLANNER, planner.agentId);
+    }
+    await this.removePlannerWorktree(task);
+
+    // Transition task state
+    try {
+      task.markPlanComplete(plan.tasks.map(({ id, title, description, dependsOn }) => ({ key: id, title, description, dependsOn })));
+      log.log(`[orchestrator] Task ${taskId} moved to AWAITING_SUBTASKS state`);
+
+      // Create the subtasks; the planner's slot is free for the next queued task
+      await this.processTasks();
+    } catch (error) {
+      log.error(`[orchestrator] Failed to transition task ${taskId} after planning:`, error);
+    }
+  }
+
+  /**
+   * Handle implementation completion.
+   * Called when an implementor agent finishes.
+   * Verifies the implementation if the task is about to be reviewed, otherwise moves it to its next phase.
+   */
+  private async handleImplementationComplete(taskId: string): Promise<void> {
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      log.error(`[orchestrator] Task ${taskId} not found for completion`);
+      return;
+    }
+
+    log.log(`[orchestrator] Task ${taskId} implementation complete`);
+
+    // Remove the implementor agent
+    this.clearWatchdog(taskId);
+    const implementor = this.implementors.get(taskId);
+    if (implementor) {
+      await implementor.stop();
+      this.implementors.delete(taskId);
+      this.emitAgentStopped(taskId, AgentType.IMPLEMENTOR, implementor.agentId);
+    }
+
+    // Transition task state
+    try {
+      if (shouldVerify(task, this.config.verification)) {
+        task.startVerification();
+        log.log(`[orchestrator] Task ${taskId} moved to VERIFYING state`);
+        await this.verifyTask(task);
+        return;
+      }
+
+      task.markImplementationComplete();
+      log.log(`[orchestrator] Task ${taskId} moved to ${task.state} state`);
+      this.holdForApproval(task);
+      if (task.state === TaskState.COMPLETED) {
+        await this.cleanupTaskWorktree(task, "completed");
+      }
+
+      // Start the next phase's agent once there is capacity
+      await this.processTasks();
+    } catch (error) {
+      log.error(`[orchestrator] Failed to transition task ${taskId}:`, error);
+    }
+  }
+
+  /**
+   * Run the verification commands in a task's worktree.
+   * A pass moves the task on to review; a failure sends it back to the implementor with the output,
+   * or fails the task once verification has failed too many times in a row.
+   */
+  private async verifyTask(task: Task): Promise<void> {
+    const { commands, timeoutMs, maxFailures } = this.config.verification;
+    const worktreePath = task.worktreePath ?? `${this.worktreesDir}/${task.taskId}`;
+    log.log(`[orchestrator] Verifying task ${task.taskId} with ${commands.length} command(s) in ${worktreePath}`);
+
+    try {
+      const results = await runChecks(commands, { cwd: worktreePath, timeoutMs });
+      // The task may have been paused or cancelled while the checks ran
+      if (task.state !== TaskState.VERIFYING) {
+        log.log(`[orchestrator] Discarding verification of task ${task.taskId} in ${task.state} state`);
+        return;
+      }
+      const summary = summarizeChecks(commands, results);
+      const failed = results.find((result) => !result.passed);
+
+      if (!failed) {
+        task.markVerificationPassed(summary);
+        log.log(`[orchestrator] Task ${task.taskId} passed verification, moved to ${task.state} state`);
+      } else {
+        const failures = (task.verification?.failures ?? 0) + 1;
+        log.log(`[orchestrator] Task ${task.taskId} failed verification at \`${failed.command}\` (${failures}/${maxFailures})`);
+        if (failures >= maxFailures) {
+          await this.failTask(task, `Verification failed ${failures} times in a row, last at \`${failed.command}\``);
+          return;
+        }
+
+        task.markVerificationFailed(summary, failed.output);
+        log.log(`[orchestrator] Task ${task.taskId} moved back to PENDING_IMPLEMENTATION state`);
+      }
+
+      // Start the reviewer, or the implementor fixing the failure, once there is capacity
+      await this.processTasks();
+    } catch (error) {
+      log.error(`[orchestrator] Failed to verify task ${task.taskId}:`, error);
+    }
+  }
+
+  /**
+   * Handle one reviewer's verdict.
+   * A single reviewer's verdict completes the review. A panel reviewer's verdict is recorded on the task
+   * and combined with the others by the phase's consensus rule, and completes the review once that decides it.
+   */
+  private async handleReviewerVerdict(taskId: string, reviewer: ReviewerAgent, verdict: ReviewVerdict): Promise<void> {
+    const task = this.tasks.get(taskId);
+    const reviewers = this.reviewers.get(taskId);
+    if (!task || !reviewers?.includes(reviewer)) {
+      log.warn(`[orchestrator] Ignoring verdict of ${reviewer.agentId}, which no longer reviews task ${taskId}`);
+      return;
+    }
+
+    reviewers.splice(reviewers.indexOf(reviewer), 1);
+    this.emitAgentStopped(taskId, AgentType.REVIEWER, reviewer.agentId);
+
+    // Only panel reviewers are recorded on the task
+    if (!task.reviews.some((review) => review.agentId === reviewer.agentId)) {
+      await this.handleReviewComplete(taskId, verdict);
+      return;
+    }
+
+    try {
+      task.recordReviewVerdict(reviewer.agentId, verdict);
+    } catch (error) {
+      log.error(`[orchestrator] Failed to record verdict of ${reviewer.agentId} for task ${taskId}:`, error);
+      return;
+    }
+
+    const rule = this.getPhaseConsensus(task);
+    const done = task.reviews.filter((review) => review.verdict).length;
+    log.log(`[orchestrator] ${reviewer.agentId} ${verdict.verdict} task ${taskId} (${done}/${task.reviews.length} verdicts)`);
+
+    const combined = combineVerdicts(rule, task.reviews.map((review) => review.verdict));
+    if (combined) {
+      log.log(`[orchestrator] Review panel of task ${taskId} reached a ${rule} verdict: ${combined.verdict}`);
+      await this.handleReviewComplete(taskId, combined);
+    }
+  }
+
+  /**
+   * Handle review completion.
+   * Called once the task's reviewer, or its review panel, reached a verdict.
+   * Creates a merger agent for an approved task, or sends the task back to
+   * the implementor when changes are requested.
+   */
+  private async handleReviewComplete(taskId: string, verdict: ReviewVerdict): Promise<void> {
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      log.error(`[orchestrator] Task ${taskId} not found for review completion`);
+      return;
+    }
+
+    log.log(`[orchestrator] Task ${taskId} review complete`);
+
+    // Stop the reviewers the verdict no longer waits for
+    this.clearWatchdog(taskId);
+    await this.stopReviewers(taskId);
+
+    if (verdict.verdict === "changes_requested") {
+      await this.handleChangesRequested(task, verdict.reasons);
+      return;
+    }
+
+    // Transition task state
+    try {
+      task.markReviewComplete();
+      log.log(`[orchestrator] Task ${taskId} moved to ${task.state} state`);
+      this.holdForApproval(task);
+      if (task.state === TaskState.COMPLETED) {
+        await this.cleanupTaskWorktree(task, "completed");
+      }
+
+      // Start the next phase's agent once there is capacity
+      await this.processTasks();
+    } catch (error) {
+      log.error(`[orchestrator] Failed to transition task ${taskId} after review:`, error);
+    }
+  }
+
+  /**
+   * Hold a task that is ready to merge until a person approves it, if its workspace or labels require that
+   */
+  private holdForApproval(task: Task): void {
+    if (task.state !== TaskState.AWAITING_MERGE || !requiresApproval(task, this.config.approval)) {
+      return;
+    }
+
+    task.requestHumanApproval();
+    log.log(`[orchestrator] Task ${task.taskId} moved to AWAITING_HUMAN_APPROVAL state`);
+  }
+
+  /**
+   * Handle a review that requested changes.
+   * Sends the task back to implementation, or fails it once the review round limit is reached.
+   */
+  private async handleChangesRequested(task: Task, reasons: string[]): Promise<void> {
+    const round = task.reviewRounds + 1;
+    const maxRounds = this.config.review.maxRounds;
+    log.log(`[orchestrator] Task ${task.taskId} review round ${round}/${maxRounds} requested changes`);
+
+    try {
+      if (round >= maxRounds) {
+        await this.failTask(task, `Changes still requested after ${round} review rounds`);
+        return;
+      }
+
+      task.requestChanges(reasons);
+      log.log(`[orchestrator] Task ${task.taskId} moved back to PENDING_IMPLEMENTATION state`);
+
+      // Start an implementor to address the feedback once there is capacity
+      await this.processTasks();
+    } catch (error) {
+      log.error(`[orchestrator] Failed to transition task ${task.taskId} after changes requested:`, error);
+    }
+  }
+
+  /**
+   * Handle merge completion.
+   * Called when a merger agent finishes.
+   * Cleans up resources and marks task as complete.
+   * Completed tasks stay tracked until they are closed in dyson-swarm, so dependent tasks can see them.
+   */
+  private async handleMergeComplete(taskId: string): Promise<void> {
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      log.error(`[orchestrator] Task ${taskId} not found for merge completion`);
+      return;
+    }
+
+    log.log(`[orchestrator] Task ${taskId} merge complete`);
+
+    // Remove the merger agent
+    this.clearWatchdog(taskId);
+    const merger = this.mergers.get(taskId);
+    if (merger) {
+      await merger.stop();
+      this.mergers.delete(taskId);
+      this.emitAgentStopped(taskId, AgentType.MERGER, merger.agentId);
+    }
+
+    // Record where a merger agent left the mainline
+    if (task.merge?.path === "agent") {
+      try {
+        task.recordMerge({ ...task.merge, commit: await this.branchMerger.getHead() });
+      } catch (error) {
+        log.warn(`[orchestrator] Failed to record merge commit for task ${taskId}:`, error);
+      }
+    }
+
+    // Transition task state
+    try {
+      task.markMergeComplete();
+      log.log(`[orchestrator] Task ${taskId} moved to COMPLETED state`);
+
+      await this.cleanupTaskWorktree(task, "completed");
       log.log(`[orchestrator] Task ${taskId} completed`);
+
+      // The merger's slot is free for the next queued task, and dependent tasks may be unblocked
+      await this.processTasks();
     } catch (error) {
       log.error(`[orchestrator] Failed to transition task ${taskId} after merge:`, error);
     }
@@ -464,7 +1794,7 @@ export class AgentOrchestrator {
 
   /**
    * Handle implementation error.
-   * Called when an implementor agent fails.
+   * Called when an implementor agent fails. Retries the phase or fails the task.
    */
   private async handleImplementationError(taskId: string, error: Error): Promise<void> {
     const task = this.tasks.get(taskId);
@@ -476,51 +1806,74 @@ export class AgentOrchestrator {
     log.error(`[orchestrator] Task ${taskId} implementation failed:`, error);
 
     // Remove the implementor agent
+    this.clearWatchdog(taskId);
     const implementor = this.implementors.get(taskId);
     if (implementor) {
       this.implementors.delete(taskId);
     }
 
-    // Mark task as failed
-    try {
-      task.markFailed();
-      log.log(`[orchestrator] Task ${taskId} moved to FAILED state`);
-    } catch (err) {
-      log.error(`[orchestrator] Failed to mark task ${taskId} as failed:`, err);
-    }
+    this.emitAgentErrored(task, AgentType.IMPLEMENTOR, implementor?.agentId ?? `${taskId}-implementor`, error);
+    await this.retryOrFail(task, AgentType.IMPLEMENTOR, error);
   }
 
   /**
    * Handle review error.
-   * Called when a reviewer agent fails.
+   * Called when a reviewer agent fails. Retries the phase or fails the task.
+   * @param reviewer - The reviewer that failed; ignored if its panel was already stopped
    */
-  private async handleReviewError(taskId: string, error: Error): Promise<void> {
+  private async handleReviewError(taskId: string, error: Error, reviewer?: ReviewerAgent): Promise<void> {
     const task = this.tasks.get(taskId);
     if (!task) {
       log.error(`[orchestrator] Task ${taskId} not found for review error handling`);
       return;
     }
+    if (reviewer && !this.reviewers.get(taskId)?.includes(reviewer)) {
+      log.warn(`[orchestrator] Ignoring error of ${reviewer.agentId}, which no longer reviews task ${taskId}:`, error);
+      return;
+    }
 
     log.error(`[orchestrator] Task ${taskId} review failed:`, error);
 
-    // Remove the reviewer agent
-    const reviewer = this.reviewers.get(taskId);
-    if (reviewer) {
-      this.reviewers.delete(taskId);
+    // Remove the reviewer agents; the rest of a panel is stopped and retried along with the failed reviewer
+    this.clearWatchdog(taskId);
+    const reviewers = this.reviewers.get(taskId) ?? [];
+    this.reviewers.delete(taskId);
+    for (const other of reviewers.filter((agent) => agent.isRunning())) {
+      await other.stop();
+      this.emitAgentStopped(taskId, AgentType.REVIEWER, other.agentId);
     }
 
-    // Mark task as failed
-    try {
-      task.markFailed();
-      log.log(`[orchestrator] Task ${taskId} moved to FAILED state`);
-    } catch (err) {
-      log.error(`[orchestrator] Failed to mark task ${taskId} as failed:`, err);
+    this.emitAgentErrored(task, AgentType.REVIEWER, reviewer?.agentId ?? getReviewerAgentId(taskId), error);
+    await this.retryOrFail(task, AgentType.REVIEWER, error);
+  }
+
+  /**
+   * Handle plan error.
+   * Called when a planner agent fails. Retries the phase or fails the task.
+   */
+  private async handlePlanError(taskId: string, error: Error): Promise<void> {
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      log.error(`[orchestrator] Task ${taskId} not found for plan error handling`);
+      return;
     }
+
+    log.error(`[orchestrator] Task ${taskId} planning failed:`, error);
+
+    // Remove the planner agent
+    this.clearWatchdog(taskId);
+    const planner = this.planners.get(taskId);
+    this.planners.delete(taskId);
+    // A retry plans again from a fresh worktree
+    await this.removePlannerWorktree(task);
+
+    this.emitAgentErrored(task, AgentType.PLANNER, planner?.agentId ?? `${taskId}-planner`, error);
+    await this.retryOrFail(task, AgentType.PLANNER, error);
   }
 
   /**
    * Handle merge error.
-   * Called when a merger agent fails.
+   * Called when a merger agent fails. Retries the phase or fails the task.
    */
   private async handleMergeError(taskId: string, error: Error): Promise<void> {
     const task = this.tasks.get(taskId);
@@ -532,18 +1885,403 @@ export class AgentOrchestrator {
     log.error(`[orchestrator] Task ${taskId} merge failed:`, error);
 
     // Remove the merger agent
+    this.clearWatchdog(taskId);
     const merger = this.mergers.get(taskId);
     if (merger) {
       this.mergers.delete(taskId);
     }
 
-    // Mark task as failed
+    this.emitAgentErrored(task, AgentType.MERGER, merger?.agentId ?? `${taskId}-merger`, error);
+    await this.retryOrFail(task, AgentType.MERGER, error);
+  }
+
+  /**
+   * Mark a task as failed and apply the failed-task worktree cleanup policy.
+   * @param reason - Why the task failed, recorded on the task
+   */
+  private async failTask(task: Task, reason: string): Promise<void> {
+    task.markFailed(reason);
+    log.log(`[orchestrator] Task ${task.taskId} moved to FAILED state: ${reason}`);
+    await this.cleanupTaskWorktree(task, "failed");
+
+    // The failed agent's slot is free for the next queued task
+    await this.processTasks();
+  }
+
+  /**
+   * Record a failed attempt and schedule a retry according to the phase's retry policy.
+   * Marks the task as failed when the error is not retryable or attempts run out.
+   */
+  private async retryOrFail(task: Task, agentType: AgentType, error: Error): Promise<void> {
+    const policy = this.config.retry[agentType];
+
     try {
-      task.markFailed();
-      log.log(`[orchestrator] Task ${taskId} moved to FAILED state`);
+      const attempt = task.recordFailedAttempt(error.message);
+
+      if (!isRetryableError(policy, error)) {
+        await this.failTask(task, `${agentType} failed with a non-retryable error: ${error.message}`);
+        return;
+      }
+
+      if (attempt >= policy.maxAttempts) {
+        await this.failTask(task, `${agentType} failed after ${attempt} attempts: ${error.message}`);
+        return;
+      }
+
+      const delay = getRetryDelay(policy, attempt);
+      log.log(
+        `[orchestrator] Retrying ${agentType} for task ${task.taskId} in ${delay}ms (attempt ${attempt + 1}/${policy.maxAttempts})`
+      );
+
+      const timer = setTimeout(() => {
+        this.retryTimers.delete(task.taskId);
+        this.retryPhase(task, agentType);
+      }, delay);
+      this.retryTimers.set(task.taskId, timer);
     } catch (err) {
-      log.error(`[orchestrator] Failed to mark task ${taskId} as failed:`, err);
+      log.error(`[orchestrator] Failed to handle ${agentType} error for task ${task.taskId}:`, err);
+    }
+  }
+
+  /**
+   * Restart a failed phase with a new session version.
+   * Skipped if the orchestrator stopped or the task moved on in the meantime.
+   */
+  private async retryPhase(task: Task, agentType: AgentType): Promise<void> {
+    if (!this.abortController || this.tasks.get(task.taskId) !== task) {
+      return;
+    }
+
+    const worktreePath = task.worktreePath;
+
+    switch (agentType) {
+      case AgentType.PLANNER:
+        if (task.state !== TaskState.PLANNING) {
+          break;
+        }
+        try {
+          await this.startPlanner(task, undefined, true);
+        } catch (error) {
+          log.error(`[orchestrator] Failed to retry planner for task ${task.taskId}:`, error);
+          await this.handlePlanError(task.taskId, error instanceof Error ? error : new Error(String(error)));
+        }
+        return;
+      case AgentType.IMPLEMENTOR:
+        if (task.state !== TaskState.IMPLEMENTING) {
+          break;
+        }
+        try {
+          if (!worktreePath) {
+            throw new Error(`Task ${task.taskId} missing worktree for implementation`);
+          }
+          // The first attempt may have failed before its worktree was created
+          if (!(await this.worktreeManager.isWorktree(worktreePath))) {
+            await this.createTaskWorktree(task, worktreePath);
+          }
+          await this.startImplementor(task, worktreePath, undefined, true);
+        } catch (error) {
+          log.error(`[orchestrator] Failed to retry implementor for task ${task.taskId}:`, error);
+          await this.handleImplementationError(task.taskId, error instanceof Error ? error : new Error(String(error)));
+        }
+        return;
+      case AgentType.REVIEWER:
+        if (task.state !== TaskState.REVIEWING) {
+          break;
+        }
+        try {
+          if (!worktreePath) {
+            throw new Error(`Task ${task.taskId} missing worktree for review`);
+          }
+          await this.startReviewers(task, worktreePath, undefined, true);
+        } catch (error) {
+          log.error(`[orchestrator] Failed to retry reviewer for task ${task.taskId}:`, error);
+          await this.handleReviewError(task.taskId, error instanceof Error ? error : new Error(String(error)));
+        }
+        return;
+      case AgentType.MERGER:
+        if (task.state !== TaskState.MERGING) {
+          break;
+        }
+        try {
+          if (!worktreePath) {
+            throw new Error(`Task ${task.taskId} missing worktree for merge`);
+          }
+          await this.runMerge(task, worktreePath, true);
+        } catch (error) {
+          log.error(`[orchestrator] Failed to retry merger for task ${task.taskId}:`, error);
+          await this.handleMergeError(task.taskId, error instanceof Error ? error : new Error(String(error)));
+        }
+        return;
+    }
+
+    log.log(`[orchestrator] Skipping ${agentType} retry for task ${task.taskId} in ${task.state} state`);
+  }
+
+  /**
+   * Handle an agent instance becoming idle.
+   * Dispatches the event to the planner, implementor, reviewer or merger that owns the instance.
+   */
+  private async handleAgentInstanceIdle(taskId: string, instance: AgentInstance): Promise<void> {
+    const agent = this.getIdleAgent(taskId, instance);
+    if (!agent) {
+      log.warn(`[orchestrator] No ${instance.agentType} found for idle instance ${instance.instanceId} of task ${taskId}`);
+      return;
+    }
+
+    try {
+      await agent.handleAgentInstanceIdle();
+    } catch (error) {
+      log.error(`[orchestrator] Error handling idle ${instance.agentType} for task ${taskId}:`, error);
+    }
+  }
+
+  /**
+   * Get the agent owning an idle instance.
+   * Reviewers on a panel share their task, so the instance tells them apart.
+   */
+  private getIdleAgent(taskId: string, instance: AgentInstance): PlannerAgent | ImplementorAgent | ReviewerAgent | MergerAgent | undefined {
+    const agents = this.getAgents(taskId, instance.agentType);
+    if (agents.length > 1) {
+      return (agents as ReviewerAgent[]).find((reviewer) => reviewer.getAgentInstance()?.instanceId === instance.instanceId);
+    }
+    return agents[0];
+  }
+
+  /**
+   * Get a task's running agents of the given type; only reviewers can be more than one
+   */
+  private getAgents(taskId: string, agentType: AgentType): (PlannerAgent | ImplementorAgent | ReviewerAgent | MergerAgent)[] {
+    switch (agentType) {
+      case AgentType.PLANNER:
+        return this.planners.has(taskId) ? [this.planners.get(taskId)!] : [];
+      case AgentType.IMPLEMENTOR:
+        return this.implementors.has(taskId) ? [this.implementors.get(taskId)!] : [];
+      case AgentType.REVIEWER:
+        return this.reviewers.get(taskId) ?? [];
+      case AgentType.MERGER:
+        return this.mergers.has(taskId) ? [this.mergers.get(taskId)!] : [];
+    }
+  }
+
+  /**
+   * Watch a started agent for its configured max runtime and inactivity timeout
+   */
+  private startWatchdog(taskId: string, agentType: AgentType, agentId: string): void {
+    const startedAt = new Date();
+    this.scheduleWatchdogCheck(taskId, agentType, agentId, startedAt, startedAt);
+  }
+
+  /**
+   * Schedule the next watchdog check for the nearest deadline, if the agent type has any timeouts
+   */
+  private scheduleWatchdogCheck(
+    taskId: string,
+    agentType: AgentType,
+    agentId: string,
+    startedAt: Date,
+    lastActivityAt: Date
+  ): void {
+    this.clearWatchdog(taskId);
+    const delay = getNextCheckDelay(this.config.timeouts[agentType], startedAt, lastActivityAt);
+    if (delay === undefined) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      this.watchdogTimers.delete(taskId);
+      this.checkWatchdog(taskId, agentType, agentId, startedAt);
+    }, delay);
+    this.watchdogTimers.set(taskId, timer);
+  }
+
+  /**
+   * Stop watching a task's agent
+   */
+  private clearWatchdog(taskId: string): void {
+    const timer = this.watchdogTimers.get(taskId);
+    if (timer) {
+      clearTimeout(timer);
+      this.watchdogTimers.delete(taskId);
+    }
+  }
+
+  /**
+   * Check a watched agent against its timeouts.
+   * A review panel is watched as a whole, and is active as long as any of its reviewers is.
+   * On a breach the agents are stopped and the timeout goes through the phase's error handling,
+   * otherwise the next check is scheduled.
+   */
+  private async checkWatchdog(taskId: string, agentType: AgentType, agentId: string, startedAt: Date): Promise<void> {
+    const agents = this.getAgents(taskId, agentType);
+    const watchedId = agentType === AgentType.REVIEWER ? getReviewerAgentId(taskId) : agents[0]?.agentId;
+    if (!this.abortController || agents.length === 0 || watchedId !== agentId) {
+      return;
+    }
+
+    try {
+      const instanceKeys = agentType === AgentType.REVIEWER
+        ? (agents as ReviewerAgent[]).map((reviewer) => reviewer.instanceKey)
+        : [taskId];
+      const activity = (await Promise.all(instanceKeys.map((key) => this.agentInstanceManager.getAgentInstance(key))))
+        .filter((instance): instance is AgentInstance => instance !== undefined)
+        .map((instance) => instance.lastActivityAt.getTime());
+      const lastActivityAt = activity.length > 0 ? new Date(Math.max(...activity)) : startedAt;
+      const reason = getTimeoutReason(agentType, this.config.timeouts[agentType], startedAt, lastActivityAt);
+      if (!reason) {
+        this.scheduleWatchdogCheck(taskId, agentType, agentId, startedAt, lastActivityAt);
+        return;
+      }
+
+      log.warn(`[orchestrator] Stopping ${agentId} for task ${taskId}: ${reason}`);
+      for (const agent of agents) {
+        await agent.stop();
+        this.emitAgentStopped(taskId, agentType, agent.agentId);
+      }
+
+      const error = new Error(reason);
+      switch (agentType) {
+        case AgentType.PLANNER:
+          await this.handlePlanError(taskId, error);
+          break;
+        case AgentType.IMPLEMENTOR:
+          await this.handleImplementationError(taskId, error);
+          break;
+        case AgentType.REVIEWER:
+          await this.handleReviewError(taskId, error);
+          break;
+        case AgentType.MERGER:
+          await this.handleMergeError(taskId, error);
+          break;
+      }
+    } catch (error) {
+      log.error(`[orchestrator] Watchdog check failed for ${agentId} of task ${taskId}:`, error);
+    }
+  }
+
+  /**
+   * Pause a task: stop its agent but keep its worktree and sessions, so it can be resumed later.
+   * @throws Error if the task is unknown, cannot be paused or is being merged with git
+   */
+  async pauseTask(taskId: string): Promise<void> {
+    const task = this.getTask(taskId);
+    this.assertNotMergingWithGit(taskId, "paused");
+    task.pause();
+    log.log(`[orchestrator] Task ${taskId} paused in ${task.pausedFrom} state`);
+    await this.stopTaskAgents(taskId);
+
+    // The paused agent's slot is free for queued tasks
+    await this.processTasks();
+  }
+
+  /**
+   * Resume a paused task.
+   * A task paused while its agent was working is reattached to the agent's latest session.
+   * @throws Error if the task is unknown or not paused
+   */
+  async resumeTask(taskId: string): Promise<void> {
+    const task = this.getTask(taskId);
+    task.resume();
+    log.log(`[orchestrator] Task ${taskId} resumed in ${task.state} state`);
+
+    if (
+      task.state === TaskState.PLANNING ||
+      task.state === TaskState.IMPLEMENTING ||
+      task.state === TaskState.VERIFYING ||
+      task.state === TaskState.REVIEWING ||
+      task.state === TaskState.MERGING
+    ) {
+      await this.reattachTask(task, "pause");
+    }
+    await this.processTasks();
+  }
+
+  /**
+   * Cancel a task, stopping its agent and cleaning up its worktree.
+   * @throws Error if the task is unknown, already finished or being merged with git
+   */
+  async cancelTask(taskId: string): Promise<void> {
+    const task = this.getTask(taskId);
+    this.assertNotMergingWithGit(taskId, "cancelled");
+    task.cancel();
+    log.log(`[orchestrator] Task ${taskId} cancelled`);
+    await this.stopTaskAgents(taskId);
+    await this.cleanupTaskWorktree(task, "cancelled");
+
+    // Reports the outcome and frees the cancelled agent's slot
+    await this.processTasks();
+  }
+
+  /**
+   * Approve a task waiting for a person's approval, so it joins the merge queue
+   * @throws Error if the task is unknown or not waiting for approval
+   */
+  async approveTask(taskId: string): Promise<void> {
+    const task = this.getTask(taskId);
+    task.approve();
+    log.log(`[orchestrator] Task ${taskId} approved, moved to ${task.state} state`);
+
+    // Start the merger once the task reaches the head of the merge queue
+    await this.processTasks();
+  }
+
+  /**
+   * Reject a task waiting for a person's approval, sending it back to the implementor with the reason
+   * @throws Error if the task is unknown or not waiting for approval
+   */
+  async rejectTask(taskId: string, reason: string): Promise<void> {
+    const task = this.getTask(taskId);
+    task.reject(reason);
+    log.log(`[orchestrator] Task ${taskId} rejected, moved back to ${task.state} state: ${reason}`);
+
+    // Start an implementor to address the rejection once there is capacity
+    await this.processTasks();
+  }
+
+  /**
+   * Apply a command sent to the daemon
+   * @throws Error if the command cannot be applied to its task
+   */
+  async handleTaskCommand(command: TaskCommand): Promise<void> {
+    switch (command.type) {
+      case "pause":
+        await this.pauseTask(command.taskId);
+        break;
+      case "resume":
+        await this.resumeTask(command.taskId);
+        break;
+      case "cancel":
+        await this.cancelTask(command.taskId);
+        break;
+      case "approve":
+        await this.approveTask(command.taskId);
+        break;
+      case "reject":
+        await this.rejectTask(command.taskId, command.reason ?? "No reason given");
+        break;
+    }
+  }
+
+  /**
+   * A git merge can't be stopped halfway without leaving the mainline in an unknown state,
+   * so a task being merged with git can only be paused or cancelled once the merge is done.
+   * @throws Error if the task is being merged with git
+   */
+  private assertNotMergingWithGit(taskId: string, action: string): void {
+    if (this.gitMerges.has(taskId)) {
+      throw new Error(`Task ${taskId} is being merged with git and can't be ${action} until the merge finishes`);
+    }
+  }
+
+  /**
+   * Get a tracked task
+   * @throws Error if the task is unknown
+   */
+  private getTask(taskId: string): Task {
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      throw new Error(`Task ${taskId} not found`);
     }
+    return task;
   }
 
   /**
@@ -551,37 +2289,78 @@ export class AgentOrchestrator {
    */
   getRunningAgents(): AgentInfo[] {
     const agents: AgentInfo[] = [];
+    const queuePositions = new Map(
+      this.getSchedulingQueue().map((task, index) => [task.taskId, index + 1])
+    );
+    const mergeQueuePositions = new Map(
+      getMergeQueue(this.tasks.values()).map((task, index) => [task.taskId, index + 1])
+    );
     
     for (const task of this.tasks.values()) {
+      // Completed tasks stay tracked for their dependents but have no agents left
+      if (task.state === TaskState.COMPLETED) {
+        continue;
+      }
+
+      const dependencies = this.checkDependencies(task);
       const worktreePath = task.worktreePath || `${this.worktreesDir}/${task.taskId}`;
       const baseInfo = {
         taskId: task.taskId,
         startedAt: task.createdAt,
         state: task.state,
+        pipeline: task.pipeline,
+        phase: task.phase.name,
         worktreePath,
+        branch: task.branch,
+        queuePosition: queuePositions.get(task.taskId),
+        mergeQueuePosition: mergeQueuePositions.get(task.taskId),
+        priority: task.priority,
+        blockedBy: dependencies.status === "blocked" ? dependencies.waitingFor : undefined,
+        failureReason: task.failureReason,
+        lastError: task.lastError,
       };
+      const agentIds: string[] = [];
+
+      // Add planner if present
+      if (task.plannerAgentId) {
+        agentIds.push(task.plannerAgentId);
+      }
       
       // Add implementor if present
       if (task.implementorAgentId) {
-        agents.push({
-          ...baseInfo,
-          agentId: task.implementorAgentId,
-        });
+        agentIds.push(task.implementorAgentId);
       }
       
       // Add reviewer if present
       if (task.reviewerAgentId) {
-        agents.push({
-          ...baseInfo,
-          agentId: task.reviewerAgentId,
-        });
+        agentIds.push(task.reviewerAgentId);
+      }
+
+      // Add the reviewers of a review panel still working on their verdicts
+      for (const reviewer of this.reviewers.get(task.taskId) ?? []) {
+        if (!agentIds.includes(reviewer.agentId)) {
+          agentIds.push(reviewer.agentId);
+        }
       }
       
       // Add merger if present
       if (task.mergerAgentId) {
+        agentIds.push(task.mergerAgentId);
+      }
+
+      // Add the agent a queued or blocked task is waiting for
+      const waitingAgentType = getWaitingAgentType(task.state);
+      if ((baseInfo.queuePosition !== undefined || baseInfo.blockedBy) && waitingAgentType) {
+        const waitingAgentId = `${task.taskId}-${waitingAgentType}`;
+        if (!agentIds.includes(waitingAgentId)) {
+          agentIds.push(waitingAgentId);
+        }
+      }
+
+      for (const agentId of agentIds) {
         agents.push({
           ...baseInfo,
-          agentId: task.mergerAgentId,
+          agentId,
         });
       }
     }
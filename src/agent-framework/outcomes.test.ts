@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { appendTaskResult, formatTaskResult } from "./outcomes.js";
+import { DEFAULT_EPIC_PHASES, Task } from "../core/tasks/index.js";
+
+const MINUTE = 60_000;
+
+const createTask = () =>
+  new Task({
+    taskId: "task-1",
+    dysonTask: { id: "task-1", frontmatter: { title: "Test" }, description: "Do the thing", status: "open" },
+  });
+
+describe("outcomes", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("formatTaskResult", () => {
+    it("should summarize a completed task", () => {
+      const task = createTask();
+      task.assignImplementor("implementor-1");
+      vi.setSystemTime(12 * MINUTE);
+      task.markImplementationComplete();
+      vi.setSystemTime(20 * MINUTE);
+      task.assignReviewer("reviewer-1");
+      vi.setSystemTime(25 * MINUTE);
+      task.markReviewComplete();
+      task.assignMerger("merger-1");
+      task.recordMerge({ path: "git", strategy: "squash", commit: "abc123" });
+      vi.setSystemTime(26 * MINUTE);
+      task.markMergeComplete();
+
+      expect(formatTaskResult(task, ["implementor-1", "reviewer-1"])).toBe(
+        [
+          "## Orchid Result",
+          "",
+          "- Outcome: completed",
+          "- Pipeline: default",
+          "- Merge commit: abc123 (merged by git with the squash strategy)",
+          "- Review rounds: 1",
+          "- Sessions: implementor-1, reviewer-1",
+          "- Phase durations:",
+          "  - implement: 12m",
+          "  - review: 5m",
+          "  - merge: 1m",
+        ].join("\n")
+      );
+    });
+
+    it("should list the subtasks of an epic with how they finished", () => {
+      const task = new Task({
+        taskId: "task-1",
+        dysonTask: { id: "task-1", frontmatter: { title: "Test", epic: true }, description: "", status: "open" },
+        pipeline: "epic",
+        phases: DEFAULT_EPIC_PHASES,
+      });
+      task.assignPlanner("task-1-planner");
+      task.markPlanComplete([
+        { key: "schema", title: "Add the sessions table", description: "", dependsOn: [] },
+        { key: "api", title: "Move the login endpoint", description: "", dependsOn: ["schema"] },
+      ]);
+      task.recordSubtaskCreated("schema", "task-2");
+      task.recordSubtaskOutcome("task-2", "failed");
+      task.markFailed("Subtask task-2 failed");
+
+      expect(formatTaskResult(task, ["planner-1"])).toContain(
+        "- Subtasks: task-2 (failed), api (not finished)\n- Review rounds: 0"
+      );
+    });
+
+    it("should include why a task failed", () => {
+      const task = createTask();
+      task.markFailed("Prerequisite task task-0 failed");
+
+      expect(formatTaskResult(task, [])).toBe(
+        [
+          "## Orchid Result",
+          "",
+          "- Outcome: failed: Prerequisite task task-0 failed",
+          "- Pipeline: default",
+          "- Review rounds: 0",
+          "- Sessions: none",
+        ].join("\n")
+      );
+    });
+  });
+
+  describe("appendTaskResult", () => {
+    it("should append the result after the description", () => {
+      expect(appendTaskResult("Do the thing\n", "## Orchid Result")).toBe("Do the thing\n\n## Orchid Result\n");
+      expect(appendTaskResult(undefined, "## Orchid Result")).toBe("## Orchid Result\n");
+    });
+
+    it("should replace the result of an earlier report", () => {
+      const description = appendTaskResult("Do the thing", "## Orchid Result\n\n- Outcome: failed: crashed");
+
+      expect(appendTaskResult(description, "## Orchid Result\n\n- Outcome: completed")).toBe(
+        "Do the thing\n\n## Orchid Result\n\n- Outcome: completed\n"
+      );
+    });
+  });
+});
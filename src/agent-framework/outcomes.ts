@@ -0,0 +1,57 @@
+/**
+ * Task Outcomes
+ *
+ * Helpers for writing a finished task's result back to its dyson-swarm task.
+ */
+
+import { TaskState, type Task } from "../core/tasks/index.js";
+import { formatDuration } from "./watchdog.js";
+
+/** Heading of the result section appended to a dyson task's description */
+export const TASK_RESULT_HEADING = "## Orchid Result";
+
+/**
+ * Format the result section for a finished task
+ * @param sessions - Sessions the task's agents used, e.g. "implementor-1"
+ */
+export function formatTaskResult(task: Task, sessions: string[]): string {
+  const outcome = task.state === TaskState.FAILED
+    ? `failed: ${task.failureReason ?? "unknown reason"}`
+    : task.state;
+  const lines = [
+    TASK_RESULT_HEADING,
+    "",
+    `- Outcome: ${outcome}`,
+    `- Pipeline: ${task.pipeline}`,
+  ];
+
+  if (task.merge?.commit) {
+    const mergedBy = task.merge.path === "git" ? `git with the ${task.merge.strategy} strategy` : "the merger agent";
+    lines.push(`- Merge commit: ${task.merge.commit} (merged by ${mergedBy})`);
+  }
+  if (task.subtasks.length > 0) {
+    const subtasks = task.subtasks.map((subtask) => `${subtask.taskId ?? subtask.key} (${subtask.outcome ?? "not finished"})`);
+    lines.push(`- Subtasks: ${subtasks.join(", ")}`);
+  }
+  lines.push(`- Review rounds: ${task.reviewRounds}`);
+  lines.push(`- Sessions: ${sessions.length > 0 ? sessions.join(", ") : "none"}`);
+
+  const durations = task.phases
+    .filter((phase) => task.phaseDurations[phase.name] !== undefined)
+    .map((phase) => `  - ${phase.name}: ${formatDuration(task.phaseDurations[phase.name])}`);
+  if (durations.length > 0) {
+    lines.push("- Phase durations:", ...durations);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Append a result section to a task description, replacing the one a previous report appended
+ */
+export function appendTaskResult(description: string | undefined, result: string): string {
+  const text = description ?? "";
+  const existing = text.indexOf(TASK_RESULT_HEADING);
+  const body = (existing === -1 ? text : text.slice(0, existing)).trimEnd();
+  return body ? `${body}\n\n${result}\n` : `${result}\n`;
+}
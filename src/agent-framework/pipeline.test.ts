@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { readFileSync } from "node:fs";
+import type { Task as DysonTask } from "dyson-swarm";
+import { getRequestedPipeline, getTaskPhases, loadPhasePrompts, validatePipeline } from "./pipeline.js";
+import { AgentType } from "./agent-type.js";
+import { DEFAULT_EPIC_PHASES, DEFAULT_TASK_PHASES } from "../core/tasks/index.js";
+import type { PipelinePhaseConfig } from "../config/orchid-config.js";
+
+// Mock the fs module
+vi.mock("node:fs", () => ({
+  readFileSync: vi.fn(),
+}));
+
+const createMockDysonTask = (frontmatter: Record<string, unknown>): DysonTask => ({
+  id: "task-1",
+  frontmatter: frontmatter as DysonTask["frontmatter"],
+  description: "Test task description",
+  status: "open",
+});
+
+describe("pipeline", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("getRequestedPipeline", () => {
+    it("should default to the default pipeline", () => {
+      expect(getRequestedPipeline(createMockDysonTask({ title: "Test" }))).toBe("default");
+      expect(getRequestedPipeline(createMockDysonTask({ title: "Test", pipeline: " " }))).toBe("default");
+    });
+
+    it("should read the pipeline frontmatter field", () => {
+      expect(getRequestedPipeline(createMockDysonTask({ title: "Test", pipeline: " docs " }))).toBe("docs");
+    });
+
+    it("should use the epic pipeline for epics that do not pick a pipeline", () => {
+      expect(getRequestedPipeline(createMockDysonTask({ title: "Test", epic: true }))).toBe("epic");
+      expect(getRequestedPipeline(createMockDysonTask({ title: "Test", epic: "true" }))).toBe("epic");
+      expect(getRequestedPipeline(createMockDysonTask({ title: "Test", epic: true, pipeline: "docs" }))).toBe("docs");
+      expect(getRequestedPipeline(createMockDysonTask({ title: "Test", epic: false }))).toBe("default");
+    });
+  });
+
+  describe("getTaskPhases", () => {
+    it("should keep only what the task needs to move between phases", () => {
+      const phases = getTaskPhases({
+        phases: [{ name: "implement", agentType: AgentType.IMPLEMENTOR, prompt: "prompts/implement.md" }],
+      });
+
+      expect(phases).toEqual([{ name: "implement", agentType: AgentType.IMPLEMENTOR, onChangesRequested: undefined }]);
+    });
+  });
+
+  describe("validatePipeline", () => {
+    const validate = (phases: PipelinePhaseConfig[]) => () => validatePipeline("custom", { phases });
+
+    it("should accept the default pipeline", () => {
+      expect(validate(DEFAULT_TASK_PHASES)).not.toThrow();
+    });
+
+    it("should accept a pipeline without review or merge", () => {
+      expect(validate([{ name: "implement", agentType: AgentType.IMPLEMENTOR }])).not.toThrow();
+    });
+
+    it("should accept the epic pipeline", () => {
+      expect(validate(DEFAULT_EPIC_PHASES)).not.toThrow();
+    });
+
+    it("should reject a plan phase alongside other phases", () => {
+      expect(
+        validate([
+          { name: "plan", agentType: AgentType.PLANNER },
+          { name: "implement", agentType: AgentType.IMPLEMENTOR },
+        ])
+      ).toThrow("Plan phase plan of pipeline custom must be its only phase");
+      expect(
+        validate([
+          { name: "implement", agentType: AgentType.IMPLEMENTOR },
+          { name: "plan", agentType: AgentType.PLANNER },
+        ])
+      ).toThrow("Plan phase plan of pipeline custom must be its only phase");
+    });
+
+    it("should reject a pipeline without phases", () => {
+      expect(validate([])).toThrow("Pipeline custom has no phases");
+    });
+
+    it("should reject a pipeline that does not start with an implementor", () => {
+      expect(validate([{ name: "review", agentType: AgentType.REVIEWER }])).toThrow(
+        "Pipeline custom must start with an implementor phase"
+      );
+    });
+
+    it("should reject duplicate phase names", () => {
+      expect(
+        validate([
+          { name: "implement", agentType: AgentType.IMPLEMENTOR },
+          { name: "implement", agentType: AgentType.IMPLEMENTOR },
+        ])
+      ).toThrow("Pipeline custom has more than one phase named implement");
+    });
+
+    it("should reject unknown agent types", () => {
+      expect(
+        validate([
+          { name: "implement", agentType: AgentType.IMPLEMENTOR },
+          { name: "design", agentType: "designer" as AgentType },
+        ])
+      ).toThrow("Phase design of pipeline custom has unknown agent type designer");
+    });
+
+    it("should reject a merge phase before the end", () => {
+      expect(
+        validate([
+          { name: "implement", agentType: AgentType.IMPLEMENTOR },
+          { name: "merge", agentType: AgentType.MERGER },
+          { name: "review", agentType: AgentType.REVIEWER },
+        ])
+      ).toThrow("Merge phase merge of pipeline custom must be its last phase");
+    });
+
+    it("should reject sending changes anywhere but an earlier implementor phase", () => {
+      expect(
+        validate([
+          { name: "implement", agentType: AgentType.IMPLEMENTOR },
+          { name: "review", agentType: AgentType.REVIEWER, onChangesRequested: "fix" },
+          { name: "fix", agentType: AgentType.IMPLEMENTOR },
+        ])
+      ).toThrow("Phase review of pipeline custom sends tasks back to fix, which is not an earlier implementor phase");
+    });
+
+    it("should accept a review phase with its own panel", () => {
+      expect(
+        validate([
+          { name: "implement", agentType: AgentType.IMPLEMENTOR },
+          { name: "review", agentType: AgentType.REVIEWER, reviewers: [{}, {}, {}], consensus: "majority" },
+        ])
+      ).not.toThrow();
+    });
+
+    it("should reject review panels without reviewers or with an unknown rule", () => {
+      expect(
+        validate([
+          { name: "implement", agentType: AgentType.IMPLEMENTOR },
+          { name: "review", agentType: AgentType.REVIEWER, reviewers: [] },
+        ])
+      ).toThrow("Review phase review of pipeline custom must list at least one reviewer");
+      expect(
+        validate([
+          { name: "implement", agentType: AgentType.IMPLEMENTOR },
+          { name: "review", agentType: AgentType.REVIEWER, consensus: "most" as "majority" },
+        ])
+      ).toThrow("Review phase review of pipeline custom has unknown consensus rule most");
+    });
+
+    it("should reject reviewers on phases that are not reviews", () => {
+      expect(validate([{ name: "implement", agentType: AgentType.IMPLEMENTOR, reviewers: [{}] }])).toThrow(
+        "Phase implement of pipeline custom sets reviewers or consensus but is not a review phase"
+      );
+    });
+  });
+
+  describe("loadPhasePrompts", () => {
+    it("should read prompt files relative to the workspace", () => {
+      vi.mocked(readFileSync).mockReturnValue("custom prompt");
+
+      const prompts = loadPhasePrompts(
+        { name: "review", agentType: AgentType.REVIEWER, prompt: "prompts/review.md" },
+        "/test/workspace"
+      );
+
+      expect(readFileSync).toHaveBeenCalledWith("/test/workspace/prompts/review.md", "utf-8");
+      expect(prompts).toEqual({ prompt: "custom prompt", systemPrompt: undefined });
+    });
+
+    it("should report prompt files it cannot read", () => {
+      vi.mocked(readFileSync).mockImplementation(() => {
+        throw new Error("ENOENT");
+      });
+
+      expect(() =>
+        loadPhasePrompts({ name: "review", agentType: AgentType.REVIEWER, systemPrompt: "missing.md" }, "/test/workspace")
+      ).toThrow("Failed to read prompt missing.md for phase review: ENOENT");
+    });
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Pipelines
+ *
+ * Helpers for picking the pipeline a task runs through and checking that configured pipelines can run.
+ */
+
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import type { Task as DysonTask } from "dyson-swarm";
+import type { PipelineConfig, PipelinePhaseConfig } from "../config/orchid-config.js";
+import { DEFAULT_PIPELINE, EPIC_PIPELINE, type TaskPhase } from "../core/tasks/index.js";
+import { AgentType } from "./agent-type.js";
+import { CONSENSUS_RULES } from "./consensus.js";
+
+/**
+ * Prompts a phase replaces its agent type's defaults with
+ */
+export interface PhasePrompts {
+  prompt?: string;
+  systemPrompt?: string;
+}
+
+/**
+ * Get the pipeline a task asks for in its `pipeline` frontmatter field.
+ * Otherwise tasks marked as epics with `epic: true` use the epic pipeline, and the rest the default pipeline.
+ */
+export function getRequestedPipeline(dysonTask: DysonTask): string {
+  const frontmatter = dysonTask.frontmatter as Record<string, unknown> | undefined;
+  const value = frontmatter?.pipeline;
+  if (typeof value === "string" && value.trim()) {
+    return value.trim();
+  }
+  return frontmatter?.epic === true || frontmatter?.epic === "true" ? EPIC_PIPELINE : DEFAULT_PIPELINE;
+}
+
+/**
+ * Get the phases a task running through a pipeline keeps track of
+ */
+export function getTaskPhases(pipeline: PipelineConfig): TaskPhase[] {
+  return pipeline.phases.map(({ name, agentType, onChangesRequested }) => ({ name, agentType, onChangesRequested }));
+}
+
+/**
+ * Check that a pipeline can run.
+ * It must start with an implementor phase, which creates the task's worktree, and a merge phase can only come last.
+ * A plan phase hands the work to the subtasks it creates, so it makes up a pipeline on its own.
+ * @throws Error describing the first problem found
+ */
+export function validatePipeline(name: string, pipeline: PipelineConfig): void {
+  const phases = pipeline.phases ?? [];
+  if (phases.length === 0) {
+    throw new Error(`Pipeline ${name} has no phases`);
+  }
+  const planPhase = phases.find((phase) => phase.agentType === AgentType.PLANNER);
+  if (planPhase && phases.length > 1) {
+    throw new Error(`Plan phase ${planPhase.name} of pipeline ${name} must be its only phase`);
+  }
+  if (!planPhase && phases[0].agentType !== AgentType.IMPLEMENTOR) {
+    throw new Error(`Pipeline ${name} must start with an implementor phase`);
+  }
+
+  const agentTypes = Object.values(AgentType) as string[];
+  phases.forEach((phase, index) => {
+    if (!phase.name) {
+      throw new Error(`Phase ${index + 1} of pipeline ${name} has no name`);
+    }
+    if (phases.findIndex((other) => other.name === phase.name) !== index) {
+      throw new Error(`Pipeline ${name} has more than one phase named ${phase.name}`);
+    }
+    if (!agentTypes.includes(phase.agentType)) {
+      throw new Error(`Phase ${phase.name} of pipeline ${name} has unknown agent type ${phase.agentType}`);
+    }
+    if (phase.agentType === AgentType.MERGER && index !== phases.length - 1) {
+      throw new Error(`Merge phase ${phase.name} of pipeline ${name} must be its last phase`);
+    }
+    if ((phase.reviewers !== undefined || phase.consensus !== undefined) && phase.agentType !== AgentType.REVIEWER) {
+      throw new Error(`Phase ${phase.name} of pipeline ${name} sets reviewers or consensus but is not a review phase`);
+    }
+    if (phase.reviewers !== undefined && (!Array.isArray(phase.reviewers) || phase.reviewers.length === 0)) {
+      throw new Error(`Review phase ${phase.name} of pipeline ${name} must list at least one reviewer`);
+    }
+    if (phase.consensus !== undefined && !CONSENSUS_RULES.includes(phase.consensus)) {
+      throw new Error(`Review phase ${phase.name} of pipeline ${name} has unknown consensus rule ${phase.consensus}`);
+    }
+    if (phase.onChangesRequested !== undefined) {
+      if (phase.agentType !== AgentType.REVIEWER) {
+        throw new Error(`Phase ${phase.name} of pipeline ${name} sets onChangesRequested but is not a review phase`);
+      }
+      const target = phases.slice(0, index).find((other) => other.name === phase.onChangesRequested);
+      if (!target || target.agentType !== AgentType.IMPLEMENTOR) {
+        throw new Error(
+          `Phase ${phase.name} of pipeline ${name} sends tasks back to ${phase.onChangesRequested}, which is not an earlier implementor phase`
+        );
+      }
+    }
+  });
+}
+
+/**
+ * Read the prompt files a phase configures
+ * @param workspaceDir - Directory the prompt paths are relative to
+ */
+export function loadPhasePrompts(phase: PipelinePhaseConfig, workspaceDir: string): PhasePrompts {
+  const read = (path: string | undefined): string | undefined => {
+    if (path === undefined) {
+      return undefined;
+    }
+    try {
+      return readFileSync(resolve(workspaceDir, path), "utf-8");
+    } catch (error) {
+      throw new Error(
+        `Failed to read prompt ${path} for phase ${phase.name}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  };
+
+  return { prompt: read(phase.prompt), systemPrompt: read(phase.systemPrompt) };
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { isRetryableError, getRetryDelay } from "./retry-policy.js";
+import type { RetryPolicy } from "../config/orchid-config.js";
+
+const policy: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  backoffMultiplier: 2,
+  maxDelayMs: 5000,
+  retryableErrors: [],
+};
+
+describe("retry-policy", () => {
+  describe("isRetryableError", () => {
+    it("should treat every error as retryable when no patterns are configured", () => {
+      expect(isRetryableError(policy, new Error("anything"))).toBe(true);
+    });
+
+    it("should only retry errors matching a configured pattern", () => {
+      const restricted = { ...policy, retryableErrors: ["rate limit", "ECONN\\w+"] };
+
+      expect(isRetryableError(restricted, new Error("Rate limit exceeded"))).toBe(true);
+      expect(isRetryableError(restricted, new Error("connect ECONNRESET"))).toBe(true);
+      expect(isRetryableError(restricted, new Error("Invalid API key"))).toBe(false);
+    });
+
+    it("should match invalid patterns as plain substrings", () => {
+      const restricted = { ...policy, retryableErrors: ["overloaded ("] };
+
+      expect(isRetryableError(restricted, new Error("Model overloaded (529)"))).toBe(true);
+    });
+  });
+
+  describe("getRetryDelay", () => {
+    it("should back off exponentially from the initial delay", () => {
+      expect(getRetryDelay(policy, 1)).toBe(1000);
+      expect(getRetryDelay(policy, 2)).toBe(2000);
+      expect(getRetryDelay(policy, 3)).toBe(4000);
+    });
+
+    it("should cap the delay at the maximum", () => {
+      expect(getRetryDelay(policy, 10)).toBe(5000);
+    });
+  });
+});
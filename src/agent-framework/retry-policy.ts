@@ -0,0 +1,36 @@
+/**
+ * Retry Policy
+ *
+ * Helpers for deciding whether a failed agent phase is retried and how long to wait first.
+ */
+
+import type { RetryPolicy } from "../config/orchid-config.js";
+
+/**
+ * Check whether an error matches the policy's retryable errors.
+ * An empty list of patterns treats every error as retryable.
+ */
+export function isRetryableError(policy: RetryPolicy, error: Error): boolean {
+  if (policy.retryableErrors.length === 0) {
+    return true;
+  }
+
+  return policy.retryableErrors.some((pattern) => {
+    try {
+      return new RegExp(pattern, "i").test(error.message);
+    } catch {
+      // Treat invalid patterns as plain substrings
+      return error.message.toLowerCase().includes(pattern.toLowerCase());
+    }
+  });
+}
+
+/**
+ * Get the delay before retrying after the given failed attempt
+ * @param policy - Retry policy for the phase
+ * @param failedAttempt - Number of the attempt that just failed, starting at 1
+ */
+export function getRetryDelay(policy: RetryPolicy, failedAttempt: number): number {
+  const delay = policy.initialDelayMs * Math.pow(policy.backoffMultiplier, failedAttempt - 1);
+  return Math.min(delay, policy.maxDelayMs);
+}
@@ -0,0 +1,151 @@
+import { describe, it, expect } from "vitest";
+import {
+  getActiveAgentType,
+  getEffectivePriority,
+  getMergeQueue,
+  getQueue,
+  getWaitingAgentType,
+  hasCapacity,
+} from "./scheduler.js";
+import { Task, TaskState } from "../core/tasks/index.js";
+import { AgentType } from "./agent-type.js";
+import type { Task as DysonTask } from "dyson-swarm";
+
+function createTask(taskId: string, state: TaskState, updatedAt: number, priority?: string | number): Task {
+  const task = new Task({ taskId, dysonTask: { id: taskId, frontmatter: { title: taskId, priority } } as unknown as DysonTask });
+  const data = task.toJSON();
+  return Task.fromJSON({ ...data, state, updatedAt: new Date(updatedAt) });
+}
+
+describe("scheduler", () => {
+  describe("getWaitingAgentType", () => {
+    it("should map waiting states to the agent type they wait for", () => {
+      expect(getWaitingAgentType(TaskState.PENDING_IMPLEMENTATION)).toBe(AgentType.IMPLEMENTOR);
+      expect(getWaitingAgentType(TaskState.AWAITING_REVIEW)).toBe(AgentType.REVIEWER);
+      expect(getWaitingAgentType(TaskState.AWAITING_MERGE)).toBe(AgentType.MERGER);
+      expect(getWaitingAgentType(TaskState.PENDING_PLANNING)).toBe(AgentType.PLANNER);
+      expect(getWaitingAgentType(TaskState.AWAITING_SUBTASKS)).toBeUndefined();
+      expect(getWaitingAgentType(TaskState.IMPLEMENTING)).toBeUndefined();
+      expect(getWaitingAgentType(TaskState.FAILED)).toBeUndefined();
+    });
+  });
+
+  describe("getActiveAgentType", () => {
+    it("should map active states to the agent type running", () => {
+      expect(getActiveAgentType(TaskState.IMPLEMENTING)).toBe(AgentType.IMPLEMENTOR);
+      expect(getActiveAgentType(TaskState.VERIFYING)).toBe(AgentType.IMPLEMENTOR);
+      expect(getActiveAgentType(TaskState.REVIEWING)).toBe(AgentType.REVIEWER);
+      expect(getActiveAgentType(TaskState.MERGING)).toBe(AgentType.MERGER);
+      expect(getActiveAgentType(TaskState.PLANNING)).toBe(AgentType.PLANNER);
+      expect(getActiveAgentType(TaskState.AWAITING_REVIEW)).toBeUndefined();
+      expect(getActiveAgentType(TaskState.COMPLETED)).toBeUndefined();
+    });
+  });
+
+  describe("getQueue", () => {
+    it("should list waiting tasks in the order they started waiting", () => {
+      const tasks = [
+        createTask("task-1", TaskState.AWAITING_REVIEW, 3000),
+        createTask("task-2", TaskState.IMPLEMENTING, 1000),
+        createTask("task-3", TaskState.PENDING_IMPLEMENTATION, 2000),
+        createTask("task-4", TaskState.AWAITING_MERGE, 1000),
+      ];
+
+      expect(getQueue(tasks).map((task) => task.taskId)).toEqual(["task-4", "task-3", "task-1"]);
+    });
+
+    it("should serve higher priorities first", () => {
+      const tasks = [
+        createTask("task-1", TaskState.PENDING_IMPLEMENTATION, 1000, "low"),
+        createTask("task-2", TaskState.PENDING_IMPLEMENTATION, 2000),
+        createTask("task-3", TaskState.AWAITING_REVIEW, 3000, "high"),
+        createTask("task-4", TaskState.PENDING_IMPLEMENTATION, 4000, 5),
+      ];
+
+      expect(getQueue(tasks, 0, 5000).map((task) => task.taskId)).toEqual(["task-4", "task-3", "task-2", "task-1"]);
+    });
+
+    it("should let long waiting tasks overtake higher priorities", () => {
+      const tasks = [
+        createTask("task-1", TaskState.PENDING_IMPLEMENTATION, 9_000, "high"),
+        createTask("task-2", TaskState.PENDING_IMPLEMENTATION, 0, "low"),
+      ];
+
+      expect(getQueue(tasks, 5_000, 9_000).map((task) => task.taskId)).toEqual(["task-1", "task-2"]);
+      expect(getQueue(tasks, 5_000, 12_000).map((task) => task.taskId)).toEqual(["task-2", "task-1"]);
+    });
+  });
+
+  describe("getEffectivePriority", () => {
+    it("should add one level per aging interval waited", () => {
+      const task = createTask("task-1", TaskState.PENDING_IMPLEMENTATION, 1000, "low");
+
+      expect(getEffectivePriority(task, 1000, 1500)).toBe(-1);
+      expect(getEffectivePriority(task, 1000, 3000)).toBe(1);
+    });
+
+    it("should not age when aging is disabled", () => {
+      const task = createTask("task-1", TaskState.PENDING_IMPLEMENTATION, 0, "low");
+
+      expect(getEffectivePriority(task, 0, 1_000_000)).toBe(-1);
+    });
+  });
+
+  describe("hasCapacity", () => {
+    const tasks = [
+      createTask("task-1", TaskState.IMPLEMENTING, 0),
+      createTask("task-2", TaskState.REVIEWING, 0),
+      createTask("task-3", TaskState.PENDING_IMPLEMENTATION, 0),
+    ];
+
+    it("should allow agents until the total limit is reached", () => {
+      expect(hasCapacity({ maxAgents: 3, perAgentType: {} }, tasks, AgentType.IMPLEMENTOR)).toBe(true);
+      expect(hasCapacity({ maxAgents: 2, perAgentType: {} }, tasks, AgentType.MERGER)).toBe(false);
+    });
+
+    it("should apply per agent type limits", () => {
+      const limits = { maxAgents: 10, perAgentType: { [AgentType.IMPLEMENTOR]: 1 } };
+
+      expect(hasCapacity(limits, tasks, AgentType.IMPLEMENTOR)).toBe(false);
+      expect(hasCapacity(limits, tasks, AgentType.REVIEWER)).toBe(true);
+    });
+
+    it("should count every reviewer of a panel that has not given its verdict", () => {
+      const panel = createTask("task-1", TaskState.REVIEWING, 0);
+      const reviewing = Task.fromJSON({
+        ...panel.toJSON(),
+        reviews: [
+          { agentId: "task-1-reviewer-1", sessionVersion: 1, verdict: { verdict: "approved" as const } },
+          { agentId: "task-1-reviewer-2", sessionVersion: 2 },
+          { agentId: "task-1-reviewer-3", sessionVersion: 3 },
+        ],
+      });
+
+      expect(hasCapacity({ maxAgents: 3, perAgentType: {} }, [reviewing], AgentType.IMPLEMENTOR)).toBe(true);
+      expect(hasCapacity({ maxAgents: 2, perAgentType: {} }, [reviewing], AgentType.IMPLEMENTOR)).toBe(false);
+      expect(hasCapacity({ maxAgents: 10, perAgentType: { [AgentType.REVIEWER]: 2 } }, [reviewing], AgentType.REVIEWER))
+        .toBe(false);
+    });
+
+    it("should count a task being verified against the implementor limits", () => {
+      const limits = { maxAgents: 10, perAgentType: { [AgentType.IMPLEMENTOR]: 1 } };
+      const verifying = [createTask("task-1", TaskState.VERIFYING, 0)];
+
+      expect(hasCapacity(limits, verifying, AgentType.IMPLEMENTOR)).toBe(false);
+      expect(hasCapacity({ maxAgents: 1, perAgentType: {} }, verifying, AgentType.REVIEWER)).toBe(false);
+    });
+  });
+
+  describe("getMergeQueue", () => {
+    it("should put the merging task first, then waiting tasks in the order they were approved", () => {
+      const tasks = [
+        createTask("task-1", TaskState.AWAITING_MERGE, 3000, "high"),
+        createTask("task-2", TaskState.MERGING, 4000),
+        createTask("task-3", TaskState.AWAITING_MERGE, 2000, "low"),
+        createTask("task-4", TaskState.REVIEWING, 1000),
+      ];
+
+      expect(getMergeQueue(tasks).map((task) => task.taskId)).toEqual(["task-2", "task-3", "task-1"]);
+    });
+  });
+});
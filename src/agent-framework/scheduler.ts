@@ -0,0 +1,123 @@
+/**
+ * Agent Scheduler
+ *
+ * Helpers for deciding which waiting tasks may start an agent under the configured concurrency limits.
+ */
+
+import type { ConcurrencyConfig } from "../config/orchid-config.js";
+import { Task, TaskState } from "../core/tasks/index.js";
+import { AgentType } from "./agent-type.js";
+
+/**
+ * Get the agent type a task in the given state is waiting for, if it is waiting
+ */
+export function getWaitingAgentType(state: TaskState): AgentType | undefined {
+  switch (state) {
+    case TaskState.PENDING_PLANNING:
+      return AgentType.PLANNER;
+    case TaskState.PENDING_IMPLEMENTATION:
+      return AgentType.IMPLEMENTOR;
+    case TaskState.AWAITING_REVIEW:
+      return AgentType.REVIEWER;
+    case TaskState.AWAITING_MERGE:
+      return AgentType.MERGER;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Get the agent type occupying a slot for a task in the given state, if any.
+ * A phase waiting to be retried keeps its slot, and verification keeps the implementor's
+ * so its checks don't run on top of a full set of agents.
+ */
+export function getActiveAgentType(state: TaskState): AgentType | undefined {
+  switch (state) {
+    case TaskState.PLANNING:
+      return AgentType.PLANNER;
+    case TaskState.IMPLEMENTING:
+    case TaskState.VERIFYING:
+      return AgentType.IMPLEMENTOR;
+    case TaskState.REVIEWING:
+      return AgentType.REVIEWER;
+    case TaskState.MERGING:
+      return AgentType.MERGER;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Get a task's priority including aging
+ * @param agingIntervalMs - Waiting time that raises the priority by one level, or 0 to disable aging
+ * @param now - Current time in milliseconds
+ */
+export function getEffectivePriority(task: Task, agingIntervalMs: number, now: number = Date.now()): number {
+  if (agingIntervalMs <= 0) {
+    return task.priority;
+  }
+  const waitedMs = Math.max(0, now - task.updatedAt.getTime());
+  return task.priority + Math.floor(waitedMs / agingIntervalMs);
+}
+
+/**
+ * Get the tasks waiting for an agent, in the order they are scheduled.
+ * Tasks are served by effective priority, and first come, first served
+ * from the moment they started waiting within the same priority.
+ * @param agingIntervalMs - Waiting time that raises the priority by one level, or 0 to disable aging
+ * @param now - Current time in milliseconds
+ */
+export function getQueue(tasks: Iterable<Task>, agingIntervalMs = 0, now: number = Date.now()): Task[] {
+  return [...tasks]
+    .filter((task) => getWaitingAgentType(task.state) !== undefined)
+    .map((task) => ({ task, priority: getEffectivePriority(task, agingIntervalMs, now) }))
+    .sort((a, b) => b.priority - a.priority || a.task.updatedAt.getTime() - b.task.updatedAt.getTime())
+    .map(({ task }) => task);
+}
+
+/**
+ * Get how many agents a task in an active state is running.
+ * A review panel runs one reviewer per review without a verdict; a single reviewer records no reviews.
+ */
+function getActiveAgentCount(task: Task): number {
+  if (task.state !== TaskState.REVIEWING) {
+    return 1;
+  }
+  return Math.max(1, task.reviews.filter((review) => !review.verdict).length);
+}
+
+/**
+ * Check whether another agent of the given type may start
+ * @param limits - Configured concurrency limits
+ * @param tasks - All tracked tasks, used to count the agents already running
+ */
+export function hasCapacity(limits: ConcurrencyConfig, tasks: Iterable<Task>, agentType: AgentType): boolean {
+  let total = 0;
+  let ofType = 0;
+  for (const task of tasks) {
+    const activeType = getActiveAgentType(task.state);
+    if (activeType === undefined) {
+      continue;
+    }
+    const agents = getActiveAgentCount(task);
+    total += agents;
+    if (activeType === agentType) {
+      ofType += agents;
+    }
+  }
+
+  const typeLimit = limits.perAgentType[agentType];
+  return total < limits.maxAgents && (typeLimit === undefined || ofType < typeLimit);
+}
+
+/**
+ * Get the merge queue: the task merging, then the tasks waiting to merge.
+ * Only the head of the queue merges, so the mainline moves one task at a time.
+ * Tasks merge in the order they were approved, regardless of priority.
+ */
+export function getMergeQueue(tasks: Iterable<Task>): Task[] {
+  const rank = (task: Task) => (task.state === TaskState.MERGING ? 0 : 1);
+  return [...tasks]
+    .filter((task) => task.state === TaskState.MERGING || task.state === TaskState.AWAITING_MERGE)
+    .sort((a, b) => rank(a) - rank(b) || a.updatedAt.getTime() - b.updatedAt.getTime());
+}
@@ -133,6 +133,92 @@ describe("SessionRepository", () => {
     });
   });
 
+  describe("createNextSession", () => {
+    beforeEach(() => {
+      repository = createSessionRepository({ sessionsDir: TEST_DIR });
+    });
+
+    it("should create version 1 when no sessions exist", () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+
+      const session = repository.createNextSession("task-1", AgentType.IMPLEMENTOR);
+
+      expect(session.version).toBe(1);
+      expect(session.filePath).toBe(join(TEST_DIR, "task-1", "implementor-1.json"));
+    });
+
+    it("should create the version after the latest existing one", () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readdirSync).mockReturnValue(["implementor-1.json", "reviewer-1.json"] as unknown as ReturnType<typeof readdirSync>);
+
+      const session = repository.createNextSession("task-1", AgentType.IMPLEMENTOR);
+
+      expect(session.version).toBe(2);
+      expect(session.filename).toBe("implementor-2");
+      expect(session.filePath).toBe(join(TEST_DIR, "task-1", "implementor-2.json"));
+    });
+  });
+
+  describe("getSession", () => {
+    beforeEach(() => {
+      repository = createSessionRepository({ sessionsDir: TEST_DIR });
+    });
+
+    it("should get the requested version regardless of the existing ones", () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readdirSync).mockReturnValue(["reviewer-1.json"] as unknown as ReturnType<typeof readdirSync>);
+
+      const session = repository.getSession("task-1", AgentType.REVIEWER, 3);
+
+      expect(session.version).toBe(3);
+      expect(session.filePath).toBe(join(TEST_DIR, "task-1", "reviewer-3.json"));
+    });
+
+    it("should create the task directory if it does not exist", () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+
+      repository.getSession("task-1", AgentType.REVIEWER, 2);
+
+      expect(mkdirSync).toHaveBeenCalledWith(join(TEST_DIR, "task-1"), { recursive: true });
+    });
+  });
+
+  describe("hasSessionFile", () => {
+    it("should check whether the session file exists", () => {
+      repository = createSessionRepository({ sessionsDir: TEST_DIR });
+      const session = repository.getSession("task-1", AgentType.IMPLEMENTOR, 2);
+      vi.mocked(existsSync).mockImplementation((path: PathLike) => path === join(TEST_DIR, "task-1", "implementor-2.json"));
+
+      expect(repository.hasSessionFile(session)).toBe(true);
+      expect(repository.hasSessionFile(repository.getSession("task-1", AgentType.IMPLEMENTOR, 3))).toBe(false);
+    });
+  });
+
+  describe("listSessions", () => {
+    beforeEach(() => {
+      repository = createSessionRepository({ sessionsDir: TEST_DIR });
+    });
+
+    it("should list session files by agent type and version", () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readdirSync).mockReturnValue([
+        "reviewer-1.json",
+        "reviewer-1.verdict.json",
+        "implementor-10.json",
+        "implementor-2.json",
+        "other-file.txt",
+      ] as unknown as ReturnType<typeof readdirSync>);
+
+      expect(repository.listSessions("task-1")).toEqual(["implementor-2", "implementor-10", "reviewer-1"]);
+    });
+
+    it("should return no sessions for a task without a sessions directory", () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+
+      expect(repository.listSessions("task-1")).toEqual([]);
+    });
+  });
+
   describe("getTaskSessionsDir", () => {
     beforeEach(() => {
       repository = createSessionRepository({ sessionsDir: TEST_DIR });
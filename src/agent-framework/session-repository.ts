@@ -72,7 +72,7 @@ export class SessionRepository {
    * If no sessions exist, creates a new one with version 1.
    *
    * @param taskId - The task identifier
-   * @param agentType - The type of agent (implementor, reviewer, merger)
+   * @param agentType - The type of agent (implementor, reviewer, merger, planner)
    * @returns A Session object
    */
   getOrCreateSession(taskId: string, agentType: AgentType): Session {
@@ -98,6 +98,58 @@ export class SessionRepository {
     return new Session(taskId, agentType, version, sessionFilePath);
   }
 
+  /**
+   * Create a fresh session for a task and agent type.
+   * The new session's version is one above the latest existing version,
+   * so earlier sessions are kept (e.g., implementor-2 after implementor-1).
+   *
+   * @param taskId - The task identifier
+   * @param agentType - The type of agent (implementor, reviewer, merger, planner)
+   * @returns A Session object
+   */
+  createNextSession(taskId: string, agentType: AgentType): Session {
+    const taskSessionsDir = join(this.sessionsDir, taskId);
+
+    // Ensure task directory exists
+    if (!existsSync(taskSessionsDir)) {
+      mkdirSync(taskSessionsDir, { recursive: true });
+    }
+
+    const latestVersion = this.findLatestSessionVersion(taskId, agentType);
+    const version = (latestVersion ?? 0) + 1;
+    const sessionFilePath = join(taskSessionsDir, `${agentType}-${version}.json`);
+    return new Session(taskId, agentType, version, sessionFilePath);
+  }
+
+  /**
+   * Get a specific session version for a task and agent type, whether or not it exists yet.
+   * Used when several agents of one type start at once and each needs its own session.
+   *
+   * @param taskId - The task identifier
+   * @param agentType - The type of agent (implementor, reviewer, merger, planner)
+   * @param version - The session version
+   * @returns A Session object
+   */
+  getSession(taskId: string, agentType: AgentType, version: number): Session {
+    const taskSessionsDir = join(this.sessionsDir, taskId);
+
+    // Ensure task directory exists
+    if (!existsSync(taskSessionsDir)) {
+      mkdirSync(taskSessionsDir, { recursive: true });
+    }
+
+    const sessionFilePath = join(taskSessionsDir, `${agentType}-${version}.json`);
+    return new Session(taskId, agentType, version, sessionFilePath);
+  }
+
+  /**
+   * Check whether a session's file was written, i.e. whether it holds a conversation to resume.
+   * The agent writes the file once it runs, so a session handed out just before a restart may have none.
+   */
+  hasSessionFile(session: Session): boolean {
+    return existsSync(session.filePath);
+  }
+
   /**
    * Find the latest session version for a task and agent type.
    * Returns null if no sessions exist.
@@ -131,6 +183,24 @@ export class SessionRepository {
     return maxVersion;
   }
 
+  /**
+   * List the sessions a task's agents used, as filenames like "implementor-1", ordered by agent type and version
+   */
+  listSessions(taskId: string): string[] {
+    const taskSessionsDir = join(this.sessionsDir, taskId);
+
+    if (!existsSync(taskSessionsDir)) {
+      return [];
+    }
+
+    const pattern = new RegExp(`^(${Object.values(AgentType).join("|")})-(\\d+)\\.json$`);
+    return readdirSync(taskSessionsDir)
+      .map((file) => file.match(pattern))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .sort((a, b) => a[1].localeCompare(b[1]) || parseInt(a[2], 10) - parseInt(b[2], 10))
+      .map((match) => `${match[1]}-${match[2]}`);
+  }
+
   /**
    * Get the path to the sessions directory for a task
    */
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { createTaskCommandLog, type TaskCommand } from "./task-commands.js";
+import { mockLog } from "../test-utils/mock-log.js";
+
+// Mock the fs module
+vi.mock("node:fs", () => ({
+  existsSync: vi.fn(),
+  statSync: vi.fn(),
+  openSync: vi.fn(),
+  readSync: vi.fn(),
+  closeSync: vi.fn(),
+  readFileSync: vi.fn(),
+  writeFileSync: vi.fn(),
+  appendFileSync: vi.fn(),
+  mkdirSync: vi.fn(),
+}));
+
+const TEST_COMMANDS_PATH = "/test/.orchid/commands.jsonl";
+const TEST_OFFSET_PATH = "/test/.orchid/commands.offset";
+
+const createCommand = (taskId: string): TaskCommand => ({
+  type: "pause",
+  taskId,
+  issuedAt: new Date("2025-01-01T00:00:00.000Z"),
+});
+
+const line = (command: TaskCommand) => `${JSON.stringify(command)}\n`;
+
+describe("TaskCommandLog", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(existsSync).mockReturnValue(true);
+  });
+
+  describe("readFrom", () => {
+    it("should restore commands with their dates", () => {
+      mockLog(line(createCommand("task-1")));
+
+      const { commands } = createTaskCommandLog({ commandsFilePath: TEST_COMMANDS_PATH }).readFrom(0);
+
+      expect(commands).toEqual([createCommand("task-1")]);
+      expect(commands[0].issuedAt).toBeInstanceOf(Date);
+    });
+  });
+
+  describe("getAppliedOffset", () => {
+    const createLog = () =>
+      createTaskCommandLog({ commandsFilePath: TEST_COMMANDS_PATH, appliedOffsetFilePath: TEST_OFFSET_PATH });
+
+    it("should continue from the recorded offset", () => {
+      vi.mocked(readFileSync).mockReturnValue("42\n");
+
+      expect(createLog().getAppliedOffset()).toBe(42);
+      expect(readFileSync).toHaveBeenCalledWith(TEST_OFFSET_PATH, "utf-8");
+    });
+
+    it("should start at the end of the log without a recorded offset", () => {
+      const first = line(createCommand("task-1"));
+      mockLog(first);
+      vi.mocked(existsSync).mockImplementation((path) => path !== TEST_OFFSET_PATH);
+
+      expect(createLog().getAppliedOffset()).toBe(first.length);
+    });
+
+    it("should start at the end of the log when the recorded offset is unreadable", () => {
+      const first = line(createCommand("task-1"));
+      mockLog(first);
+      vi.mocked(readFileSync).mockReturnValue("garbage");
+
+      expect(createLog().getAppliedOffset()).toBe(first.length);
+    });
+  });
+
+  describe("saveAppliedOffset", () => {
+    it("should record the offset", () => {
+      createTaskCommandLog({ commandsFilePath: TEST_COMMANDS_PATH, appliedOffsetFilePath: TEST_OFFSET_PATH })
+        .saveAppliedOffset(42);
+
+      expect(writeFileSync).toHaveBeenCalledWith(TEST_OFFSET_PATH, "42\n");
+    });
+
+    it("should do nothing without an applied offset file", () => {
+      createTaskCommandLog({ commandsFilePath: TEST_COMMANDS_PATH }).saveAppliedOffset(42);
+
+      expect(writeFileSync).not.toHaveBeenCalled();
+    });
+  });
+});
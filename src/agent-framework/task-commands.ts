@@ -0,0 +1,107 @@
+/**
+ * Task Commands
+ *
+ * Appends commands for the daemon, such as pausing or approving a task, to .orchid/commands.jsonl,
+ * one JSON object per line. The CLI appends to the log and the daemon follows it,
+ * recording how far it got so commands sent while it restarts are still applied.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { createJsonlLog, type JsonlLog } from "./jsonl-log.js";
+
+/**
+ * Command types a task can be sent
+ */
+export type TaskCommandType = "pause" | "resume" | "cancel" | "approve" | "reject";
+
+/**
+ * A command for the daemon to apply to a task
+ */
+export interface TaskCommand {
+  type: TaskCommandType;
+  taskId: string;
+  /** Why the task was rejected, for reject commands */
+  reason?: string;
+  issuedAt: Date;
+}
+
+/**
+ * Options for creating a TaskCommandLog
+ */
+export interface TaskCommandLogOptions {
+  /** Path to commands.jsonl file */
+  commandsFilePath: string;
+  /** Path to the file recording how far the daemon has applied the log */
+  appliedOffsetFilePath?: string;
+}
+
+/**
+ * Append-only log of task commands
+ */
+export class TaskCommandLog {
+  private lines: JsonlLog<TaskCommand>;
+  private appliedOffsetFilePath: string | undefined;
+
+  constructor(options: TaskCommandLogOptions) {
+    this.appliedOffsetFilePath = options.appliedOffsetFilePath;
+    this.lines = createJsonlLog({
+      filePath: options.commandsFilePath,
+      revive: (command) => ({ ...command, issuedAt: new Date(command.issuedAt) }),
+    });
+  }
+
+  /**
+   * Append a command to the log
+   */
+  append(command: TaskCommand): void {
+    this.lines.append(command);
+  }
+
+  /**
+   * Get the offset of the end of the log, to only read commands appended from now on
+   */
+  getEndOffset(): number {
+    return this.lines.getEndOffset();
+  }
+
+  /**
+   * Get the offset up to which the daemon has applied the log.
+   * Without a recorded offset, only commands appended from now on are applied.
+   */
+  getAppliedOffset(): number {
+    if (this.appliedOffsetFilePath && existsSync(this.appliedOffsetFilePath)) {
+      const offset = Number(readFileSync(this.appliedOffsetFilePath, "utf-8").trim());
+      if (Number.isInteger(offset) && offset >= 0) {
+        return offset;
+      }
+    }
+    return this.getEndOffset();
+  }
+
+  /**
+   * Record the offset up to which the daemon has applied the log.
+   * Does nothing without an applied offset file.
+   */
+  saveAppliedOffset(offset: number): void {
+    if (this.appliedOffsetFilePath) {
+      writeFileSync(this.appliedOffsetFilePath, `${offset}\n`);
+    }
+  }
+
+  /**
+   * Read the commands logged after a byte offset returned by an earlier read.
+   * If the log was truncated since, it is read from the start again.
+   * @returns The commands and the offset to continue reading from
+   */
+  readFrom(offset: number): { commands: TaskCommand[]; offset: number } {
+    const { entries, offset: next } = this.lines.readFrom(offset);
+    return { commands: entries, offset: next };
+  }
+}
+
+/**
+ * Factory function to create a TaskCommandLog
+ */
+export function createTaskCommandLog(options: TaskCommandLogOptions): TaskCommandLog {
+  return new TaskCommandLog(options);
+}
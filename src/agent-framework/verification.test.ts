@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { shouldVerify, summarizeChecks } from "./verification.js";
+import { AgentType } from "./agent-type.js";
+import { Task } from "../core/tasks/index.js";
+import type { CheckResult } from "../core/checks/index.js";
+
+const createTask = (phases?: ConstructorParameters<typeof Task>[0]["phases"]) =>
+  new Task({
+    taskId: "task-1",
+    dysonTask: { id: "task-1", frontmatter: { title: "Test" }, description: "", status: "open" },
+    phases,
+  });
+
+const check = (overrides: Partial<CheckResult>): CheckResult => ({
+  command: "npm test",
+  passed: true,
+  exitCode: 0,
+  timedOut: false,
+  output: "",
+  durationMs: 12_000,
+  ...overrides,
+});
+
+describe("verification", () => {
+  describe("shouldVerify", () => {
+    const config = { commands: ["npm test"], timeoutMs: 1_000, maxFailures: 3 };
+
+    it("should verify an implementation that is about to be reviewed", () => {
+      expect(shouldVerify(createTask(), config)).toBe(true);
+    });
+
+    it("should not verify without commands", () => {
+      expect(shouldVerify(createTask(), { ...config, commands: [] })).toBe(false);
+    });
+
+    it("should not verify when the next phase is not a review", () => {
+      const task = createTask([
+        { name: "tests", agentType: AgentType.IMPLEMENTOR },
+        { name: "implement", agentType: AgentType.IMPLEMENTOR },
+        { name: "review", agentType: AgentType.REVIEWER },
+      ]);
+
+      expect(shouldVerify(task, config)).toBe(false);
+    });
+  });
+
+  describe("summarizeChecks", () => {
+    it("should describe each command and the ones that did not run", () => {
+      const summary = summarizeChecks(
+        ["npm ci", "npm run lint", "npm test", "npm run build"],
+        [
+          check({ command: "npm ci" }),
+          check({ command: "npm run lint", passed: false, exitCode: 2, durationMs: 3_000 }),
+        ]
+      );
+
+      expect(summary).toBe(
+        [
+          "- `npm ci` passed in 12s",
+          "- `npm run lint` failed with exit code 2 after 3s",
+          "- `npm test` was not run",
+          "- `npm run build` was not run",
+        ].join("\n")
+      );
+    });
+
+    it("should report commands that timed out", () => {
+      const summary = summarizeChecks(["npm test"], [check({ passed: false, exitCode: null, timedOut: true, durationMs: 60_000 })]);
+
+      expect(summary).toBe("- `npm test` timed out after 1m");
+    });
+  });
+});
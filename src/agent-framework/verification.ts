@@ -0,0 +1,43 @@
+/**
+ * Verification
+ *
+ * Helpers for checking a task's implementation with the project's own commands before it is reviewed.
+ */
+
+import type { CheckResult } from "../core/checks/index.js";
+import type { VerificationConfig } from "../config/orchid-config.js";
+import type { Task } from "../core/tasks/index.js";
+import { AgentType } from "./agent-type.js";
+import { formatDuration } from "./watchdog.js";
+
+/**
+ * Check whether a task whose implementor just finished should be verified.
+ * Verification runs when commands are configured and the task's next phase is a review.
+ */
+export function shouldVerify(task: Task, config: VerificationConfig): boolean {
+  return config.commands.length > 0 && task.phases[task.phaseIndex + 1]?.agentType === AgentType.REVIEWER;
+}
+
+/**
+ * Summarize a verification run, one line per configured command
+ * @param commands - Commands that were configured; those after a failure were not run
+ * @param results - Results of the commands that ran, in order
+ */
+export function summarizeChecks(commands: string[], results: CheckResult[]): string {
+  return commands
+    .map((command, index) => {
+      const result = results[index];
+      if (!result) {
+        return `- \`${command}\` was not run`;
+      }
+      const duration = formatDuration(result.durationMs);
+      if (result.passed) {
+        return `- \`${command}\` passed in ${duration}`;
+      }
+      if (result.timedOut) {
+        return `- \`${command}\` timed out after ${duration}`;
+      }
+      return `- \`${command}\` failed with exit code ${result.exitCode} after ${duration}`;
+    })
+    .join("\n");
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { formatDuration, getNextCheckDelay, getTimeoutReason } from "./watchdog.js";
+import { AgentType } from "./agent-type.js";
+
+const MINUTE = 60_000;
+
+describe("watchdog", () => {
+  describe("formatDuration", () => {
+    it("should format hours, minutes and seconds", () => {
+      expect(formatDuration(90 * MINUTE)).toBe("1h 30m");
+      expect(formatDuration(15 * MINUTE)).toBe("15m");
+      expect(formatDuration(45_000)).toBe("45s");
+      expect(formatDuration(200)).toBe("200ms");
+    });
+  });
+
+  describe("getTimeoutReason", () => {
+    const timeouts = { maxRuntimeMs: 60 * MINUTE, inactivityTimeoutMs: 10 * MINUTE };
+
+    it("should be undefined within the limits", () => {
+      expect(getTimeoutReason(AgentType.IMPLEMENTOR, timeouts, new Date(0), new Date(5 * MINUTE), 14 * MINUTE)).toBeUndefined();
+    });
+
+    it("should report agents running past their max runtime", () => {
+      expect(getTimeoutReason(AgentType.IMPLEMENTOR, timeouts, new Date(0), new Date(59 * MINUTE), 60 * MINUTE)).toBe(
+        "implementor timed out after running for 1h"
+      );
+    });
+
+    it("should report agents without activity for too long", () => {
+      expect(getTimeoutReason(AgentType.REVIEWER, timeouts, new Date(0), new Date(5 * MINUTE), 15 * MINUTE)).toBe(
+        "reviewer stalled with no activity for 10m"
+      );
+    });
+
+    it("should measure inactivity from the start when the instance reports older activity", () => {
+      expect(getTimeoutReason(AgentType.IMPLEMENTOR, timeouts, new Date(20 * MINUTE), new Date(0), 25 * MINUTE)).toBeUndefined();
+    });
+
+    it("should ignore disabled limits", () => {
+      const disabled = { maxRuntimeMs: 0, inactivityTimeoutMs: 0 };
+
+      expect(getTimeoutReason(AgentType.MERGER, disabled, new Date(0), new Date(0), 1000 * MINUTE)).toBeUndefined();
+    });
+  });
+
+  describe("getNextCheckDelay", () => {
+    it("should wait until the nearest deadline", () => {
+      const timeouts = { maxRuntimeMs: 60 * MINUTE, inactivityTimeoutMs: 10 * MINUTE };
+
+      expect(getNextCheckDelay(timeouts, new Date(0), new Date(5 * MINUTE), 6 * MINUTE)).toBe(9 * MINUTE);
+      expect(getNextCheckDelay(timeouts, new Date(0), new Date(55 * MINUTE), 56 * MINUTE)).toBe(4 * MINUTE);
+    });
+
+    it("should be undefined without limits", () => {
+      expect(getNextCheckDelay({ maxRuntimeMs: 0, inactivityTimeoutMs: 0 }, new Date(0), new Date(0), 0)).toBeUndefined();
+    });
+  });
+});
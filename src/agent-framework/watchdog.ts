@@ -0,0 +1,76 @@
+/**
+ * Agent Watchdog
+ *
+ * Helpers for deciding when a running agent has run too long or stopped making progress.
+ */
+
+import type { AgentTimeouts } from "../config/orchid-config.js";
+import type { AgentType } from "./agent-type.js";
+
+/**
+ * Format a duration for messages, ex. "1h 30m" or "45s"
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  const parts = [
+    hours > 0 ? `${hours}h` : "",
+    minutes > 0 ? `${minutes}m` : "",
+    seconds > 0 ? `${seconds}s` : "",
+  ].filter((part) => part.length > 0);
+  return parts.length > 0 ? parts.join(" ") : `${ms}ms`;
+}
+
+/**
+ * Check whether a running agent breached its timeouts
+ * @param startedAt - When the agent started
+ * @param lastActivityAt - When the agent's instance last reported activity
+ * @param now - Current time in milliseconds
+ * @returns Why the agent timed out, or undefined if it is within its limits
+ */
+export function getTimeoutReason(
+  agentType: AgentType,
+  timeouts: AgentTimeouts,
+  startedAt: Date,
+  lastActivityAt: Date,
+  now: number = Date.now()
+): string | undefined {
+  if (timeouts.maxRuntimeMs > 0 && now - startedAt.getTime() >= timeouts.maxRuntimeMs) {
+    return `${agentType} timed out after running for ${formatDuration(timeouts.maxRuntimeMs)}`;
+  }
+
+  const lastActivity = Math.max(startedAt.getTime(), lastActivityAt.getTime());
+  if (timeouts.inactivityTimeoutMs > 0 && now - lastActivity >= timeouts.inactivityTimeoutMs) {
+    return `${agentType} stalled with no activity for ${formatDuration(timeouts.inactivityTimeoutMs)}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Get how long until the next timeout could be breached
+ * @param now - Current time in milliseconds
+ * @returns Delay in milliseconds, or undefined if the agent has no timeouts
+ */
+export function getNextCheckDelay(
+  timeouts: AgentTimeouts,
+  startedAt: Date,
+  lastActivityAt: Date,
+  now: number = Date.now()
+): number | undefined {
+  const deadlines: number[] = [];
+  if (timeouts.maxRuntimeMs > 0) {
+    deadlines.push(startedAt.getTime() + timeouts.maxRuntimeMs);
+  }
+  if (timeouts.inactivityTimeoutMs > 0) {
+    deadlines.push(Math.max(startedAt.getTime(), lastActivityAt.getTime()) + timeouts.inactivityTimeoutMs);
+  }
+
+  if (deadlines.length === 0) {
+    return undefined;
+  }
+  return Math.max(0, Math.min(...deadlines) - now);
+}
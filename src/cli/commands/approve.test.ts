@@ -0,0 +1,22 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { approveAction } from './approve.js';
+
+const { mockSendTaskCommand } = vi.hoisted(() => ({
+  mockSendTaskCommand: vi.fn(),
+}));
+
+vi.mock("./task.js", () => ({
+  sendTaskCommand: mockSendTaskCommand,
+}));
+
+describe('approve command', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should send an approve command to the daemon', () => {
+    approveAction(undefined, 'task-1');
+
+    expect(mockSendTaskCommand).toHaveBeenCalledWith('approve', 'task-1');
+  });
+});
@@ -0,0 +1,11 @@
+import { Command } from "@cliffy/command";
+import { sendTaskCommand } from "./task.js";
+
+export function approveAction(_options: unknown, taskId: string) {
+  sendTaskCommand("approve", taskId);
+}
+
+export const approveCommand: any = new Command()
+  .description("Approve a task waiting for approval, so it is merged")
+  .argument("<task-id>", "ID of the task")
+  .action(approveAction);
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { eventsAction, formatEvent } from './events.js';
+import { TaskState } from '../../core/tasks/index.js';
+
+const { mockEventLog } = vi.hoisted(() => ({
+  mockEventLog: {
+    readFrom: vi.fn(),
+  },
+}));
+
+vi.mock("../../agent-framework/event-log.js", () => ({
+  createEventLog: () => mockEventLog,
+}));
+
+vi.mock("../../config/paths.js", () => ({
+  getEventsFile: () => "/test/.orchid/events.jsonl",
+}));
+
+const mockConsoleLog = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+const event = (taskId: string, type = "task_discovered", details: Record<string, unknown> = {}) => ({
+  type,
+  timestamp: new Date("2025-01-01T00:00:00.000Z"),
+  taskId,
+  task: {},
+  ...details,
+}) as any;
+
+describe('events command', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    mockEventLog.readFrom.mockReturnValue({ events: [], offset: 0 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should report when no events are recorded', () => {
+    eventsAction();
+
+    expect(mockConsoleLog).toHaveBeenCalledWith('No events recorded');
+  });
+
+  it('should print recorded events', () => {
+    mockEventLog.readFrom.mockReturnValue({
+      events: [event('task-1', 'task_transition', { from: TaskState.IMPLEMENTING, to: TaskState.AWAITING_REVIEW })],
+      offset: 100,
+    });
+
+    eventsAction();
+
+    expect(mockConsoleLog).toHaveBeenCalledWith('2025-01-01T00:00:00.000Z task-1 implementing -> awaiting_review');
+  });
+
+  it('should filter by task and type', () => {
+    mockEventLog.readFrom.mockReturnValue({
+      events: [event('task-1'), event('task-2'), event('task-2', 'task_removed')],
+      offset: 100,
+    });
+
+    eventsAction({ task: 'task-2', type: 'task_removed' });
+
+    expect(mockConsoleLog).toHaveBeenCalledTimes(1);
+    expect(mockConsoleLog).toHaveBeenCalledWith('2025-01-01T00:00:00.000Z task-2 removed');
+  });
+
+  it('should print JSON lines with --json', () => {
+    const recorded = event('task-1');
+    mockEventLog.readFrom.mockReturnValue({ events: [recorded], offset: 100 });
+
+    eventsAction({ json: true });
+
+    expect(mockConsoleLog).toHaveBeenCalledWith(JSON.stringify(recorded));
+  });
+
+  it('should keep printing new events with --follow', () => {
+    mockEventLog.readFrom.mockReturnValueOnce({ events: [event('task-1')], offset: 100 });
+    mockEventLog.readFrom.mockReturnValueOnce({ events: [event('task-2')], offset: 200 });
+
+    const stop = eventsAction({ follow: true });
+    vi.advanceTimersByTime(1000);
+    stop?.();
+
+    expect(mockEventLog.readFrom).toHaveBeenLastCalledWith(100);
+    expect(mockConsoleLog).toHaveBeenCalledWith('2025-01-01T00:00:00.000Z task-2 discovered');
+  });
+
+  describe('formatEvent', () => {
+    it('should describe agent events', () => {
+      expect(formatEvent(event('task-1', 'agent_errored', {
+        agentType: 'reviewer',
+        agentId: 'task-1-reviewer',
+        error: 'Network error',
+      }))).toBe('2025-01-01T00:00:00.000Z task-1 reviewer errored (task-1-reviewer): Network error');
+    });
+  });
+});
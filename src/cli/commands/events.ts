@@ -0,0 +1,77 @@
+import { Command } from "@cliffy/command";
+import { createEventLog } from "../../agent-framework/event-log.js";
+import type { OrchestratorEvent } from "../../agent-framework/events.js";
+import { getEventsFile } from "../../config/paths.js";
+
+const FOLLOW_INTERVAL_MS = 1000;
+
+export interface EventsCommandOptions {
+  task?: string;
+  type?: string;
+  json?: boolean;
+  follow?: boolean;
+}
+
+/**
+ * Format an event as a single human readable line
+ */
+export function formatEvent(event: OrchestratorEvent): string {
+  const prefix = `${event.timestamp.toISOString()} ${event.taskId}`;
+  switch (event.type) {
+    case "task_discovered":
+      return `${prefix} discovered`;
+    case "task_transition":
+      return `${prefix} ${event.from} -> ${event.to}`;
+    case "agent_started":
+      return `${prefix} ${event.agentType} started (${event.agentId})`;
+    case "agent_stopped":
+      return `${prefix} ${event.agentType} stopped (${event.agentId})`;
+    case "agent_errored":
+      return `${prefix} ${event.agentType} errored (${event.agentId}): ${event.error}`;
+    case "task_removed":
+      return `${prefix} removed`;
+  }
+}
+
+/**
+ * Print recorded events, and keep printing new ones with --follow
+ * @returns Function that stops following, when following
+ */
+export function eventsAction(options: EventsCommandOptions = {}): (() => void) | undefined {
+  const eventLog = createEventLog({ eventsFilePath: getEventsFile() });
+  const print = (events: OrchestratorEvent[]) => {
+    for (const event of events) {
+      if ((options.task && event.taskId !== options.task) || (options.type && event.type !== options.type)) {
+        continue;
+      }
+      console.log(options.json ? JSON.stringify(event) : formatEvent(event));
+    }
+  };
+
+  let { events, offset } = eventLog.readFrom(0);
+  if (events.length === 0 && !options.follow) {
+    console.log("No events recorded");
+    return undefined;
+  }
+  print(events);
+
+  if (!options.follow) {
+    return undefined;
+  }
+
+  const timer = setInterval(() => {
+    ({ events, offset } = eventLog.readFrom(offset));
+    print(events);
+  }, FOLLOW_INTERVAL_MS);
+  return () => clearInterval(timer);
+}
+
+export const eventsCommand: any = new Command()
+  .description("Show task and agent lifecycle events recorded by the daemon")
+  .option("--task <task-id:string>", "Only show events for this task")
+  .option("--type <type:string>", "Only show events of this type, ex. task_transition")
+  .option("--json", "Print each event as a JSON line")
+  .option("-f, --follow", "Keep printing new events as they are recorded")
+  .action((options: EventsCommandOptions) => {
+    eventsAction(options);
+  });
@@ -131,4 +131,18 @@ describe('init command', () => {
       { allowNonEmptyDir: true }
     );
   });
+
+  it('should pass clone options to initialization', async () => {
+    mockInitializeOrchid.mockResolvedValue({
+      success: true,
+      message: 'Successfully initialized orchid',
+    });
+
+    await initAction({ branch: 'develop', depth: 1, recurseSubmodules: true }, 'https://github.com/user/repo.git');
+
+    expect(mockInitializeOrchid).toHaveBeenCalledWith(
+      'https://github.com/user/repo.git',
+      { allowNonEmptyDir: false, branch: 'develop', depth: 1, recurseSubmodules: true }
+    );
+  });
 });
@@ -3,7 +3,14 @@ import { Confirm } from "@cliffy/prompt/confirm";
 import { initializeOrchid, isDirectoryEmpty } from "../../orchid-lifecycle/index.js";
 import { cwd } from "node:process";
 
-export async function initAction(options: { dangerouslyInitInNonEmptyDir?: true }, repository: string) {
+export interface InitCommandOptions {
+  dangerouslyInitInNonEmptyDir?: true;
+  branch?: string;
+  depth?: number;
+  recurseSubmodules?: true;
+}
+
+export async function initAction(options: InitCommandOptions, repository: string) {
   const currentDir = cwd();
   const allowNonEmptyDir = options.dangerouslyInitInNonEmptyDir ?? false;
 
@@ -20,7 +27,12 @@ export async function initAction(options: { dangerouslyInitInNonEmptyDir?: true
     }
   }
 
-  const result = await initializeOrchid(repository, { allowNonEmptyDir });
+  const result = await initializeOrchid(repository, {
+    allowNonEmptyDir,
+    branch: options.branch,
+    depth: options.depth,
+    recurseSubmodules: options.recurseSubmodules,
+  });
   console.log(result.message);
   if (!result.success) {
     process.exit(1);
@@ -29,6 +41,9 @@ export async function initAction(options: { dangerouslyInitInNonEmptyDir?: true
 
 export const initCommand: any = new Command()
   .description("Initialize orchid workspace with a git repository")
-  .argument("<repository-url>", "Url of the git repository to clone, ex. git@github.com:simon-duchastel/orchid.git")
+  .argument("<repository-url>", "Url or local path of the git repository to clone, ex. git@github.com:simon-duchastel/orchid.git")
+  .option("-b, --branch <branch:string>", "Branch to check out instead of the repository's default branch")
+  .option("--depth <depth:integer>", "Create a shallow clone with the given number of commits")
+  .option("--recurse-submodules", "Clone the repository's submodules as well")
   .option("--dangerously-init-in-non-empty-dir", "Allow initialization in a non-empty directory (might overwrite files)")
   .action(initAction);
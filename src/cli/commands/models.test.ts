@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  modelsListAction,
+  modelsAddAction,
+  modelsRemoveAction,
+  modelsAssignAction,
+  modelsUnassignAction,
+} from './models.js';
+
+const { mockRepository } = vi.hoisted(() => ({
+  mockRepository: {
+    getAllModels: vi.fn(),
+    getModelForAgent: vi.fn(),
+    getDefaultModel: vi.fn(),
+    addModel: vi.fn(),
+    removeModel: vi.fn(),
+    setModelForAgent: vi.fn(),
+    setDefaultModel: vi.fn(),
+    unassignModelForAgent: vi.fn(),
+    clearDefaultModel: vi.fn(),
+  },
+}));
+
+vi.mock("../../models/index.js", () => ({
+  createModelRepository: () => mockRepository,
+}));
+
+const mockConsoleLog = vi.spyOn(console, 'log').mockImplementation(() => {});
+const mockExit = vi.spyOn(process, 'exit').mockImplementation(() => {
+  throw new Error('process.exit called');
+});
+
+describe('models command', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRepository.getAllModels.mockReturnValue([]);
+  });
+
+  describe('list', () => {
+    it('should report when no models are configured', () => {
+      modelsListAction();
+
+      expect(mockConsoleLog).toHaveBeenCalledWith('No models configured');
+    });
+
+    it('should list models with their assignments', () => {
+      mockRepository.getAllModels.mockReturnValue([
+        { provider: 'anthropic', modelId: 'claude-sonnet-4-5' },
+        { provider: 'openai', modelId: 'gpt-4' },
+      ]);
+      mockRepository.getModelForAgent.mockImplementation((agentType: string) =>
+        agentType === 'reviewer' ? { provider: 'openai', modelId: 'gpt-4' } : undefined
+      );
+      mockRepository.getDefaultModel.mockReturnValue({ provider: 'anthropic', modelId: 'claude-sonnet-4-5' });
+
+      modelsListAction();
+
+      const output = mockConsoleLog.mock.calls[0][0] as string;
+      expect(output).toContain('claude-sonnet-4-5');
+      expect(output).toContain('default');
+      expect(output).toContain('gpt-4');
+      expect(output).toContain('reviewer');
+    });
+  });
+
+  describe('add', () => {
+    it('should add a model', () => {
+      modelsAddAction({}, 'anthropic', 'claude-sonnet-4-5');
+
+      expect(mockRepository.addModel).toHaveBeenCalledWith({ provider: 'anthropic', modelId: 'claude-sonnet-4-5' });
+      expect(mockConsoleLog).toHaveBeenCalledWith('Added model anthropic/claude-sonnet-4-5');
+    });
+
+    it('should exit with code 1 when the provider is unknown', () => {
+      mockRepository.addModel.mockImplementationOnce(() => {
+        throw new Error('Provider unknown not found');
+      });
+
+      expect(() => modelsAddAction({}, 'unknown', 'model')).toThrow('process.exit called');
+
+      expect(mockConsoleLog).toHaveBeenCalledWith('Provider unknown not found');
+      expect(mockExit).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('remove', () => {
+    it('should remove a model', () => {
+      mockRepository.removeModel.mockReturnValue(true);
+
+      modelsRemoveAction({}, 'anthropic', 'claude-sonnet-4-5');
+
+      expect(mockConsoleLog).toHaveBeenCalledWith('Removed model anthropic/claude-sonnet-4-5');
+    });
+
+    it('should exit with code 1 when the model does not exist', () => {
+      mockRepository.removeModel.mockReturnValue(false);
+
+      expect(() => modelsRemoveAction({}, 'anthropic', 'missing')).toThrow('process.exit called');
+
+      expect(mockConsoleLog).toHaveBeenCalledWith('Model anthropic/missing not found');
+    });
+
+    it('should exit with code 1 when the model is assigned', () => {
+      mockRepository.removeModel.mockImplementationOnce(() => {
+        throw new Error('Cannot remove model anthropic/claude-sonnet-4-5 - assigned to implementor');
+      });
+
+      expect(() => modelsRemoveAction({}, 'anthropic', 'claude-sonnet-4-5')).toThrow('process.exit called');
+
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        'Cannot remove model anthropic/claude-sonnet-4-5 - assigned to implementor'
+      );
+    });
+  });
+
+  describe('assign', () => {
+    it('should assign a model to an agent type', () => {
+      modelsAssignAction({}, 'reviewer', 'openai', 'gpt-4');
+
+      expect(mockRepository.setModelForAgent).toHaveBeenCalledWith('reviewer', 'openai', 'gpt-4');
+      expect(mockConsoleLog).toHaveBeenCalledWith('Assigned openai/gpt-4 to reviewer');
+    });
+
+    it('should set the default model', () => {
+      modelsAssignAction({}, 'default', 'anthropic', 'claude-sonnet-4-5');
+
+      expect(mockRepository.setDefaultModel).toHaveBeenCalledWith('anthropic', 'claude-sonnet-4-5');
+      expect(mockConsoleLog).toHaveBeenCalledWith('Set default model to anthropic/claude-sonnet-4-5');
+    });
+
+    it('should exit with code 1 for an unknown agent type', () => {
+      expect(() => modelsAssignAction({}, 'planner', 'openai', 'gpt-4')).toThrow('process.exit called');
+
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        'Unknown agent type planner. Expected one of: implementor, reviewer, merger, default'
+      );
+      expect(mockRepository.setModelForAgent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unassign', () => {
+    it('should unassign the model from an agent type', () => {
+      mockRepository.unassignModelForAgent.mockReturnValue(true);
+
+      modelsUnassignAction({}, 'implementor');
+
+      expect(mockRepository.unassignModelForAgent).toHaveBeenCalledWith('implementor');
+      expect(mockConsoleLog).toHaveBeenCalledWith('Unassigned model from implementor');
+    });
+
+    it('should clear the default model', () => {
+      mockRepository.clearDefaultModel.mockReturnValue(false);
+
+      modelsUnassignAction({}, 'default');
+
+      expect(mockConsoleLog).toHaveBeenCalledWith('No model assigned to default');
+    });
+  });
+});
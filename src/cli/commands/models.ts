@@ -0,0 +1,127 @@
+import { Command } from "@cliffy/command";
+import { Table } from "@cliffy/table";
+import { AgentType } from "../../agent-framework/agent-type.js";
+import { createModelRepository, type Model } from "../../models/index.js";
+
+/** Assignment target for the workspace default model */
+const DEFAULT_TARGET = "default";
+
+/**
+ * Run a model repository operation, reporting its guard errors as a CLI failure
+ */
+export function runRepositoryCommand(operation: () => void) {
+  try {
+    operation();
+  } catch (error) {
+    console.log(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+/**
+ * Parse an assignment target: an agent type or "default"
+ */
+function parseTarget(target: string): AgentType | typeof DEFAULT_TARGET {
+  const agentTypes = Object.values(AgentType) as string[];
+  if (target !== DEFAULT_TARGET && !agentTypes.includes(target)) {
+    throw new Error(`Unknown agent type ${target}. Expected one of: ${[...agentTypes, DEFAULT_TARGET].join(", ")}`);
+  }
+  return target as AgentType | typeof DEFAULT_TARGET;
+}
+
+function formatModel(model: Model): string {
+  return `${model.provider}/${model.modelId}`;
+}
+
+export function modelsListAction() {
+  const repository = createModelRepository();
+  const models = repository.getAllModels();
+  if (models.length === 0) {
+    console.log("No models configured");
+    return;
+  }
+
+  const defaultModel = repository.getDefaultModel();
+  const rows = models.map((model) => {
+    const assignedTo: string[] = Object.values(AgentType).filter((agentType) => {
+      const assigned = repository.getModelForAgent(agentType);
+      return assigned && formatModel(assigned) === formatModel(model);
+    });
+    if (defaultModel && formatModel(defaultModel) === formatModel(model)) {
+      assignedTo.push(DEFAULT_TARGET);
+    }
+    return [model.provider, model.modelId, assignedTo.join(", ")];
+  });
+
+  console.log(new Table().header(["Provider", "Model", "Assigned to"]).body(rows).border(true).toString());
+}
+
+export function modelsAddAction(_options: unknown, provider: string, modelId: string) {
+  runRepositoryCommand(() => {
+    createModelRepository().addModel({ provider, modelId });
+    console.log(`Added model ${provider}/${modelId}`);
+  });
+}
+
+export function modelsRemoveAction(_options: unknown, provider: string, modelId: string) {
+  runRepositoryCommand(() => {
+    if (!createModelRepository().removeModel(provider, modelId)) {
+      throw new Error(`Model ${provider}/${modelId} not found`);
+    }
+    console.log(`Removed model ${provider}/${modelId}`);
+  });
+}
+
+export function modelsAssignAction(_options: unknown, target: string, provider: string, modelId: string) {
+  runRepositoryCommand(() => {
+    const agentType = parseTarget(target);
+    const repository = createModelRepository();
+    if (agentType === DEFAULT_TARGET) {
+      repository.setDefaultModel(provider, modelId);
+      console.log(`Set default model to ${provider}/${modelId}`);
+    } else {
+      repository.setModelForAgent(agentType, provider, modelId);
+      console.log(`Assigned ${provider}/${modelId} to ${agentType}`);
+    }
+  });
+}
+
+export function modelsUnassignAction(_options: unknown, target: string) {
+  runRepositoryCommand(() => {
+    const agentType = parseTarget(target);
+    const repository = createModelRepository();
+    const removed = agentType === DEFAULT_TARGET
+      ? repository.clearDefaultModel()
+      : repository.unassignModelForAgent(agentType);
+    console.log(removed ? `Unassigned model from ${agentType}` : `No model assigned to ${agentType}`);
+  });
+}
+
+export const modelsCommand: any = new Command()
+  .description("Manage the models agents run with")
+  .action(function () {
+    this.showHelp();
+  })
+  .command("list", new Command()
+    .description("List configured models and their assignments")
+    .action(modelsListAction))
+  .command("add", new Command()
+    .description("Add a model served by a configured provider")
+    .argument("<provider>", "Name of the provider serving the model")
+    .argument("<model-id>", "Model identifier, ex. claude-sonnet-4-5")
+    .action(modelsAddAction))
+  .command("remove", new Command()
+    .description("Remove a model that is not assigned to any agent type")
+    .argument("<provider>", "Name of the provider serving the model")
+    .argument("<model-id>", "Model identifier")
+    .action(modelsRemoveAction))
+  .command("assign", new Command()
+    .description("Assign a model to an agent type, or set the default model")
+    .argument("<agent-type>", "implementor, reviewer, merger, planner or default")
+    .argument("<provider>", "Name of the provider serving the model")
+    .argument("<model-id>", "Model identifier")
+    .action(modelsAssignAction))
+  .command("unassign", new Command()
+    .description("Remove the model assigned to an agent type, or clear the default model")
+    .argument("<agent-type>", "implementor, reviewer, merger, planner or default")
+    .action(modelsUnassignAction));
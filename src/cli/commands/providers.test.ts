@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { providersListAction, providersAddAction, providersRemoveAction } from './providers.js';
+
+const { mockRepository } = vi.hoisted(() => ({
+  mockRepository: {
+    getAllProviders: vi.fn(),
+    addProvider: vi.fn(),
+    removeProvider: vi.fn(),
+  },
+}));
+
+vi.mock("../../models/index.js", () => ({
+  createModelRepository: () => mockRepository,
+}));
+
+const mockConsoleLog = vi.spyOn(console, 'log').mockImplementation(() => {});
+const mockExit = vi.spyOn(process, 'exit').mockImplementation(() => {
+  throw new Error('process.exit called');
+});
+
+describe('providers command', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRepository.getAllProviders.mockReturnValue([]);
+  });
+
+  describe('list', () => {
+    it('should report when no providers are configured', () => {
+      providersListAction();
+
+      expect(mockConsoleLog).toHaveBeenCalledWith('No providers configured');
+    });
+
+    it('should list providers', () => {
+      mockRepository.getAllProviders.mockReturnValue([
+        { name: 'anthropic', kind: 'anthropic', apiKeyEnv: 'ANTHROPIC_API_KEY' },
+        { name: 'local', kind: 'openai-compatible', baseUrl: 'http://localhost:11434/v1' },
+      ]);
+
+      providersListAction();
+
+      const output = mockConsoleLog.mock.calls[0][0] as string;
+      expect(output).toContain('ANTHROPIC_API_KEY');
+      expect(output).toContain('openai-compatible');
+      expect(output).toContain('http://localhost:11434/v1');
+    });
+  });
+
+  describe('add', () => {
+    it('should add a provider with its options', () => {
+      providersAddAction({ apiKeyEnv: 'ANTHROPIC_API_KEY' }, 'anthropic', 'anthropic');
+
+      expect(mockRepository.addProvider).toHaveBeenCalledWith({
+        name: 'anthropic',
+        kind: 'anthropic',
+        apiKeyEnv: 'ANTHROPIC_API_KEY',
+      });
+      expect(mockConsoleLog).toHaveBeenCalledWith('Added provider anthropic');
+    });
+
+    it('should exit with code 1 when the provider already exists', () => {
+      mockRepository.addProvider.mockImplementationOnce(() => {
+        throw new Error('Provider anthropic already exists');
+      });
+
+      expect(() => providersAddAction({}, 'anthropic', 'anthropic')).toThrow('process.exit called');
+
+      expect(mockConsoleLog).toHaveBeenCalledWith('Provider anthropic already exists');
+      expect(mockExit).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('remove', () => {
+    it('should remove a provider', () => {
+      mockRepository.removeProvider.mockReturnValue(true);
+
+      providersRemoveAction({}, 'local');
+
+      expect(mockConsoleLog).toHaveBeenCalledWith('Removed provider local');
+    });
+
+    it('should exit with code 1 when the provider is used by a model', () => {
+      mockRepository.removeProvider.mockImplementationOnce(() => {
+        throw new Error('Cannot remove provider anthropic - used by model anthropic/claude-sonnet-4-5');
+      });
+
+      expect(() => providersRemoveAction({}, 'anthropic')).toThrow('process.exit called');
+
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        'Cannot remove provider anthropic - used by model anthropic/claude-sonnet-4-5'
+      );
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { Command } from "@cliffy/command";
+import { Table } from "@cliffy/table";
+import { createModelRepository } from "../../models/index.js";
+import { runRepositoryCommand } from "./models.js";
+
+export function providersListAction() {
+  const providers = createModelRepository().getAllProviders();
+  if (providers.length === 0) {
+    console.log("No providers configured");
+    return;
+  }
+
+  const rows = providers.map((provider) => [
+    provider.name,
+    provider.kind,
+    provider.baseUrl ?? "",
+    provider.apiKeyEnv ?? "",
+  ]);
+
+  console.log(new Table().header(["Name", "Kind", "Base URL", "API key env"]).body(rows).border(true).toString());
+}
+
+export function providersAddAction(
+  options: { baseUrl?: string; apiKeyEnv?: string },
+  name: string,
+  kind: string
+) {
+  runRepositoryCommand(() => {
+    createModelRepository().addProvider({
+      name,
+      kind,
+      ...(options.baseUrl && { baseUrl: options.baseUrl }),
+      ...(options.apiKeyEnv && { apiKeyEnv: options.apiKeyEnv }),
+    });
+    console.log(`Added provider ${name}`);
+  });
+}
+
+export function providersRemoveAction(_options: unknown, name: string) {
+  runRepositoryCommand(() => {
+    if (!createModelRepository().removeProvider(name)) {
+      throw new Error(`Provider ${name} not found`);
+    }
+    console.log(`Removed provider ${name}`);
+  });
+}
+
+export const providersCommand: any = new Command()
+  .description("Manage the providers that serve models")
+  .action(function () {
+    this.showHelp();
+  })
+  .command("list", new Command()
+    .description("List configured providers")
+    .action(providersListAction))
+  .command("add", new Command()
+    .description("Add a provider")
+    .argument("<name>", "Unique provider name, referenced by models")
+    .argument("<kind>", "API the provider speaks: anthropic, openai, openai-compatible or google")
+    .option("--base-url <url:string>", "Base URL of the provider's API, required for providers Pi has no built-in models for")
+    .option("--api-key-env <variable:string>", "Environment variable holding the API key, ex. ANTHROPIC_API_KEY")
+    .action(providersAddAction))
+  .command("remove", new Command()
+    .description("Remove a provider that no model uses")
+    .argument("<name>", "Name of the provider")
+    .action(providersRemoveAction));
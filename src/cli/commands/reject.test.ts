@@ -0,0 +1,22 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { rejectAction } from './reject.js';
+
+const { mockSendTaskCommand } = vi.hoisted(() => ({
+  mockSendTaskCommand: vi.fn(),
+}));
+
+vi.mock("./task.js", () => ({
+  sendTaskCommand: mockSendTaskCommand,
+}));
+
+describe('reject command', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should send a reject command with the reason to the daemon', () => {
+    rejectAction({ reason: 'Needs authentication' }, 'task-1');
+
+    expect(mockSendTaskCommand).toHaveBeenCalledWith('reject', 'task-1', 'Needs authentication');
+  });
+});
@@ -0,0 +1,16 @@
+import { Command } from "@cliffy/command";
+import { sendTaskCommand } from "./task.js";
+
+export interface RejectCommandOptions {
+  reason: string;
+}
+
+export function rejectAction(options: RejectCommandOptions, taskId: string) {
+  sendTaskCommand("reject", taskId, options.reason);
+}
+
+export const rejectCommand: any = new Command()
+  .description("Reject a task waiting for approval, sending it back to the implementor")
+  .argument("<task-id>", "ID of the task")
+  .option("--reason <reason:string>", "Why the task was rejected; the implementor is told", { required: true })
+  .action(rejectAction);
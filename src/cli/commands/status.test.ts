@@ -1,19 +1,30 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { statusAction } from './status.js';
+import { DEFAULT_EPIC_PHASES, Task, TaskState } from '../../core/tasks/index.js';
 
-const { mockGetStatus } = vi.hoisted(() => ({
+const { mockGetStatus, mockLoadAll } = vi.hoisted(() => ({
   mockGetStatus: vi.fn(),
+  mockLoadAll: vi.fn(),
 }));
 
 vi.mock("../../process/manager.js", () => ({
   getStatus: mockGetStatus,
 }));
 
+vi.mock("../../core/tasks/index.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../core/tasks/index.js")>()),
+  createTaskStateStore: () => ({ loadAll: mockLoadAll }),
+}));
+
 const mockConsoleLog = vi.spyOn(console, 'log').mockImplementation(() => {});
 
+const createTask = (taskId: string) =>
+  new Task({ taskId, dysonTask: { id: taskId, frontmatter: { title: taskId }, description: "", status: "open" } });
+
 describe('status command', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockLoadAll.mockReturnValue([]);
   });
 
   it('should show running status', () => {
@@ -37,4 +48,82 @@ describe('status command', () => {
 
     expect(mockConsoleLog).toHaveBeenCalledWith('Orchid is not running');
   });
+
+  it('should list tasks with the reason they are being retried or failed', () => {
+    mockGetStatus.mockReturnValue({ running: true, pid: 12345 });
+    const retrying = createTask('task-1');
+    retrying.assignImplementor('task-1-implementor');
+    retrying.recordFailedAttempt('implementor stalled with no activity for 10m');
+    const failed = createTask('task-2');
+    failed.markFailed('reviewer failed after 3 attempts: reviewer timed out after running for 1h');
+    mockLoadAll.mockReturnValue([retrying.toJSON(), failed.toJSON()]);
+
+    statusAction();
+
+    const table = mockConsoleLog.mock.calls[1][0];
+    expect(table).toContain(TaskState.IMPLEMENTING);
+    expect(table).toContain('implementor stalled with no activity for 10m');
+    expect(table).toContain('reviewer failed after 3 attempts: reviewer timed out after running for 1h');
+  });
+
+  it('should show the state paused tasks resume in', () => {
+    mockGetStatus.mockReturnValue({ running: true, pid: 12345 });
+    const paused = createTask('task-1');
+    paused.assignImplementor('task-1-implementor');
+    paused.pause();
+    mockLoadAll.mockReturnValue([paused.toJSON()]);
+
+    statusAction();
+
+    const table = mockConsoleLog.mock.calls[1][0];
+    expect(table).toContain(TaskState.PAUSED);
+    expect(table).toContain(`Paused while ${TaskState.IMPLEMENTING}`);
+  });
+
+  it('should show how many subtasks of an epic are done', () => {
+    mockGetStatus.mockReturnValue({ running: true, pid: 12345 });
+    const epic = new Task({
+      taskId: 'task-1',
+      dysonTask: { id: 'task-1', frontmatter: { title: 'task-1', epic: true }, description: "", status: "open" },
+      pipeline: 'epic',
+      phases: DEFAULT_EPIC_PHASES,
+    });
+    epic.assignPlanner('task-1-planner');
+    epic.markPlanComplete([
+      { key: 'schema', title: 'Add the sessions table', description: "", dependsOn: [] },
+      { key: 'api', title: 'Move the login endpoint', description: "", dependsOn: ['schema'] },
+    ]);
+    epic.recordSubtaskCreated('schema', 'task-2');
+    epic.recordSubtaskOutcome('task-2', 'completed');
+    mockLoadAll.mockReturnValue([epic.toJSON()]);
+
+    statusAction();
+
+    const table = mockConsoleLog.mock.calls[1][0];
+    expect(table).toContain(TaskState.AWAITING_SUBTASKS);
+    expect(table).toContain('1/2 subtasks done');
+  });
+
+  it('should show the position of merging tasks in the merge queue', () => {
+    mockGetStatus.mockReturnValue({ running: true, pid: 12345 });
+    const approve = (task: Task) => {
+      task.assignImplementor(`${task.taskId}-implementor`);
+      task.markImplementationComplete();
+      task.assignReviewer(`${task.taskId}-reviewer`);
+      task.markReviewComplete();
+    };
+    const waiting = createTask('task-1');
+    approve(waiting);
+    const merging = createTask('task-2');
+    approve(merging);
+    merging.assignMerger('task-2-merger');
+    mockLoadAll.mockReturnValue([waiting.toJSON(), merging.toJSON(), createTask('task-3').toJSON()]);
+
+    statusAction();
+
+    const table = mockConsoleLog.mock.calls[1][0];
+    expect(table).toMatch(new RegExp(`task-1\\s*│\\s*${TaskState.AWAITING_MERGE}\\s*│\\s*2\\s*│`));
+    expect(table).toMatch(new RegExp(`task-2\\s*│\\s*${TaskState.MERGING}\\s*│\\s*1\\s*│`));
+    expect(table).toMatch(new RegExp(`task-3\\s*│\\s*${TaskState.PENDING_IMPLEMENTATION}\\s*│\\s*│`));
+  });
 });
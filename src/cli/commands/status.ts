@@ -1,5 +1,20 @@
 import { Command } from "@cliffy/command";
+import { Table } from "@cliffy/table";
 import { getStatus } from "../../process/manager.js";
+import { getTasksFile } from "../../config/paths.js";
+import { Task, createTaskStateStore } from "../../core/tasks/index.js";
+import { getMergeQueue } from "../../agent-framework/scheduler.js";
+
+/**
+ * Describe how many of an epic's subtasks are done, or nothing for tasks without subtasks
+ */
+function getSubtaskProgress(task: Task): string {
+  if (task.subtasks.length === 0) {
+    return "";
+  }
+  const done = task.subtasks.filter((subtask) => subtask.outcome !== undefined).length;
+  return `${done}/${task.subtasks.length} subtasks done`;
+}
 
 export function statusAction() {
   const status = getStatus();
@@ -8,8 +23,29 @@ export function statusAction() {
   } else {
     console.log("Orchid is not running");
   }
+
+  const tasks = createTaskStateStore({ tasksJsonPath: getTasksFile() }).loadAll().map((data) => Task.fromJSON(data));
+  if (tasks.length === 0) {
+    return;
+  }
+
+  // Tasks merge one at a time; position 1 is merging or next to merge
+  const mergeQueue = getMergeQueue(tasks);
+
+  // Failed tasks show why they failed, tasks being retried show the error of their last attempt,
+  // paused tasks the state they resume in, and epics how many of their subtasks are done
+  const rows = tasks.map((task) => {
+    const mergeQueuePosition = mergeQueue.indexOf(task) + 1;
+    return [
+      task.taskId,
+      task.state,
+      mergeQueuePosition > 0 ? String(mergeQueuePosition) : "",
+      task.failureReason ?? task.lastError ?? (task.pausedFrom ? `Paused while ${task.pausedFrom}` : getSubtaskProgress(task)),
+    ];
+  });
+  console.log(new Table().header(["Task", "State", "Merge queue", "Note"]).body(rows).border(true).toString());
 }
 
 export const statusCommand: any = new Command()
-  .description("Check if the orchid daemon is running")
+  .description("Check if the orchid daemon is running and show its tasks")
   .action(statusAction);
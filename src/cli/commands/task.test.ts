@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { taskCancelAction, taskPauseAction, taskResumeAction } from './task.js';
+
+const { mockGetStatus, mockLoadAll, mockAppend } = vi.hoisted(() => ({
+  mockGetStatus: vi.fn(),
+  mockLoadAll: vi.fn(),
+  mockAppend: vi.fn(),
+}));
+
+vi.mock("../../process/manager.js", () => ({
+  getStatus: mockGetStatus,
+}));
+
+vi.mock("../../core/tasks/index.js", () => ({
+  createTaskStateStore: () => ({ loadAll: mockLoadAll }),
+}));
+
+vi.mock("../../agent-framework/task-commands.js", () => ({
+  createTaskCommandLog: () => ({ append: mockAppend }),
+}));
+
+const mockConsoleLog = vi.spyOn(console, 'log').mockImplementation(() => {});
+const mockExit = vi.spyOn(process, 'exit').mockImplementation(() => {
+  throw new Error('process.exit called');
+});
+
+describe('task command', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetStatus.mockReturnValue({ running: true, pid: 12345 });
+    mockLoadAll.mockReturnValue([{ taskId: 'task-1' }]);
+  });
+
+  it.each([
+    ['pause', taskPauseAction],
+    ['resume', taskResumeAction],
+    ['cancel', taskCancelAction],
+  ])('should send a %s command to the daemon', (type, action) => {
+    action(undefined, 'task-1');
+
+    expect(mockAppend).toHaveBeenCalledWith({ type, taskId: 'task-1', reason: undefined, issuedAt: expect.any(Date) });
+    expect(mockConsoleLog).toHaveBeenCalledWith(`Asked orchid to ${type} task task-1`);
+  });
+
+  it('should exit with code 1 when the daemon is not running', () => {
+    mockGetStatus.mockReturnValue({ running: false, pid: null });
+
+    expect(() => taskPauseAction(undefined, 'task-1')).toThrow('process.exit called');
+
+    expect(mockConsoleLog).toHaveBeenCalledWith('Orchid is not running');
+    expect(mockExit).toHaveBeenCalledWith(1);
+    expect(mockAppend).not.toHaveBeenCalled();
+  });
+
+  it('should exit with code 1 for an unknown task', () => {
+    expect(() => taskCancelAction(undefined, 'task-2')).toThrow('process.exit called');
+
+    expect(mockConsoleLog).toHaveBeenCalledWith('Task task-2 not found');
+    expect(mockExit).toHaveBeenCalledWith(1);
+    expect(mockAppend).not.toHaveBeenCalled();
+  });
+});
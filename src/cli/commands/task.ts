@@ -0,0 +1,57 @@
+import { Command } from "@cliffy/command";
+import { getStatus } from "../../process/manager.js";
+import { getCommandsFile, getTasksFile } from "../../config/paths.js";
+import { createTaskStateStore } from "../../core/tasks/index.js";
+import { createTaskCommandLog, type TaskCommandType } from "../../agent-framework/task-commands.js";
+
+/**
+ * Send a command for a task to the running daemon.
+ * The daemon applies it within a second; `orchid status` and `orchid events` show the result.
+ */
+export function sendTaskCommand(type: TaskCommandType, taskId: string, reason?: string) {
+  if (!getStatus().running) {
+    console.log("Orchid is not running");
+    process.exit(1);
+  }
+
+  const known = createTaskStateStore({ tasksJsonPath: getTasksFile() })
+    .loadAll()
+    .some((data) => data.taskId === taskId);
+  if (!known) {
+    console.log(`Task ${taskId} not found`);
+    process.exit(1);
+  }
+
+  createTaskCommandLog({ commandsFilePath: getCommandsFile() }).append({ type, taskId, reason, issuedAt: new Date() });
+  console.log(`Asked orchid to ${type} task ${taskId}`);
+}
+
+export function taskPauseAction(_options: unknown, taskId: string) {
+  sendTaskCommand("pause", taskId);
+}
+
+export function taskResumeAction(_options: unknown, taskId: string) {
+  sendTaskCommand("resume", taskId);
+}
+
+export function taskCancelAction(_options: unknown, taskId: string) {
+  sendTaskCommand("cancel", taskId);
+}
+
+export const taskCommand: any = new Command()
+  .description("Pause, resume or cancel tasks")
+  .action(function () {
+    this.showHelp();
+  })
+  .command("pause", new Command()
+    .description("Stop a task's agent, keeping its worktree and session to resume later")
+    .argument("<task-id>", "ID of the task")
+    .action(taskPauseAction))
+  .command("resume", new Command()
+    .description("Resume a paused task where its agent left off")
+    .argument("<task-id>", "ID of the task")
+    .action(taskResumeAction))
+  .command("cancel", new Command()
+    .description("Cancel a task, stopping its agent and cleaning up its worktree")
+    .argument("<task-id>", "ID of the task")
+    .action(taskCancelAction));
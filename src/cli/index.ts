@@ -5,6 +5,12 @@ import { initCommand } from "./commands/init.js";
 import { upCommand } from "./commands/up.js";
 import { downCommand } from "./commands/down.js";
 import { statusCommand } from "./commands/status.js";
+import { eventsCommand } from "./commands/events.js";
+import { taskCommand } from "./commands/task.js";
+import { approveCommand } from "./commands/approve.js";
+import { rejectCommand } from "./commands/reject.js";
+import { modelsCommand } from "./commands/models.js";
+import { providersCommand } from "./commands/providers.js";
 import { setVerboseLogging } from "../core/logging/index.js";
 
 await new Command()
@@ -23,4 +29,10 @@ await new Command()
   .command("up", upCommand)
   .command("down", downCommand)
   .command("status", statusCommand)
+  .command("events", eventsCommand)
+  .command("task", taskCommand)
+  .command("approve", approveCommand)
+  .command("reject", rejectCommand)
+  .command("models", modelsCommand)
+  .command("providers", providersCommand)
   .parse();
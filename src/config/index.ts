@@ -3,6 +3,11 @@ export {
   getPidFile,
   getLogFile,
   getErrorLogFile,
+  getConfigFile,
+  getEventsFile,
+  getCommandsFile,
+  getCommandsOffsetFile,
+  getTasksFile,
   getMainRepoDir,
   getWorktreesDir,
   ORCHID_DIR,
@@ -10,3 +15,25 @@ export {
   LOG_FILE,
   ERROR_LOG_FILE,
 } from './paths.js';
+export {
+  loadOrchidConfig,
+  resolveOrchidConfig,
+  DEFAULT_ORCHID_CONFIG,
+  type OrchidConfig,
+  type OrchidConfigOverrides,
+  type ReviewConfig,
+  type ReviewerConfig,
+  type GitConfig,
+  type WorktreesConfig,
+  type WorktreeCleanupPolicy,
+  type TaskOutcome,
+  type ConcurrencyConfig,
+  type SchedulingConfig,
+  type MergeConfig,
+  type VerificationConfig,
+  type ApprovalConfig,
+  type PipelineConfig,
+  type PipelinePhaseConfig,
+  type RetryPolicy,
+  type AgentTimeouts,
+} from './orchid-config.js';
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { existsSync, readFileSync } from "node:fs";
+import { loadOrchidConfig, resolveOrchidConfig, DEFAULT_ORCHID_CONFIG } from "./orchid-config.js";
+import { AgentType } from "../agent-framework/agent-type.js";
+
+// Mock the fs module
+vi.mock("node:fs", () => ({
+  existsSync: vi.fn(),
+  readFileSync: vi.fn(),
+}));
+
+const TEST_CONFIG_PATH = "/test/.orchid/config.json";
+
+describe("orchid-config", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(existsSync).mockReturnValue(false);
+  });
+
+  describe("resolveOrchidConfig", () => {
+    it("should return defaults when no overrides provided", () => {
+      expect(resolveOrchidConfig()).toEqual(DEFAULT_ORCHID_CONFIG);
+    });
+
+    it("should merge overrides within a section", () => {
+      const config = resolveOrchidConfig({ review: { maxRounds: 5 } });
+
+      expect(config.review.maxRounds).toBe(5);
+    });
+
+    it("should default to a single reviewer that must approve", () => {
+      expect(resolveOrchidConfig().review).toEqual({ maxRounds: 3, reviewers: [{}], consensus: "unanimous" });
+    });
+
+    it("should replace the reviewers rather than merge them", () => {
+      const opus = { provider: "anthropic", modelId: "claude-opus-4-1" };
+      const config = resolveOrchidConfig({ review: { reviewers: [{ model: opus }, {}, {}], consensus: "majority" } });
+
+      expect(config.review).toEqual({ maxRounds: 3, reviewers: [{ model: opus }, {}, {}], consensus: "majority" });
+    });
+
+    it("should default task branches to start from HEAD", () => {
+      expect(resolveOrchidConfig().git.baseRef).toBe("HEAD");
+      expect(resolveOrchidConfig({ git: { baseRef: "origin/develop" } }).git.baseRef).toBe("origin/develop");
+    });
+
+    it("should merge worktree cleanup overrides per outcome", () => {
+      const config = resolveOrchidConfig({ worktrees: { cleanup: { failed: "archive" } } });
+
+      expect(config.worktrees.cleanup).toEqual({
+        completed: "delete",
+        failed: "archive",
+        cancelled: "archive",
+      });
+    });
+
+    it("should merge concurrency limits", () => {
+      const config = resolveOrchidConfig({ concurrency: { perAgentType: { merger: 1 } } });
+
+      expect(config.concurrency).toEqual({ maxAgents: 4, perAgentType: { merger: 1 } });
+    });
+
+    it("should merge scheduling settings", () => {
+      const config = resolveOrchidConfig({ scheduling: { agingIntervalMs: 0 } });
+
+      expect(config.scheduling).toEqual({ agingIntervalMs: 0 });
+    });
+
+    it("should merge merge settings", () => {
+      const config = resolveOrchidConfig({ merge: { strategy: "squash", checks: ["npm test"] } });
+
+      expect(config.merge).toEqual({ strategy: "squash", checks: ["npm test"], checkTimeoutMs: 600_000 });
+    });
+
+    it("should merge verification settings", () => {
+      const config = resolveOrchidConfig({ verification: { commands: ["npm ci", "npm test"] } });
+
+      expect(config.verification).toEqual({ commands: ["npm ci", "npm test"], timeoutMs: 600_000, maxFailures: 3 });
+    });
+
+    it("should merge approval settings", () => {
+      const config = resolveOrchidConfig({ approval: { labels: ["needs-approval"] } });
+
+      expect(config.approval).toEqual({ required: false, labels: ["needs-approval"] });
+    });
+
+    it("should add configured pipelines to the default one", () => {
+      const docs = { phases: [{ name: "implement", agentType: AgentType.IMPLEMENTOR }] };
+      const config = resolveOrchidConfig({ pipelines: { docs } });
+
+      expect(config.pipelines).toEqual({
+        default: DEFAULT_ORCHID_CONFIG.pipelines.default,
+        epic: DEFAULT_ORCHID_CONFIG.pipelines.epic,
+        docs,
+      });
+    });
+
+    it("should run epics through a plan phase by default", () => {
+      expect(resolveOrchidConfig().pipelines.epic).toEqual({
+        phases: [{ name: "plan", agentType: AgentType.PLANNER }],
+      });
+    });
+
+    it("should merge watchdog timeouts per agent type", () => {
+      const config = resolveOrchidConfig({ timeouts: { implementor: { inactivityTimeoutMs: 600_000 } } });
+
+      expect(config.timeouts.implementor).toEqual({ maxRuntimeMs: 0, inactivityTimeoutMs: 600_000 });
+      expect(config.timeouts.reviewer).toEqual(DEFAULT_ORCHID_CONFIG.timeouts.reviewer);
+    });
+
+    it("should merge retry overrides per agent type", () => {
+      const config = resolveOrchidConfig({ retry: { reviewer: { maxAttempts: 5 } } });
+
+      expect(config.retry.reviewer.maxAttempts).toBe(5);
+      expect(config.retry.reviewer.initialDelayMs).toBe(DEFAULT_ORCHID_CONFIG.retry.reviewer.initialDelayMs);
+      expect(config.retry.implementor).toEqual(DEFAULT_ORCHID_CONFIG.retry.implementor);
+    });
+  });
+
+  describe("loadOrchidConfig", () => {
+    it("should return defaults when config.json is missing", () => {
+      expect(loadOrchidConfig(TEST_CONFIG_PATH)).toEqual(DEFAULT_ORCHID_CONFIG);
+    });
+
+    it("should read overrides from config.json", () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify({ review: { maxRounds: 1 } }));
+
+      const config = loadOrchidConfig(TEST_CONFIG_PATH);
+
+      expect(readFileSync).toHaveBeenCalledWith(TEST_CONFIG_PATH, "utf-8");
+      expect(config.review.maxRounds).toBe(1);
+    });
+
+    it("should throw if config.json is corrupted instead of falling back to defaults", () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue("invalid json");
+
+      expect(() => loadOrchidConfig(TEST_CONFIG_PATH)).toThrow(`Invalid configuration in ${TEST_CONFIG_PATH}`);
+    });
+  });
+});
@@ -0,0 +1,344 @@
+/**
+ * Orchid Configuration
+ *
+ * Workspace-level settings for the orchestrator, stored in .orchid/config.json.
+ * Every setting has a default, so the file only needs the values a workspace overrides.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { getConfigFile } from "./paths.js";
+import { AgentType } from "../agent-framework/agent-type.js";
+import type { ConsensusRule } from "../agent-framework/consensus.js";
+import type { MergeStrategy } from "../core/git/merge/index.js";
+import { DEFAULT_EPIC_PHASES, DEFAULT_PIPELINE, DEFAULT_TASK_PHASES, EPIC_PIPELINE, type TaskPhase } from "../core/tasks/task.js";
+import type { Model } from "../models/index.js";
+
+/**
+ * A reviewer on a review panel
+ */
+export interface ReviewerConfig {
+  /** Model the reviewer runs with instead of the phase's or the agent type's model */
+  model?: Model;
+}
+
+/**
+ * Settings for the review phase
+ */
+export interface ReviewConfig {
+  /** Maximum number of review rounds before a task is marked failed */
+  maxRounds: number;
+  /** Reviewers that review each task in parallel, each in its own session */
+  reviewers: ReviewerConfig[];
+  /** How the reviewers' verdicts are combined into the task's verdict */
+  consensus: ConsensusRule;
+}
+
+/**
+ * Settings for the git branches tasks are worked on
+ */
+export interface GitConfig {
+  /** Ref each task branch is created from, e.g. "HEAD", "main" or "origin/develop" */
+  baseRef: string;
+}
+
+/**
+ * What happens to a task's worktree and branch once the task is finished
+ * - keep: leave both in place
+ * - archive: save the branch's commits and uncommitted changes as patches, then delete both
+ * - delete: delete both
+ */
+export type WorktreeCleanupPolicy = "keep" | "archive" | "delete";
+
+/**
+ * Ways a task can finish
+ */
+export type TaskOutcome = "completed" | "failed" | "cancelled";
+
+/**
+ * Settings for task worktrees
+ */
+export interface WorktreesConfig {
+  /** Cleanup policy for each way a task can finish */
+  cleanup: Record<TaskOutcome, WorktreeCleanupPolicy>;
+}
+
+/**
+ * Limits on how many agents run at the same time
+ */
+export interface ConcurrencyConfig {
+  /** Maximum number of agents running across all agent types */
+  maxAgents: number;
+  /** Maximum number of agents running per agent type; types without a limit only count toward maxAgents */
+  perAgentType: { [Type in AgentType]?: number };
+}
+
+/**
+ * How queued tasks are ordered
+ */
+export interface SchedulingConfig {
+  /**
+   * A queued task's priority rises by one level for every interval it waits, so low priority tasks still run.
+   * 0 disables aging.
+   */
+  agingIntervalMs: number;
+}
+
+/**
+ * How approved tasks are merged into the mainline
+ */
+export interface MergeConfig {
+  /**
+   * "agent" hands every merge to the merger agent.
+   * "merge", "squash" or "rebase" has the orchestrator merge with git, calling the merger agent
+   * only for conflicts or failed checks.
+   */
+  strategy: MergeStrategy | "agent";
+  /** Shell commands run in the main repository after a git merge; the merge is undone if one fails */
+  checks: string[];
+  /** Time limit for each check command */
+  checkTimeoutMs: number;
+}
+
+/**
+ * Checks run in a task's worktree after implementation, before the task is reviewed
+ */
+export interface VerificationConfig {
+  /** Shell commands run in order, e.g. install, build, lint and test; none disables verification */
+  commands: string[];
+  /** Time limit for each command */
+  timeoutMs: number;
+  /** Failed verifications in a row before the task is marked failed */
+  maxFailures: number;
+}
+
+/**
+ * When a person has to approve a task before it is merged
+ */
+export interface ApprovalConfig {
+  /** Require approval for every task in the workspace */
+  required: boolean;
+  /** Require approval for tasks with any of these labels */
+  labels: string[];
+}
+
+/**
+ * A phase of a pipeline, with the agent that works on it.
+ * Implementor phases complete when their agent finishes, review phases with the reviewer's verdict,
+ * and the merge phase once the task is merged.
+ */
+export interface PipelinePhaseConfig extends TaskPhase {
+  /** Prompt template file replacing the agent type's default prompt, relative to the workspace */
+  prompt?: string;
+  /** System prompt file replacing the agent type's default system prompt, relative to the workspace */
+  systemPrompt?: string;
+  /** Model the phase runs with instead of the agent type's model */
+  model?: Model;
+  /** Review phases only: reviewers replacing the workspace's review.reviewers */
+  reviewers?: ReviewerConfig[];
+  /** Review phases only: consensus rule replacing the workspace's review.consensus */
+  consensus?: ConsensusRule;
+}
+
+/**
+ * An ordered list of phases a task runs through
+ */
+export interface PipelineConfig {
+  phases: PipelinePhaseConfig[];
+}
+
+/**
+ * How a failed agent phase is retried
+ */
+export interface RetryPolicy {
+  /** Total attempts for the phase, including the first, before the task is marked failed */
+  maxAttempts: number;
+  /** Delay before the first retry */
+  initialDelayMs: number;
+  /** Factor the delay is multiplied by after each retry */
+  backoffMultiplier: number;
+  /** Upper bound for the delay between retries */
+  maxDelayMs: number;
+  /**
+   * Regular expressions matched against the error message to decide whether it is retryable.
+   * An empty list treats every error as retryable.
+   */
+  retryableErrors: string[];
+}
+
+/**
+ * Limits on how long an agent may run before the watchdog stops it.
+ * 0 disables a limit.
+ */
+export interface AgentTimeouts {
+  /** Maximum wall-clock time an agent may run */
+  maxRuntimeMs: number;
+  /** Maximum time without any activity from the agent's instance */
+  inactivityTimeoutMs: number;
+}
+
+/**
+ * Full orchid configuration
+ */
+export interface OrchidConfig {
+  review: ReviewConfig;
+  git: GitConfig;
+  worktrees: WorktreesConfig;
+  concurrency: ConcurrencyConfig;
+  scheduling: SchedulingConfig;
+  merge: MergeConfig;
+  verification: VerificationConfig;
+  approval: ApprovalConfig;
+  /**
+   * Pipelines by name; tasks pick one with the `pipeline` frontmatter field,
+   * and otherwise use "epic" if they are marked as epics and "default" if not
+   */
+  pipelines: Record<string, PipelineConfig>;
+  /** Retry policy for each agent phase */
+  retry: Record<AgentType, RetryPolicy>;
+  /** Watchdog timeouts for each agent type */
+  timeouts: Record<AgentType, AgentTimeouts>;
+}
+
+/**
+ * Partial configuration as written in config.json or passed by callers.
+ * Each section may override any subset of its settings.
+ */
+export interface OrchidConfigOverrides {
+  review?: Partial<ReviewConfig>;
+  git?: Partial<GitConfig>;
+  worktrees?: { cleanup?: Partial<WorktreesConfig["cleanup"]> };
+  concurrency?: Partial<ConcurrencyConfig>;
+  scheduling?: Partial<SchedulingConfig>;
+  merge?: Partial<MergeConfig>;
+  verification?: Partial<VerificationConfig>;
+  approval?: Partial<ApprovalConfig>;
+  pipelines?: Record<string, PipelineConfig>;
+  retry?: { [Type in AgentType]?: Partial<RetryPolicy> };
+  timeouts?: { [Type in AgentType]?: Partial<AgentTimeouts> };
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 5_000,
+  backoffMultiplier: 2,
+  maxDelayMs: 60_000,
+  retryableErrors: [],
+};
+
+const DEFAULT_AGENT_TIMEOUTS: AgentTimeouts = {
+  maxRuntimeMs: 0,
+  inactivityTimeoutMs: 0,
+};
+
+/**
+ * Default configuration used for any setting not overridden
+ */
+export const DEFAULT_ORCHID_CONFIG: OrchidConfig = {
+  review: {
+    maxRounds: 3,
+    reviewers: [{}],
+    consensus: "unanimous",
+  },
+  git: {
+    baseRef: "HEAD",
+  },
+  worktrees: {
+    cleanup: {
+      completed: "delete",
+      failed: "keep",
+      cancelled: "archive",
+    },
+  },
+  concurrency: {
+    maxAgents: 4,
+    perAgentType: {},
+  },
+  scheduling: {
+    agingIntervalMs: 600_000,
+  },
+  merge: {
+    strategy: "agent",
+    checks: [],
+    checkTimeoutMs: 600_000,
+  },
+  verification: {
+    commands: [],
+    timeoutMs: 600_000,
+    maxFailures: 3,
+  },
+  approval: {
+    required: false,
+    labels: [],
+  },
+  pipelines: {
+    [DEFAULT_PIPELINE]: { phases: DEFAULT_TASK_PHASES },
+    [EPIC_PIPELINE]: { phases: DEFAULT_EPIC_PHASES },
+  },
+  retry: {
+    [AgentType.IMPLEMENTOR]: DEFAULT_RETRY_POLICY,
+    [AgentType.REVIEWER]: DEFAULT_RETRY_POLICY,
+    [AgentType.MERGER]: DEFAULT_RETRY_POLICY,
+    [AgentType.PLANNER]: DEFAULT_RETRY_POLICY,
+  },
+  timeouts: {
+    [AgentType.IMPLEMENTOR]: DEFAULT_AGENT_TIMEOUTS,
+    [AgentType.REVIEWER]: DEFAULT_AGENT_TIMEOUTS,
+    [AgentType.MERGER]: DEFAULT_AGENT_TIMEOUTS,
+    [AgentType.PLANNER]: DEFAULT_AGENT_TIMEOUTS,
+  },
+};
+
+/**
+ * Merge overrides onto the default configuration, section by section
+ */
+export function resolveOrchidConfig(overrides: OrchidConfigOverrides = {}): OrchidConfig {
+  return {
+    review: { ...DEFAULT_ORCHID_CONFIG.review, ...overrides.review },
+    git: { ...DEFAULT_ORCHID_CONFIG.git, ...overrides.git },
+    worktrees: {
+      cleanup: { ...DEFAULT_ORCHID_CONFIG.worktrees.cleanup, ...overrides.worktrees?.cleanup },
+    },
+    concurrency: {
+      maxAgents: overrides.concurrency?.maxAgents ?? DEFAULT_ORCHID_CONFIG.concurrency.maxAgents,
+      perAgentType: { ...DEFAULT_ORCHID_CONFIG.concurrency.perAgentType, ...overrides.concurrency?.perAgentType },
+    },
+    scheduling: { ...DEFAULT_ORCHID_CONFIG.scheduling, ...overrides.scheduling },
+    merge: { ...DEFAULT_ORCHID_CONFIG.merge, ...overrides.merge },
+    verification: { ...DEFAULT_ORCHID_CONFIG.verification, ...overrides.verification },
+    approval: { ...DEFAULT_ORCHID_CONFIG.approval, ...overrides.approval },
+    pipelines: { ...DEFAULT_ORCHID_CONFIG.pipelines, ...overrides.pipelines },
+    retry: {
+      [AgentType.IMPLEMENTOR]: { ...DEFAULT_ORCHID_CONFIG.retry[AgentType.IMPLEMENTOR], ...overrides.retry?.[AgentType.IMPLEMENTOR] },
+      [AgentType.REVIEWER]: { ...DEFAULT_ORCHID_CONFIG.retry[AgentType.REVIEWER], ...overrides.retry?.[AgentType.REVIEWER] },
+      [AgentType.MERGER]: { ...DEFAULT_ORCHID_CONFIG.retry[AgentType.MERGER], ...overrides.retry?.[AgentType.MERGER] },
+      [AgentType.PLANNER]: { ...DEFAULT_ORCHID_CONFIG.retry[AgentType.PLANNER], ...overrides.retry?.[AgentType.PLANNER] },
+    },
+    timeouts: {
+      [AgentType.IMPLEMENTOR]: { ...DEFAULT_ORCHID_CONFIG.timeouts[AgentType.IMPLEMENTOR], ...overrides.timeouts?.[AgentType.IMPLEMENTOR] },
+      [AgentType.REVIEWER]: { ...DEFAULT_ORCHID_CONFIG.timeouts[AgentType.REVIEWER], ...overrides.timeouts?.[AgentType.REVIEWER] },
+      [AgentType.MERGER]: { ...DEFAULT_ORCHID_CONFIG.timeouts[AgentType.MERGER], ...overrides.timeouts?.[AgentType.MERGER] },
+      [AgentType.PLANNER]: { ...DEFAULT_ORCHID_CONFIG.timeouts[AgentType.PLANNER], ...overrides.timeouts?.[AgentType.PLANNER] },
+    },
+  };
+}
+
+/**
+ * Load the configuration from config.json.
+ * Falls back to defaults if the file is missing.
+ * @throws Error if the file is not valid JSON, rather than silently dropping every setting
+ */
+export function loadOrchidConfig(configPath: string = getConfigFile()): OrchidConfig {
+  if (!existsSync(configPath)) {
+    return resolveOrchidConfig();
+  }
+
+  let overrides: OrchidConfigOverrides;
+  try {
+    overrides = JSON.parse(readFileSync(configPath, "utf-8")) as OrchidConfigOverrides;
+  } catch (error) {
+    throw new Error(
+      `Invalid configuration in ${configPath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  return resolveOrchidConfig(overrides);
+}
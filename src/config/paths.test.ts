@@ -8,6 +8,11 @@ import {
   getPidFile,
   getLogFile,
   getErrorLogFile,
+  getConfigFile,
+  getEventsFile,
+  getCommandsFile,
+  getCommandsOffsetFile,
+  getTasksFile,
   getMainRepoDir,
   getWorktreesDir,
 } from './paths';
@@ -48,6 +53,31 @@ describe('paths.ts', () => {
       expect(errorLogFile).toBe('/test/directory/.orchid/orchid.error.log');
     });
 
+    it('should generate correct config file path', () => {
+      const configFile = getConfigFile(() => '/test/directory');
+      expect(configFile).toBe('/test/directory/.orchid/config.json');
+    });
+
+    it('should generate correct tasks file path', () => {
+      const tasksFile = getTasksFile(() => '/test/directory');
+      expect(tasksFile).toBe('/test/directory/.orchid/tasks.json');
+    });
+
+    it('should generate correct events file path', () => {
+      const eventsFile = getEventsFile(() => '/test/directory');
+      expect(eventsFile).toBe('/test/directory/.orchid/events.jsonl');
+    });
+
+    it('should generate correct commands file path', () => {
+      const commandsFile = getCommandsFile(() => '/test/directory');
+      expect(commandsFile).toBe('/test/directory/.orchid/commands.jsonl');
+    });
+
+    it('should generate correct commands offset file path', () => {
+      const commandsOffsetFile = getCommandsOffsetFile(() => '/test/directory');
+      expect(commandsOffsetFile).toBe('/test/directory/.orchid/commands.offset');
+    });
+
     it('should generate correct main repo directory path', () => {
       const mainRepoDir = getMainRepoDir(() => '/test/directory');
       expect(mainRepoDir).toBe('/test/directory/.orchid/main');
@@ -28,6 +28,41 @@ export function getErrorLogFile(cwdProvider?: () => string): string {
   return join(getOrchidDir(cwdProvider), 'orchid.error.log');
 }
 
+/**
+ * Path to the persisted orchestrator task state (per-directory)
+ */
+export function getTasksFile(cwdProvider?: () => string): string {
+  return join(getOrchidDir(cwdProvider), 'tasks.json');
+}
+
+/**
+ * Path to the orchestrator event log (per-directory)
+ */
+export function getEventsFile(cwdProvider?: () => string): string {
+  return join(getOrchidDir(cwdProvider), 'events.jsonl');
+}
+
+/**
+ * Path to the log of commands the CLI sends the daemon (per-directory)
+ */
+export function getCommandsFile(cwdProvider?: () => string): string {
+  return join(getOrchidDir(cwdProvider), 'commands.jsonl');
+}
+
+/**
+ * Path to the file recording how far the daemon has applied the command log (per-directory)
+ */
+export function getCommandsOffsetFile(cwdProvider?: () => string): string {
+  return join(getOrchidDir(cwdProvider), 'commands.offset');
+}
+
+/**
+ * Path to the workspace configuration file (per-directory)
+ */
+export function getConfigFile(cwdProvider?: () => string): string {
+  return join(getOrchidDir(cwdProvider), 'config.json');
+}
+
 /**
  * Path to the main repository clone
  */
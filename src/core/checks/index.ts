@@ -0,0 +1,2 @@
+export { runCheck, runChecks } from './runner.js';
+export type { CheckResult, RunChecksOptions } from './runner.js';
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { tmpdir } from 'os';
+import { runCheck, runChecks } from './runner.js';
+
+describe('runCheck', () => {
+  it('should pass a command that exits with 0 and capture its output', async () => {
+    const result = await runCheck('echo hello && echo oops >&2', { cwd: tmpdir(), timeoutMs: 0 });
+
+    expect(result.passed).toBe(true);
+    expect(result.exitCode).toBe(0);
+    expect(result.timedOut).toBe(false);
+    expect(result.output).toContain('hello');
+    expect(result.output).toContain('oops');
+  });
+
+  it('should fail a command that exits with a non-zero code', async () => {
+    const result = await runCheck('echo broken && exit 3', { cwd: tmpdir(), timeoutMs: 0 });
+
+    expect(result.passed).toBe(false);
+    expect(result.exitCode).toBe(3);
+    expect(result.output).toContain('broken');
+  });
+
+  it('should kill and fail a command that exceeds its timeout', async () => {
+    const result = await runCheck('sleep 5', { cwd: tmpdir(), timeoutMs: 100 });
+
+    expect(result.passed).toBe(false);
+    expect(result.timedOut).toBe(true);
+    expect(result.exitCode).toBeNull();
+  });
+
+  it('should run the command in the given directory', async () => {
+    const result = await runCheck('pwd', { cwd: tmpdir(), timeoutMs: 0 });
+
+    expect(result.output.trim()).toContain(tmpdir());
+  });
+});
+
+describe('runChecks', () => {
+  it('should stop at the first failing command', async () => {
+    const results = await runChecks(['true', 'false', 'echo never'], { cwd: tmpdir(), timeoutMs: 0 });
+
+    expect(results.map((result) => [result.command, result.passed])).toEqual([
+      ['true', true],
+      ['false', false],
+    ]);
+  });
+
+  it('should return no results for no commands', async () => {
+    expect(await runChecks([], { cwd: tmpdir(), timeoutMs: 0 })).toEqual([]);
+  });
+});
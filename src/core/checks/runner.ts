@@ -0,0 +1,81 @@
+import { exec } from 'child_process';
+
+/** Output kept per command; longer output keeps its tail, where errors usually are */
+const MAX_OUTPUT_LENGTH = 20_000;
+
+export interface CheckResult {
+  /** Shell command that was run */
+  command: string;
+  passed: boolean;
+  /** Exit code, or null if the command was killed */
+  exitCode: number | null;
+  /** Whether the command was killed for exceeding its timeout */
+  timedOut: boolean;
+  /** Combined stdout and stderr */
+  output: string;
+  durationMs: number;
+}
+
+export interface RunChecksOptions {
+  /** Directory the commands run in */
+  cwd: string;
+  /** Time limit per command; 0 disables it */
+  timeoutMs: number;
+}
+
+function truncateOutput(output: string): string {
+  if (output.length <= MAX_OUTPUT_LENGTH) {
+    return output;
+  }
+  return `[...truncated]\n${output.slice(-MAX_OUTPUT_LENGTH)}`;
+}
+
+/**
+ * Run a single shell command and report whether it passed.
+ * Never rejects; a command that can't be started is reported as failed.
+ */
+export function runCheck(command: string, options: RunChecksOptions): Promise<CheckResult> {
+  const startedAt = Date.now();
+
+  return new Promise((resolve) => {
+    exec(
+      command,
+      { cwd: options.cwd, timeout: options.timeoutMs, maxBuffer: 50 * 1024 * 1024 },
+      (error, stdout, stderr) => {
+        const timedOut = error !== null && error.killed === true && options.timeoutMs > 0;
+        const exitCode = error === null ? 0 : typeof error.code === 'number' ? error.code : null;
+        let output = `${stdout}${stderr}`;
+        if (error !== null && output.length === 0) {
+          output = error.message;
+        }
+
+        resolve({
+          command,
+          passed: error === null,
+          exitCode,
+          timedOut,
+          output: truncateOutput(output),
+          durationMs: Date.now() - startedAt,
+        });
+      }
+    );
+  });
+}
+
+/**
+ * Run shell commands one after another, stopping at the first that fails.
+ * Returns the results of the commands that ran.
+ */
+export async function runChecks(commands: string[], options: RunChecksOptions): Promise<CheckResult[]> {
+  const results: CheckResult[] = [];
+
+  for (const command of commands) {
+    const result = await runCheck(command, options);
+    results.push(result);
+    if (!result.passed) {
+      break;
+    }
+  }
+
+  return results;
+}
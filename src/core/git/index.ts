@@ -2,7 +2,10 @@ export {
   ProductionGitOperations,
   MockGitOperations,
   cloneRepository,
+  getCloneArgs,
   getRepositoryInfo,
   defaultGitOperations,
 } from './manager.js';
-export type { GitOperations } from './manager.js';
+export type { GitOperations, CloneOptions, RepositoryInfo } from './manager.js';
+export { BranchMerger } from './merge/index.js';
+export type { MergeStrategy, MergeBranchOptions, MergeBranchResult, UpdateBranchResult } from './merge/index.js';
@@ -3,15 +3,46 @@
  * Tests git operations with dependency injection for mocking
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync, existsSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import simpleGit from 'simple-git';
 import { 
   ProductionGitOperations, 
   MockGitOperations, 
   cloneRepository, 
+  getCloneArgs,
   getRepositoryInfo,
   defaultGitOperations 
 } from './manager.js';
 
+/**
+ * Create a bare repository with two commits on `main` and one on `feature`
+ */
+async function createBareRepository(rootDir: string): Promise<string> {
+  const sourceDir = join(rootDir, 'source');
+  const bareDir = join(rootDir, 'owner', 'repo.git');
+
+  const source = simpleGit();
+  await source.init(['--initial-branch=main', sourceDir]);
+  const git = simpleGit(sourceDir)
+    .addConfig('user.name', 'Orchid Test')
+    .addConfig('user.email', 'orchid@example.com');
+
+  writeFileSync(join(sourceDir, 'README.md'), 'first\n');
+  await git.add('README.md').commit('First commit');
+  writeFileSync(join(sourceDir, 'README.md'), 'second\n');
+  await git.add('README.md').commit('Second commit');
+  await git.checkoutLocalBranch('feature');
+  writeFileSync(join(sourceDir, 'FEATURE.md'), 'feature\n');
+  await git.add('FEATURE.md').commit('Feature commit');
+  await git.checkout('main');
+
+  await simpleGit().clone(sourceDir, bareDir, ['--bare']);
+  return bareDir;
+}
+
 describe('git-manager.ts - Git Operations', () => {
   describe('ProductionGitOperations', () => {
     let gitOps: ProductionGitOperations;
@@ -49,16 +80,92 @@ describe('git-manager.ts - Git Operations', () => {
         expect(gitOps.validateRepoUrl('https://github.com/user')).toBe(false);
         expect(gitOps.validateRepoUrl('git@')).toBe(false);
       });
+
+      it('should validate URLs without an owner', () => {
+        expect(gitOps.validateRepoUrl('https://git.example.com/repo.git')).toBe(true);
+        expect(gitOps.validateRepoUrl('ssh://git@git.example.com/repo.git')).toBe(true);
+        expect(gitOps.validateRepoUrl('git@git.example.com:repo.git')).toBe(true);
+      });
+
+      it('should validate ssh:// URLs', () => {
+        expect(gitOps.validateRepoUrl('ssh://git@github.com/user/repo.git')).toBe(true);
+        expect(gitOps.validateRepoUrl('ssh://git@example.com:2222/user/repo.git')).toBe(true);
+      });
+
+      it('should validate file:// URLs and local paths', () => {
+        expect(gitOps.validateRepoUrl('file:///srv/git/repo.git')).toBe(true);
+        expect(gitOps.validateRepoUrl('/srv/git/repo.git')).toBe(true);
+        expect(gitOps.validateRepoUrl('./repo')).toBe(true);
+        expect(gitOps.validateRepoUrl('../repo')).toBe(true);
+        expect(gitOps.validateRepoUrl('file://')).toBe(false);
+      });
     });
 
     describe('clone', () => {
-      it('should throw error for clone operations (TODO)', async () => {
-        await expect(gitOps.clone('https://github.com/user/repo.git', '/tmp/repo'))
-          .rejects.toThrow('Git clone operation not yet implemented');
+      let rootDir: string;
+      let bareDir: string;
+
+      beforeAll(async () => {
+        rootDir = mkdtempSync(join(tmpdir(), 'orchid-git-manager-'));
+        bareDir = await createBareRepository(rootDir);
+      });
+
+      afterAll(() => {
+        rmSync(rootDir, { recursive: true, force: true });
+      });
+
+      it('should clone a local bare repository into an existing empty directory', async () => {
+        const targetDir = mkdtempSync(join(rootDir, 'clone-'));
+
+        await gitOps.clone(bareDir, targetDir);
+
+        const git = simpleGit(targetDir);
+        expect((await git.branchLocal()).current).toBe('main');
+        expect(existsSync(join(targetDir, 'README.md'))).toBe(true);
+        expect(existsSync(join(targetDir, 'FEATURE.md'))).toBe(false);
+      });
+
+      it('should check out the requested branch', async () => {
+        const targetDir = join(rootDir, 'clone-branch');
+
+        await gitOps.clone(bareDir, targetDir, { branch: 'feature' });
+
+        expect((await simpleGit(targetDir).branchLocal()).current).toBe('feature');
+        expect(existsSync(join(targetDir, 'FEATURE.md'))).toBe(true);
+      });
+
+      it('should create a shallow clone from a file:// URL', async () => {
+        const targetDir = join(rootDir, 'clone-shallow');
+
+        await gitOps.clone(`file://${bareDir}`, targetDir, { depth: 1 });
+
+        const count = await simpleGit(targetDir).raw(['rev-list', '--count', 'HEAD']);
+        expect(count.trim()).toBe('1');
+      });
+
+      it('should reject when the repository does not exist', async () => {
+        await expect(gitOps.clone(join(rootDir, 'missing.git'), join(rootDir, 'clone-missing')))
+          .rejects.toThrow();
       });
     });
   });
 
+  describe('getCloneArgs', () => {
+    it('should return no arguments by default', () => {
+      expect(getCloneArgs()).toEqual([]);
+    });
+
+    it('should map clone options to git arguments', () => {
+      expect(getCloneArgs({ branch: 'develop', depth: 5, recurseSubmodules: true }))
+        .toEqual(['--branch', 'develop', '--depth', '5', '--recurse-submodules']);
+    });
+
+    it('should reject invalid depths', () => {
+      expect(() => getCloneArgs({ depth: 0 })).toThrow('Invalid clone depth: 0');
+      expect(() => getCloneArgs({ depth: 1.5 })).toThrow('Invalid clone depth: 1.5');
+    });
+  });
+
   describe('MockGitOperations', () => {
     describe('successful operations', () => {
       let gitOps: MockGitOperations;
@@ -123,19 +230,61 @@ describe('git-manager.ts - Git Operations', () => {
       expect(result.message).toContain('Successfully cloned');
     });
 
-    it('should use default git operations when none provided', async () => {
-      // This will fail with TODO error, which is expected
-      const result = await cloneRepository('https://github.com/user/repo.git', '/tmp/repo');
-      
-      expect(result.success).toBe(false);
-      expect(result.message).toContain('Git clone operation not yet implemented');
+    it('should pass clone options to git operations', async () => {
+      const mockGitOps = new MockGitOperations();
+      const clonedWith: unknown[] = [];
+      mockGitOps.clone = async (...args) => {
+        clonedWith.push(...args);
+      };
+
+      await cloneRepository('valid/repo', '/tmp/repo', mockGitOps, { branch: 'develop' });
+
+      expect(clonedWith).toEqual(['valid/repo', '/tmp/repo', { branch: 'develop' }]);
     });
   });
 
   describe('getRepositoryInfo', () => {
-    it('should return null (TODO)', () => {
-      expect(getRepositoryInfo('https://github.com/user/repo.git')).toBe(null);
-      expect(getRepositoryInfo('git@github.com:user/repo.git')).toBe(null);
+    it('should parse HTTPS URLs', () => {
+      expect(getRepositoryInfo('https://github.com/user/repo.git')).toEqual({
+        protocol: 'https', host: 'github.com', owner: 'user', repo: 'repo',
+      });
+      expect(getRepositoryInfo('https://gitlab.com/group/subgroup/repo')).toEqual({
+        protocol: 'https', host: 'gitlab.com', owner: 'group/subgroup', repo: 'repo',
+      });
+    });
+
+    it('should parse SSH URLs', () => {
+      expect(getRepositoryInfo('git@github.com:user/repo.git')).toEqual({
+        protocol: 'ssh', host: 'github.com', owner: 'user', repo: 'repo',
+      });
+      expect(getRepositoryInfo('ssh://git@example.com:2222/user/repo.git')).toEqual({
+        protocol: 'ssh', host: 'example.com', owner: 'user', repo: 'repo',
+      });
+    });
+
+    it('should parse URLs without an owner', () => {
+      expect(getRepositoryInfo('https://git.example.com/repo.git')).toEqual({
+        protocol: 'https', host: 'git.example.com', owner: '', repo: 'repo',
+      });
+      expect(getRepositoryInfo('git@git.example.com:repo.git')).toEqual({
+        protocol: 'ssh', host: 'git.example.com', owner: '', repo: 'repo',
+      });
+    });
+
+    it('should parse file:// URLs and local paths', () => {
+      expect(getRepositoryInfo('file:///srv/git/repo.git')).toEqual({
+        protocol: 'file', owner: 'git', repo: 'repo',
+      });
+      expect(getRepositoryInfo('/srv/git/repo')).toEqual({
+        protocol: 'local', owner: 'git', repo: 'repo',
+      });
+    });
+
+    it('should return null for unparseable URLs', () => {
+      expect(getRepositoryInfo('')).toBe(null);
+      expect(getRepositoryInfo('not-a-url')).toBe(null);
+      expect(getRepositoryInfo('ftp://example.com/user/repo.git')).toBe(null);
+      expect(getRepositoryInfo('https://github.com/user')).toBe(null);
     });
   });
 
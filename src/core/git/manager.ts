@@ -5,40 +5,59 @@
  * Uses dependency injection for testability.
  */
 
-import { join } from "node:path";
+import { basename, dirname, resolve } from "node:path";
+import simpleGit from "simple-git";
 
-// TODO: Import and configure simple-git
-// import simpleGit, { SimpleGit } from 'simple-git';
+/**
+ * Options controlling how a repository is cloned
+ */
+export interface CloneOptions {
+  /** Branch (or tag) to check out instead of the remote's default branch */
+  branch?: string;
+  /** Create a shallow clone with this many commits of history */
+  depth?: number;
+  /** Also clone and check out the repository's submodules */
+  recurseSubmodules?: boolean;
+}
 
 /**
  * Git configuration interface for dependency injection
  */
 export interface GitOperations {
-  clone: (repoUrl: string, targetDir: string) => Promise<void>;
+  clone: (repoUrl: string, targetDir: string, options?: CloneOptions) => Promise<void>;
   validateRepoUrl: (url: string) => boolean;
 }
 
+/**
+ * Build the `git clone` arguments for the given clone options
+ */
+export function getCloneArgs(options: CloneOptions = {}): string[] {
+  const args: string[] = [];
+  if (options.branch) {
+    args.push("--branch", options.branch);
+  }
+  if (options.depth !== undefined) {
+    if (!Number.isInteger(options.depth) || options.depth < 1) {
+      throw new Error(`Invalid clone depth: ${options.depth}`);
+    }
+    args.push("--depth", String(options.depth));
+  }
+  if (options.recurseSubmodules) {
+    args.push("--recurse-submodules");
+  }
+  return args;
+}
+
 /**
  * Production git operations implementation
  */
 export class ProductionGitOperations implements GitOperations {
-  async clone(repoUrl: string, targetDir: string): Promise<void> {
-    // TODO: Implement git clone using simple-git
-    // const git = simpleGit();
-    // await git.clone(repoUrl, targetDir);
-    throw new Error("Git clone operation not yet implemented");
+  async clone(repoUrl: string, targetDir: string, options: CloneOptions = {}): Promise<void> {
+    await simpleGit().clone(repoUrl, targetDir, getCloneArgs(options));
   }
 
   validateRepoUrl(url: string): boolean {
-    // TODO: Implement basic URL validation
-    // For now, just check if it looks like a git URL
-    const gitUrlPatterns = [
-      /^https?:\/.+\.git$/,
-      /^git@.+:.+\.git$/,
-      /^https:\/\/github\.com\/[^\/]+\/[^\/]+$/,
-      /^https:\/\/gitlab\.com\/[^\/]+\/[^\/]+$/,
-    ];
-    return gitUrlPatterns.some(pattern => pattern.test(url));
+    return getRepositoryInfo(url) !== null;
   }
 }
 
@@ -48,7 +67,7 @@ export class ProductionGitOperations implements GitOperations {
 export class MockGitOperations implements GitOperations {
   constructor(private cloneShouldFail: boolean = false) {}
 
-  async clone(repoUrl: string, targetDir: string): Promise<void> {
+  async clone(repoUrl: string, targetDir: string, options?: CloneOptions): Promise<void> {
     if (this.cloneShouldFail) {
       throw new Error("Mock git clone failed");
     }
@@ -66,13 +85,93 @@ export class MockGitOperations implements GitOperations {
  */
 export const defaultGitOperations = new ProductionGitOperations();
 
+/**
+ * Repository information parsed from a git URL or local path
+ */
+export interface RepositoryInfo {
+  protocol: "https" | "ssh" | "file" | "local";
+  /** Host name for remote repositories */
+  host?: string;
+  /** Owner (or group path) of the repository, empty if it has none; the parent directory for local repositories */
+  owner: string;
+  /** Repository name without a trailing .git */
+  repo: string;
+}
+
+const SCP_LIKE_SSH_URL = /^(?:[^@\s\/]+@)?([^:\s\/]+):(?!\/)(.+)$/;
+
+/**
+ * Split a repository path into owner and repo.
+ * Self-hosted servers often serve repositories without an owner (`host/repo.git`), so the owner
+ * may be empty, but then the repo needs its .git suffix to tell it apart from a bare owner URL.
+ */
+function parseRepositoryPath(path: string): { owner: string; repo: string } | null {
+  const segments = path.split("/").filter(segment => segment.length > 0);
+  if (segments.length === 0 || (segments.length === 1 && !segments[0].endsWith(".git"))) {
+    return null;
+  }
+
+  const repo = segments[segments.length - 1].replace(/\.git$/, "");
+  if (!repo) {
+    return null;
+  }
+  return { owner: segments.slice(0, -1).join("/"), repo };
+}
+
+/**
+ * Derive owner and repo from a local repository directory
+ */
+function parseLocalPath(path: string): { owner: string; repo: string } | null {
+  const absolutePath = resolve(path);
+  const repo = basename(absolutePath).replace(/\.git$/, "");
+  if (!repo) {
+    return null;
+  }
+  return { owner: basename(dirname(absolutePath)), repo };
+}
+
 /**
  * Extract repository information from a git URL
- * TODO: Implement proper URL parsing
+ *
+ * Supports https (`https://host/owner/repo.git`), ssh (`git@host:owner/repo.git`
+ * and `ssh://git@host/owner/repo.git`), `file://` URLs and local paths
+ * (absolute, or relative starting with `./` or `../`).
  */
-export function getRepositoryInfo(url: string): { owner: string; repo: string } | null {
-  // TODO: Parse various git URL formats to extract owner and repo
-  // For now, return null to indicate not implemented
+export function getRepositoryInfo(url: string): RepositoryInfo | null {
+  const trimmed = url.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  if (trimmed.startsWith("file://")) {
+    const path = trimmed.slice("file://".length);
+    const parsed = path ? parseLocalPath(path) : null;
+    return parsed ? { protocol: "file", ...parsed } : null;
+  }
+
+  if (trimmed.startsWith("/") || trimmed.startsWith("./") || trimmed.startsWith("../")) {
+    const parsed = parseLocalPath(trimmed);
+    return parsed ? { protocol: "local", ...parsed } : null;
+  }
+
+  const urlMatch = trimmed.match(/^(https?|ssh):\/\/(?:[^@\/]+@)?([^\/:]+)(?::\d+)?\/(.*)$/);
+  if (urlMatch) {
+    const [, scheme, host, path] = urlMatch;
+    const parsed = parseRepositoryPath(path);
+    return parsed ? { protocol: scheme === "ssh" ? "ssh" : "https", host, ...parsed } : null;
+  }
+
+  if (trimmed.includes("://")) {
+    return null;
+  }
+
+  const sshMatch = trimmed.match(SCP_LIKE_SSH_URL);
+  if (sshMatch && trimmed.includes("@")) {
+    const [, host, path] = sshMatch;
+    const parsed = parseRepositoryPath(path);
+    return parsed ? { protocol: "ssh", host, ...parsed } : null;
+  }
+
   return null;
 }
 
@@ -82,7 +181,8 @@ export function getRepositoryInfo(url: string): { owner: string; repo: string }
 export async function cloneRepository(
   repoUrl: string,
   targetDir: string,
-  gitOps: GitOperations = defaultGitOperations
+  gitOps: GitOperations = defaultGitOperations,
+  options: CloneOptions = {}
 ): Promise<{ success: boolean; message: string }> {
   try {
     if (!gitOps.validateRepoUrl(repoUrl)) {
@@ -92,7 +192,7 @@ export async function cloneRepository(
       };
     }
 
-    await gitOps.clone(repoUrl, targetDir);
+    await gitOps.clone(repoUrl, targetDir, options);
     return {
       success: true,
       message: `Successfully cloned ${repoUrl} to ${targetDir}`,
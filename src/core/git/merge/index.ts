@@ -0,0 +1,2 @@
+export { BranchMerger } from './merger.js';
+export type { MergeStrategy, MergeBranchOptions, MergeBranchResult, UpdateBranchResult } from './types.js';
@@ -0,0 +1,228 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BranchMerger } from './merger.js';
+
+// Mock simple-git
+vi.mock('simple-git', () => ({
+  default: vi.fn()
+}));
+
+// Mock the fs module
+vi.mock('node:fs', () => ({
+  existsSync: vi.fn()
+}));
+
+import simpleGit from 'simple-git';
+import { existsSync } from 'node:fs';
+
+describe('BranchMerger', () => {
+  let merger: BranchMerger;
+  let mockGit: any;
+  let mockWorktreeGit: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGit = {
+      raw: vi.fn().mockResolvedValue(''),
+      revparse: vi.fn().mockResolvedValue('abc123\n')
+    };
+    mockWorktreeGit = {
+      raw: vi.fn().mockResolvedValue('')
+    };
+    (simpleGit as any).mockImplementation((path: string) =>
+      path === '/test/worktrees/task-1' ? mockWorktreeGit : mockGit
+    );
+    merger = new BranchMerger('/test/repo');
+  });
+
+  const options = { message: 'Merge task task-1', worktreePath: '/test/worktrees/task-1' };
+
+  describe('merge strategy', () => {
+    it('should create a merge commit and return the new head', async () => {
+      const result = await merger.merge('orchid/task-1', { ...options, strategy: 'merge' });
+
+      expect(mockGit.raw).toHaveBeenCalledWith(['merge', '--no-ff', '-m', 'Merge task task-1', 'orchid/task-1']);
+      expect(result).toEqual({ status: 'merged', commit: 'abc123' });
+    });
+
+    it('should abort and report the conflicted files on conflicts', async () => {
+      mockGit.raw.mockImplementation(async (args: string[]) => {
+        if (args[0] === 'merge' && args[1] === '--no-ff') throw new Error('CONFLICT (content)');
+        if (args[0] === 'diff') return 'src/a.ts\nsrc/b.ts\n';
+        return '';
+      });
+
+      const result = await merger.merge('orchid/task-1', { ...options, strategy: 'merge' });
+
+      expect(result).toEqual({ status: 'conflict', conflicts: ['src/a.ts', 'src/b.ts'] });
+      expect(mockGit.raw).toHaveBeenCalledWith(['merge', '--abort']);
+    });
+
+    it('should throw errors that are not conflicts', async () => {
+      mockGit.raw.mockImplementation(async (args: string[]) => {
+        if (args[0] === 'merge') throw new Error('not something we can merge');
+        return '';
+      });
+
+      await expect(merger.merge('orchid/task-1', { ...options, strategy: 'merge' }))
+        .rejects.toThrow('Failed to merge branch orchid/task-1: not something we can merge');
+    });
+  });
+
+  describe('squash strategy', () => {
+    it('should squash the branch into a single commit', async () => {
+      mockGit.raw.mockImplementation(async (args: string[]) => {
+        if (args[0] === 'diff' && args[1] === '--cached') return 'src/a.ts\n';
+        return '';
+      });
+
+      const result = await merger.merge('orchid/task-1', { ...options, strategy: 'squash' });
+
+      expect(mockGit.raw).toHaveBeenCalledWith(['merge', '--squash', 'orchid/task-1']);
+      expect(mockGit.raw).toHaveBeenCalledWith(['commit', '-m', 'Merge task task-1']);
+      expect(result).toEqual({ status: 'merged', commit: 'abc123' });
+    });
+
+    it('should not commit when the branch has no changes', async () => {
+      const result = await merger.merge('orchid/task-1', { ...options, strategy: 'squash' });
+
+      expect(mockGit.raw).not.toHaveBeenCalledWith(['commit', '-m', 'Merge task task-1']);
+      expect(result).toEqual({ status: 'merged', commit: 'abc123' });
+    });
+
+    it('should reset the squash on conflicts', async () => {
+      mockGit.raw.mockImplementation(async (args: string[]) => {
+        if (args[0] === 'diff' && args[1] === '--name-only') return 'src/a.ts\n';
+        return '';
+      });
+
+      const result = await merger.merge('orchid/task-1', { ...options, strategy: 'squash' });
+
+      expect(result).toEqual({ status: 'conflict', conflicts: ['src/a.ts'] });
+      expect(mockGit.raw).toHaveBeenCalledWith(['reset', '--merge']);
+      expect(mockGit.raw).not.toHaveBeenCalledWith(['commit', '-m', 'Merge task task-1']);
+    });
+  });
+
+  describe('rebase strategy', () => {
+    it('should rebase the branch onto the mainline and fast-forward', async () => {
+      mockGit.revparse.mockImplementation(async (args: string[]) =>
+        args[0] === '--abbrev-ref' ? 'main\n' : 'def456\n'
+      );
+
+      const result = await merger.merge('orchid/task-1', { ...options, strategy: 'rebase' });
+
+      expect(mockWorktreeGit.raw).toHaveBeenCalledWith(['rebase', 'main']);
+      expect(mockGit.raw).toHaveBeenCalledWith(['merge', '--ff-only', 'orchid/task-1']);
+      expect(result).toEqual({ status: 'merged', commit: 'def456' });
+    });
+
+    it('should abort the rebase on conflicts', async () => {
+      mockGit.revparse.mockResolvedValue('main\n');
+      mockWorktreeGit.raw.mockImplementation(async (args: string[]) => {
+        if (args[0] === 'rebase' && args[1] === 'main') throw new Error('could not apply');
+        if (args[0] === 'diff') return 'src/a.ts\n';
+        return '';
+      });
+
+      const result = await merger.merge('orchid/task-1', { ...options, strategy: 'rebase' });
+
+      expect(result).toEqual({ status: 'conflict', conflicts: ['src/a.ts'] });
+      expect(mockWorktreeGit.raw).toHaveBeenCalledWith(['rebase', '--abort']);
+      expect(mockGit.raw).not.toHaveBeenCalledWith(['merge', '--ff-only', 'orchid/task-1']);
+    });
+  });
+
+  describe('update', () => {
+    beforeEach(() => {
+      mockGit.revparse.mockImplementation(async (args: string[]) =>
+        args[0] === '--abbrev-ref' ? 'main\n' : 'main-head\n'
+      );
+    });
+
+    it('should leave a branch that contains the mainline head alone', async () => {
+      mockWorktreeGit.raw.mockImplementation(async (args: string[]) =>
+        args[0] === 'merge-base' ? 'main-head\n' : ''
+      );
+
+      const result = await merger.update('orchid/task-1', '/test/worktrees/task-1');
+
+      expect(result).toEqual({ status: 'up_to_date' });
+      expect(mockWorktreeGit.raw).not.toHaveBeenCalledWith(['rebase', 'main']);
+    });
+
+    it('should rebase a branch behind the mainline onto its head', async () => {
+      mockWorktreeGit.raw.mockImplementation(async (args: string[]) => {
+        if (args[0] === 'merge-base') return 'old-head\n';
+        if (args[0] === 'rev-parse') return 'rebased-head\n';
+        return '';
+      });
+
+      const result = await merger.update('orchid/task-1', '/test/worktrees/task-1');
+
+      expect(mockWorktreeGit.raw).toHaveBeenCalledWith(['rebase', 'main']);
+      expect(result).toEqual({ status: 'rebased', commit: 'rebased-head' });
+      expect(mockGit.raw).not.toHaveBeenCalledWith(['merge', '--ff-only', 'orchid/task-1']);
+    });
+
+    it('should abort a rebase that conflicts', async () => {
+      mockWorktreeGit.raw.mockImplementation(async (args: string[]) => {
+        if (args[0] === 'merge-base') return 'old-head\n';
+        if (args[0] === 'rebase' && args[1] === 'main') throw new Error('could not apply');
+        if (args[0] === 'diff') return 'src/a.ts\n';
+        return '';
+      });
+
+      const result = await merger.update('orchid/task-1', '/test/worktrees/task-1');
+
+      expect(result).toEqual({ status: 'conflict', conflicts: ['src/a.ts'] });
+      expect(mockWorktreeGit.raw).toHaveBeenCalledWith(['rebase', '--abort']);
+    });
+
+    it('should throw errors that are not conflicts', async () => {
+      mockWorktreeGit.raw.mockImplementation(async (args: string[]) => {
+        if (args[0] === 'merge-base') return 'old-head\n';
+        if (args[0] === 'rebase') throw new Error('You have unstaged changes');
+        return '';
+      });
+
+      await expect(merger.update('orchid/task-1', '/test/worktrees/task-1'))
+        .rejects.toThrow('Failed to update branch orchid/task-1: You have unstaged changes');
+    });
+  });
+
+  describe('resetTo', () => {
+    it('should hard reset the mainline to the commit', async () => {
+      await merger.resetTo('abc123');
+
+      expect(mockGit.raw).toHaveBeenCalledWith(['reset', '--hard', 'abc123']);
+    });
+  });
+
+  describe('undoInterruptedMerge', () => {
+    it('should abort a rebase left in the worktree and reset the mainline', async () => {
+      mockWorktreeGit.raw.mockImplementation(async (args: string[]) =>
+        args[0] === 'rev-parse' ? `/test/repo/.git/worktrees/task-1/${args[2]}\n` : ''
+      );
+      vi.mocked(existsSync).mockImplementation((path) =>
+        path === '/test/worktrees/task-1' || path === '/test/repo/.git/worktrees/task-1/rebase-merge'
+      );
+
+      await merger.undoInterruptedMerge('abc123', '/test/worktrees/task-1');
+
+      expect(mockWorktreeGit.raw).toHaveBeenCalledWith(['rebase', '--abort']);
+      expect(mockGit.raw).toHaveBeenCalledWith(['reset', '--hard', 'abc123']);
+    });
+
+    it('should only reset the mainline when no rebase is in progress', async () => {
+      mockWorktreeGit.raw.mockImplementation(async (args: string[]) =>
+        args[0] === 'rev-parse' ? `/test/repo/.git/worktrees/task-1/${args[2]}\n` : ''
+      );
+      vi.mocked(existsSync).mockImplementation((path) => path === '/test/worktrees/task-1');
+
+      await merger.undoInterruptedMerge('abc123', '/test/worktrees/task-1');
+
+      expect(mockWorktreeGit.raw).not.toHaveBeenCalledWith(['rebase', '--abort']);
+      expect(mockGit.raw).toHaveBeenCalledWith(['reset', '--hard', 'abc123']);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import simpleGit, { SimpleGit } from 'simple-git';
+import { existsSync } from 'node:fs';
+import { resolve } from 'node:path';
+import type { MergeBranchOptions, MergeBranchResult, UpdateBranchResult } from './types.js';
+
+/**
+ * Merges task branches into the branch checked out in the main repository.
+ * A merge that runs into conflicts is aborted, leaving the mainline and the task branch as they were.
+ */
+export class BranchMerger {
+  readonly repoPath: string;
+  private git: SimpleGit;
+
+  constructor(repoPath: string = process.cwd()) {
+    this.repoPath = repoPath;
+    this.git = simpleGit(repoPath);
+  }
+
+  async merge(branch: string, options: MergeBranchOptions): Promise<MergeBranchResult> {
+    try {
+      switch (options.strategy) {
+        case 'merge':
+          return await this.mergeCommit(branch, options.message);
+        case 'squash':
+          return await this.squash(branch, options.message);
+        case 'rebase':
+          return await this.rebase(branch, options.worktreePath);
+      }
+    } catch (error) {
+      throw new Error(`Failed to ${options.strategy} branch ${branch}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Rebase a branch onto the current mainline head in the worktree it is checked out in.
+   * A rebase that runs into conflicts is aborted, leaving the branch as it was.
+   */
+  async update(branch: string, worktreePath: string): Promise<UpdateBranchResult> {
+    try {
+      return await this.rebaseOntoMainline(worktreePath);
+    } catch (error) {
+      throw new Error(`Failed to update branch ${branch}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /** Commit currently checked out in the main repository */
+  async getHead(): Promise<string> {
+    return (await this.git.revparse(['HEAD'])).trim();
+  }
+
+  /** Move the mainline back to a commit, discarding everything after it */
+  async resetTo(commit: string): Promise<void> {
+    try {
+      await this.git.raw(['reset', '--hard', commit]);
+    } catch (error) {
+      throw new Error(`Failed to reset mainline to ${commit}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Undo a merge that was interrupted partway, e.g. by a restart: abort a rebase left
+   * in progress in the worktree and reset the mainline to the commit it was at before the merge.
+   */
+  async undoInterruptedMerge(commit: string, worktreePath: string): Promise<void> {
+    try {
+      if (existsSync(worktreePath)) {
+        const worktreeGit = simpleGit(worktreePath);
+        for (const dir of ['rebase-merge', 'rebase-apply']) {
+          const rebaseDir = (await worktreeGit.raw(['rev-parse', '--git-path', dir])).trim();
+          if (existsSync(resolve(worktreePath, rebaseDir))) {
+            await worktreeGit.raw(['rebase', '--abort']);
+            break;
+          }
+        }
+      }
+      // Also clears a merge left in progress
+      await this.git.raw(['reset', '--hard', commit]);
+    } catch (error) {
+      throw new Error(`Failed to undo interrupted merge: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async mergeCommit(branch: string, message: string): Promise<MergeBranchResult> {
+    const conflicts = await this.runUntilConflict(this.git, ['merge', '--no-ff', '-m', message, branch]);
+    if (conflicts.length > 0) {
+      await this.git.raw(['merge', '--abort']);
+      return { status: 'conflict', conflicts };
+    }
+    return { status: 'merged', commit: await this.getHead() };
+  }
+
+  private async squash(branch: string, message: string): Promise<MergeBranchResult> {
+    const conflicts = await this.runUntilConflict(this.git, ['merge', '--squash', branch]);
+    if (conflicts.length > 0) {
+      await this.git.raw(['reset', '--merge']);
+      return { status: 'conflict', conflicts };
+    }
+
+    const staged = await this.git.raw(['diff', '--cached', '--name-only']);
+    if (staged.trim()) {
+      await this.git.raw(['commit', '-m', message]);
+    }
+    return { status: 'merged', commit: await this.getHead() };
+  }
+
+  private async rebase(branch: string, worktreePath: string): Promise<MergeBranchResult> {
+    const updated = await this.rebaseOntoMainline(worktreePath);
+    if (updated.status === 'conflict') {
+      return updated;
+    }
+
+    await this.git.raw(['merge', '--ff-only', branch]);
+    return { status: 'merged', commit: await this.getHead() };
+  }
+
+  private async rebaseOntoMainline(worktreePath: string): Promise<UpdateBranchResult> {
+    const mainline = (await this.git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+    const worktreeGit = simpleGit(worktreePath);
+
+    // The branch already contains the mainline head
+    const mainlineHead = await this.getHead();
+    const mergeBase = (await worktreeGit.raw(['merge-base', mainline, 'HEAD'])).trim();
+    if (mergeBase === mainlineHead) {
+      return { status: 'up_to_date' };
+    }
+
+    const conflicts = await this.runUntilConflict(worktreeGit, ['rebase', mainline]);
+    if (conflicts.length > 0) {
+      await worktreeGit.raw(['rebase', '--abort']);
+      return { status: 'conflict', conflicts };
+    }
+    return { status: 'rebased', commit: (await worktreeGit.raw(['rev-parse', 'HEAD'])).trim() };
+  }
+
+  /**
+   * Run a git command that may stop on conflicts.
+   * Returns the conflicted files; errors that aren't conflicts are rethrown.
+   */
+  private async runUntilConflict(git: SimpleGit, args: string[]): Promise<string[]> {
+    let failure: unknown;
+    try {
+      await git.raw(args);
+    } catch (error) {
+      failure = error;
+    }
+
+    const conflicts = (await git.raw(['diff', '--name-only', '--diff-filter=U']))
+      .split('\n')
+      .map((file) => file.trim())
+      .filter(Boolean);
+
+    if (conflicts.length === 0 && failure !== undefined) {
+      throw failure;
+    }
+    return conflicts;
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * How a task branch is merged into the mainline
+ * - merge: merge commit (--no-ff)
+ * - squash: all branch changes as a single commit
+ * - rebase: rebase the branch onto the mainline, then fast-forward
+ */
+export type MergeStrategy = 'merge' | 'squash' | 'rebase';
+
+export interface MergeBranchOptions {
+  strategy: MergeStrategy;
+  /** Commit message for merge and squash commits */
+  message: string;
+  /** Worktree the branch is checked out in; the rebase strategy rebases there */
+  worktreePath: string;
+}
+
+export type MergeBranchResult =
+  | { status: 'merged'; commit: string }
+  | { status: 'conflict'; conflicts: string[] };
+
+export type UpdateBranchResult =
+  | { status: 'up_to_date' }
+  | { status: 'rebased'; commit: string }
+  | { status: 'conflict'; conflicts: string[] };
@@ -1,2 +1,2 @@
 export { WorktreeManager } from './manager.js';
-export type { WorktreeInfo, CreateWorktreeOptions, RemoveWorktreeOptions } from './types.js';
+export type { WorktreeInfo, CreateWorktreeOptions, RemoveWorktreeOptions, DeleteBranchOptions } from './types.js';
@@ -1,4 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mkdtempSync, readFileSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { WorktreeManager } from './manager.js';
 import type { WorktreeInfo } from './types.js';
 
@@ -17,7 +20,9 @@ describe('WorktreeManager', () => {
     vi.clearAllMocks();
     mockGit = {
       raw: vi.fn(),
-      status: vi.fn()
+      status: vi.fn(),
+      branchLocal: vi.fn(),
+      revparse: vi.fn()
     };
     (simpleGit as any).mockReturnValue(mockGit);
     worktreeManager = new WorktreeManager('/test/repo');
@@ -41,13 +46,40 @@ branch refs/heads/main`;
       expect(mockGit.raw).toHaveBeenCalledWith(['worktree', 'list', '--porcelain']);
       expect(result).toHaveLength(1);
       expect(result[0]).toEqual({
-        path: 'test/repo/main',
+        path: '/test/repo/main',
         branch: 'main',
         commit: 'abc123def456',
         dirty: false
       });
     });
 
+    it('should show the branch checked out in each worktree', async () => {
+      const mockOutput = `worktree /test/repo/main
+HEAD abc123def456
+branch refs/heads/main
+
+worktree /test/worktrees/task-1
+HEAD def456abc123
+branch refs/heads/orchid/task-1
+
+worktree /test/worktrees/task-2
+HEAD 123abc456def
+detached`;
+
+      mockGit.raw.mockResolvedValue(mockOutput);
+      (simpleGit as any).mockReturnValue({
+        status: vi.fn().mockResolvedValue({ isClean: () => true })
+      });
+
+      const result = await worktreeManager.list();
+
+      expect(result.map(wt => [wt.path, wt.branch])).toEqual([
+        ['/test/repo/main', 'main'],
+        ['/test/worktrees/task-1', 'orchid/task-1'],
+        ['/test/worktrees/task-2', 'DETACHED'],
+      ]);
+    });
+
     it('should handle dirty status correctly', async () => {
       const mockOutput = `worktree /test/repo/main
 HEAD abc123def456
@@ -109,6 +141,15 @@ branch refs/heads/main`;
       expect(result).toBe(true);
     });
 
+    it('should create a worktree on a new branch', async () => {
+      mockGit.raw.mockResolvedValue('');
+
+      const result = await worktreeManager.create('/test/new-worktree', 'main', { branch: 'orchid/task-1' });
+
+      expect(mockGit.raw).toHaveBeenCalledWith(['worktree', 'add', '-b', 'orchid/task-1', '/test/new-worktree', 'main']);
+      expect(result).toBe(true);
+    });
+
     it('should handle errors gracefully', async () => {
       mockGit.raw.mockRejectedValue(new Error('Worktree creation failed'));
 
@@ -144,6 +185,131 @@ branch refs/heads/main`;
     });
   });
 
+  describe('archive', () => {
+    it('should write commits since the base ref and uncommitted changes to the archive directory', async () => {
+      const archiveDir = join(mkdtempSync(join(tmpdir(), 'orchid-archive-')), 'task-1');
+      const worktreeGit = {
+        raw: vi.fn()
+          .mockResolvedValueOnce(`${archiveDir}/0001-First.patch\n${archiveDir}/0002-Second.patch\n`)
+          .mockResolvedValueOnce('diff --git a/file.ts b/file.ts\n')
+      };
+      mockGit.revparse.mockResolvedValue('abc123\n');
+      (simpleGit as any).mockReturnValue(worktreeGit);
+
+      const files = await worktreeManager.archive('/test/worktrees/task-1', archiveDir, 'main');
+
+      expect(mockGit.revparse).toHaveBeenCalledWith(['main']);
+      expect(simpleGit).toHaveBeenLastCalledWith('/test/worktrees/task-1');
+      expect(worktreeGit.raw).toHaveBeenCalledWith(['format-patch', '-o', archiveDir, 'abc123..HEAD']);
+      expect(files).toEqual([
+        `${archiveDir}/0001-First.patch`,
+        `${archiveDir}/0002-Second.patch`,
+        join(archiveDir, 'uncommitted.diff'),
+      ]);
+      expect(readFileSync(join(archiveDir, 'uncommitted.diff'), 'utf-8')).toBe('diff --git a/file.ts b/file.ts\n');
+    });
+
+    it('should not write a diff when there are no uncommitted changes', async () => {
+      const archiveDir = join(mkdtempSync(join(tmpdir(), 'orchid-archive-')), 'task-1');
+      const worktreeGit = {
+        raw: vi.fn().mockResolvedValueOnce('').mockResolvedValueOnce('')
+      };
+      mockGit.revparse.mockResolvedValue('abc123');
+      (simpleGit as any).mockReturnValue(worktreeGit);
+
+      const files = await worktreeManager.archive('/test/worktrees/task-1', archiveDir, 'HEAD');
+
+      expect(files).toEqual([]);
+      expect(existsSync(join(archiveDir, 'uncommitted.diff'))).toBe(false);
+    });
+
+    it('should handle errors gracefully', async () => {
+      mockGit.revparse.mockRejectedValue(new Error('unknown revision'));
+
+      await expect(worktreeManager.archive('/test/worktrees/task-1', '/tmp/archive', 'missing'))
+        .rejects.toThrow('Failed to archive worktree at /test/worktrees/task-1: unknown revision');
+    });
+  });
+
+  describe('branchExists', () => {
+    it('should return true for an existing local branch', async () => {
+      mockGit.branchLocal.mockResolvedValue({ all: ['main', 'orchid/task-1'] });
+
+      expect(await worktreeManager.branchExists('orchid/task-1')).toBe(true);
+    });
+
+    it('should return false for a missing branch', async () => {
+      mockGit.branchLocal.mockResolvedValue({ all: ['main'] });
+
+      expect(await worktreeManager.branchExists('orchid/task-1')).toBe(false);
+    });
+
+    it('should handle errors gracefully', async () => {
+      mockGit.branchLocal.mockRejectedValue(new Error('Not a git repository'));
+
+      await expect(worktreeManager.branchExists('orchid/task-1'))
+        .rejects.toThrow('Failed to check branch orchid/task-1: Not a git repository');
+    });
+  });
+
+  describe('isBranchMerged', () => {
+    it('should report a branch listed as merged into HEAD', async () => {
+      mockGit.raw.mockResolvedValue('  orchid/task-1\n');
+
+      expect(await worktreeManager.isBranchMerged('orchid/task-1')).toBe(true);
+      expect(mockGit.raw).toHaveBeenCalledWith(['branch', '--merged', 'HEAD', '--list', 'orchid/task-1']);
+    });
+
+    it('should report a branch that is not listed as unmerged', async () => {
+      mockGit.raw.mockResolvedValue('');
+
+      expect(await worktreeManager.isBranchMerged('orchid/task-1')).toBe(false);
+    });
+  });
+
+  describe('deleteBranch', () => {
+    it('should delete a merged branch by default', async () => {
+      mockGit.raw.mockResolvedValue('');
+
+      const result = await worktreeManager.deleteBranch('orchid/task-1');
+
+      expect(mockGit.raw).toHaveBeenCalledWith(['branch', '-d', 'orchid/task-1']);
+      expect(result).toBe(true);
+    });
+
+    it('should force delete a branch', async () => {
+      mockGit.raw.mockResolvedValue('');
+
+      await worktreeManager.deleteBranch('orchid/task-1', { force: true });
+
+      expect(mockGit.raw).toHaveBeenCalledWith(['branch', '-D', 'orchid/task-1']);
+    });
+
+    it('should handle errors gracefully', async () => {
+      mockGit.raw.mockRejectedValue(new Error('branch not found'));
+
+      await expect(worktreeManager.deleteBranch('orchid/task-1'))
+        .rejects.toThrow('Failed to delete branch orchid/task-1: branch not found');
+    });
+  });
+
+  describe('pull', () => {
+    it('should fast-forward the mainline', async () => {
+      mockGit.raw.mockResolvedValue('');
+
+      await worktreeManager.pull();
+
+      expect(mockGit.raw).toHaveBeenCalledWith(['pull', '--ff-only']);
+    });
+
+    it('should handle errors gracefully', async () => {
+      mockGit.raw.mockRejectedValue(new Error('Not possible to fast-forward'));
+
+      await expect(worktreeManager.pull())
+        .rejects.toThrow('Failed to pull mainline: Not possible to fast-forward');
+    });
+  });
+
   describe('prune', () => {
     it('should prune worktrees and return count', async () => {
       const mockListOutput = `worktree /test/repo/main
@@ -1,7 +1,7 @@
 import simpleGit, { SimpleGit } from 'simple-git';
 import { promises as fs } from 'fs';
 import { join, resolve } from 'path';
-import type { WorktreeInfo, CreateWorktreeOptions, RemoveWorktreeOptions } from './types.js';
+import type { WorktreeInfo, CreateWorktreeOptions, RemoveWorktreeOptions, DeleteBranchOptions } from './types.js';
 
 export class WorktreeManager {
   private git: SimpleGit;
@@ -26,7 +26,7 @@ export class WorktreeManager {
             worktrees.push(currentWorktree as WorktreeInfo);
           }
           currentWorktree = {
-            path: line.substring(10).trim(),
+            path: line.substring(9).trim(),
             dirty: false
           };
         } else if (line.startsWith('HEAD ')) {
@@ -74,6 +74,10 @@ export class WorktreeManager {
       if (options.detach) {
         args.push('--detach');
       }
+
+      if (options.branch) {
+        args.push('-b', options.branch);
+      }
       
       args.push(path, ref);
       
@@ -102,6 +106,75 @@ export class WorktreeManager {
     }
   }
 
+  /**
+   * Save a worktree's work as patches in archiveDir.
+   * Commits since baseRef are written with `git format-patch`, and uncommitted
+   * changes to tracked files are written to uncommitted.diff.
+   * @returns Paths of the files written
+   */
+  async archive(path: string, archiveDir: string, baseRef: string): Promise<string[]> {
+    try {
+      const base = (await this.git.revparse([baseRef])).trim();
+      await fs.mkdir(archiveDir, { recursive: true });
+
+      const worktreeGit = simpleGit(path);
+      const patches = await worktreeGit.raw(['format-patch', '-o', archiveDir, `${base}..HEAD`]);
+      const files = patches.split('\n').map(file => file.trim()).filter(file => file.length > 0);
+
+      const uncommitted = await worktreeGit.raw(['diff', 'HEAD']);
+      if (uncommitted.trim()) {
+        const diffPath = join(archiveDir, 'uncommitted.diff');
+        await fs.writeFile(diffPath, uncommitted, 'utf-8');
+        files.push(diffPath);
+      }
+
+      return files;
+    } catch (error) {
+      throw new Error(`Failed to archive worktree at ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async branchExists(branch: string): Promise<boolean> {
+    try {
+      const branches = await this.git.branchLocal();
+      return branches.all.includes(branch);
+    } catch (error) {
+      throw new Error(`Failed to check branch ${branch}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Check whether all of a branch's commits are in the main repository's checked out branch
+   */
+  async isBranchMerged(branch: string): Promise<boolean> {
+    try {
+      const merged = await this.git.raw(['branch', '--merged', 'HEAD', '--list', branch]);
+      return merged.trim().length > 0;
+    } catch (error) {
+      throw new Error(`Failed to check whether branch ${branch} is merged: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async deleteBranch(branch: string, options: DeleteBranchOptions = {}): Promise<boolean> {
+    try {
+      await this.git.raw(['branch', options.force ? '-D' : '-d', branch]);
+      return true;
+    } catch (error) {
+      throw new Error(`Failed to delete branch ${branch}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Fast-forward the main repository's checked out branch from its upstream
+   */
+  async pull(): Promise<void> {
+    try {
+      await this.git.raw(['pull', '--ff-only']);
+    } catch (error) {
+      throw new Error(`Failed to pull mainline: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   async prune(): Promise<number> {
     try {
       const beforeList = await this.list();
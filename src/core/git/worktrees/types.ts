@@ -8,6 +8,13 @@ export interface WorktreeInfo {
 export interface CreateWorktreeOptions {
   detach?: boolean;
   force?: boolean;
+  /** Create a new branch with this name at the given ref and check it out in the worktree */
+  branch?: string;
+}
+
+export interface DeleteBranchOptions {
+  /** Delete the branch even if it has not been merged */
+  force?: boolean;
 }
 
 export interface RemoveWorktreeOptions {
@@ -1,2 +1,4 @@
-export { Task, createTaskFromDyson, TaskState } from './task.js';
-export type { TaskStateData, CreateTaskOptions } from './task.js';
+export { Task, createTaskFromDyson, getTaskBranchName, TaskState, DEFAULT_PIPELINE, DEFAULT_TASK_PHASES, EPIC_PIPELINE, DEFAULT_EPIC_PHASES } from './task.js';
+export type { TaskStateData, TaskAttempt, TaskMerge, TaskVerification, TaskReview, TaskSubtask, TaskPhase, CreateTaskOptions } from './task.js';
+export { TaskStateStore, createTaskStateStore } from './task-store.js';
+export type { TaskStateStoreOptions } from './task-store.js';
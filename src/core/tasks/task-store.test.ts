@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { existsSync, readFileSync, writeFileSync, mkdirSync, renameSync } from "node:fs";
+import { Task, TaskState } from "./task.js";
+import { TaskStateStore, createTaskStateStore } from "./task-store.js";
+
+// Mock the fs module
+vi.mock("node:fs", () => ({
+  existsSync: vi.fn(),
+  readFileSync: vi.fn(),
+  writeFileSync: vi.fn(),
+  mkdirSync: vi.fn(),
+  renameSync: vi.fn(),
+}));
+
+vi.mock("../logging/index.js", () => ({
+  log: { log: vi.fn(), error: vi.fn() },
+}));
+
+const TEST_TASKS_PATH = "/test/.orchid/tasks.json";
+
+const createTask = (taskId: string) =>
+  new Task({
+    taskId,
+    dysonTask: { id: taskId, frontmatter: { title: "Test Task" }, description: "", status: "open" },
+    worktreePath: `/test/worktrees/${taskId}`,
+  });
+
+describe("TaskStateStore", () => {
+  let store: TaskStateStore;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(existsSync).mockReturnValue(false);
+    vi.mocked(mkdirSync).mockImplementation(() => undefined);
+    vi.mocked(writeFileSync).mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("loadAll", () => {
+    it("should return empty array when tasks.json is missing", () => {
+      store = createTaskStateStore({ tasksJsonPath: TEST_TASKS_PATH });
+      expect(store.loadAll()).toEqual([]);
+    });
+
+    it("should handle corrupted tasks.json gracefully", () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue("invalid json");
+
+      store = createTaskStateStore({ tasksJsonPath: TEST_TASKS_PATH });
+
+      expect(store.loadAll()).toEqual([]);
+    });
+
+    it("should move a corrupted tasks.json aside instead of overwriting it", () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue("invalid json");
+
+      store = createTaskStateStore({ tasksJsonPath: TEST_TASKS_PATH });
+      store.save(createTask("task-1"));
+
+      expect(renameSync).toHaveBeenNthCalledWith(1, TEST_TASKS_PATH, `${TEST_TASKS_PATH}.corrupt`);
+      expect(writeFileSync).not.toHaveBeenCalledWith(TEST_TASKS_PATH, expect.anything());
+    });
+
+    it("should revive timestamps as dates", () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify({
+        "task-1": {
+          taskId: "task-1",
+          dysonTask: { id: "task-1", frontmatter: { title: "Test" }, description: "", status: "open" },
+          state: TaskState.REVIEWING,
+          reviewerAgentId: "task-1-reviewer",
+          createdAt: "2026-01-01T00:00:00.000Z",
+          updatedAt: "2026-01-02T00:00:00.000Z",
+        },
+      }));
+
+      store = createTaskStateStore({ tasksJsonPath: TEST_TASKS_PATH });
+      const [data] = store.loadAll();
+
+      expect(data.state).toBe(TaskState.REVIEWING);
+      expect(data.createdAt).toEqual(new Date("2026-01-01T00:00:00.000Z"));
+      expect(data.updatedAt).toEqual(new Date("2026-01-02T00:00:00.000Z"));
+    });
+  });
+
+  describe("save", () => {
+    beforeEach(() => {
+      store = createTaskStateStore({ tasksJsonPath: TEST_TASKS_PATH });
+    });
+
+    it("should persist the task state keyed by task ID", () => {
+      const task = createTask("task-1");
+      task.assignImplementor("task-1-implementor");
+
+      store.save(task);
+
+      const written = JSON.parse(vi.mocked(writeFileSync).mock.calls[0][1] as string);
+      expect(written["task-1"].state).toBe(TaskState.IMPLEMENTING);
+      expect(written["task-1"].implementorAgentId).toBe("task-1-implementor");
+    });
+
+    it("should write to a temp file and rename it into place", () => {
+      store.save(createTask("task-1"));
+
+      expect(writeFileSync).toHaveBeenCalledWith(`${TEST_TASKS_PATH}.tmp`, expect.any(String));
+      expect(renameSync).toHaveBeenCalledWith(`${TEST_TASKS_PATH}.tmp`, TEST_TASKS_PATH);
+    });
+
+    it("should create directory if needed", () => {
+      store.save(createTask("task-1"));
+
+      expect(mkdirSync).toHaveBeenCalledWith("/test/.orchid", { recursive: true });
+    });
+
+    it("should overwrite previous state of the same task", () => {
+      const task = createTask("task-1");
+      store.save(task);
+      task.assignImplementor("task-1-implementor");
+      store.save(task);
+
+      expect(store.loadAll()).toHaveLength(1);
+      expect(store.loadAll()[0].state).toBe(TaskState.IMPLEMENTING);
+    });
+  });
+
+  describe("remove", () => {
+    beforeEach(() => {
+      store = createTaskStateStore({ tasksJsonPath: TEST_TASKS_PATH });
+    });
+
+    it("should remove a saved task", () => {
+      store.save(createTask("task-1"));
+
+      expect(store.remove("task-1")).toBe(true);
+      expect(store.loadAll()).toEqual([]);
+    });
+
+    it("should return false if task not found", () => {
+      expect(store.remove("unknown")).toBe(false);
+      expect(writeFileSync).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Task State Store
+ *
+ * Persists orchestrator task state to .orchid/tasks.json so that a daemon
+ * restart can resume in-flight work instead of starting every task over.
+ */
+
+import { existsSync, readFileSync, writeFileSync, mkdirSync, renameSync } from "node:fs";
+import { dirname } from "node:path";
+import { log } from "../logging/index.js";
+import type { Task, TaskStateData } from "./task.js";
+
+/**
+ * Options for creating a TaskStateStore
+ */
+export interface TaskStateStoreOptions {
+  /** Path to tasks.json file */
+  tasksJsonPath: string;
+}
+
+/**
+ * Tasks.json file structure, keyed by task ID
+ */
+type TasksJson = Record<string, TaskStateData>;
+
+/**
+ * Store for persisting task state data.
+ * Reads/writes to .orchid/tasks.json
+ */
+export class TaskStateStore {
+  private tasksJsonPath: string;
+  private data: TasksJson = {};
+
+  constructor(options: TaskStateStoreOptions) {
+    this.tasksJsonPath = options.tasksJsonPath;
+    this.load();
+  }
+
+  /**
+   * Get the state data of all persisted tasks
+   */
+  loadAll(): TaskStateData[] {
+    return Object.values(this.data);
+  }
+
+  /**
+   * Persist the current state of a task
+   * @param task - The task to save
+   */
+  save(task: Task): void {
+    this.data[task.taskId] = task.toJSON();
+    this.persist();
+  }
+
+  /**
+   * Remove a task from the store
+   * @param taskId - The task identifier
+   * @returns true if removed, false if not found
+   */
+  remove(taskId: string): boolean {
+    if (!(taskId in this.data)) {
+      return false;
+    }
+
+    delete this.data[taskId];
+    this.persist();
+    return true;
+  }
+
+  /**
+   * Load from tasks.json
+   */
+  private load(): void {
+    if (!existsSync(this.tasksJsonPath)) {
+      this.data = {};
+      return;
+    }
+
+    try {
+      const content = readFileSync(this.tasksJsonPath, "utf-8");
+      const parsed = JSON.parse(content) as TasksJson;
+      this.data = {};
+      for (const [taskId, taskData] of Object.entries(parsed)) {
+        this.data[taskId] = {
+          ...taskData,
+          createdAt: new Date(taskData.createdAt),
+          updatedAt: new Date(taskData.updatedAt),
+        };
+      }
+    } catch (error) {
+      // Keep the unreadable file for inspection instead of overwriting it on the next save
+      const corruptPath = `${this.tasksJsonPath}.corrupt`;
+      log.error(`[task-store] Failed to read ${this.tasksJsonPath}, moving it to ${corruptPath}:`, error);
+      renameSync(this.tasksJsonPath, corruptPath);
+      this.data = {};
+    }
+  }
+
+  /**
+   * Save to tasks.json through a temp file, so a crash mid-write never leaves it truncated
+   */
+  private persist(): void {
+    const dir = dirname(this.tasksJsonPath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+    const tempPath = `${this.tasksJsonPath}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(this.data, null, 2));
+    renameSync(tempPath, this.tasksJsonPath);
+  }
+}
+
+/**
+ * Factory function to create a TaskStateStore
+ */
+export function createTaskStateStore(options: TaskStateStoreOptions): TaskStateStore {
+  return new TaskStateStore(options);
+}
@@ -1,5 +1,6 @@
-import { describe, it, expect, beforeEach } from "vitest";
-import { Task, TaskState, createTaskFromDyson } from "./index.js";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { Task, TaskState, createTaskFromDyson, DEFAULT_EPIC_PHASES, DEFAULT_TASK_PHASES } from "./index.js";
+import { AgentType } from "../../agent-framework/agent-type.js";
 import type { Task as DysonTask } from "dyson-swarm";
 
 const createMockDysonTask = (overrides: Partial<DysonTask> = {}): DysonTask => ({
@@ -209,6 +210,140 @@ describe("Task", () => {
       });
     });
 
+    describe("requestChanges", () => {
+      it("should transition from REVIEWING back to PENDING_IMPLEMENTATION with feedback", () => {
+        task.assignImplementor("implementor-1");
+        task.markImplementationComplete();
+        task.assignReviewer("reviewer-1");
+
+        task.requestChanges(["Add tests"]);
+
+        expect(task.state).toBe(TaskState.PENDING_IMPLEMENTATION);
+        expect(task.reviewFeedback).toEqual(["Add tests"]);
+        expect(task.reviewRounds).toBe(1);
+        expect(task.canAssignImplementor()).toBe(true);
+      });
+
+      it("should throw error when not in REVIEWING state", () => {
+        expect(() => task.requestChanges(["Add tests"])).toThrow(
+          "Cannot request changes: task is in pending_implementation state, expected REVIEWING"
+        );
+      });
+
+      it("should clear feedback once a later review approves", () => {
+        task.assignImplementor("implementor-1");
+        task.markImplementationComplete();
+        task.assignReviewer("reviewer-1");
+        task.requestChanges(["Add tests"]);
+        task.assignImplementor("implementor-1");
+        task.markImplementationComplete();
+        task.assignReviewer("reviewer-1");
+
+        task.markReviewComplete();
+
+        expect(task.reviewFeedback).toBeUndefined();
+        expect(task.reviewRounds).toBe(2);
+      });
+    });
+
+    describe("review panels", () => {
+      beforeEach(() => {
+        task.assignImplementor("implementor-1");
+        task.markImplementationComplete();
+        task.assignReviewer("task-1-reviewer");
+      });
+
+      it("should record each reviewer's session and verdict", () => {
+        task.recordReviewSession("task-1-reviewer-1", 1);
+        task.recordReviewSession("task-1-reviewer-2", 2);
+
+        task.recordReviewVerdict("task-1-reviewer-2", { verdict: "approved" });
+
+        expect(task.reviews).toEqual([
+          { agentId: "task-1-reviewer-1", sessionVersion: 1 },
+          { agentId: "task-1-reviewer-2", sessionVersion: 2, verdict: { verdict: "approved" } },
+        ]);
+        expect(Task.fromJSON(task.toJSON()).reviews).toEqual(task.reviews);
+      });
+
+      it("should replace a reviewer's session when it starts over", () => {
+        task.recordReviewSession("task-1-reviewer-1", 1);
+        task.recordReviewSession("task-1-reviewer-1", 3);
+
+        expect(task.reviews).toEqual([{ agentId: "task-1-reviewer-1", sessionVersion: 3 }]);
+      });
+
+      it("should start the next round without reviews", () => {
+        task.recordReviewSession("task-1-reviewer-1", 1);
+        task.recordReviewVerdict("task-1-reviewer-1", { verdict: "changes_requested", reasons: ["Add tests"] });
+
+        task.requestChanges(["Add tests"]);
+
+        expect(task.reviews).toEqual([]);
+      });
+
+      it("should reject verdicts of reviewers not on the panel", () => {
+        expect(() => task.recordReviewVerdict("task-1-reviewer-1", { verdict: "approved" })).toThrow(
+          "Cannot record review verdict: task-1-reviewer-1 is not reviewing the task"
+        );
+      });
+    });
+
+    describe("verification", () => {
+      beforeEach(() => {
+        task.assignImplementor("implementor-1");
+        task.startVerification();
+      });
+
+      it("should move from IMPLEMENTING to VERIFYING", () => {
+        expect(task.state).toBe(TaskState.VERIFYING);
+      });
+
+      it("should move on to review once verification passes", () => {
+        task.markVerificationPassed("- `npm test` passed in 1s");
+
+        expect(task.state).toBe(TaskState.AWAITING_REVIEW);
+        expect(task.verification).toEqual({ passed: true, summary: "- `npm test` passed in 1s", failures: 0 });
+      });
+
+      it("should go back to implementation with the output when verification fails", () => {
+        task.markVerificationFailed("- `npm test` failed", "1 test failed");
+
+        expect(task.state).toBe(TaskState.PENDING_IMPLEMENTATION);
+        expect(task.phase.name).toBe("implement");
+        expect(task.verification).toEqual({
+          passed: false,
+          summary: "- `npm test` failed",
+          output: "1 test failed",
+          failures: 1,
+        });
+      });
+
+      it("should count failures in a row until verification passes", () => {
+        task.markVerificationFailed("- `npm test` failed", "1 test failed");
+        task.assignImplementor("implementor-1");
+        task.startVerification();
+        task.markVerificationFailed("- `npm test` failed", "1 test failed");
+        expect(task.verification?.failures).toBe(2);
+
+        task.assignImplementor("implementor-1");
+        task.startVerification();
+        task.markVerificationPassed("- `npm test` passed in 1s");
+        expect(task.verification?.failures).toBe(0);
+      });
+
+      it("should throw error when not in VERIFYING state", () => {
+        task.markVerificationPassed("- `npm test` passed in 1s");
+
+        expect(() => task.markVerificationFailed("", "")).toThrow(
+          "Cannot mark verification failed: task is in awaiting_review state, expected VERIFYING"
+        );
+        expect(() => task.startVerification()).toThrow(
+          "Cannot start verification: task is in awaiting_review state, expected IMPLEMENTING"
+        );
+      });
+    });
+
     describe("assignMerger", () => {
       it("should transition from AWAITING_MERGE to MERGING", () => {
         task.assignImplementor("implementor-1");
@@ -246,6 +381,13 @@ describe("Task", () => {
     });
 
     describe("markFailed", () => {
+      it("should record the failure reason", () => {
+        task.markFailed("Prerequisite task-0 failed");
+
+        expect(task.failureReason).toBe("Prerequisite task-0 failed");
+        expect(Task.fromJSON(task.toJSON()).failureReason).toBe("Prerequisite task-0 failed");
+      });
+
       it("should transition from PENDING_IMPLEMENTATION to FAILED", () => {
         task.markFailed();
         expect(task.state).toBe(TaskState.FAILED);
@@ -276,6 +418,555 @@ describe("Task", () => {
         );
       });
     });
+
+    describe("human approval", () => {
+      const review = () => {
+        task.assignImplementor("implementor-1");
+        task.markImplementationComplete();
+        task.assignReviewer("reviewer-1");
+        task.markReviewComplete();
+      };
+
+      it("should wait for approval before joining the merge queue", () => {
+        review();
+
+        task.requestHumanApproval();
+        expect(task.state).toBe(TaskState.AWAITING_HUMAN_APPROVAL);
+        expect(task.canAssignMerger()).toBe(false);
+
+        task.approve();
+        expect(task.state).toBe(TaskState.AWAITING_MERGE);
+      });
+
+      it("should send a rejected task back to implementation with the reason", () => {
+        review();
+        task.requestHumanApproval();
+
+        task.reject("Needs authentication");
+
+        expect(task.state).toBe(TaskState.PENDING_IMPLEMENTATION);
+        expect(task.phase.name).toBe("implement");
+        expect(task.rejectionReason).toBe("Needs authentication");
+        expect(Task.fromJSON(task.toJSON()).rejectionReason).toBe("Needs authentication");
+      });
+
+      it("should forget the rejection once the task is reviewed again", () => {
+        review();
+        task.requestHumanApproval();
+        task.reject("Needs authentication");
+        review();
+
+        expect(task.rejectionReason).toBeUndefined();
+      });
+
+      it("should throw error when the task is not waiting for approval", () => {
+        expect(() => task.requestHumanApproval()).toThrow(
+          "Cannot request approval: task is in pending_implementation state, expected AWAITING_MERGE"
+        );
+        expect(() => task.approve()).toThrow(
+          "Cannot approve: task is in pending_implementation state, expected AWAITING_HUMAN_APPROVAL"
+        );
+        expect(() => task.reject("No")).toThrow(
+          "Cannot reject: task is in pending_implementation state, expected AWAITING_HUMAN_APPROVAL"
+        );
+      });
+    });
+
+    describe("pause and resume", () => {
+      it("should pause and resume in the state the task was in", () => {
+        task.assignImplementor("implementor-1");
+
+        task.pause();
+        expect(task.state).toBe(TaskState.PAUSED);
+        expect(task.pausedFrom).toBe(TaskState.IMPLEMENTING);
+        expect(task.isInTerminalState()).toBe(false);
+
+        task.resume();
+        expect(task.state).toBe(TaskState.IMPLEMENTING);
+        expect(task.pausedFrom).toBeUndefined();
+        expect(task.implementorAgentId).toBe("implementor-1");
+      });
+
+      it("should stay paused across a restart", () => {
+        task.pause();
+
+        const restored = Task.fromJSON(JSON.parse(JSON.stringify(task.toJSON())));
+
+        expect(restored.state).toBe(TaskState.PAUSED);
+        restored.resume();
+        expect(restored.state).toBe(TaskState.PENDING_IMPLEMENTATION);
+      });
+
+      it("should throw error when pausing a paused or finished task", () => {
+        task.pause();
+        expect(() => task.pause()).toThrow("Cannot pause: task is in paused state");
+
+        task.cancel();
+        expect(() => task.pause()).toThrow("Cannot pause: task is in cancelled state");
+      });
+
+      it("should throw error when resuming a task that is not paused", () => {
+        expect(() => task.resume()).toThrow(
+          "Cannot resume: task is in pending_implementation state, expected PAUSED"
+        );
+      });
+    });
+
+    describe("cancel", () => {
+      it("should transition to the terminal CANCELLED state", () => {
+        task.assignImplementor("implementor-1");
+        task.cancel();
+
+        expect(task.state).toBe(TaskState.CANCELLED);
+        expect(task.isInTerminalState()).toBe(true);
+      });
+
+      it("should throw error when already in terminal state", () => {
+        task.markFailed();
+        expect(() => task.cancel()).toThrow("Cannot cancel: task is already in terminal state failed");
+      });
+    });
+
+    describe("recordMerge", () => {
+      it("should record how the task was merged", () => {
+        task.assignImplementor("implementor-1");
+        task.markImplementationComplete();
+        task.assignReviewer("reviewer-1");
+        task.markReviewComplete();
+        task.assignMerger("merger-1");
+        task.recordMerge({ path: "git", strategy: "squash", commit: "abc123" });
+
+        expect(task.merge).toEqual({ path: "git", strategy: "squash", commit: "abc123" });
+        expect(Task.fromJSON(task.toJSON()).merge).toEqual({ path: "git", strategy: "squash", commit: "abc123" });
+      });
+    });
+
+    describe("recordFailedAttempt", () => {
+      it("should count failed attempts per phase", () => {
+        task.assignImplementor("implementor-1");
+
+        expect(task.recordFailedAttempt("network error")).toBe(1);
+        expect(task.recordFailedAttempt("network error")).toBe(2);
+        expect(task.state).toBe(TaskState.IMPLEMENTING);
+        expect(task.attempts).toHaveLength(2);
+        expect(task.attempts[1]).toMatchObject({
+          phase: TaskState.IMPLEMENTING,
+          attempt: 2,
+          reviewRound: 0,
+          error: "network error",
+        });
+
+        task.markImplementationComplete();
+        task.assignReviewer("reviewer-1");
+
+        expect(task.getFailedAttempts()).toBe(0);
+        expect(task.recordFailedAttempt("timeout")).toBe(1);
+      });
+
+      it("should count attempts separately for each review round", () => {
+        task.assignImplementor("implementor-1");
+        task.recordFailedAttempt("network error");
+        task.markImplementationComplete();
+        task.assignReviewer("reviewer-1");
+        task.requestChanges(["Add tests"]);
+        task.assignImplementor("implementor-1");
+
+        expect(task.recordFailedAttempt("network error")).toBe(1);
+      });
+
+      it("should throw error when in terminal state", () => {
+        task.markFailed();
+        expect(() => task.recordFailedAttempt("error")).toThrow(
+          "Cannot record failed attempt: task is already in terminal state failed"
+        );
+      });
+    });
+  });
+});
+
+describe("Task persistence", () => {
+  it("should call onChange on every transition", () => {
+    const onChange = vi.fn();
+    const task = new Task({
+      taskId: "task-1",
+      dysonTask: createMockDysonTask({ id: "task-1" }),
+      onChange,
+    });
+
+    task.assignImplementor("implementor-1");
+    task.markImplementationComplete();
+
+    expect(onChange).toHaveBeenCalledTimes(2);
+    expect(onChange).toHaveBeenLastCalledWith(task);
+  });
+
+  it("should restore a task from its serialized state", () => {
+    const original = new Task({
+      taskId: "task-1",
+      dysonTask: createMockDysonTask({ id: "task-1" }),
+      worktreePath: "/test/worktrees/task-1",
+      branch: "orchid/task-1",
+    });
+    original.assignImplementor("implementor-1");
+    original.markImplementationComplete();
+    original.assignReviewer("reviewer-1");
+    original.recordFailedAttempt("network error");
+
+    const restored = Task.fromJSON(JSON.parse(JSON.stringify(original.toJSON())));
+
+    expect(restored.state).toBe(TaskState.REVIEWING);
+    expect(restored.implementorAgentId).toBe("implementor-1");
+    expect(restored.reviewerAgentId).toBe("reviewer-1");
+    expect(restored.worktreePath).toBe("/test/worktrees/task-1");
+    expect(restored.branch).toBe("orchid/task-1");
+    expect(restored.attempts).toEqual(original.attempts);
+    expect(restored.getFailedAttempts()).toBe(1);
+    expect(restored.createdAt).toEqual(original.createdAt);
+    expect(restored.updatedAt).toEqual(original.updatedAt);
+  });
+});
+
+describe("pipelines", () => {
+  const taskWithPhases = (phases: typeof DEFAULT_TASK_PHASES) =>
+    new Task({ taskId: "task-1", dysonTask: createMockDysonTask({ id: "task-1" }), pipeline: "custom", phases });
+
+  it("should run through the default pipeline", () => {
+    const task = new Task({ taskId: "task-1", dysonTask: createMockDysonTask({ id: "task-1" }) });
+
+    expect(task.pipeline).toBe("default");
+    expect(task.phases).toEqual(DEFAULT_TASK_PHASES);
+    expect(task.phase.name).toBe("implement");
+  });
+
+  it("should complete after the last phase when the pipeline has no merge", () => {
+    const task = taskWithPhases([{ name: "implement", agentType: AgentType.IMPLEMENTOR }]);
+
+    task.assignImplementor("implementor-1");
+    task.markImplementationComplete();
+
+    expect(task.state).toBe(TaskState.COMPLETED);
+    expect(task.isInTerminalState()).toBe(true);
+  });
+
+  it("should skip phases the pipeline leaves out", () => {
+    const task = taskWithPhases([
+      { name: "implement", agentType: AgentType.IMPLEMENTOR },
+      { name: "merge", agentType: AgentType.MERGER },
+    ]);
+
+    task.assignImplementor("implementor-1");
+    task.markImplementationComplete();
+
+    expect(task.state).toBe(TaskState.AWAITING_MERGE);
+    expect(task.phase.name).toBe("merge");
+  });
+
+  it("should run extra phases in order", () => {
+    const task = taskWithPhases([
+      { name: "tests", agentType: AgentType.IMPLEMENTOR },
+      { name: "implement", agentType: AgentType.IMPLEMENTOR },
+      { name: "security", agentType: AgentType.REVIEWER },
+      { name: "review", agentType: AgentType.REVIEWER },
+    ]);
+
+    task.assignImplementor("implementor-1");
+    task.markImplementationComplete();
+    expect(task.state).toBe(TaskState.PENDING_IMPLEMENTATION);
+    expect(task.phase.name).toBe("implement");
+
+    task.assignImplementor("implementor-2");
+    task.markImplementationComplete();
+    task.assignReviewer("reviewer-1");
+    task.markReviewComplete();
+    expect(task.state).toBe(TaskState.AWAITING_REVIEW);
+    expect(task.phase.name).toBe("review");
+  });
+
+  it("should send requested changes back to the phase the review names", () => {
+    const task = taskWithPhases([
+      { name: "tests", agentType: AgentType.IMPLEMENTOR },
+      { name: "implement", agentType: AgentType.IMPLEMENTOR },
+      { name: "review", agentType: AgentType.REVIEWER, onChangesRequested: "tests" },
+    ]);
+    task.assignImplementor("implementor-1");
+    task.markImplementationComplete();
+    task.assignImplementor("implementor-2");
+    task.markImplementationComplete();
+    task.assignReviewer("reviewer-1");
+
+    task.requestChanges(["Cover the edge case"]);
+
+    expect(task.state).toBe(TaskState.PENDING_IMPLEMENTATION);
+    expect(task.phase.name).toBe("tests");
+  });
+
+  it("should send requested changes back to the closest implementor phase by default", () => {
+    const task = taskWithPhases([
+      { name: "tests", agentType: AgentType.IMPLEMENTOR },
+      { name: "implement", agentType: AgentType.IMPLEMENTOR },
+      { name: "review", agentType: AgentType.REVIEWER },
+    ]);
+    task.assignImplementor("implementor-1");
+    task.markImplementationComplete();
+    task.assignImplementor("implementor-2");
+    task.markImplementationComplete();
+    task.assignReviewer("reviewer-1");
+
+    task.requestChanges(["Fix the bug"]);
+
+    expect(task.phase.name).toBe("implement");
+  });
+
+  it("should count failed attempts per phase", () => {
+    const task = taskWithPhases([
+      { name: "tests", agentType: AgentType.IMPLEMENTOR },
+      { name: "implement", agentType: AgentType.IMPLEMENTOR },
+    ]);
+    task.assignImplementor("implementor-1");
+    task.recordFailedAttempt("network error");
+    task.markImplementationComplete();
+
+    task.assignImplementor("implementor-2");
+
+    expect(task.getFailedAttempts()).toBe(0);
+    expect(task.lastError).toBeUndefined();
+  });
+
+  it("should restore its pipeline and phase", () => {
+    const original = taskWithPhases([
+      { name: "tests", agentType: AgentType.IMPLEMENTOR },
+      { name: "implement", agentType: AgentType.IMPLEMENTOR },
+    ]);
+    original.assignImplementor("implementor-1");
+    original.markImplementationComplete();
+
+    const restored = Task.fromJSON(JSON.parse(JSON.stringify(original.toJSON())));
+
+    expect(restored.pipeline).toBe("custom");
+    expect(restored.phases).toEqual(original.phases);
+    expect(restored.phase.name).toBe("implement");
+  });
+
+  it("should restore tasks saved before pipelines into the default pipeline", () => {
+    const data = new Task({ taskId: "task-1", dysonTask: createMockDysonTask({ id: "task-1" }) }).toJSON();
+    delete data.pipeline;
+    delete data.phases;
+    delete data.phaseIndex;
+
+    const restored = Task.fromJSON({ ...data, state: TaskState.AWAITING_MERGE });
+
+    expect(restored.pipeline).toBe("default");
+    expect(restored.phase.name).toBe("merge");
+  });
+});
+
+describe("epics", () => {
+  const subtasks = [
+    { key: "schema", title: "Add the sessions table", description: "Create the migration", dependsOn: [] },
+    { key: "api", title: "Move the login endpoint", description: "", dependsOn: ["schema"] },
+  ];
+  let epic: Task;
+
+  beforeEach(() => {
+    epic = new Task({
+      taskId: "task-1",
+      dysonTask: createMockDysonTask({ id: "task-1" }),
+      pipeline: "epic",
+      phases: DEFAULT_EPIC_PHASES,
+    });
+  });
+
+  it("should wait for a planner first", () => {
+    expect(epic.state).toBe(TaskState.PENDING_PLANNING);
+    expect(epic.canAssignPlanner()).toBe(true);
+    expect(epic.canAssignImplementor()).toBe(false);
+
+    epic.assignPlanner("task-1-planner");
+
+    expect(epic.state).toBe(TaskState.PLANNING);
+    expect(epic.plannerAgentId).toBe("task-1-planner");
+  });
+
+  it("should wait for the planned subtasks", () => {
+    epic.assignPlanner("task-1-planner");
+
+    epic.markPlanComplete(subtasks);
+
+    expect(epic.state).toBe(TaskState.AWAITING_SUBTASKS);
+    expect(epic.subtasks).toEqual(subtasks);
+  });
+
+  it("should only complete planning while planning", () => {
+    expect(() => epic.markPlanComplete(subtasks)).toThrow(
+      "Cannot mark plan complete: task is in pending_planning state, expected PLANNING"
+    );
+  });
+
+  it("should record the created subtasks and how they finished", () => {
+    epic.assignPlanner("task-1-planner");
+    epic.markPlanComplete(subtasks);
+
+    epic.recordSubtaskCreated("schema", "task-2");
+    epic.recordSubtaskOutcome("task-2", "completed");
+
+    expect(epic.subtasks[0]).toMatchObject({ key: "schema", taskId: "task-2", outcome: "completed" });
+    expect(() => epic.recordSubtaskCreated("docs", "task-3")).toThrow("Cannot record subtask: the plan has no subtask docs");
+    expect(() => epic.recordSubtaskOutcome("task-3", "completed")).toThrow(
+      "Cannot record subtask outcome: task-3 is not a subtask of task-1"
+    );
+  });
+
+  it("should complete once every subtask completed", () => {
+    epic.assignPlanner("task-1-planner");
+    epic.markPlanComplete(subtasks);
+    epic.recordSubtaskCreated("schema", "task-2");
+    epic.recordSubtaskOutcome("task-2", "completed");
+
+    expect(() => epic.markSubtasksComplete()).toThrow("Cannot mark subtasks complete: 1 of 2 subtasks completed");
+
+    epic.recordSubtaskCreated("api", "task-3");
+    epic.recordSubtaskOutcome("task-3", "completed");
+    epic.markSubtasksComplete();
+
+    expect(epic.state).toBe(TaskState.COMPLETED);
+  });
+
+  it("should restore its planner and subtasks", () => {
+    epic.assignPlanner("task-1-planner");
+    epic.markPlanComplete(subtasks);
+    epic.recordSubtaskCreated("schema", "task-2");
+
+    const restored = Task.fromJSON(JSON.parse(JSON.stringify(epic.toJSON())));
+
+    expect(restored.state).toBe(TaskState.AWAITING_SUBTASKS);
+    expect(restored.plannerAgentId).toBe("task-1-planner");
+    expect(restored.subtasks).toEqual(epic.subtasks);
+  });
+
+  it("should find the plan phase of a task restored without a phase index", () => {
+    const data = { ...epic.toJSON(), state: TaskState.PLANNING, phaseIndex: undefined };
+
+    expect(Task.fromJSON(data).phase.name).toBe("plan");
+  });
+});
+
+describe("phase durations", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should count the time spent working on each phase, not waiting for it", () => {
+    const task = new Task({ taskId: "task-1", dysonTask: createMockDysonTask({ id: "task-1" }) });
+    vi.setSystemTime(1_000);
+    task.assignImplementor("implementor-1");
+    vi.setSystemTime(4_000);
+    task.startVerification();
+    vi.setSystemTime(5_000);
+    task.markVerificationPassed("- `npm test` passed in 1s");
+    vi.setSystemTime(9_000);
+    task.assignReviewer("reviewer-1");
+    vi.setSystemTime(11_000);
+    task.requestChanges(["Add tests"]);
+    task.assignImplementor("implementor-1");
+    vi.setSystemTime(12_000);
+    task.markFailed("crashed");
+
+    expect(task.phaseDurations).toEqual({ implement: 5_000, review: 2_000 });
+  });
+
+  it("should keep counting the current phase after a restore", () => {
+    const task = new Task({ taskId: "task-1", dysonTask: createMockDysonTask({ id: "task-1" }) });
+    task.assignImplementor("implementor-1");
+    vi.setSystemTime(3_000);
+
+    const restored = Task.fromJSON(JSON.parse(JSON.stringify(task.toJSON())));
+    restored.markImplementationComplete();
+
+    expect(restored.phaseDurations).toEqual({ implement: 3_000 });
+  });
+});
+
+describe("dependsOn", () => {
+  const taskWithFrontmatter = (frontmatter: Record<string, unknown>) =>
+    new Task({
+      taskId: "task-2",
+      dysonTask: createMockDysonTask({ id: "task-2", frontmatter: frontmatter as DysonTask["frontmatter"] }),
+    });
+
+  it("should be empty when the frontmatter has no dependencies", () => {
+    expect(taskWithFrontmatter({ title: "Test" }).dependsOn).toEqual([]);
+  });
+
+  it("should accept a list of task IDs", () => {
+    expect(taskWithFrontmatter({ title: "Test", dependsOn: ["task-0", "task-1"] }).dependsOn).toEqual(["task-0", "task-1"]);
+  });
+
+  it("should accept a single or comma-separated task ID", () => {
+    expect(taskWithFrontmatter({ title: "Test", dependsOn: "task-0" }).dependsOn).toEqual(["task-0"]);
+    expect(taskWithFrontmatter({ title: "Test", dependsOn: "task-0, task-1" }).dependsOn).toEqual(["task-0", "task-1"]);
+  });
+
+  it("should ignore empty and duplicate entries", () => {
+    expect(taskWithFrontmatter({ title: "Test", dependsOn: ["task-0", "", "task-0", null] }).dependsOn).toEqual(["task-0"]);
+  });
+});
+
+describe("labels", () => {
+  it("should read labels from the frontmatter", () => {
+    const task = new Task({
+      taskId: "task-1",
+      dysonTask: createMockDysonTask({
+        id: "task-1",
+        frontmatter: { title: "Test", labels: ["security", " docs "] } as DysonTask["frontmatter"],
+      }),
+    });
+
+    expect(task.labels).toEqual(["security", "docs"]);
+  });
+});
+
+describe("priority", () => {
+  const taskWithPriority = (priority: unknown) =>
+    new Task({
+      taskId: "task-1",
+      dysonTask: createMockDysonTask({ id: "task-1", frontmatter: { title: "Test", priority } as DysonTask["frontmatter"] }),
+    });
+
+  it("should default to normal", () => {
+    expect(taskWithPriority(undefined).priority).toBe(0);
+  });
+
+  it("should map named priorities", () => {
+    expect(taskWithPriority("high").priority).toBe(1);
+    expect(taskWithPriority("Normal").priority).toBe(0);
+    expect(taskWithPriority("low").priority).toBe(-1);
+  });
+
+  it("should accept numbers", () => {
+    expect(taskWithPriority(5).priority).toBe(5);
+    expect(taskWithPriority("-2").priority).toBe(-2);
+  });
+
+  it("should treat unknown values as normal", () => {
+    expect(taskWithPriority("urgent").priority).toBe(0);
+    expect(taskWithPriority("").priority).toBe(0);
+  });
+
+  it("should follow edits to the dyson task without touching updatedAt", () => {
+    const onChange = vi.fn();
+    const task = new Task({ taskId: "task-1", dysonTask: createMockDysonTask({ id: "task-1" }), onChange });
+    const updatedAt = task.updatedAt;
+
+    task.updateDysonTask(createMockDysonTask({ id: "task-1", frontmatter: { title: "Test", priority: "high" } as DysonTask["frontmatter"] }));
+
+    expect(task.priority).toBe(1);
+    expect(task.updatedAt).toBe(updatedAt);
+    expect(onChange).toHaveBeenCalledWith(task);
   });
 });
 
@@ -287,6 +978,15 @@ describe("createTaskFromDyson", () => {
     expect(task.taskId).toBe("task-abc");
     expect(task.dysonTask).toBe(dysonTask);
     expect(task.worktreePath).toBe("/test/worktrees/task-abc");
+    expect(task.branch).toBe("orchid/task-abc");
     expect(task.state).toBe(TaskState.PENDING_IMPLEMENTATION);
   });
+
+  it("should create a Task running through the given pipeline", () => {
+    const phases = [{ name: "implement", agentType: AgentType.IMPLEMENTOR }];
+    const task = createTaskFromDyson(createMockDysonTask(), "/test/worktrees", undefined, { name: "docs", phases });
+
+    expect(task.pipeline).toBe("docs");
+    expect(task.phases).toEqual(phases);
+  });
 });
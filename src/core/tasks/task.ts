@@ -6,20 +6,34 @@
  */
 
 import type { Task as DysonTask } from "dyson-swarm";
+import type { MergeStrategy } from "../git/merge/index.js";
+import { AgentType } from "../../agent-framework/agent-type.js";
+import type { ReviewVerdict } from "../../agent-framework/agents/review-verdict.js";
+import type { TaskOutcome } from "../../config/orchid-config.js";
 
 /**
  * Internal states for task lifecycle within the orchestrator.
  * These map to the dyson-swarm "in-progress" state but provide more granularity.
  */
 export enum TaskState {
+  /** Epic is waiting to be assigned to a planner */
+  PENDING_PLANNING = "pending_planning",
+  /** A planner agent is breaking the epic down into subtasks */
+  PLANNING = "planning",
+  /** Epic is planned, waiting for its subtasks to complete */
+  AWAITING_SUBTASKS = "awaiting_subtasks",
   /** Task is waiting to be assigned to an implementor */
   PENDING_IMPLEMENTATION = "pending_implementation",
   /** An implementor agent is actively working on the task */
   IMPLEMENTING = "implementing",
+  /** Implementation is complete, the project's checks are running in the worktree */
+  VERIFYING = "verifying",
   /** Implementation is complete, waiting for review */
   AWAITING_REVIEW = "awaiting_review",
   /** A reviewer agent is reviewing the implementation */
   REVIEWING = "reviewing",
+  /** Review is complete, waiting for a person to approve the merge */
+  AWAITING_HUMAN_APPROVAL = "awaiting_human_approval",
   /** Review is complete, waiting for merge */
   AWAITING_MERGE = "awaiting_merge",
   /** A merger agent is merging the changes to mainline */
@@ -28,16 +42,178 @@ export enum TaskState {
   COMPLETED = "completed",
   /** Task failed during implementation or review */
   FAILED = "failed",
+  /** Task was paused; its agent is stopped but its worktree and sessions are kept */
+  PAUSED = "paused",
+  /** Task was cancelled from orchid */
+  CANCELLED = "cancelled",
+}
+
+/**
+ * States in which an agent or verification is working on the task's current phase
+ */
+const WORKING_STATES: ReadonlySet<TaskState> = new Set([
+  TaskState.PLANNING,
+  TaskState.IMPLEMENTING,
+  TaskState.VERIFYING,
+  TaskState.REVIEWING,
+  TaskState.MERGING,
+]);
+
+/**
+ * A phase of the pipeline a task runs through
+ */
+export interface TaskPhase {
+  /** Name of the phase, unique within its pipeline */
+  name: string;
+  /** Agent type that works on the phase */
+  agentType: AgentType;
+  /** For review phases, the phase a task returns to when changes are requested */
+  onChangesRequested?: string;
+}
+
+/**
+ * Name of the pipeline tasks run through unless their frontmatter picks another
+ */
+export const DEFAULT_PIPELINE = "default";
+
+/**
+ * Phases of the default pipeline: implement, review, then merge
+ */
+export const DEFAULT_TASK_PHASES: TaskPhase[] = [
+  { name: "implement", agentType: AgentType.IMPLEMENTOR },
+  { name: "review", agentType: AgentType.REVIEWER, onChangesRequested: "implement" },
+  { name: "merge", agentType: AgentType.MERGER },
+];
+
+/**
+ * Name of the pipeline epics run through unless their frontmatter picks another
+ */
+export const EPIC_PIPELINE = "epic";
+
+/**
+ * Phases of the epic pipeline: plan the subtasks, which then run through their own pipelines
+ */
+export const DEFAULT_EPIC_PHASES: TaskPhase[] = [
+  { name: "plan", agentType: AgentType.PLANNER },
+];
+
+/**
+ * A failed attempt at one of the task's agent phases
+ */
+export interface TaskAttempt {
+  /** State the task was in when the attempt failed, e.g. IMPLEMENTING */
+  phase: TaskState;
+  /** Name of the pipeline phase the attempt belonged to */
+  phaseName?: string;
+  /** Attempt number within the phase, starting at 1 */
+  attempt: number;
+  /** Review round the attempt belonged to */
+  reviewRound: number;
+  /** Error message the attempt failed with */
+  error: string;
+  failedAt: Date;
+}
+
+/**
+ * How a task's changes were merged into the mainline
+ */
+export interface TaskMerge {
+  /** Whether the orchestrator merged with git or a merger agent did the merge */
+  path: "git" | "agent";
+  /** Merge strategy configured when the merge started */
+  strategy: MergeStrategy | "agent";
+  /** Mainline commit once the merge is done */
+  commit?: string;
+  /** Mainline commit before the orchestrator's git merge started, to undo it if it is interrupted */
+  previousHead?: string;
+  /** Why the merge was handed to a merger agent */
+  reason?: string;
+}
+
+/**
+ * Outcome of the latest run of the verification commands on a task's worktree
+ */
+export interface TaskVerification {
+  passed: boolean;
+  /** One line per command that ran, with how it went */
+  summary: string;
+  /** Output of the command that failed */
+  output?: string;
+  /** Failed verifications in a row; reset once one passes */
+  failures: number;
+}
+
+/**
+ * A reviewer on the panel reviewing the task in the current review round
+ */
+export interface TaskReview {
+  /** ID of the reviewer agent, e.g. "task-1-reviewer-2" */
+  agentId: string;
+  /** Version of the reviewer's session, e.g. 3 for reviewer-3.json */
+  sessionVersion: number;
+  /** The reviewer's verdict, once it finished */
+  verdict?: ReviewVerdict;
+}
+
+/**
+ * A subtask an epic's plan broke it down into
+ */
+export interface TaskSubtask {
+  /** ID of the subtask within the plan */
+  key: string;
+  title: string;
+  description: string;
+  /** Keys of the earlier subtasks in the plan this one depends on */
+  dependsOn: string[];
+  /** ID of the dyson-swarm task created for the subtask, once it exists */
+  taskId?: string;
+  /** How the subtask finished, once it did */
+  outcome?: TaskOutcome;
 }
 
 export interface TaskStateData {
   taskId: string;
   dysonTask: DysonTask;
   state: TaskState;
+  /** Pipeline the task runs through */
+  pipeline?: string;
+  /** Phases of the pipeline, as they were when the task was created */
+  phases?: TaskPhase[];
+  /** Index of the current phase */
+  phaseIndex?: number;
   implementorAgentId?: string;
   reviewerAgentId?: string;
   mergerAgentId?: string;
+  plannerAgentId?: string;
   worktreePath?: string;
+  /** Git branch the task's work is committed to */
+  branch?: string;
+  /** Number of completed review rounds */
+  reviewRounds: number;
+  /** Reviewers on the panel reviewing the current round */
+  reviews?: TaskReview[];
+  /** Changes requested by the latest review, pending implementation */
+  reviewFeedback?: string[];
+  /** Why a person rejected the task before merge, while it is being revised */
+  rejectionReason?: string;
+  /** Failed agent attempts, oldest first */
+  attempts: TaskAttempt[];
+  /** Why the task failed, once it is in the FAILED state */
+  failureReason?: string;
+  /** Subtasks of an epic, once it is planned */
+  subtasks?: TaskSubtask[];
+  /** How the task was merged, once merging has started */
+  merge?: TaskMerge;
+  /** Latest verification of the implementation */
+  verification?: TaskVerification;
+  /** Milliseconds agents and verification spent working on each phase, by phase name */
+  phaseDurations?: Record<string, number>;
+  /** When the task entered its current state */
+  stateEnteredAt?: Date;
+  /** Whether the task's outcome was written back to dyson-swarm */
+  outcomeReported?: boolean;
+  /** State the task returns to when resumed, while it is PAUSED */
+  pausedFrom?: TaskState;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -46,6 +222,13 @@ export interface CreateTaskOptions {
   taskId: string;
   dysonTask: DysonTask;
   worktreePath?: string;
+  branch?: string;
+  /** Pipeline the task runs through, defaults to the default pipeline */
+  pipeline?: string;
+  /** Phases of the pipeline, defaults to implement, review and merge */
+  phases?: TaskPhase[];
+  /** Called whenever the task's state or data changes */
+  onChange?: (task: Task) => void;
 }
 
 /**
@@ -54,22 +237,94 @@ export interface CreateTaskOptions {
  */
 export class Task {
   readonly taskId: string;
-  readonly dysonTask: DysonTask;
+  private _dysonTask: DysonTask;
   private _state: TaskState;
+  private _pipeline: string;
+  private _phases: TaskPhase[];
+  private _phaseIndex = 0;
   private _implementorAgentId?: string;
   private _reviewerAgentId?: string;
   private _mergerAgentId?: string;
+  private _plannerAgentId?: string;
   private _worktreePath?: string;
+  private _branch?: string;
+  private _reviewRounds = 0;
+  private _reviews: TaskReview[] = [];
+  private _reviewFeedback?: string[];
+  private _rejectionReason?: string;
+  private _attempts: TaskAttempt[] = [];
+  private _failureReason?: string;
+  private _subtasks: TaskSubtask[] = [];
+  private _merge?: TaskMerge;
+  private _verification?: TaskVerification;
+  private _phaseDurations: Record<string, number> = {};
+  private _stateEnteredAt: Date;
+  private _trackedState: TaskState;
+  private _trackedPhase: string;
+  private _outcomeReported = false;
+  private _pausedFrom?: TaskState;
   readonly createdAt: Date;
   private _updatedAt: Date;
+  private onChange?: (task: Task) => void;
 
   constructor(options: CreateTaskOptions) {
     this.taskId = options.taskId;
-    this.dysonTask = options.dysonTask;
-    this._state = TaskState.PENDING_IMPLEMENTATION;
+    this._dysonTask = options.dysonTask;
+    this._pipeline = options.pipeline ?? DEFAULT_PIPELINE;
+    this._phases = options.phases ?? DEFAULT_TASK_PHASES;
+    this._state = getWaitingState(this._phases[0].agentType);
     this._worktreePath = options.worktreePath;
+    this._branch = options.branch;
     this.createdAt = new Date();
     this._updatedAt = new Date();
+    this._stateEnteredAt = this.createdAt;
+    this._trackedState = this._state;
+    this._trackedPhase = this.phase.name;
+    this.onChange = options.onChange;
+  }
+
+  /**
+   * Restore a task from previously serialized state data
+   * @param data - State data as produced by toJSON()
+   * @param onChange - Optional change listener for the restored task
+   */
+  static fromJSON(data: TaskStateData, onChange?: (task: Task) => void): Task {
+    const task = new Task({
+      taskId: data.taskId,
+      dysonTask: data.dysonTask,
+      worktreePath: data.worktreePath,
+      branch: data.branch,
+      pipeline: data.pipeline,
+      phases: data.phases,
+      onChange,
+    });
+    (task as { createdAt: Date }).createdAt = new Date(data.createdAt);
+    task._state = data.state;
+    task._phaseIndex = data.phaseIndex ?? getPhaseIndexForState(task._phases, data.state);
+    task._implementorAgentId = data.implementorAgentId;
+    task._reviewerAgentId = data.reviewerAgentId;
+    task._mergerAgentId = data.mergerAgentId;
+    task._plannerAgentId = data.plannerAgentId;
+    task._reviewRounds = data.reviewRounds ?? 0;
+    task._reviews = data.reviews ?? [];
+    task._reviewFeedback = data.reviewFeedback;
+    task._rejectionReason = data.rejectionReason;
+    task._attempts = (data.attempts ?? []).map((attempt) => ({
+      ...attempt,
+      failedAt: new Date(attempt.failedAt),
+    }));
+    task._failureReason = data.failureReason;
+    task._subtasks = data.subtasks ?? [];
+    task._merge = data.merge;
+    task._verification = data.verification;
+    task._phaseDurations = data.phaseDurations ?? {};
+    task._stateEnteredAt = new Date(data.stateEnteredAt ?? data.updatedAt);
+    task._trackedState = task._state;
+    task._trackedPhase = task.phase.name;
+    task._outcomeReported = data.outcomeReported ?? false;
+    task._pausedFrom = data.pausedFrom;
+    task._updatedAt = new Date(data.updatedAt);
+    return task;
   }
 
   /**
@@ -79,6 +334,34 @@ export class Task {
     return this._state;
   }
 
+  /**
+   * Get the name of the pipeline the task runs through
+   */
+  get pipeline(): string {
+    return this._pipeline;
+  }
+
+  /**
+   * Get the phases of the task's pipeline
+   */
+  get phases(): readonly TaskPhase[] {
+    return this._phases;
+  }
+
+  /**
+   * Get the phase the task is in or waiting for; the last phase once it completed
+   */
+  get phase(): TaskPhase {
+    return this._phases[this._phaseIndex];
+  }
+
+  /**
+   * Get the index of the current phase
+   */
+  get phaseIndex(): number {
+    return this._phaseIndex;
+  }
+
   /**
    * Get implementor agent ID
    */
@@ -100,6 +383,13 @@ export class Task {
     return this._mergerAgentId;
   }
 
+  /**
+   * Get planner agent ID
+   */
+  get plannerAgentId(): string | undefined {
+    return this._plannerAgentId;
+  }
+
   /**
    * Get worktree path
    */
@@ -107,6 +397,146 @@ export class Task {
     return this._worktreePath;
   }
 
+  /**
+   * Get the git branch the task is worked on
+   */
+  get branch(): string | undefined {
+    return this._branch;
+  }
+
+  /**
+   * Get number of completed review rounds
+   */
+  get reviewRounds(): number {
+    return this._reviewRounds;
+  }
+
+  /**
+   * Get the reviewers on the panel reviewing the current round, with the verdicts given so far
+   */
+  get reviews(): readonly TaskReview[] {
+    return this._reviews;
+  }
+
+  /**
+   * Get changes requested by the latest review, if the task is being revised
+   */
+  get reviewFeedback(): string[] | undefined {
+    return this._reviewFeedback;
+  }
+
+  /**
+   * Get why a person rejected the task before merge, if the task is being revised
+   */
+  get rejectionReason(): string | undefined {
+    return this._rejectionReason;
+  }
+
+  /**
+   * Get failed agent attempts, oldest first
+   */
+  get attempts(): readonly TaskAttempt[] {
+    return this._attempts;
+  }
+
+  /**
+   * Get why the task failed, if it is in the FAILED state
+   */
+  get failureReason(): string | undefined {
+    return this._failureReason;
+  }
+
+  /**
+   * Get the subtasks of an epic, in plan order, once it is planned
+   */
+  get subtasks(): readonly TaskSubtask[] {
+    return this._subtasks;
+  }
+
+  /**
+   * Get how the task was merged, once merging has started
+   */
+  get merge(): TaskMerge | undefined {
+    return this._merge;
+  }
+
+  /**
+   * Get the latest verification of the implementation, if one ran
+   */
+  get verification(): TaskVerification | undefined {
+    return this._verification;
+  }
+
+  /**
+   * Get the milliseconds agents and verification spent working on each phase, by phase name.
+   * Time waiting for an agent is not counted.
+   */
+  get phaseDurations(): Readonly<Record<string, number>> {
+    return this._phaseDurations;
+  }
+
+  /**
+   * Check whether the task's outcome was written back to dyson-swarm
+   */
+  get outcomeReported(): boolean {
+    return this._outcomeReported;
+  }
+
+  /**
+   * Get the state a paused task returns to when resumed
+   */
+  get pausedFrom(): TaskState | undefined {
+    return this._pausedFrom;
+  }
+
+  /**
+   * Get the dyson-swarm task this task was created from
+   */
+  get dysonTask(): DysonTask {
+    return this._dysonTask;
+  }
+
+  /**
+   * Get the scheduling priority from the `priority` frontmatter field.
+   * Higher values are scheduled first; high, normal and low map to 1, 0 and -1.
+   */
+  get priority(): number {
+    return parsePriority((this._dysonTask.frontmatter as Record<string, unknown> | undefined)?.priority);
+  }
+
+  /**
+   * Get the IDs of the tasks that must complete before this task starts,
+   * from the `dependsOn` frontmatter field
+   */
+  get dependsOn(): string[] {
+    return parseList((this._dysonTask.frontmatter as Record<string, unknown> | undefined)?.dependsOn);
+  }
+
+  /**
+   * Get the task's labels from the `labels` frontmatter field
+   */
+  get labels(): string[] {
+    return parseList((this._dysonTask.frontmatter as Record<string, unknown> | undefined)?.labels);
+  }
+
+  /**
+   * Get the number of failed attempts at the current phase in the current review round
+   */
+  getFailedAttempts(): number {
+    return this._attempts.filter((attempt) => this.isCurrentAttempt(attempt)).length;
+  }
+
+  /**
+   * Get the error of the last failed attempt at the current phase, if the phase is being retried
+   */
+  get lastError(): string | undefined {
+    const lastAttempt = this._attempts.at(-1);
+    if (!lastAttempt || !this.isCurrentAttempt(lastAttempt)) {
+      return undefined;
+    }
+    return lastAttempt.error;
+  }
+
   /**
    * Get last updated timestamp
    */
@@ -118,7 +548,7 @@ export class Task {
    * Check if task is in a terminal state
    */
   isInTerminalState(): boolean {
-    return this._state === TaskState.COMPLETED || this._state === TaskState.FAILED;
+    return this._state === TaskState.COMPLETED || this._state === TaskState.FAILED || this._state === TaskState.CANCELLED;
   }
 
   /**
@@ -164,7 +594,58 @@ export class Task {
       );
     }
 
-    this._state = TaskState.AWAITING_REVIEW;
+    this.advancePhase();
+    this._updateTimestamp();
+  }
+
+  /**
+   * Move a finished implementation on to verification instead of the next phase
+   * @throws Error if transition is invalid
+   */
+  startVerification(): void {
+    if (this._state !== TaskState.IMPLEMENTING) {
+      throw new Error(
+        `Cannot start verification: task is in ${this._state} state, expected IMPLEMENTING`
+      );
+    }
+
+    this._state = TaskState.VERIFYING;
+    this._updateTimestamp();
+  }
+
+  /**
+   * Mark verification as passed and move on to the next phase
+   * @param summary - How each verification command went
+   * @throws Error if transition is invalid
+   */
+  markVerificationPassed(summary: string): void {
+    if (this._state !== TaskState.VERIFYING) {
+      throw new Error(
+        `Cannot mark verification passed: task is in ${this._state} state, expected VERIFYING`
+      );
+    }
+
+    this._verification = { passed: true, summary, failures: 0 };
+    this.advancePhase();
+    this._updateTimestamp();
+  }
+
+  /**
+   * Send the task back to implementation with the output of the failed verification
+   * @param summary - How each verification command went
+   * @param output - Output of the command that failed
+   * @throws Error if transition is invalid
+   */
+  markVerificationFailed(summary: string, output: string): void {
+    if (this._state !== TaskState.VERIFYING) {
+      throw new Error(
+        `Cannot mark verification failed: task is in ${this._state} state, expected VERIFYING`
+      );
+    }
+
+    const failures = (this._verification?.failures ?? 0) + 1;
+    this._verification = { passed: false, summary, output, failures };
+    this._state = TaskState.PENDING_IMPLEMENTATION;
     this._updateTimestamp();
   }
 
@@ -185,6 +666,43 @@ export class Task {
     this._updateTimestamp();
   }
 
+  /**
+   * Record the session a panel reviewer runs in, replacing an earlier session of the same reviewer
+   * @param agentId - The ID of the reviewer agent
+   * @param sessionVersion - Version of the reviewer's session
+   * @throws Error if the task is not being reviewed
+   */
+  recordReviewSession(agentId: string, sessionVersion: number): void {
+    if (this._state !== TaskState.REVIEWING) {
+      throw new Error(
+        `Cannot record review session: task is in ${this._state} state, expected REVIEWING`
+      );
+    }
+
+    this._reviews = [...this._reviews.filter((review) => review.agentId !== agentId), { agentId, sessionVersion }];
+    this._updateTimestamp();
+  }
+
+  /**
+   * Record a panel reviewer's verdict
+   * @param agentId - The ID of the reviewer agent
+   * @param verdict - The reviewer's verdict
+   * @throws Error if the task is not being reviewed or the reviewer has no recorded session
+   */
+  recordReviewVerdict(agentId: string, verdict: ReviewVerdict): void {
+    if (this._state !== TaskState.REVIEWING) {
+      throw new Error(
+        `Cannot record review verdict: task is in ${this._state} state, expected REVIEWING`
+      );
+    }
+    if (!this._reviews.some((review) => review.agentId === agentId)) {
+      throw new Error(`Cannot record review verdict: ${agentId} is not reviewing the task`);
+    }
+
+    this._reviews = this._reviews.map((review) => (review.agentId === agentId ? { ...review, verdict } : review));
+    this._updateTimestamp();
+  }
+
   /**
    * Mark review as complete
    * @throws Error if transition is invalid
@@ -196,10 +714,84 @@ export class Task {
       );
     }
 
+    this._reviewRounds++;
+    this._reviews = [];
+    this._reviewFeedback = undefined;
+    this._rejectionReason = undefined;
+    this.advancePhase();
+    this._updateTimestamp();
+  }
+
+  /**
+   * Send the task back to implementation with the reviewer's requested changes
+   * @param reasons - What the reviewer asked to change
+   * @throws Error if transition is invalid
+   */
+  requestChanges(reasons: string[]): void {
+    if (this._state !== TaskState.REVIEWING) {
+      throw new Error(
+        `Cannot request changes: task is in ${this._state} state, expected REVIEWING`
+      );
+    }
+
+    this._reviewRounds++;
+    this._reviews = [];
+    this._reviewFeedback = [...reasons];
+    this._rejectionReason = undefined;
+    this._phaseIndex = this.getRevisionPhaseIndex();
+    this._state = TaskState.PENDING_IMPLEMENTATION;
+    this._updateTimestamp();
+  }
+
+  /**
+   * Hold a task that is ready to merge until a person approves it
+   * @throws Error if transition is invalid
+   */
+  requestHumanApproval(): void {
+    if (this._state !== TaskState.AWAITING_MERGE) {
+      throw new Error(
+        `Cannot request approval: task is in ${this._state} state, expected AWAITING_MERGE`
+      );
+    }
+
+    this._rejectionReason = undefined;
+    this._state = TaskState.AWAITING_HUMAN_APPROVAL;
+    this._updateTimestamp();
+  }
+
+  /**
+   * Approve the task for merge
+   * @throws Error if transition is invalid
+   */
+  approve(): void {
+    if (this._state !== TaskState.AWAITING_HUMAN_APPROVAL) {
+      throw new Error(
+        `Cannot approve: task is in ${this._state} state, expected AWAITING_HUMAN_APPROVAL`
+      );
+    }
+
     this._state = TaskState.AWAITING_MERGE;
     this._updateTimestamp();
   }
 
+  /**
+   * Send the task back to implementation with the reason a person rejected it
+   * @param reason - Why the task was rejected
+   * @throws Error if transition is invalid
+   */
+  reject(reason: string): void {
+    if (this._state !== TaskState.AWAITING_HUMAN_APPROVAL) {
+      throw new Error(
+        `Cannot reject: task is in ${this._state} state, expected AWAITING_HUMAN_APPROVAL`
+      );
+    }
+
+    this._rejectionReason = reason;
+    this._phaseIndex = this.getRevisionPhaseIndex();
+    this._state = TaskState.PENDING_IMPLEMENTATION;
+    this._updateTimestamp();
+  }
+
   /**
    * Check if task can be assigned a merger
    */
@@ -235,20 +827,196 @@ export class Task {
       );
     }
 
-    this._state = TaskState.COMPLETED;
+    this.advancePhase();
+    this._updateTimestamp();
+  }
+
+  /**
+   * Check if task can be assigned a planner
+   */
+  canAssignPlanner(): boolean {
+    return this._state === TaskState.PENDING_PLANNING;
+  }
+
+  /**
+   * Assign a planner to the task
+   * @param plannerAgentId - The ID of the planner agent
+   * @throws Error if transition is invalid
+   */
+  assignPlanner(plannerAgentId: string): void {
+    if (!this.canAssignPlanner()) {
+      throw new Error(
+        `Cannot assign planner: task is in ${this._state} state, expected PENDING_PLANNING`
+      );
+    }
+
+    this._plannerAgentId = plannerAgentId;
+    this._state = TaskState.PLANNING;
+    this._updateTimestamp();
+  }
+
+  /**
+   * Mark planning as complete; the task waits for the planned subtasks
+   * @param subtasks - Subtasks of the plan, in plan order
+   * @throws Error if transition is invalid
+   */
+  markPlanComplete(subtasks: TaskSubtask[]): void {
+    if (this._state !== TaskState.PLANNING) {
+      throw new Error(
+        `Cannot mark plan complete: task is in ${this._state} state, expected PLANNING`
+      );
+    }
+
+    this._subtasks = subtasks.map((subtask) => ({ ...subtask, dependsOn: [...subtask.dependsOn] }));
+    this._state = TaskState.AWAITING_SUBTASKS;
+    this._updateTimestamp();
+  }
+
+  /**
+   * Record the dyson-swarm task created for a planned subtask
+   * @param key - ID of the subtask within the plan
+   * @param taskId - ID of the created dyson-swarm task
+   * @throws Error if the plan has no such subtask
+   */
+  recordSubtaskCreated(key: string, taskId: string): void {
+    if (!this._subtasks.some((subtask) => subtask.key === key)) {
+      throw new Error(`Cannot record subtask: the plan has no subtask ${key}`);
+    }
+
+    this._subtasks = this._subtasks.map((subtask) => (subtask.key === key ? { ...subtask, taskId } : subtask));
+    this._updateTimestamp();
+  }
+
+  /**
+   * Record how a subtask finished
+   * @param taskId - ID of the subtask's dyson-swarm task
+   * @param outcome - How the subtask finished
+   * @throws Error if no subtask has that task ID
+   */
+  recordSubtaskOutcome(taskId: string, outcome: TaskOutcome): void {
+    if (!this._subtasks.some((subtask) => subtask.taskId === taskId)) {
+      throw new Error(`Cannot record subtask outcome: ${taskId} is not a subtask of ${this.taskId}`);
+    }
+
+    this._subtasks = this._subtasks.map((subtask) => (subtask.taskId === taskId ? { ...subtask, outcome } : subtask));
+    this._updateTimestamp();
+  }
+
+  /**
+   * Mark the subtasks as complete and move on to the next phase
+   * @throws Error if transition is invalid or a subtask has not completed
+   */
+  markSubtasksComplete(): void {
+    if (this._state !== TaskState.AWAITING_SUBTASKS) {
+      throw new Error(
+        `Cannot mark subtasks complete: task is in ${this._state} state, expected AWAITING_SUBTASKS`
+      );
+    }
+    const completed = this._subtasks.filter((subtask) => subtask.outcome === "completed").length;
+    if (completed < this._subtasks.length) {
+      throw new Error(
+        `Cannot mark subtasks complete: ${completed} of ${this._subtasks.length} subtasks completed`
+      );
+    }
+
+    this.advancePhase();
     this._updateTimestamp();
   }
 
   /**
    * Mark task as failed
+   * @param reason - Why the task failed
    * @throws Error if transition is invalid (task already in terminal state)
    */
-  markFailed(): void {
+  markFailed(reason?: string): void {
     if (this.isInTerminalState()) {
       throw new Error(`Cannot mark failed: task is already in terminal state ${this._state}`);
     }
 
     this._state = TaskState.FAILED;
+    this._failureReason = reason;
+    this._updateTimestamp();
+  }
+
+  /**
+   * Pause the task; it stays in PAUSED until resumed
+   * @throws Error if the task is finished or already paused
+   */
+  pause(): void {
+    if (this.isInTerminalState() || this._state === TaskState.PAUSED) {
+      throw new Error(`Cannot pause: task is in ${this._state} state`);
+    }
+
+    this._pausedFrom = this._state;
+    this._state = TaskState.PAUSED;
+    this._updateTimestamp();
+  }
+
+  /**
+   * Resume a paused task in the state it was paused in
+   * @throws Error if transition is invalid
+   */
+  resume(): void {
+    if (this._state !== TaskState.PAUSED || this._pausedFrom === undefined) {
+      throw new Error(`Cannot resume: task is in ${this._state} state, expected PAUSED`);
+    }
+
+    this._state = this._pausedFrom;
+    this._pausedFrom = undefined;
+    this._updateTimestamp();
+  }
+
+  /**
+   * Cancel the task
+   * @throws Error if task is already in terminal state
+   */
+  cancel(): void {
+    if (this.isInTerminalState()) {
+      throw new Error(`Cannot cancel: task is already in terminal state ${this._state}`);
+    }
+
+    this._state = TaskState.CANCELLED;
+    this._pausedFrom = undefined;
+    this._updateTimestamp();
+  }
+
+  /**
+   * Record a failed attempt at the current phase
+   * @param error - Message of the error the attempt failed with
+   * @returns The number of failed attempts at the current phase in the current review round
+   * @throws Error if task is in a terminal state
+   */
+  recordFailedAttempt(error: string): number {
+    if (this.isInTerminalState()) {
+      throw new Error(`Cannot record failed attempt: task is already in terminal state ${this._state}`);
+    }
+
+    const attempt = this.getFailedAttempts() + 1;
+    this._attempts.push({
+      phase: this._state,
+      phaseName: this.phase.name,
+      attempt,
+      reviewRound: this._reviewRounds,
+      error,
+      failedAt: new Date(),
+    });
+    this._updateTimestamp();
+    return attempt;
+  }
+
+  /**
+   * Record how the task is being merged, replacing any earlier record
+   */
+  recordMerge(merge: TaskMerge): void {
+    this._merge = merge;
+    this._updateTimestamp();
+  }
+
+  /**
+   * Record that the task's outcome was written back to dyson-swarm
+   */
+  markOutcomeReported(): void {
+    this._outcomeReported = true;
     this._updateTimestamp();
   }
 
@@ -260,35 +1028,222 @@ export class Task {
     this._updateTimestamp();
   }
 
+  /**
+   * Replace the dyson-swarm task after it was edited.
+   * Leaves updatedAt alone so the task keeps its place in the queue.
+   */
+  updateDysonTask(dysonTask: DysonTask): void {
+    this._dysonTask = dysonTask;
+    this.onChange?.(this);
+  }
+
   /**
    * Get serializable state data
    */
   toJSON(): TaskStateData {
     return {
       taskId: this.taskId,
-      dysonTask: this.dysonTask,
+      dysonTask: this._dysonTask,
       state: this._state,
+      pipeline: this._pipeline,
+      phases: this._phases,
+      phaseIndex: this._phaseIndex,
       implementorAgentId: this._implementorAgentId,
       reviewerAgentId: this._reviewerAgentId,
       mergerAgentId: this._mergerAgentId,
+      plannerAgentId: this._plannerAgentId,
       worktreePath: this._worktreePath,
+      branch: this._branch,
+      reviewRounds: this._reviewRounds,
+      reviews: [...this._reviews],
+      reviewFeedback: this._reviewFeedback,
+      rejectionReason: this._rejectionReason,
+      attempts: [...this._attempts],
+      failureReason: this._failureReason,
+      subtasks: this._subtasks.map((subtask) => ({ ...subtask, dependsOn: [...subtask.dependsOn] })),
+      merge: this._merge,
+      verification: this._verification,
+      phaseDurations: this._phaseDurations,
+      stateEnteredAt: this._stateEnteredAt,
+      outcomeReported: this._outcomeReported,
+      pausedFrom: this._pausedFrom,
       createdAt: this.createdAt,
       updatedAt: this._updatedAt,
     };
   }
 
+  /**
+   * Move on to the next phase of the pipeline, or complete the task after the last one
+   */
+  private advancePhase(): void {
+    const next = this._phaseIndex + 1;
+    if (next >= this._phases.length) {
+      this._state = TaskState.COMPLETED;
+      return;
+    }
+
+    this._phaseIndex = next;
+    this._state = getWaitingState(this._phases[next].agentType);
+  }
+
+  /**
+   * Get the phase a review or rejection sends the task back to: the one the current phase names,
+   * or the closest implementor phase before it
+   */
+  private getRevisionPhaseIndex(): number {
+    const target = this.phase.onChangesRequested;
+    if (target !== undefined) {
+      const index = this._phases.findIndex((phase) => phase.name === target);
+      if (index !== -1) {
+        return index;
+      }
+    }
+
+    for (let index = this._phaseIndex - 1; index >= 0; index--) {
+      if (this._phases[index].agentType === AgentType.IMPLEMENTOR) {
+        return index;
+      }
+    }
+    return 0;
+  }
+
+  private isCurrentAttempt(attempt: TaskAttempt): boolean {
+    return (
+      attempt.phase === this._state &&
+      (attempt.phaseName === undefined || attempt.phaseName === this.phase.name) &&
+      attempt.reviewRound === this._reviewRounds
+    );
+  }
+
+  /**
+   * Add the time spent in a working state the task just left to that phase's duration
+   */
+  private trackPhaseTime(now: Date): void {
+    if (this._state === this._trackedState) {
+      return;
+    }
+
+    if (WORKING_STATES.has(this._trackedState)) {
+      const elapsed = now.getTime() - this._stateEnteredAt.getTime();
+      this._phaseDurations[this._trackedPhase] = (this._phaseDurations[this._trackedPhase] ?? 0) + elapsed;
+    }
+    this._trackedState = this._state;
+    this._trackedPhase = this.phase.name;
+    this._stateEnteredAt = now;
+  }
+
   private _updateTimestamp(): void {
     this._updatedAt = new Date();
+    this.trackPhaseTime(this._updatedAt);
+    this.onChange?.(this);
   }
 }
 
+const NAMED_PRIORITIES: Record<string, number> = {
+  high: 1,
+  normal: 0,
+  low: -1,
+};
+
+/**
+ * Parse the `priority` frontmatter field.
+ * Accepts high, normal or low, or a number. Anything else counts as normal.
+ */
+function parsePriority(value: unknown): number {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value !== "string") {
+    return NAMED_PRIORITIES.normal;
+  }
+
+  const name = value.trim().toLowerCase();
+  if (name in NAMED_PRIORITIES) {
+    return NAMED_PRIORITIES[name];
+  }
+  const number = Number(name);
+  return name.length > 0 && Number.isFinite(number) ? number : NAMED_PRIORITIES.normal;
+}
+
+/**
+ * Parse a list frontmatter field, such as `dependsOn` or `labels`.
+ * Accepts a single entry, a comma-separated list or an array of entries.
+ */
+function parseList(value: unknown): string[] {
+  const entries = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [];
+  const ids = entries
+    .filter((entry): entry is string | number => typeof entry === "string" || typeof entry === "number")
+    .map((entry) => String(entry).trim())
+    .filter((entry) => entry.length > 0);
+  return [...new Set(ids)];
+}
+
+/**
+ * Get the state a task waits in before an agent of the given type picks it up
+ */
+function getWaitingState(agentType: AgentType): TaskState {
+  switch (agentType) {
+    case AgentType.IMPLEMENTOR:
+      return TaskState.PENDING_IMPLEMENTATION;
+    case AgentType.REVIEWER:
+      return TaskState.AWAITING_REVIEW;
+    case AgentType.MERGER:
+      return TaskState.AWAITING_MERGE;
+    case AgentType.PLANNER:
+      return TaskState.PENDING_PLANNING;
+  }
+}
+
+/**
+ * Find the phase a task restored without a phase index is in, from its state.
+ * Terminal states map to the last phase.
+ */
+function getPhaseIndexForState(phases: TaskPhase[], state: TaskState): number {
+  const agentType = {
+    [TaskState.PENDING_PLANNING]: AgentType.PLANNER,
+    [TaskState.PLANNING]: AgentType.PLANNER,
+    [TaskState.AWAITING_SUBTASKS]: AgentType.PLANNER,
+    [TaskState.PENDING_IMPLEMENTATION]: AgentType.IMPLEMENTOR,
+    [TaskState.IMPLEMENTING]: AgentType.IMPLEMENTOR,
+    [TaskState.VERIFYING]: AgentType.IMPLEMENTOR,
+    [TaskState.AWAITING_REVIEW]: AgentType.REVIEWER,
+    [TaskState.REVIEWING]: AgentType.REVIEWER,
+    [TaskState.AWAITING_HUMAN_APPROVAL]: AgentType.MERGER,
+    [TaskState.AWAITING_MERGE]: AgentType.MERGER,
+    [TaskState.MERGING]: AgentType.MERGER,
+    [TaskState.COMPLETED]: undefined,
+    [TaskState.FAILED]: undefined,
+    [TaskState.PAUSED]: undefined,
+    [TaskState.CANCELLED]: undefined,
+  }[state];
+
+  const index = phases.findIndex((phase) => phase.agentType === agentType);
+  return index === -1 ? phases.length - 1 : index;
+}
+
+/**
+ * Name of the git branch a task is worked on
+ */
+export function getTaskBranchName(taskId: string): string {
+  return `orchid/${taskId}`;
+}
+
 /**
  * Factory function to create a Task from dyson-swarm data
  */
-export function createTaskFromDyson(dysonTask: DysonTask, worktreesDir: string): Task {
+export function createTaskFromDyson(
+  dysonTask: DysonTask,
+  worktreesDir: string,
+  onChange?: (task: Task) => void,
+  pipeline?: { name: string; phases: TaskPhase[] }
+): Task {
   return new Task({
     taskId: dysonTask.id,
     dysonTask,
     worktreePath: `${worktreesDir}/${dysonTask.id}`,
+    branch: getTaskBranchName(dysonTask.id),
+    pipeline: pipeline?.name,
+    phases: pipeline?.phases,
+    onChange,
   });
 }
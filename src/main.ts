@@ -6,15 +6,27 @@
  */
 
 import { writeFileSync, mkdirSync, existsSync } from "node:fs";
-import { getPidFile, getOrchidDir, getMainRepoDir, getWorktreesDir } from "./config/paths.js";
+import { join } from "node:path";
+import { getPidFile, getOrchidDir, getMainRepoDir, getWorktreesDir, getConfigFile, getEventsFile, getCommandsFile, getCommandsOffsetFile } from "./config/paths.js";
+import { loadOrchidConfig } from "./config/orchid-config.js";
 import { PiSessionAdapter } from "./agent-framework/agents/interface/index.js";
+import { AgentOrchestrator } from "./agent-framework/orchestrator.js";
+import { createSessionRepository } from "./agent-framework/session-repository.js";
+import { createEventLog } from "./agent-framework/event-log.js";
+import { createTaskCommandLog, type TaskCommand } from "./agent-framework/task-commands.js";
+import { WorktreeManager } from "./core/git/worktrees/index.js";
+import { BranchMerger } from "./core/git/merge/index.js";
+import { createModelRepository } from "./models/index.js";
 import { log } from "./core/logging/logger.js";
 
+/** How often the daemon checks for commands sent by the CLI */
+const COMMAND_POLL_INTERVAL_MS = 1000;
+
 async function main() {
   const orchidDir = getOrchidDir();
   const pidFile = getPidFile();
   const mainRepoDir = getMainRepoDir();
-  const worktreesDir = getWorktreesDir(() => mainRepoDir);
+  const worktreesDir = getWorktreesDir();
   
   // Ensure the orchid directory exists
   if (!existsSync(orchidDir)) {
@@ -27,16 +39,71 @@ async function main() {
   log.log(`[orchid] Starting daemon (PID: ${process.pid})`);
 
   try {
-    // Create Pi session manager
+    const modelRepository = createModelRepository({ modelsJsonPath: join(orchidDir, "models.json") });
+
+    // Create Pi session manager, with the workspace's providers registered
     const sessionManager = new PiSessionAdapter({
       instancesDir: worktreesDir,
+      providers: modelRepository.getAllProviders(),
+      models: modelRepository.getAllModels(),
     });
 
     log.log("[orchid] Pi session manager initialized");
 
+    // Worktrees are created from the main repository clone, not the workspace root
+    const orchestrator = new AgentOrchestrator({
+      worktreeManager: new WorktreeManager(mainRepoDir),
+      branchMerger: new BranchMerger(mainRepoDir),
+      agentInstanceManager: sessionManager,
+      sessionRepository: createSessionRepository({ sessionsDir: join(orchidDir, "sessions") }),
+      modelRepository,
+      config: loadOrchidConfig(getConfigFile()),
+    });
+
+    // Record lifecycle events for the CLI and other processes to follow
+    const eventLog = createEventLog({ eventsFilePath: getEventsFile() });
+    orchestrator.events.subscribe((event) => {
+      try {
+        eventLog.append(event);
+      } catch (err: unknown) {
+        log.error("[orchid] Failed to record event:", err);
+      }
+    });
+
+    // Apply the commands the CLI sends, one at a time, starting with any sent while the daemon restarted
+    const commandLog = createTaskCommandLog({
+      commandsFilePath: getCommandsFile(),
+      appliedOffsetFilePath: getCommandsOffsetFile(),
+    });
+    let commandOffset = commandLog.getAppliedOffset();
+    const pollCommands = async () => {
+      try {
+        const { commands, offset } = commandLog.readFrom(commandOffset);
+        await applyCommands(orchestrator, commands);
+        if (offset !== commandOffset) {
+          commandOffset = offset;
+          commandLog.saveAppliedOffset(offset);
+        }
+      } catch (err: unknown) {
+        log.error("[orchid] Failed to read commands:", err);
+      }
+      setTimeout(pollCommands, COMMAND_POLL_INTERVAL_MS);
+    };
+    setTimeout(pollCommands, COMMAND_POLL_INTERVAL_MS);
+
     // Handle shutdown signals gracefully
+    let shuttingDown = false;
     const shutdown = async (signal: string) => {
+      if (shuttingDown) {
+        return;
+      }
+      shuttingDown = true;
       log.log(`[orchid] Received ${signal}, shutting down...`);
+      try {
+        await orchestrator.stop();
+      } catch (err: unknown) {
+        log.error("[orchid] Error stopping orchestrator:", err);
+      }
       await sessionManager.stopAllAgentInstances();
       process.exit(0);
     };
@@ -44,6 +111,20 @@ async function main() {
     process.on("SIGTERM", () => shutdown("SIGTERM"));
     process.on("SIGINT", () => shutdown("SIGINT"));
 
+    // Start monitoring dyson-swarm tasks - runs until the orchestrator is stopped.
+    // A daemon whose task monitor ended would do nothing, so exit and let `orchid status` show it.
+    orchestrator.start()
+      .then(() => {
+        if (!shuttingDown) {
+          log.error("[orchid] Task monitor stopped unexpectedly, exiting");
+          process.exit(1);
+        }
+      })
+      .catch((err: unknown) => {
+        log.error("[orchid] Task monitor failed, exiting:", err);
+        process.exit(1);
+      });
+
     log.log("[orchid] Daemon ready");
 
     // Keep the process alive
@@ -54,6 +135,20 @@ async function main() {
   }
 }
 
+/**
+ * Apply commands read from the command log, logging those that can't be applied
+ */
+async function applyCommands(orchestrator: AgentOrchestrator, commands: TaskCommand[]): Promise<void> {
+  for (const command of commands) {
+    log.log(`[orchid] Received ${command.type} command for task ${command.taskId}`);
+    try {
+      await orchestrator.handleTaskCommand(command);
+    } catch (err: unknown) {
+      log.error(`[orchid] Failed to ${command.type} task ${command.taskId}:`, err);
+    }
+  }
+}
+
 // Export main for testing
 export { main };
 
@@ -7,7 +7,9 @@
 export {
   ModelRepository,
   createModelRepository,
+  PROVIDER_KINDS,
   type Model,
   type Provider,
+  type ProviderKind,
   type ModelRepositoryOptions,
 } from "./model-repository.js";
@@ -12,6 +12,28 @@ vi.mock("node:fs", () => ({
 }));
 
 const TEST_MODELS_PATH = "/test/.orchid/models.json";
+const TEST_PROVIDERS_PATH = "/test/.orchid/providers.json";
+
+const TEST_PROVIDERS = {
+  providers: [
+    { name: "anthropic", kind: "anthropic", apiKeyEnv: "ANTHROPIC_API_KEY" },
+    { name: "openai", kind: "openai", apiKeyEnv: "OPENAI_API_KEY" },
+    { name: "test", kind: "openai-compatible", baseUrl: "http://localhost:8080/v1" },
+  ],
+};
+
+/**
+ * Mock the contents of models.json and providers.json. Omitted files don't exist.
+ */
+function mockFiles(files: { models?: object; providers?: object }): void {
+  vi.mocked(existsSync).mockImplementation((path) =>
+    (path === TEST_MODELS_PATH && files.models !== undefined) ||
+    (path === TEST_PROVIDERS_PATH && files.providers !== undefined)
+  );
+  vi.mocked(readFileSync).mockImplementation((path) =>
+    JSON.stringify(path === TEST_PROVIDERS_PATH ? files.providers : files.models)
+  );
+}
 
 describe("ModelRepository", () => {
   let repository: ModelRepository;
@@ -91,6 +113,7 @@ describe("ModelRepository", () => {
 
   describe("addModel", () => {
     beforeEach(() => {
+      mockFiles({ providers: TEST_PROVIDERS });
       repository = createModelRepository({ modelsJsonPath: TEST_MODELS_PATH });
     });
 
@@ -110,6 +133,12 @@ describe("ModelRepository", () => {
       expect(() => repository.addModel(model)).toThrow("Model anthropic/claude-3 already exists");
     });
 
+    it("should throw if provider is not configured", () => {
+      expect(() => repository.addModel({ provider: "unknown", modelId: "model" }))
+        .toThrow("Provider unknown not found");
+      expect(repository.getAllModels()).toEqual([]);
+    });
+
     it("should persist to file", () => {
       const model: Model = { provider: "openai", modelId: "gpt-4" };
       
@@ -205,14 +234,16 @@ describe("ModelRepository", () => {
 
   describe("setModelForAgent", () => {
     beforeEach(() => {
-      vi.mocked(existsSync).mockReturnValue(true);
-      vi.mocked(readFileSync).mockReturnValue(JSON.stringify({
-        models: [
-          { provider: "anthropic", modelId: "claude-3" },
-          { provider: "openai", modelId: "gpt-4" }
-        ],
-        agentModels: {}
-      }));
+      mockFiles({
+        models: {
+          models: [
+            { provider: "anthropic", modelId: "claude-3" },
+            { provider: "openai", modelId: "gpt-4" }
+          ],
+          agentModels: {}
+        },
+        providers: TEST_PROVIDERS,
+      });
       repository = createModelRepository({ modelsJsonPath: TEST_MODELS_PATH });
     });
 
@@ -228,6 +259,17 @@ describe("ModelRepository", () => {
         .toThrow("Model unknown/model not found");
     });
 
+    it("should throw if the model's provider is no longer configured", () => {
+      mockFiles({
+        models: { models: [{ provider: "removed", modelId: "model" }], agentModels: {} },
+        providers: TEST_PROVIDERS,
+      });
+      repository = createModelRepository({ modelsJsonPath: TEST_MODELS_PATH });
+
+      expect(() => repository.setModelForAgent(AgentType.IMPLEMENTOR, "removed", "model"))
+        .toThrow("Provider removed not found");
+    });
+
     it("should update existing assignment", () => {
       repository.setModelForAgent(AgentType.IMPLEMENTOR, "anthropic", "claude-3");
       repository.setModelForAgent(AgentType.IMPLEMENTOR, "openai", "gpt-4");
@@ -236,6 +278,18 @@ describe("ModelRepository", () => {
       expect(model).toEqual({ provider: "openai", modelId: "gpt-4" });
     });
 
+    it("should unassign model from agent", () => {
+      repository.setModelForAgent(AgentType.IMPLEMENTOR, "anthropic", "claude-3");
+
+      expect(repository.unassignModelForAgent(AgentType.IMPLEMENTOR)).toBe(true);
+      expect(repository.getModelForAgent(AgentType.IMPLEMENTOR)).toBeUndefined();
+      expect(repository.removeModel("anthropic", "claude-3")).toBe(true);
+    });
+
+    it("should return false when unassigning an agent without a model", () => {
+      expect(repository.unassignModelForAgent(AgentType.MERGER)).toBe(false);
+    });
+
     it("should persist to file", () => {
       repository.setModelForAgent(AgentType.IMPLEMENTOR, "anthropic", "claude-3");
       
@@ -246,23 +300,165 @@ describe("ModelRepository", () => {
     });
   });
 
-  describe("provider methods (placeholders)", () => {
+  describe("default model", () => {
     beforeEach(() => {
+      mockFiles({
+        models: {
+          models: [
+            { provider: "anthropic", modelId: "claude-3" },
+            { provider: "openai", modelId: "gpt-4" }
+          ],
+          agentModels: {
+            [AgentType.REVIEWER]: { provider: "openai", modelId: "gpt-4" }
+          }
+        },
+        providers: TEST_PROVIDERS,
+      });
       repository = createModelRepository({ modelsJsonPath: TEST_MODELS_PATH });
     });
 
-    it("getAllProviders should return empty array", () => {
+    it("should return undefined when no default model is set", () => {
+      expect(repository.getDefaultModel()).toBeUndefined();
+      expect(repository.resolveModelForAgent(AgentType.IMPLEMENTOR)).toBeUndefined();
+    });
+
+    it("should set and persist the default model", () => {
+      repository.setDefaultModel("anthropic", "claude-3");
+
+      expect(repository.getDefaultModel()).toEqual({ provider: "anthropic", modelId: "claude-3" });
+      expect(writeFileSync).toHaveBeenCalledWith(
+        TEST_MODELS_PATH,
+        expect.stringContaining('"defaultModel"')
+      );
+    });
+
+    it("should throw if default model does not exist", () => {
+      expect(() => repository.setDefaultModel("unknown", "model"))
+        .toThrow("Model unknown/model not found");
+    });
+
+    it("should resolve the agent assignment before the default", () => {
+      repository.setDefaultModel("anthropic", "claude-3");
+
+      expect(repository.resolveModelForAgent(AgentType.REVIEWER)).toEqual({ provider: "openai", modelId: "gpt-4" });
+      expect(repository.resolveModelForAgent(AgentType.IMPLEMENTOR)).toEqual({ provider: "anthropic", modelId: "claude-3" });
+    });
+
+    it("should clear the default model", () => {
+      repository.setDefaultModel("anthropic", "claude-3");
+
+      expect(repository.clearDefaultModel()).toBe(true);
+      expect(repository.getDefaultModel()).toBeUndefined();
+      expect(repository.clearDefaultModel()).toBe(false);
+    });
+
+    it("should throw when removing the default model", () => {
+      repository.setDefaultModel("anthropic", "claude-3");
+
+      expect(() => repository.removeModel("anthropic", "claude-3"))
+        .toThrow("Cannot remove model anthropic/claude-3 - it is the default model");
+    });
+  });
+
+  describe("providers", () => {
+    it("should return empty array when providers.json is missing", () => {
+      repository = createModelRepository({ modelsJsonPath: TEST_MODELS_PATH });
+
       expect(repository.getAllProviders()).toEqual([]);
     });
 
-    it("addProvider should throw not implemented", () => {
-      expect(() => repository.addProvider({ name: "test" }))
-        .toThrow("addProvider not implemented");
+    it("should read providers from providers.json next to models.json", () => {
+      mockFiles({ providers: TEST_PROVIDERS });
+      repository = createModelRepository({ modelsJsonPath: TEST_MODELS_PATH });
+
+      expect(readFileSync).toHaveBeenCalledWith(TEST_PROVIDERS_PATH, "utf-8");
+      expect(repository.getAllProviders()).toEqual(TEST_PROVIDERS.providers);
+      expect(repository.getProvider("test")).toEqual({
+        name: "test",
+        kind: "openai-compatible",
+        baseUrl: "http://localhost:8080/v1",
+      });
+      expect(repository.getProvider("unknown")).toBeUndefined();
     });
 
-    it("removeProvider should throw not implemented", () => {
-      expect(() => repository.removeProvider("test"))
-        .toThrow("removeProvider not implemented");
+    it("should use custom providers path when provided", () => {
+      vi.mocked(existsSync).mockImplementation((path) => path === "/custom/providers.json");
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify(TEST_PROVIDERS));
+
+      repository = createModelRepository({
+        modelsJsonPath: TEST_MODELS_PATH,
+        providersJsonPath: "/custom/providers.json",
+      });
+
+      expect(repository.getAllProviders()).toHaveLength(3);
+    });
+
+    it("should handle corrupted providers.json gracefully", () => {
+      vi.mocked(existsSync).mockImplementation((path) => path === TEST_PROVIDERS_PATH);
+      vi.mocked(readFileSync).mockReturnValue("invalid json");
+
+      repository = createModelRepository({ modelsJsonPath: TEST_MODELS_PATH });
+
+      expect(repository.getAllProviders()).toEqual([]);
+    });
+
+    it("should add and persist a provider", () => {
+      repository = createModelRepository({ modelsJsonPath: TEST_MODELS_PATH });
+
+      repository.addProvider({ name: "local", kind: "openai-compatible", baseUrl: "http://localhost:11434/v1" });
+
+      expect(repository.getProvider("local")).toEqual({
+        name: "local",
+        kind: "openai-compatible",
+        baseUrl: "http://localhost:11434/v1",
+      });
+      expect(writeFileSync).toHaveBeenCalledWith(
+        TEST_PROVIDERS_PATH,
+        expect.stringContaining('"local"')
+      );
+    });
+
+    it("should throw if provider already exists", () => {
+      mockFiles({ providers: TEST_PROVIDERS });
+      repository = createModelRepository({ modelsJsonPath: TEST_MODELS_PATH });
+
+      expect(() => repository.addProvider({ name: "anthropic", kind: "anthropic" }))
+        .toThrow("Provider anthropic already exists");
+    });
+
+    it("should throw if the provider kind is unknown", () => {
+      repository = createModelRepository({ modelsJsonPath: TEST_MODELS_PATH });
+
+      expect(() => repository.addProvider({ name: "local", kind: "ollama" }))
+        .toThrow("Unknown provider kind ollama, expected one of anthropic, openai, openai-compatible, google");
+      expect(writeFileSync).not.toHaveBeenCalled();
+    });
+
+    it("should remove an unused provider", () => {
+      mockFiles({ providers: TEST_PROVIDERS });
+      repository = createModelRepository({ modelsJsonPath: TEST_MODELS_PATH });
+
+      expect(repository.removeProvider("test")).toBe(true);
+      expect(repository.getProvider("test")).toBeUndefined();
+      expect(writeFileSync).toHaveBeenCalledWith(TEST_PROVIDERS_PATH, expect.any(String));
+    });
+
+    it("should return false if provider not found", () => {
+      repository = createModelRepository({ modelsJsonPath: TEST_MODELS_PATH });
+
+      expect(repository.removeProvider("unknown")).toBe(false);
+    });
+
+    it("should throw if provider is used by a model", () => {
+      mockFiles({
+        models: { models: [{ provider: "anthropic", modelId: "claude-3" }], agentModels: {} },
+        providers: TEST_PROVIDERS,
+      });
+      repository = createModelRepository({ modelsJsonPath: TEST_MODELS_PATH });
+
+      expect(() => repository.removeProvider("anthropic"))
+        .toThrow("Cannot remove provider anthropic - used by model anthropic/claude-3");
+      expect(writeFileSync).not.toHaveBeenCalled();
     });
   });
 
@@ -271,12 +467,13 @@ describe("ModelRepository", () => {
       vi.mocked(existsSync).mockReturnValue(false);
       repository = createModelRepository({ modelsJsonPath: TEST_MODELS_PATH });
       
-      repository.addModel({ provider: "test", modelId: "model" });
+      repository.addProvider({ name: "test", kind: "openai-compatible" });
       
       expect(mkdirSync).toHaveBeenCalledWith("/test/.orchid", { recursive: true });
     });
 
     it("should save valid JSON", () => {
+      mockFiles({ providers: TEST_PROVIDERS });
       repository = createModelRepository({ modelsJsonPath: TEST_MODELS_PATH });
       repository.addModel({ provider: "anthropic", modelId: "claude-3" });
       repository.setModelForAgent(AgentType.IMPLEMENTOR, "anthropic", "claude-3");
@@ -290,6 +487,10 @@ describe("ModelRepository", () => {
   });
 
   describe("edge cases", () => {
+    beforeEach(() => {
+      mockFiles({ providers: TEST_PROVIDERS });
+    });
+
     it("should handle models with special characters in modelId", () => {
       repository = createModelRepository({ modelsJsonPath: TEST_MODELS_PATH });
       
@@ -311,11 +512,13 @@ describe("ModelRepository", () => {
     });
 
     it("should allow removing model after unassigning from all agents", () => {
-      vi.mocked(existsSync).mockReturnValue(true);
-      vi.mocked(readFileSync).mockReturnValue(JSON.stringify({
-        models: [{ provider: "anthropic", modelId: "claude-3" }],
-        agentModels: { [AgentType.IMPLEMENTOR]: { provider: "anthropic", modelId: "claude-3" } }
-      }));
+      mockFiles({
+        models: {
+          models: [{ provider: "anthropic", modelId: "claude-3" }],
+          agentModels: { [AgentType.IMPLEMENTOR]: { provider: "anthropic", modelId: "claude-3" } }
+        },
+        providers: TEST_PROVIDERS,
+      });
       repository = createModelRepository({ modelsJsonPath: TEST_MODELS_PATH });
       
       // First clear the assignment by setting to a different model
@@ -2,7 +2,8 @@
  * Model Repository
  *
  * Simple model configuration management for agents.
- * Stores models in .orchid/models.json with agent type assignments.
+ * Stores models in .orchid/models.json with agent type assignments,
+ * and the providers they are served by in .orchid/providers.json.
  */
 
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from "node:fs";
@@ -18,11 +19,32 @@ export interface Model {
   modelId: string;
 }
 
+/**
+ * APIs a provider can speak
+ */
+export const PROVIDER_KINDS = ["anthropic", "openai", "openai-compatible", "google"] as const;
+
+export type ProviderKind = typeof PROVIDER_KINDS[number];
+
 /**
  * Provider configuration
  */
 export interface Provider {
+  /** Unique provider name, referenced by models */
   name: string;
+  /** API the provider speaks, one of PROVIDER_KINDS */
+  kind: string;
+  /** Base URL of the provider's API, if not the kind's default */
+  baseUrl?: string;
+  /** Name of the environment variable holding the API key */
+  apiKeyEnv?: string;
+}
+
+/**
+ * Providers.json file structure
+ */
+interface ProvidersJson {
+  providers: Provider[];
 }
 
 /**
@@ -31,6 +53,8 @@ export interface Provider {
 interface ModelsJson {
   models: Model[];
   agentModels: Partial<Record<AgentType, Model>>;
+  /** Workspace default used by agent types without their own assignment */
+  defaultModel?: Model;
 }
 
 /**
@@ -39,19 +63,25 @@ interface ModelsJson {
 export interface ModelRepositoryOptions {
   /** Path to models.json file */
   modelsJsonPath?: string;
+  /** Path to providers.json file. Defaults to providers.json next to models.json */
+  providersJsonPath?: string;
 }
 
 /**
  * Simple repository for managing model configurations.
- * Reads/writes to .orchid/models.json
+ * Reads/writes to .orchid/models.json and .orchid/providers.json
  */
 export class ModelRepository {
   private modelsJsonPath: string;
+  private providersJsonPath: string;
   private data: ModelsJson = { models: [], agentModels: {} };
+  private providersData: ProvidersJson = { providers: [] };
 
   constructor(options: ModelRepositoryOptions = {}) {
     this.modelsJsonPath = options.modelsJsonPath ?? join(getOrchidDir(), "models.json");
+    this.providersJsonPath = options.providersJsonPath ?? join(dirname(this.modelsJsonPath), "providers.json");
     this.load();
+    this.loadProviders();
   }
 
   /**
@@ -64,12 +94,14 @@ export class ModelRepository {
   /**
    * Add a model
    * @param model - The model to add
-   * @throws Error if model already exists
+   * @throws Error if model already exists or its provider is not configured
    */
   addModel(model: Model): void {
     if (this.hasModel(model.provider, model.modelId)) {
       throw new Error(`Model ${model.provider}/${model.modelId} already exists`);
     }
+
+    this.assertProviderExists(model.provider);
     this.data.models.push({ provider: model.provider, modelId: model.modelId });
     this.save();
   }
@@ -91,6 +123,12 @@ export class ModelRepository {
       }
     }
 
+    // Check if used as the workspace default
+    const defaultModel = this.data.defaultModel;
+    if (defaultModel && this.getModelKey(defaultModel.provider, defaultModel.modelId) === key) {
+      throw new Error(`Cannot remove model ${key} - it is the default model`);
+    }
+
     const index = this.data.models.findIndex(
       m => m.provider === provider && m.modelId === modelId
     );
@@ -121,43 +159,144 @@ export class ModelRepository {
    * @throws Error if model doesn't exist or provider is not configured
    */
   setModelForAgent(agentType: AgentType, provider: string, modelId: string): void {
-    // Validate provider exists (placeholder - will be implemented with providers.json)
-    // For now, just validate model exists
     if (!this.hasModel(provider, modelId)) {
       throw new Error(`Model ${provider}/${modelId} not found`);
     }
 
+    this.assertProviderExists(provider);
+
     this.data.agentModels[agentType] = { provider, modelId };
     this.save();
   }
 
   /**
-   * Get all providers (placeholder - will read from providers.json in future PR)
-   * @returns Empty array for now
+   * Remove the model assignment for an agent type
+   * @param agentType - The agent type
+   * @returns true if an assignment was removed, false if none was set
+   */
+  unassignModelForAgent(agentType: AgentType): boolean {
+    if (!this.data.agentModels[agentType]) {
+      return false;
+    }
+
+    delete this.data.agentModels[agentType];
+    this.save();
+    return true;
+  }
+
+  /**
+   * Get the workspace default model
+   * @returns The model or undefined if not set
+   */
+  getDefaultModel(): Model | undefined {
+    return this.data.defaultModel;
+  }
+
+  /**
+   * Set the workspace default model, used by agent types without their own assignment
+   * @param provider - The provider identifier (must exist)
+   * @param modelId - The model identifier (must exist)
+   * @throws Error if model doesn't exist or provider is not configured
+   */
+  setDefaultModel(provider: string, modelId: string): void {
+    if (!this.hasModel(provider, modelId)) {
+      throw new Error(`Model ${provider}/${modelId} not found`);
+    }
+
+    this.assertProviderExists(provider);
+
+    this.data.defaultModel = { provider, modelId };
+    this.save();
+  }
+
+  /**
+   * Clear the workspace default model
+   * @returns true if a default was cleared, false if none was set
+   */
+  clearDefaultModel(): boolean {
+    if (!this.data.defaultModel) {
+      return false;
+    }
+
+    delete this.data.defaultModel;
+    this.save();
+    return true;
+  }
+
+  /**
+   * Resolve the model an agent type should run with
+   * @param agentType - The agent type
+   * @returns The agent's assigned model, the default model, or undefined if neither is set
+   */
+  resolveModelForAgent(agentType: AgentType): Model | undefined {
+    return this.data.agentModels[agentType] ?? this.data.defaultModel;
+  }
+
+  /**
+   * Get all configured providers
    */
   getAllProviders(): Provider[] {
-    // TODO: Read from providers.json in future PR
-    return [];
+    return this.providersData.providers.map(p => ({ ...p }));
   }
 
   /**
-   * Add a provider (placeholder - will write to providers.json in future PR)
+   * Get a provider by name
+   * @param name - The provider name
+   * @returns The provider or undefined if not configured
+   */
+  getProvider(name: string): Provider | undefined {
+    const provider = this.providersData.providers.find(p => p.name === name);
+    return provider ? { ...provider } : undefined;
+  }
+
+  /**
+   * Add a provider
    * @param provider - The provider to add
-   * @throws Error always - not implemented yet
+   * @throws Error if provider already exists or its kind is unknown
    */
   addProvider(provider: Provider): void {
-    // TODO: Implement with providers.json in future PR
-    throw new Error("addProvider not implemented - will be available in providers.json PR");
+    if (this.getProvider(provider.name)) {
+      throw new Error(`Provider ${provider.name} already exists`);
+    }
+    if (!(PROVIDER_KINDS as readonly string[]).includes(provider.kind)) {
+      throw new Error(`Unknown provider kind ${provider.kind}, expected one of ${PROVIDER_KINDS.join(", ")}`);
+    }
+
+    this.providersData.providers.push({ ...provider });
+    this.saveProviders();
   }
 
   /**
-   * Remove a provider (placeholder - will write to providers.json in future PR)
+   * Remove a provider
    * @param name - The provider name
-   * @throws Error always - not implemented yet
+   * @returns true if removed, false if not found
+   * @throws Error if any model uses the provider
    */
   removeProvider(name: string): boolean {
-    // TODO: Implement with providers.json in future PR
-    throw new Error("removeProvider not implemented - will be available in providers.json PR");
+    // Check if used by any model
+    const model = this.data.models.find(m => m.provider === name);
+    if (model) {
+      throw new Error(`Cannot remove provider ${name} - used by model ${this.getModelKey(model.provider, model.modelId)}`);
+    }
+
+    const index = this.providersData.providers.findIndex(p => p.name === name);
+    if (index === -1) {
+      return false;
+    }
+
+    this.providersData.providers.splice(index, 1);
+    this.saveProviders();
+    return true;
+  }
+
+  /**
+   * Ensure a provider is configured
+   * @throws Error if the provider is not in providers.json
+   */
+  private assertProviderExists(name: string): void {
+    if (!this.getProvider(name)) {
+      throw new Error(`Provider ${name} not found`);
+    }
   }
 
   /**
@@ -191,7 +330,8 @@ export class ModelRepository {
       const parsed = JSON.parse(content) as Partial<ModelsJson>;
       this.data = {
         models: parsed.models ?? [],
-        agentModels: parsed.agentModels ?? {}
+        agentModels: parsed.agentModels ?? {},
+        defaultModel: parsed.defaultModel,
       };
     } catch {
       // If file is corrupted, start fresh
@@ -199,15 +339,50 @@ export class ModelRepository {
     }
   }
 
+  /**
+   * Load from providers.json
+   */
+  private loadProviders(): void {
+    if (!existsSync(this.providersJsonPath)) {
+      this.providersData = { providers: [] };
+      return;
+    }
+
+    try {
+      const content = readFileSync(this.providersJsonPath, "utf-8");
+      const parsed = JSON.parse(content) as Partial<ProvidersJson>;
+      this.providersData = {
+        providers: parsed.providers ?? [],
+      };
+    } catch {
+      // If file is corrupted, start fresh
+      this.providersData = { providers: [] };
+    }
+  }
+
   /**
    * Save to models.json
    */
   private save(): void {
-    const dir = dirname(this.modelsJsonPath);
+    this.writeJson(this.modelsJsonPath, this.data);
+  }
+
+  /**
+   * Save to providers.json
+   */
+  private saveProviders(): void {
+    this.writeJson(this.providersJsonPath, this.providersData);
+  }
+
+  /**
+   * Write data as formatted JSON, creating the parent directory if needed
+   */
+  private writeJson(path: string, data: ModelsJson | ProvidersJson): void {
+    const dir = dirname(path);
     if (!existsSync(dir)) {
       mkdirSync(dir, { recursive: true });
     }
-    writeFileSync(this.modelsJsonPath, JSON.stringify(this.data, null, 2));
+    writeFileSync(path, JSON.stringify(data, null, 2));
   }
 }
 
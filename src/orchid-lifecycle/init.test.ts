@@ -360,6 +360,45 @@ describe('init.ts - Orchid Initialization', () => {
       // Verify cleanup would be attempted (mkdirSync should have been called for structure creation)
       expect(vi.mocked(mkdirSync)).toHaveBeenCalled();
     });
+
+    it('should pass clone options to git', async () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+      vi.mocked(readdirSync).mockReturnValue([] as any);
+
+      const mockGitOps = new MockGitOperations();
+      const cloneSpy = vi.spyOn(mockGitOps, 'clone');
+      const result = await initializeOrchid(
+        'https://github.com/user/repo.git',
+        { branch: 'develop', depth: 1, recurseSubmodules: true },
+        mockGitOps
+      );
+
+      expect(result.success).toBe(true);
+      expect(cloneSpy).toHaveBeenCalledWith(
+        'https://github.com/user/repo.git',
+        expect.any(String),
+        { branch: 'develop', depth: 1, recurseSubmodules: true }
+      );
+    });
+
+    it('should not initialize dyson-swarm when git clone fails', async () => {
+      const { initialize } = await import('dyson-swarm');
+      const createdPaths: string[] = [];
+
+      vi.mocked(existsSync).mockImplementation((path) => createdPaths.includes(String(path)));
+      vi.mocked(readdirSync).mockReturnValue([] as any);
+      vi.mocked(mkdirSync).mockImplementation((path) => {
+        createdPaths.push(String(path));
+        return '';
+      });
+
+      const mockGitOps = new MockGitOperations(true);
+      const result = await initializeOrchid('https://github.com/user/repo.git', {}, mockGitOps);
+
+      expect(result.success).toBe(false);
+      expect(vi.mocked(initialize)).not.toHaveBeenCalled();
+      expect(vi.mocked(rmSync)).toHaveBeenCalledWith(createdPaths[0], { recursive: true, force: true });
+    });
   });
   describe('dyson-swarm integration', () => {
     it('should initialize dyson-swarm if not already initialized', async () => {
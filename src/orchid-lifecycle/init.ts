@@ -8,7 +8,7 @@
 import { existsSync, mkdirSync, writeFileSync, rmSync, readFileSync, readdirSync } from "node:fs";
 import { join } from "node:path";
 import { cwd } from "node:process";
-import { cloneRepository, GitOperations, defaultGitOperations } from "../core/git/manager.js";
+import { cloneRepository, GitOperations, CloneOptions, defaultGitOperations } from "../core/git/manager.js";
 import {
   getOrchidDir,
   getPidFile,
@@ -135,7 +135,7 @@ export function createOrchidStructure(): { success: boolean; message: string; cl
       message: "Created orchid directory structure",
       cleanup: () => {
         // Cleanup on failure
-        createdPaths.reverse().forEach(path => {
+        [...createdPaths].reverse().forEach(path => {
           try {
             if (existsSync(path)) {
               rmSync(path, { recursive: true, force: true });
@@ -154,7 +154,7 @@ export function createOrchidStructure(): { success: boolean; message: string; cl
   }
 }
 
-export interface InitializeOrchidOptions {
+export interface InitializeOrchidOptions extends CloneOptions {
   allowNonEmptyDir?: boolean;
 }
 
@@ -166,7 +166,7 @@ export async function initializeOrchid(
   options: InitializeOrchidOptions = {},
   gitOps: GitOperations = defaultGitOperations
 ): Promise<InitResult> {
-  const { allowNonEmptyDir = false } = options;
+  const { allowNonEmptyDir = false, ...cloneOptions } = options;
 
   // Check if already initialized
   if (isOrchidInitialized()) {
@@ -194,15 +194,9 @@ export async function initializeOrchid(
   }
 
   try {
-    // Check if dyson-swarm is initialized, and initialize it if not
-    const dysonSwarmInitialized = await isDysonSwarmInitialized();
-    if (!dysonSwarmInitialized) {
-      await initializeDysonSwarm();
-    }
-
-    // Clone repository to main directory
+    // Clone repository to main directory first so a failed clone leaves nothing behind
     const mainRepoDir = getMainRepoDir();
-    const cloneResult = await cloneRepository(repoUrl, mainRepoDir, gitOps);
+    const cloneResult = await cloneRepository(repoUrl, mainRepoDir, gitOps, cloneOptions);
 
     if (!cloneResult.success) {
       // Clean up on failure
@@ -213,6 +207,12 @@ export async function initializeOrchid(
       };
     }
 
+    // Check if dyson-swarm is initialized, and initialize it if not
+    const dysonSwarmInitialized = await isDysonSwarmInitialized();
+    if (!dysonSwarmInitialized) {
+      await initializeDysonSwarm();
+    }
+
     return {
       success: true,
       message: `Successfully initialized orchid with repository ${repoUrl}\nMain repository cloned to: ${mainRepoDir}\nWorktrees directory: ${getWorktreesDir()}\n\nStart the orchid daemon with: orchid up`,
@@ -4,11 +4,17 @@ import { readFileSync } from "node:fs";
 let agentPromptTemplate: string | undefined;
 let reviewerPromptTemplate: string | undefined;
 let mergerPromptTemplate: string | undefined;
+let plannerPromptTemplate: string | undefined;
+let resumePromptTemplate: string | undefined;
+let implementorRevisionPromptTemplate: string | undefined;
+let implementorVerificationPromptTemplate: string | undefined;
+let implementorRejectionPromptTemplate: string | undefined;
 
 // System prompt cache
 let implementorSystemPrompt: string | undefined;
 let reviewerSystemPrompt: string | undefined;
 let mergerSystemPrompt: string | undefined;
+let plannerSystemPrompt: string | undefined;
 
 function getImplementorAgentPromptTemplate(): string {
   if (!agentPromptTemplate) {
@@ -40,6 +46,56 @@ function getMergerPromptTemplate(): string {
   return mergerPromptTemplate;
 }
 
+function getPlannerPromptTemplate(): string {
+  if (!plannerPromptTemplate) {
+    plannerPromptTemplate = readFileSync(
+      join(process.cwd(), "templates", "planner-agent-prompt.md"),
+      "utf-8"
+    );
+  }
+  return plannerPromptTemplate;
+}
+
+function getResumePromptTemplate(): string {
+  if (!resumePromptTemplate) {
+    resumePromptTemplate = readFileSync(
+      join(process.cwd(), "templates", "resume-agent-prompt.md"),
+      "utf-8"
+    );
+  }
+  return resumePromptTemplate;
+}
+
+function getImplementorRevisionPromptTemplate(): string {
+  if (!implementorRevisionPromptTemplate) {
+    implementorRevisionPromptTemplate = readFileSync(
+      join(process.cwd(), "templates", "implementor-revision-prompt.md"),
+      "utf-8"
+    );
+  }
+  return implementorRevisionPromptTemplate;
+}
+
+function getImplementorVerificationPromptTemplate(): string {
+  if (!implementorVerificationPromptTemplate) {
+    implementorVerificationPromptTemplate = readFileSync(
+      join(process.cwd(), "templates", "implementor-verification-prompt.md"),
+      "utf-8"
+    );
+  }
+  return implementorVerificationPromptTemplate;
+}
+
+function getImplementorRejectionPromptTemplate(): string {
+  if (!implementorRejectionPromptTemplate) {
+    implementorRejectionPromptTemplate = readFileSync(
+      join(process.cwd(), "templates", "implementor-rejection-prompt.md"),
+      "utf-8"
+    );
+  }
+  return implementorRejectionPromptTemplate;
+}
+
 export interface AgentPromptData {
   taskTitle: string;
   taskDescription: string;
@@ -50,33 +106,187 @@ export interface ReviewerPromptData {
   taskTitle: string;
   taskDescription: string;
   worktreePath: string;
+  verdictPath: string;
+  /** Summary of the verification commands that passed before the review, if any ran */
+  verificationSummary?: string;
 }
 
 export interface MergerPromptData {
   taskId: string;
   worktreePath: string;
+  branch: string;
+  /** Why the orchestrator's own git merge failed, if it tried one */
+  mergeContext?: string;
 }
 
-export function fillImplementorAgentPromptTemplate(data: AgentPromptData): string {
-  return getImplementorAgentPromptTemplate()
+/**
+ * Fill the implementor prompt
+ * @param template - Template to fill instead of the default one, e.g. a pipeline phase's prompt
+ */
+export function fillImplementorAgentPromptTemplate(
+  data: AgentPromptData,
+  template: string = getImplementorAgentPromptTemplate()
+): string {
+  return template
     .replace(/\{\{taskTitle\}\}/g, data.taskTitle || "")
     .replace(/\{\{taskDescription\}\}/g, data.taskDescription || "")
     .replace(/\{\{worktreePath\}\}/g, data.worktreePath);
 }
 
-export function fillReviewerPromptTemplate(data: ReviewerPromptData): string {
-  return getReviewerPromptTemplate()
+/**
+ * Fill the reviewer prompt
+ * @param template - Template to fill instead of the default reviewer prompt
+ */
+export function fillReviewerPromptTemplate(
+  data: ReviewerPromptData,
+  template: string = getReviewerPromptTemplate()
+): string {
+  return template
     .replace(/\{\{taskTitle\}\}/g, data.taskTitle || "")
     .replace(/\{\{taskDescription\}\}/g, data.taskDescription || "")
-    .replace(/\{\{worktreePath\}\}/g, data.worktreePath);
+    .replace(/\{\{worktreePath\}\}/g, data.worktreePath)
+    .replace(/\{\{verdictPath\}\}/g, data.verdictPath)
+    .replace(/\{\{verification\}\}/g, () => formatVerificationSummary(data.verificationSummary));
 }
 
-export function fillMergerPromptTemplate(data: MergerPromptData): string {
-  return getMergerPromptTemplate()
+function formatVerificationSummary(verificationSummary: string | undefined): string {
+  if (!verificationSummary) {
+    return "";
+  }
+  return `## Verification
+
+The project's checks were run in the worktree after implementation and passed:
+
+${verificationSummary}
+
+`;
+}
+
+/**
+ * Fill the merger prompt
+ * @param template - Template to fill instead of the default merger prompt
+ */
+export function fillMergerPromptTemplate(
+  data: MergerPromptData,
+  template: string = getMergerPromptTemplate()
+): string {
+  return template
     .replace(/\{\{taskId\}\}/g, data.taskId || "")
+    .replace(/\{\{worktreePath\}\}/g, data.worktreePath)
+    .replace(/\{\{branch\}\}/g, data.branch)
+    .replace(/\{\{mergeContext\}\}/g, () => formatMergeContext(data.mergeContext));
+}
+
+function formatMergeContext(mergeContext: string | undefined): string {
+  if (!mergeContext) {
+    return "";
+  }
+  return `## Automatic Merge Failed
+
+The orchestrator tried to merge this task with git and could not finish. The mainline was left as it was before the attempt:
+
+${mergeContext}
+
+Resolve this as part of your merge.
+
+`;
+}
+
+export interface PlannerPromptData {
+  taskTitle: string;
+  taskDescription: string;
+  /** Repository the planner explores */
+  repositoryPath: string;
+  /** File the planner writes its plan to */
+  planPath: string;
+}
+
+/**
+ * Fill the planner prompt
+ * @param template - Template to fill instead of the default one, e.g. a pipeline phase's prompt
+ */
+export function fillPlannerPromptTemplate(
+  data: PlannerPromptData,
+  template: string = getPlannerPromptTemplate()
+): string {
+  return template
+    .replace(/\{\{taskTitle\}\}/g, data.taskTitle || "")
+    .replace(/\{\{taskDescription\}\}/g, data.taskDescription || "")
+    .replace(/\{\{repositoryPath\}\}/g, data.repositoryPath)
+    .replace(/\{\{planPath\}\}/g, data.planPath);
+}
+
+export interface ImplementorRevisionPromptData {
+  taskTitle: string;
+  taskDescription: string;
+  worktreePath: string;
+  reviewFeedback: string[];
+}
+
+export function fillImplementorRevisionPromptTemplate(data: ImplementorRevisionPromptData): string {
+  const feedback = data.reviewFeedback.map((reason) => `- ${reason}`).join("\n");
+  return getImplementorRevisionPromptTemplate()
+    .replace(/\{\{taskTitle\}\}/g, data.taskTitle || "")
+    .replace(/\{\{taskDescription\}\}/g, data.taskDescription || "")
+    .replace(/\{\{reviewFeedback\}\}/g, () => feedback)
     .replace(/\{\{worktreePath\}\}/g, data.worktreePath);
 }
 
+export interface ImplementorVerificationPromptData {
+  taskTitle: string;
+  taskDescription: string;
+  worktreePath: string;
+  /** How each verification command went */
+  verificationSummary: string;
+  /** Output of the command that failed */
+  verificationOutput: string;
+}
+
+export function fillImplementorVerificationPromptTemplate(data: ImplementorVerificationPromptData): string {
+  return getImplementorVerificationPromptTemplate()
+    .replace(/\{\{taskTitle\}\}/g, data.taskTitle || "")
+    .replace(/\{\{taskDescription\}\}/g, data.taskDescription || "")
+    .replace(/\{\{worktreePath\}\}/g, data.worktreePath)
+    .replace(/\{\{verificationSummary\}\}/g, () => data.verificationSummary)
+    .replace(/\{\{verificationOutput\}\}/g, () => data.verificationOutput);
+}
+
+export interface ImplementorRejectionPromptData {
+  taskTitle: string;
+  taskDescription: string;
+  worktreePath: string;
+  /** Why the task was rejected before merge */
+  rejectionReason: string;
+}
+
+export function fillImplementorRejectionPromptTemplate(data: ImplementorRejectionPromptData): string {
+  return getImplementorRejectionPromptTemplate()
+    .replace(/\{\{taskTitle\}\}/g, data.taskTitle || "")
+    .replace(/\{\{taskDescription\}\}/g, data.taskDescription || "")
+    .replace(/\{\{worktreePath\}\}/g, data.worktreePath)
+    .replace(/\{\{rejectionReason\}\}/g, () => data.rejectionReason);
+}
+
+/** Why an agent is reattached to its latest session */
+export type ResumeReason = "restart" | "pause";
+
+const RESUME_REASONS: Record<ResumeReason, string> = {
+  restart: "The orchid daemon was restarted while you were working on this task.",
+  pause: "This task was paused by a person while you were working on it, and has now been resumed.",
+};
+
+export interface ResumePromptData {
+  /** Where the agent works: its worktree, or the main repository for planners */
+  workingDirectory: string;
+  reason: ResumeReason;
+}
+
+export function fillResumePromptTemplate(data: ResumePromptData): string {
+  return getResumePromptTemplate()
+    .replace(/\{\{resumeReason\}\}/g, RESUME_REASONS[data.reason])
+    .replace(/\{\{workingDirectory\}\}/g, data.workingDirectory);
+}
+
 // System Prompt Retrieval Functions
 
 export function getImplementorSystemPrompt(): string {
@@ -108,3 +318,13 @@ export function getMergerSystemPrompt(): string {
   }
   return mergerSystemPrompt;
 }
+
+export function getPlannerSystemPrompt(): string {
+  if (!plannerSystemPrompt) {
+    plannerSystemPrompt = readFileSync(
+      join(process.cwd(), "templates", "system", "planner-system-prompt.md"),
+      "utf-8"
+    );
+  }
+  return plannerSystemPrompt;
+}
@@ -2,10 +2,22 @@ export {
   fillImplementorAgentPromptTemplate, 
   fillReviewerPromptTemplate,
   fillMergerPromptTemplate,
+  fillPlannerPromptTemplate,
+  fillResumePromptTemplate,
+  fillImplementorRevisionPromptTemplate,
+  fillImplementorVerificationPromptTemplate,
+  fillImplementorRejectionPromptTemplate,
   getImplementorSystemPrompt,
   getReviewerSystemPrompt,
   getMergerSystemPrompt,
+  getPlannerSystemPrompt,
   type AgentPromptData,
   type ReviewerPromptData,
-  type MergerPromptData 
+  type MergerPromptData,
+  type PlannerPromptData,
+  type ResumePromptData,
+  type ResumeReason,
+  type ImplementorRevisionPromptData,
+  type ImplementorVerificationPromptData,
+  type ImplementorRejectionPromptData
 } from './filler.js';
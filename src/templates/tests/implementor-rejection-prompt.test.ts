@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { fillImplementorRejectionPromptTemplate } from "../../templates/index.js";
+
+describe("fillImplementorRejectionPromptTemplate", () => {
+  it("should correctly fill the implementor rejection prompt template", () => {
+    const data = {
+      taskTitle: "Test Task Title",
+      taskDescription: "This is a test task description.",
+      worktreePath: "/path/to/worktree",
+      rejectionReason: "The new endpoint must require authentication.",
+    };
+
+    const result = fillImplementorRejectionPromptTemplate(data);
+
+    expect(result).toBe(`# Merge Rejected
+
+You are an implementor agent. You previously implemented this task and it passed review, but the person who has to approve it before it is merged rejected it.
+
+## Test Task Title
+
+This is a test task description.
+
+## Reason for the Rejection
+
+The new endpoint must require authentication.
+
+## Instructions
+
+1. Read the reason for the rejection carefully
+2. Review the current state of the worktree to see what was already implemented
+3. Change the implementation to address the rejection, following existing code conventions
+4. Update or add tests where needed
+5. Ensure all existing tests pass
+
+## Working Environment
+
+You are working in the same worktree as the original implementation: /path/to/worktree
+
+Remember: Focus on what the approver asked for. Do not start the task over or make unrelated changes.
+`);
+  });
+});
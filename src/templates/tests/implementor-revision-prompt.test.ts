@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { fillImplementorRevisionPromptTemplate } from "../../templates/index.js";
+
+describe("fillImplementorRevisionPromptTemplate", () => {
+  it("should correctly fill the implementor revision prompt template", () => {
+    const data = {
+      taskTitle: "Test Task Title",
+      taskDescription: "This is a test task description.",
+      worktreePath: "/path/to/worktree",
+      reviewFeedback: ["Add tests for the parser", "Handle empty input"],
+    };
+
+    const result = fillImplementorRevisionPromptTemplate(data);
+
+    expect(result).toBe(`# Review Feedback
+
+You are an implementor agent. You previously implemented this task and a reviewer has requested changes before it can be merged.
+
+## Test Task Title
+
+This is a test task description.
+
+## Requested Changes
+
+- Add tests for the parser
+- Handle empty input
+
+## Instructions
+
+1. Read each requested change carefully
+2. Review the current state of the worktree to see what was already implemented
+3. Address every requested change, following existing code conventions
+4. Update or add tests where the feedback calls for it
+5. Ensure all existing tests pass
+
+## Working Environment
+
+You are working in the same worktree as the original implementation: /path/to/worktree
+
+Remember: Focus on the reviewer's feedback. Do not start the task over or make unrelated changes.
+`);
+  });
+});
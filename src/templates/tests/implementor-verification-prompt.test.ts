@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { fillImplementorVerificationPromptTemplate } from "../../templates/index.js";
+
+describe("fillImplementorVerificationPromptTemplate", () => {
+  it("should correctly fill the implementor verification prompt template", () => {
+    const data = {
+      taskTitle: "Test Task Title",
+      taskDescription: "This is a test task description.",
+      worktreePath: "/path/to/worktree",
+      verificationSummary: "- `npm run build` passed in 12s\n- `npm test` failed with exit code 1 after 30s",
+      verificationOutput: "FAIL src/parser.test.ts",
+    };
+
+    const result = fillImplementorVerificationPromptTemplate(data);
+
+    expect(result).toBe(`# Verification Failed
+
+You are an implementor agent. You previously implemented this task, but the project's checks failed when they were run in your worktree. The task can't be reviewed until they pass.
+
+## Test Task Title
+
+This is a test task description.
+
+## Check Results
+
+- \`npm run build\` passed in 12s
+- \`npm test\` failed with exit code 1 after 30s
+
+## Output of the Failed Check
+
+\`\`\`
+FAIL src/parser.test.ts
+\`\`\`
+
+## Instructions
+
+1. Read the output to find out why the check failed
+2. Review the current state of the worktree to see what was already implemented
+3. Fix the cause of the failure, following existing code conventions
+4. Run the failed check yourself to confirm it passes
+
+## Working Environment
+
+You are working in the same worktree as the original implementation: /path/to/worktree
+
+Remember: Focus on making the checks pass. Do not start the task over, and do not weaken or skip checks to get them to pass.
+`);
+  });
+});
@@ -6,6 +6,7 @@ describe("fillMergerPromptTemplate", () => {
     const data = {
       taskId: "test-task-123",
       worktreePath: "/path/to/worktree",
+      branch: "orchid/test-task-123",
     };
 
     const result = fillMergerPromptTemplate(data);
@@ -24,7 +25,7 @@ Your goal is to safely merge the changes from the worktree into the mainline (ma
 
 1. **Check Current State**
    - Review the worktree at: /path/to/worktree
-   - Verify you are on the correct branch
+   - Verify you are on the task branch \`orchid/test-task-123\`
    - Check that all changes are committed
 
 2. **Prepare Mainline**
@@ -33,22 +34,22 @@ Your goal is to safely merge the changes from the worktree into the mainline (ma
    - Verify there are no uncommitted changes
 
 3. **Merge Changes**
-   - Merge the worktree branch into mainline
+   - Merge the task branch \`orchid/test-task-123\` into mainline
    - Resolve any merge conflicts if they arise
    - Ensure the merge is clean and complete
 
 4. **Verify Merge**
    - Run any tests to ensure the merge didn't break anything
    - Verify the changes are present in mainline
-   - Check that the worktree branch can be safely deleted
+   - Check that the task branch can be safely deleted
 
 5. **Cleanup**
    - Push the merged changes to the remote
-   - Optionally: delete the worktree branch (or leave it for the orchestrator to clean up)
+   - Leave the task branch in place - the orchestrator deletes it together with the worktree
 
 ## Working Environment
 
-You are merging work done in: /path/to/worktree
+You are merging work done in: /path/to/worktree (branch \`orchid/test-task-123\`)
 
 ## Output Format
 
@@ -61,4 +62,25 @@ After completing the merge:
 Remember: Safety first. If you encounter issues you cannot resolve, report them clearly.
 `);
   });
+
+  it("should explain why the orchestrator's git merge failed", () => {
+    const result = fillMergerPromptTemplate({
+      taskId: "test-task-123",
+      worktreePath: "/path/to/worktree",
+      branch: "orchid/test-task-123",
+      mergeContext: "Merging orchid/test-task-123 with the squash strategy conflicts in: src/a.ts",
+    });
+
+    expect(result).toContain(`## Task ID: test-task-123
+
+## Automatic Merge Failed
+
+The orchestrator tried to merge this task with git and could not finish. The mainline was left as it was before the attempt:
+
+Merging orchid/test-task-123 with the squash strategy conflicts in: src/a.ts
+
+Resolve this as part of your merge.
+
+## Merge Process`);
+  });
 });
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { fillPlannerPromptTemplate } from "../../templates/index.js";
+
+describe("fillPlannerPromptTemplate", () => {
+  const data = {
+    taskTitle: "Migrate the auth module",
+    taskDescription: "Move authentication to the new session store.",
+    repositoryPath: "/path/to/repo",
+    planPath: "/path/to/planner-1.plan.json",
+  };
+
+  it("should correctly fill the planner prompt template", () => {
+    const result = fillPlannerPromptTemplate(data);
+
+    expect(result).toBe(`# Task Planning
+
+You are a planner agent assigned to an epic: a task too large to implement in one go. Break it down into smaller tasks that implementor agents can each complete on their own.
+
+## Task: Migrate the auth module
+
+**Task Description:**
+Move authentication to the new session store.
+
+## Planning Guidelines
+
+Each planned task is implemented in its own worktree, reviewed and merged before the tasks that depend on it start. Plan with that in mind.
+
+### What Makes a Good Task
+
+1. **Self-contained**: An implementor can complete it from its title and description alone
+2. **Small**: It fits in a single focused implementation session
+3. **Mergeable**: The codebase builds and its tests pass once the task is merged on its own
+4. **Specific**: The description names the modules, files and behavior involved, and how to tell the work is done
+
+### Ordering and Dependencies
+
+- List tasks in the order they should be done
+- A task may only depend on tasks listed before it
+- Only add a dependency when a task really needs the other task's work merged first; independent tasks run in parallel
+
+### What NOT to Do
+
+- **Don't implement anything**: Your job is the plan, not the code
+- **Don't split too finely**: Trivial tasks add review and merge overhead without making the work easier
+- **Don't add work that was not asked for**: Stay within the scope of the epic
+
+## Working Environment
+
+The repository to explore is at: /path/to/repo
+
+## Planning Process
+
+1. Understand what the epic asks for
+2. Explore the repository to find the code the work touches
+3. Decide how to split the work and in which order
+4. Write a clear title and description for each task
+
+## Output Format
+
+When your plan is done, write it as JSON to: /path/to/planner-1.plan.json
+
+\`\`\`json
+{
+  "tasks": [
+    { "id": "schema", "title": "...", "description": "..." },
+    { "id": "api", "title": "...", "description": "...", "dependsOn": ["schema"] }
+  ]
+}
+\`\`\`
+
+Each \`id\` is a short name unique within the plan, used only by \`dependsOn\`. Orchid creates a task for each entry once you are done.
+
+Do not modify files in the repository - the plan file is the only file you should write.
+`);
+  });
+
+  it("should fill a custom template with the same placeholders", () => {
+    const result = fillPlannerPromptTemplate(data, "Plan {{taskTitle}} in {{repositoryPath}} to {{planPath}}");
+
+    expect(result).toBe("Plan Migrate the auth module in /path/to/repo to /path/to/planner-1.plan.json");
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { fillResumePromptTemplate } from "../../templates/index.js";
+
+describe("fillResumePromptTemplate", () => {
+  it("should correctly fill the resume prompt template", () => {
+    const data = {
+      workingDirectory: "/path/to/worktree",
+      reason: "restart" as const,
+    };
+
+    const result = fillResumePromptTemplate(data);
+
+    expect(result).toBe(`# Resume Work
+
+The orchid daemon was restarted while you were working on this task. Your previous conversation has been restored from your session.
+
+## Working Environment
+
+You are still working in: /path/to/worktree
+
+## Next Steps
+
+1. Review what you have already done in this session and the current state of your working directory
+2. Continue from where you left off - do not start the task over
+3. Finish the remaining work and report back as originally instructed
+`);
+  });
+
+  it("should tell the agent when a person paused the task", () => {
+    const result = fillResumePromptTemplate({ workingDirectory: "/path/to/repo", reason: "pause" });
+
+    expect(result).toContain("This task was paused by a person while you were working on it, and has now been resumed.");
+    expect(result).not.toContain("restarted");
+    expect(result).toContain("You are still working in: /path/to/repo");
+  });
+});
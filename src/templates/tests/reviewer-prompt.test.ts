@@ -7,6 +7,7 @@ describe("fillReviewerPromptTemplate", () => {
       taskTitle: "Test Task Title",
       taskDescription: "This is a test task description.",
       worktreePath: "/path/to/worktree",
+      verdictPath: "/path/to/reviewer-1.verdict.json",
     };
 
     const result = fillReviewerPromptTemplate(data);
@@ -54,10 +55,34 @@ You are reviewing work done in: /path/to/worktree
 
 ## Output Format
 
-- If approved: Provide brief confirmation that requirements are met
-- If changes needed: Clearly explain what needs to be fixed and why
+When your review is done, write your verdict as JSON to: /path/to/reviewer-1.verdict.json
+
+- If approved: \`{ "verdict": "approved" }\`
+- If changes needed: \`{ "verdict": "changes_requested", "reasons": ["..."] }\` with one entry per issue, clearly explaining what needs to be fixed and why
+
+Do not modify files in the worktree - the verdict file is the only file you should write.
 
 Remember: Your job is to ensure quality, not perfection. Be helpful, not pedantic.
 `);
   });
+
+  it("should tell the reviewer which checks passed", () => {
+    const result = fillReviewerPromptTemplate({
+      taskTitle: "Test Task Title",
+      taskDescription: "This is a test task description.",
+      worktreePath: "/path/to/worktree",
+      verdictPath: "/path/to/reviewer-1.verdict.json",
+      verificationSummary: "- `npm test` passed in 30s",
+    });
+
+    expect(result).toContain(`This is a test task description.
+
+## Verification
+
+The project's checks were run in the worktree after implementation and passed:
+
+- \`npm test\` passed in 30s
+
+## Review Guidelines`);
+  });
 });
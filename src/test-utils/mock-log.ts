@@ -0,0 +1,16 @@
+/**
+ * Test helper for logs read through a mocked node:fs.
+ * The calling test file must mock node:fs with vi.fn() for statSync, openSync and readSync.
+ */
+
+import { vi } from "vitest";
+import { openSync, readSync, statSync } from "node:fs";
+
+/** Serve reads of the log from content */
+export const mockLog = (content: string) => {
+  const bytes = Buffer.from(content, "utf-8");
+  vi.mocked(statSync).mockReturnValue({ size: bytes.length } as ReturnType<typeof statSync>);
+  vi.mocked(openSync).mockReturnValue(3);
+  vi.mocked(readSync).mockImplementation(((_fd: number, buffer: Buffer, offset: number, length: number, position: number) =>
+    bytes.copy(buffer, offset, position, position + length)) as unknown as typeof readSync);
+};